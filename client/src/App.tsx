@@ -10,6 +10,7 @@ import About from "@/pages/About";
 import Services from "@/pages/Services";
 import Blog from "@/pages/Blog";
 import BlogPost from "@/pages/BlogPost";
+import Boxer from "@/pages/Boxer";
 import Contact from "@/pages/Contact";
 import Login from "@/pages/Login";
 import Register from "@/pages/Register";
@@ -24,6 +25,15 @@ import AdminCalendar from "@/pages/admin/Calendar";
 import AdminContent from "@/pages/admin/Content";
 import AdminMembers from "@/pages/admin/Members";
 import AdminBookings from "@/pages/admin/Bookings";
+import AdminKiosk from "@/pages/admin/Kiosk";
+import AdminMemberships from "@/pages/admin/Memberships";
+import AdminPromotions from "@/pages/admin/Promotions";
+import AdminGiftVouchers from "@/pages/admin/GiftVouchers";
+import AdminCashTakings from "@/pages/admin/CashTakings";
+import AdminClosures from "@/pages/admin/Closures";
+import AdminForms from "@/pages/admin/Forms";
+import AdminFightRecords from "@/pages/admin/FightRecords";
+import Kiosk from "@/pages/Kiosk";
 import VerifyEmail from "@/pages/VerifyEmail";
 import ForgotPassword from "@/pages/ForgotPassword";
 import ResetPassword from "@/pages/ResetPassword";
@@ -56,6 +66,7 @@ function Router() {
       <Route path="/terms" component={Terms} />
       <Route path="/blog" component={Blog} />
       <Route path="/blog/:slug" component={BlogPost} />
+      <Route path="/boxers/:id" component={Boxer} />
       <Route path="/contact" component={Contact} />
       <Route path="/login" component={Login} />
       <Route path="/register" component={Register} />
@@ -63,9 +74,18 @@ function Router() {
       <Route path="/admin" component={AdminDashboard} />
       <Route path="/admin/schedule" component={AdminSchedule} />
       <Route path="/admin/calendar" component={AdminCalendar} />
+      <Route path="/admin/closures" component={AdminClosures} />
+      <Route path="/admin/forms" component={AdminForms} />
       <Route path="/admin/content" component={AdminContent} />
       <Route path="/admin/members" component={AdminMembers} />
+      <Route path="/admin/fight-records" component={AdminFightRecords} />
+      <Route path="/admin/memberships" component={AdminMemberships} />
+      <Route path="/admin/promotions" component={AdminPromotions} />
+      <Route path="/admin/gift-vouchers" component={AdminGiftVouchers} />
       <Route path="/admin/bookings" component={AdminBookings} />
+      <Route path="/admin/cash-takings" component={AdminCashTakings} />
+      <Route path="/admin/kiosk" component={AdminKiosk} />
+      <Route path="/kiosk" component={Kiosk} />
       <Route path="/verify-email" component={VerifyEmail} />
       <Route path="/forgot-password" component={ForgotPassword} />
       <Route path="/reset-password" component={ResetPassword} />
@@ -0,0 +1,15 @@
+// The Shape Detection API's BarcodeDetector isn't in TypeScript's DOM types yet - just what the kiosk scanner uses
+
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+interface BarcodeDetectorOptions {
+  formats?: string[];
+}
+
+declare class BarcodeDetector {
+  constructor(options?: BarcodeDetectorOptions);
+  detect(image: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
@@ -0,0 +1,100 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { EligibilityRules } from "@shared/schema";
+
+// Who a template or class is for, as the form holds it - blank means no limit
+export interface ClassRulesForm {
+  minAge: string;
+  maxAge: string;
+  minExperienceLevel: string;
+  requiresCarded: boolean;
+  requiresMedical: boolean;
+}
+
+export const emptyClassRules: ClassRulesForm = { minAge: "", maxAge: "", minExperienceLevel: "", requiresCarded: false, requiresMedical: false };
+
+export function classRulesForm(rules: Partial<EligibilityRules>): ClassRulesForm {
+  return {
+    minAge: rules.minAge != null ? String(rules.minAge) : "",
+    maxAge: rules.maxAge != null ? String(rules.maxAge) : "",
+    minExperienceLevel: rules.minExperienceLevel || "",
+    requiresCarded: !!rules.requiresCarded,
+    requiresMedical: !!rules.requiresMedical,
+  };
+}
+
+export function ClassRulesFields({ value, onChange, idPrefix }: {
+  value: ClassRulesForm;
+  onChange: (value: ClassRulesForm) => void;
+  idPrefix: string;
+}) {
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <p className="text-sm font-medium">Who can book</p>
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-min-age`} className="text-xs">Min age</Label>
+          <Input
+            id={`${idPrefix}-min-age`}
+            type="number"
+            min={0}
+            max={100}
+            value={value.minAge}
+            onChange={(e) => onChange({ ...value, minAge: e.target.value })}
+            placeholder="Any"
+            data-testid={`${idPrefix}-input-min-age`}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-max-age`} className="text-xs">Max age</Label>
+          <Input
+            id={`${idPrefix}-max-age`}
+            type="number"
+            min={0}
+            max={100}
+            value={value.maxAge}
+            onChange={(e) => onChange({ ...value, maxAge: e.target.value })}
+            placeholder="Any"
+            data-testid={`${idPrefix}-input-max-age`}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Experience</Label>
+          <Select
+            value={value.minExperienceLevel || "any"}
+            onValueChange={(level) => onChange({ ...value, minExperienceLevel: level === "any" ? "" : level })}
+          >
+            <SelectTrigger data-testid={`${idPrefix}-select-experience`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any</SelectItem>
+              <SelectItem value="intermediate">Intermediate+</SelectItem>
+              <SelectItem value="advanced">Advanced</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex items-center justify-between">
+        <Label htmlFor={`${idPrefix}-requires-carded`} className="text-sm">Carded boxers only</Label>
+        <Switch
+          id={`${idPrefix}-requires-carded`}
+          checked={value.requiresCarded}
+          onCheckedChange={(checked) => onChange({ ...value, requiresCarded: checked })}
+          data-testid={`${idPrefix}-switch-requires-carded`}
+        />
+      </div>
+      <div className="flex items-center justify-between">
+        <Label htmlFor={`${idPrefix}-requires-medical`} className="text-sm">In-date England Boxing medical</Label>
+        <Switch
+          id={`${idPrefix}-requires-medical`}
+          checked={value.requiresMedical}
+          onCheckedChange={(checked) => onChange({ ...value, requiresMedical: checked })}
+          data-testid={`${idPrefix}-switch-requires-medical`}
+        />
+      </div>
+    </div>
+  );
+}
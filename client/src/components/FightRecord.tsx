@@ -0,0 +1,59 @@
+import { Badge } from "@/components/ui/badge";
+import { format, parseISO } from "date-fns";
+import { boutMethodLabels, type Bout, type BoutMethod, type FightRecord } from "@shared/schema";
+
+// A bout as members and the public see it - no coaches' notes
+export type PublicBout = Pick<Bout, "id" | "boutDate" | "opponentName" | "opponentClub" | "showName" | "weightClass" | "result" | "method">;
+
+const resultStyles: Record<string, { label: string; className: string }> = {
+  win: { label: "W", className: "bg-green-600 text-white" },
+  loss: { label: "L", className: "bg-destructive text-destructive-foreground" },
+  draw: { label: "D", className: "bg-muted text-foreground" },
+};
+
+export function RecordSummary({ record }: { record: FightRecord }) {
+  return (
+    <div className="grid grid-cols-4 gap-2 text-center">
+      {[
+        { label: "Bouts", value: record.bouts },
+        { label: "Won", value: record.wins },
+        { label: "Lost", value: record.losses },
+        { label: "Drawn", value: record.draws },
+      ].map((stat) => (
+        <div key={stat.label} className="rounded-md bg-muted/50 p-2">
+          <p className="text-xl font-bold text-foreground">{stat.value}</p>
+          <p className="text-xs text-muted-foreground">{stat.label}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function BoutList({ bouts }: { bouts: PublicBout[] }) {
+  return (
+    <div className="space-y-2">
+      {bouts.map((bout) => {
+        const style = resultStyles[bout.result] ?? resultStyles.draw;
+        return (
+          <div key={bout.id} className="flex items-start gap-3 rounded-md border p-3" data-testid={`row-bout-${bout.id}`}>
+            <Badge className={`shrink-0 ${style.className}`}>{style.label}</Badge>
+            <div className="min-w-0 flex-1">
+              <p className="font-medium text-foreground">
+                vs {bout.opponentName}
+                {bout.opponentClub && <span className="font-normal text-muted-foreground"> ({bout.opponentClub})</span>}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {[
+                  format(parseISO(bout.boutDate), "d MMM yyyy"),
+                  bout.showName,
+                  bout.weightClass,
+                  boutMethodLabels[bout.method as BoutMethod] ?? bout.method,
+                ].filter(Boolean).join(" · ")}
+              </p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Loader2, CreditCard, AlertCircle } from "lucide-react";
+import type { SavedCard } from "@shared/schema";
 
 declare global {
   interface Window {
@@ -11,13 +14,17 @@ declare global {
 
 interface SquarePaymentProps {
   amount: number;
-  onPaymentSuccess: (paymentToken: string, verificationToken?: string) => void;
+  onPaymentSuccess: (paymentToken: string, verificationToken?: string, saveCard?: boolean) => void;
   onPaymentError: (error: string) => void;
   onCancel: () => void;
   isProcessing: boolean;
+  // Cards the member has on file, charged through onSavedCardPayment instead of the card form
+  savedCards?: SavedCard[];
+  onSavedCardPayment?: (savedCardId: string, verificationToken?: string) => void;
+  offerSaveCard?: boolean;
 }
 
-export function SquarePayment({ amount, onPaymentSuccess, onPaymentError, onCancel, isProcessing }: SquarePaymentProps) {
+export function SquarePayment({ amount, onPaymentSuccess, onPaymentError, onCancel, isProcessing, savedCards, onSavedCardPayment, offerSaveCard }: SquarePaymentProps) {
   const [card, setCard] = useState<any>(null);
   const [applePay, setApplePay] = useState<any>(null);
   const [googlePay, setGooglePay] = useState<any>(null);
@@ -25,6 +32,8 @@ export function SquarePayment({ amount, onPaymentSuccess, onPaymentError, onCanc
   const [error, setError] = useState<string | null>(null);
   const [applePayAvailable, setApplePayAvailable] = useState(false);
   const [googlePayAvailable, setGooglePayAvailable] = useState(false);
+  const [fakeProvider, setFakeProvider] = useState(false);
+  const [saveCard, setSaveCard] = useState(false);
   const cardContainerRef = useRef<HTMLDivElement>(null);
   const applePayContainerRef = useRef<HTMLDivElement>(null);
   const googlePayContainerRef = useRef<HTMLDivElement>(null);
@@ -55,6 +64,14 @@ export function SquarePayment({ amount, onPaymentSuccess, onPaymentError, onCanc
           return;
         }
 
+        if (config.provider === "fake") {
+          if (mounted) {
+            setFakeProvider(true);
+            setLoading(false);
+          }
+          return;
+        }
+
         locationIdRef.current = config.locationId;
 
         if (!window.Square) {
@@ -172,7 +189,8 @@ export function SquarePayment({ amount, onPaymentSuccess, onPaymentError, onCanc
     };
   }, [amount]);
 
-  const verifyBuyer = async (token: string): Promise<string | undefined> => {
+  // Strong customer authentication - Square asks the bank whether a 3D Secure challenge is needed
+  const verifyBuyer = async (token: string, intent: 'CHARGE' | 'CHARGE_AND_STORE' = 'CHARGE'): Promise<string | undefined> => {
     const payments = paymentsRef.current;
     if (!payments) return undefined;
 
@@ -181,7 +199,7 @@ export function SquarePayment({ amount, onPaymentSuccess, onPaymentError, onCanc
         amount: (amount / 100).toFixed(2),
         billingContact: {},
         currencyCode: 'GBP',
-        intent: 'CHARGE',
+        intent,
       };
 
       const verificationResults = await payments.verifyBuyer(token, verificationDetails);
@@ -202,8 +220,9 @@ export function SquarePayment({ amount, onPaymentSuccess, onPaymentError, onCanc
       const result = await card.tokenize();
       
       if (result.status === "OK") {
-        const verificationToken = await verifyBuyer(result.token);
-        onPaymentSuccess(result.token, verificationToken);
+        const storeCard = !!offerSaveCard && saveCard;
+        const verificationToken = await verifyBuyer(result.token, storeCard ? 'CHARGE_AND_STORE' : 'CHARGE');
+        onPaymentSuccess(result.token, verificationToken, storeCard);
       } else {
         const errorMessage = result.errors?.[0]?.message || "Payment failed";
         onPaymentError(errorMessage);
@@ -213,6 +232,12 @@ export function SquarePayment({ amount, onPaymentSuccess, onPaymentError, onCanc
     }
   };
 
+  const handleSavedCardPayment = async (savedCard: SavedCard) => {
+    if (!onSavedCardPayment) return;
+    const verificationToken = await verifyBuyer(savedCard.squareCardId);
+    onSavedCardPayment(savedCard.id, verificationToken);
+  };
+
   const handleApplePay = async () => {
     if (!applePay) return;
 
@@ -261,6 +286,20 @@ export function SquarePayment({ amount, onPaymentSuccess, onPaymentError, onCanc
     );
   }
 
+  if (fakeProvider) {
+    return (
+      <FakeCardForm
+        amount={amount}
+        onPaymentSuccess={onPaymentSuccess}
+        onCancel={onCancel}
+        isProcessing={isProcessing}
+        savedCards={savedCards}
+        onSavedCardPayment={onSavedCardPayment}
+        offerSaveCard={offerSaveCard}
+      />
+    );
+  }
+
   return (
     <div className="space-y-4" data-testid="square-payment-form">
       <div className="text-center mb-4">
@@ -275,6 +314,10 @@ export function SquarePayment({ amount, onPaymentSuccess, onPaymentError, onCanc
         </div>
       )}
 
+      {!loading && onSavedCardPayment && (
+        <SavedCardOptions cards={savedCards} onSelect={handleSavedCardPayment} isProcessing={isProcessing} />
+      )}
+
       {!loading && (applePayAvailable || googlePayAvailable) && (
         <div className="space-y-3">
           <p className="text-sm text-muted-foreground text-center font-medium">Express checkout</p>
@@ -321,6 +364,10 @@ export function SquarePayment({ amount, onPaymentSuccess, onPaymentError, onCanc
       
       {!loading && (
         <>
+          {offerSaveCard && (
+            <SaveCardCheckbox checked={saveCard} onCheckedChange={setSaveCard} />
+          )}
+
           <p className="text-xs text-muted-foreground text-center">
             Secure payment powered by Square. We accept all major cards.
           </p>
@@ -359,3 +406,127 @@ export function SquarePayment({ amount, onPaymentSuccess, onPaymentError, onCanc
     </div>
   );
 }
+
+// Development stand-in for the Square card form when the server runs PAYMENT_PROVIDER=fake.
+// Each outcome maps to a token the fake provider understands.
+const fakeOutcomes = {
+  approve: { label: "Approve", token: "fake:approve", verificationToken: undefined },
+  decline: { label: "Decline", token: "fake:decline", verificationToken: undefined },
+  verify: { label: "Require verification (passes)", token: "fake:verify", verificationToken: "fake:verified" },
+  verifyFails: { label: "Require verification (fails)", token: "fake:verify", verificationToken: undefined },
+};
+
+function FakeCardForm({ amount, onPaymentSuccess, onCancel, isProcessing, savedCards, onSavedCardPayment, offerSaveCard }: Omit<SquarePaymentProps, "onPaymentError">) {
+  const [outcome, setOutcome] = useState<keyof typeof fakeOutcomes>("approve");
+  const [saveCard, setSaveCard] = useState(false);
+
+  return (
+    <div className="space-y-4" data-testid="fake-payment-form">
+      <div className="text-center mb-4">
+        <p className="text-2xl font-bold text-foreground">£{(amount / 100).toFixed(2)}</p>
+        <p className="text-sm text-muted-foreground">Session fee</p>
+      </div>
+
+      {onSavedCardPayment && (
+        <SavedCardOptions cards={savedCards} onSelect={(card) => onSavedCardPayment(card.id)} isProcessing={isProcessing} />
+      )}
+
+      <div className="p-3 border border-dashed rounded-md space-y-2">
+        <p className="text-xs font-medium text-amber-600">Test payments - no real card is charged</p>
+        <Select value={outcome} onValueChange={(value) => setOutcome(value as keyof typeof fakeOutcomes)}>
+          <SelectTrigger data-testid="select-fake-outcome">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(fakeOutcomes).map(([key, option]) => (
+              <SelectItem key={key} value={key}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {offerSaveCard && (
+        <SaveCardCheckbox checked={saveCard} onCheckedChange={setSaveCard} />
+      )}
+
+      <div className="flex gap-3">
+        <Button
+          variant="outline"
+          onClick={onCancel}
+          disabled={isProcessing}
+          className="flex-1"
+          data-testid="button-payment-cancel"
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={() => onPaymentSuccess(fakeOutcomes[outcome].token, fakeOutcomes[outcome].verificationToken, !!offerSaveCard && saveCard)}
+          disabled={isProcessing}
+          className="flex-1"
+          data-testid="button-payment-submit"
+        >
+          {isProcessing ? (
+            <>
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              Processing...
+            </>
+          ) : (
+            <>
+              <CreditCard className="h-4 w-4 mr-2" />
+              Pay £{(amount / 100).toFixed(2)}
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function SavedCardOptions({ cards, onSelect, isProcessing }: { cards?: SavedCard[]; onSelect: (card: SavedCard) => void; isProcessing: boolean }) {
+  if (!cards || cards.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground text-center font-medium">Your saved cards</p>
+      {cards.map((card) => (
+        <Button
+          key={card.id}
+          variant="outline"
+          onClick={() => onSelect(card)}
+          disabled={isProcessing}
+          className="w-full justify-start"
+          data-testid={`button-pay-saved-card-${card.id}`}
+        >
+          <CreditCard className="h-4 w-4 mr-2" />
+          {card.cardBrand || "Card"} •••• {card.last4 || "????"}
+          {card.expMonth && card.expYear && (
+            <span className="ml-auto text-xs text-muted-foreground">
+              {String(card.expMonth).padStart(2, "0")}/{String(card.expYear).slice(-2)}
+            </span>
+          )}
+        </Button>
+      ))}
+      <div className="relative my-4">
+        <div className="absolute inset-0 flex items-center">
+          <div className="w-full border-t" />
+        </div>
+        <div className="relative flex justify-center text-xs uppercase">
+          <span className="bg-background px-2 text-muted-foreground">Or use a new card</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SaveCardCheckbox({ checked, onCheckedChange }: { checked: boolean; onCheckedChange: (checked: boolean) => void }) {
+  return (
+    <label className="flex items-center gap-2 text-sm text-muted-foreground">
+      <Checkbox
+        checked={checked}
+        onCheckedChange={(value) => onCheckedChange(value === true)}
+        data-testid="checkbox-save-card"
+      />
+      Save this card for next time
+    </label>
+  );
+}
@@ -18,7 +18,7 @@ import {
   SidebarFooter,
   useSidebar,
 } from "@/components/ui/sidebar";
-import { LayoutDashboard, Calendar, FileText, LogOut, ExternalLink, Users, ClipboardList, Clock } from "lucide-react";
+import { LayoutDashboard, Calendar, FileText, LogOut, ExternalLink, Users, ClipboardList, Clock, Tablet, Award, Tag, Gift, Banknote, CalendarOff, FileSignature, Trophy } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -27,8 +27,16 @@ const adminNavItems = [
   { href: "/admin", label: "Dashboard", icon: LayoutDashboard },
   { href: "/admin/schedule", label: "Schedule", icon: Clock },
   { href: "/admin/calendar", label: "Calendar", icon: Calendar },
+  { href: "/admin/closures", label: "Closures", icon: CalendarOff },
   { href: "/admin/members", label: "Members", icon: Users },
+  { href: "/admin/forms", label: "Forms", icon: FileSignature },
+  { href: "/admin/fight-records", label: "Fight Records", icon: Trophy },
+  { href: "/admin/memberships", label: "Memberships", icon: Award },
+  { href: "/admin/promotions", label: "Promotions", icon: Tag },
+  { href: "/admin/gift-vouchers", label: "Gift Vouchers", icon: Gift },
   { href: "/admin/bookings", label: "Bookings", icon: ClipboardList },
+  { href: "/admin/cash-takings", label: "Cash Takings", icon: Banknote },
+  { href: "/admin/kiosk", label: "Kiosk", icon: Tablet },
   { href: "/admin/content", label: "Content", icon: FileText },
 ];
 
@@ -5,14 +5,19 @@ import { BreadcrumbSchema } from "@/components/BreadcrumbSchema";
 import { Card } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Link } from "wouter";
-import { Calendar, Clock, ArrowRight } from "lucide-react";
-import type { BlogPost, SiteSettings } from "@shared/schema";
+import { Calendar, Clock, ArrowRight, Trophy } from "lucide-react";
+import type { BlogPost, FightRecord, SiteSettings } from "@shared/schema";
 
 export default function Blog() {
   const { data: posts, isLoading: postsLoading } = useQuery<BlogPost[]>({
     queryKey: ["/api/blog"],
   });
 
+  // Boxers who've opted in to a public fight record
+  const { data: boxers } = useQuery<{ id: string; name: string; record: FightRecord }[]>({
+    queryKey: ["/api/boxers"],
+  });
+
   const { data: settingsData, isLoading: settingsLoading } = useQuery<{ content: SiteSettings }>({
     queryKey: ["/api/content", "settings"],
   });
@@ -118,6 +123,33 @@ export default function Blog() {
               ))}
             </div>
           )}
+
+          {boxers && boxers.length > 0 && (
+            <div className="mt-16" data-testid="section-our-boxers">
+              <h2 className="text-2xl font-bold text-foreground">Our Boxers</h2>
+              <p className="mt-2 text-muted-foreground">Fight records for Mill Town ABC's competitive boxers.</p>
+              <div className="mt-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                {boxers.map((boxer) => (
+                  <Link key={boxer.id} href={`/boxers/${boxer.id}`} data-testid={`link-boxer-${boxer.id}`}>
+                    <Card className="group p-4 hover-elevate cursor-pointer">
+                      <div className="flex items-center gap-3">
+                        <div className="rounded-full bg-primary/10 p-2">
+                          <Trophy className="h-5 w-5 text-primary" />
+                        </div>
+                        <div className="min-w-0 flex-1">
+                          <p className="font-semibold text-foreground group-hover:text-primary transition-colors">{boxer.name}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {boxer.record.wins}W {boxer.record.losses}L {boxer.record.draws}D
+                          </p>
+                        </div>
+                        <ArrowRight className="h-4 w-4 text-primary transition-transform group-hover:translate-x-1" />
+                      </div>
+                    </Card>
+                  </Link>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       </section>
     </PublicLayout>
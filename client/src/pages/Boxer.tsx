@@ -0,0 +1,109 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { PublicLayout } from "@/components/layout/PublicLayout";
+import { SEOHead } from "@/components/SEOHead";
+import { BreadcrumbSchema } from "@/components/BreadcrumbSchema";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Link } from "wouter";
+import { ArrowLeft } from "lucide-react";
+import { RecordSummary, BoutList, type PublicBout } from "@/components/FightRecord";
+import type { FightRecord, SiteSettings } from "@shared/schema";
+
+interface BoxerProfile {
+  id: string;
+  name: string;
+  record: FightRecord;
+  bouts: PublicBout[];
+}
+
+export default function Boxer() {
+  const { id } = useParams<{ id: string }>();
+
+  const { data: boxer, isLoading: boxerLoading } = useQuery<BoxerProfile>({
+    queryKey: ["/api/boxers", id],
+    enabled: !!id,
+  });
+
+  const { data: settingsData, isLoading: settingsLoading } = useQuery<{ content: SiteSettings }>({
+    queryKey: ["/api/content", "settings"],
+  });
+
+  const settings = settingsData?.content;
+
+  if (boxerLoading || settingsLoading) {
+    return (
+      <PublicLayout settings={settings}>
+        <div className="py-16">
+          <div className="mx-auto max-w-3xl px-4 sm:px-6 lg:px-8">
+            <Skeleton className="h-8 w-32 mb-8" />
+            <Skeleton className="h-12 w-2/3 mb-8" />
+            <Skeleton className="h-20 w-full mb-8" />
+            <div className="space-y-2">
+              <Skeleton className="h-16 w-full" />
+              <Skeleton className="h-16 w-full" />
+            </div>
+          </div>
+        </div>
+      </PublicLayout>
+    );
+  }
+
+  if (!boxer) {
+    return (
+      <PublicLayout settings={settings}>
+        <div className="py-16">
+          <div className="mx-auto max-w-3xl px-4 text-center sm:px-6 lg:px-8">
+            <h1 className="text-2xl font-bold text-foreground">Boxer Not Found</h1>
+            <p className="mt-4 text-muted-foreground">
+              This boxer's record isn't public.
+            </p>
+            <Button className="mt-8" asChild>
+              <Link href="/blog">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Blog
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </PublicLayout>
+    );
+  }
+
+  const { wins, losses, draws } = boxer.record;
+
+  return (
+    <PublicLayout settings={settings}>
+      <SEOHead
+        title={`${boxer.name} - Fight Record - Mill Town ABC`}
+        description={`${boxer.name} boxes for Mill Town ABC in Glossop. Record: ${wins} won, ${losses} lost, ${draws} drawn.`}
+        canonicalUrl={`https://milltownabc.co.uk/boxers/${boxer.id}`}
+      />
+      <BreadcrumbSchema items={[{ name: "Home", url: "/" }, { name: "Blog", url: "/blog" }, { name: boxer.name, url: `/boxers/${boxer.id}` }]} />
+      <section className="py-16 lg:py-24">
+        <div className="mx-auto max-w-3xl px-4 sm:px-6 lg:px-8">
+          <Button variant="ghost" className="mb-8" asChild data-testid="button-back-to-blog">
+            <Link href="/blog">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Blog
+            </Link>
+          </Button>
+
+          <header>
+            <span className="text-sm font-semibold tracking-wider text-primary uppercase">Mill Town ABC</span>
+            <h1 className="mt-2 text-3xl font-bold tracking-tight text-foreground sm:text-4xl" data-testid="text-boxer-name">
+              {boxer.name}
+            </h1>
+          </header>
+
+          <div className="mt-8">
+            <RecordSummary record={boxer.record} />
+          </div>
+
+          <h2 className="mt-10 mb-4 text-xl font-semibold text-foreground">Bouts</h2>
+          <BoutList bouts={boxer.bouts} />
+        </div>
+      </section>
+    </PublicLayout>
+  );
+}
@@ -9,13 +9,52 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SquarePayment } from "@/components/SquarePayment";
+import { RecordSummary, BoutList, type PublicBout } from "@/components/FightRecord";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Calendar, Clock, User, LogOut, X, Loader2, Trash2, AlertTriangle } from "lucide-react";
+import { Calendar, Clock, User, LogOut, X, Loader2, Trash2, AlertTriangle, Hourglass, QrCode, Ticket, Award, Gift, CreditCard, FileText, Download, Users, UserPlus, FileSignature, CheckCircle, Trophy } from "lucide-react";
 import { format, parseISO, isPast } from "date-fns";
-import type { Booking, BoxingClass } from "@shared/schema";
+import { isCardExpired, type Booking, type BoxingClass, type WaitlistEntry, type CreditPack, type ClassPackOffer, type MembershipPlan, type Subscription, type GiftVoucher, type SavedCard, type FightRecord, type SiteSettings } from "@shared/schema";
+import { DEFAULT_CLUB_TIMEZONE, zonedDateTime } from "@shared/clubTime";
 
-type BookingWithClass = Booking & { class?: BoxingClass; isFreeSession?: boolean; price?: string };
+type BookingWithClass = Booking & { class?: BoxingClass; isFreeSession?: boolean; price?: string; memberName?: string };
+type WaitlistEntryWithClass = WaitlistEntry & { class?: BoxingClass; position: number | null };
+
+interface MembershipData {
+  subscription: Subscription;
+  plan: MembershipPlan;
+  sessionsUsed: number;
+  sessionsLeft: number | null;
+  covers: boolean;
+}
+
+const VOUCHER_AMOUNTS = ["10", "25", "50"];
+
+interface VoucherFormData {
+  amount: string;
+  recipientName: string;
+  recipientEmail: string;
+  message: string;
+}
+
+const emptyVoucherForm: VoucherFormData = { amount: "25", recipientName: "", recipientEmail: "", message: "" };
+
+interface ReceiptItem {
+  kind: string;
+  sourceId: string;
+  description: string;
+  classDate: string | null;
+  amount: string;
+  paymentMethod: string;
+  paidAt: string | null;
+  receiptNumber: string | null;
+}
 
 interface MemberData {
   id: string;
@@ -25,11 +64,56 @@ interface MemberData {
   experienceLevel: string;
 }
 
+interface DependantData {
+  id: string;
+  name: string;
+  age: number | null;
+  experienceLevel: string;
+  guardianConsentAt: string | null;
+}
+
+const emptyJuniorForm = { name: "", age: "", experienceLevel: "beginner", consent: false };
+
+interface MemberForm {
+  id: string;
+  title: string;
+  body: string;
+  questions: string[];
+  allowDecline: boolean;
+  version: number;
+  signature: { version: number; agreed: boolean; signatureName: string; signedAt: string } | null;
+  outstanding: boolean;
+}
+
+interface BoxerFightRecord {
+  memberId: string;
+  memberName: string;
+  publicProfile: boolean;
+  record: FightRecord;
+  bouts: PublicBout[];
+}
+
+interface BoxerForms {
+  memberId: string;
+  memberName: string;
+  forms: MemberForm[];
+}
+
 export default function Dashboard() {
   const { toast } = useToast();
   const [, setLocation] = useLocation();
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deletePassword, setDeletePassword] = useState("");
+  const [packToBuy, setPackToBuy] = useState<ClassPackOffer | null>(null);
+  const [isBuyingPack, setIsBuyingPack] = useState(false);
+  const [planToJoin, setPlanToJoin] = useState<MembershipPlan | null>(null);
+  const [updatingCard, setUpdatingCard] = useState(false);
+  const [isSavingMembership, setIsSavingMembership] = useState(false);
+  const [voucherDialogOpen, setVoucherDialogOpen] = useState(false);
+  const [voucherForm, setVoucherForm] = useState<VoucherFormData>(emptyVoucherForm);
+  const [voucherStep, setVoucherStep] = useState<"details" | "payment">("details");
+  const [isBuyingVoucher, setIsBuyingVoucher] = useState(false);
+  const [showAllReceipts, setShowAllReceipts] = useState(false);
 
   const { data: member, isLoading: memberLoading, isError } = useQuery<MemberData>({
     queryKey: ["/api/members/me"],
@@ -41,6 +125,63 @@ export default function Dashboard() {
     enabled: !!member,
   });
 
+  const { data: memberCard } = useQuery<{ name: string; memberSince: string | null; qrCode: string }>({
+    queryKey: ["/api/members/me/card"],
+    enabled: !!member,
+  });
+
+  const { data: waitlist } = useQuery<WaitlistEntryWithClass[]>({
+    queryKey: ["/api/members/me/waitlist"],
+    enabled: !!member,
+  });
+
+  const { data: dependants } = useQuery<DependantData[]>({
+    queryKey: ["/api/members/me/dependants"],
+    enabled: !!member,
+  });
+
+  const { data: credits } = useQuery<{ balance: number; packs: CreditPack[] }>({
+    queryKey: ["/api/members/me/credits"],
+    enabled: !!member,
+  });
+
+  const { data: giftVouchers } = useQuery<GiftVoucher[]>({
+    queryKey: ["/api/members/me/gift-vouchers"],
+    enabled: !!member,
+  });
+
+  const { data: savedCards } = useQuery<SavedCard[]>({
+    queryKey: ["/api/members/me/cards"],
+    enabled: !!member,
+  });
+
+  const { data: settingsData } = useQuery<{ content: SiteSettings | null }>({
+    queryKey: ["/api/content", "settings"],
+  });
+  // Class times are on the club's clock, wherever the member happens to be
+  const clubTimezone = settingsData?.content?.timezone || DEFAULT_CLUB_TIMEZONE;
+  const hasClassStarted = (c: BoxingClass) => isPast(zonedDateTime(c.date, c.time, clubTimezone));
+
+  // New bookings and payments come from other pages, so don't hold on to a stale list
+  const { data: receipts } = useQuery<ReceiptItem[]>({
+    queryKey: ["/api/members/me/receipts"],
+    enabled: !!member,
+    staleTime: 0,
+  });
+
+  const { data: packOffers } = useQuery<ClassPackOffer[]>({
+    queryKey: ["/api/class-packs"],
+  });
+
+  const { data: membership } = useQuery<MembershipData | null>({
+    queryKey: ["/api/members/me/subscription"],
+    enabled: !!member,
+  });
+
+  const { data: plans } = useQuery<MembershipPlan[]>({
+    queryKey: ["/api/membership-plans"],
+  });
+
   const logoutMutation = useMutation({
     mutationFn: async () => {
       await apiRequest("POST", "/api/members/logout");
@@ -54,18 +195,54 @@ export default function Dashboard() {
 
   const cancelMutation = useMutation({
     mutationFn: async (bookingId: string) => {
-      await apiRequest("DELETE", `/api/bookings/${bookingId}`);
+      const res = await apiRequest("DELETE", `/api/bookings/${bookingId}`);
+      return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { refundStatus?: string | null; refundAmount?: string }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/members/me/bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/credits"] });
       queryClient.invalidateQueries({ queryKey: ["/api/classes"] });
-      toast({ title: "Booking cancelled", description: "Your booking has been cancelled." });
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/dependants"] });
+      const description = data.refundStatus === "refunded"
+        ? `£${data.refundAmount} has been refunded to your card.`
+        : data.refundStatus === "not_eligible"
+          ? "Cancelled within 1 hour of the session, so no refund is due."
+          : data.refundStatus === "failed"
+            ? "We couldn't refund your card automatically. The club has been notified and will sort it out."
+            : "Your booking has been cancelled.";
+      toast({ title: "Booking cancelled", description });
     },
     onError: () => {
       toast({ title: "Error", description: "Failed to cancel booking.", variant: "destructive" });
     },
   });
 
+  const leaveWaitlistMutation = useMutation({
+    mutationFn: async (entry: WaitlistEntryWithClass) => {
+      await apiRequest("DELETE", `/api/classes/${entry.classId}/waitlist`, { forMemberId: entry.memberId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/waitlist"] });
+      toast({ title: "Left waitlist", description: "You've been removed from the waitlist." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to leave waitlist.", variant: "destructive" });
+    },
+  });
+
+  const removeCardMutation = useMutation({
+    mutationFn: async (cardId: string) => {
+      await apiRequest("DELETE", `/api/members/me/cards/${cardId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/cards"] });
+      toast({ title: "Card removed", description: "That card won't be offered when you book." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to remove card.", variant: "destructive" });
+    },
+  });
+
   const deleteAccountMutation = useMutation({
     mutationFn: async (password: string) => {
       await apiRequest("DELETE", "/api/members/me", { password });
@@ -80,6 +257,86 @@ export default function Dashboard() {
     },
   });
 
+  const handlePackPayment = async (paymentToken: string, verificationToken?: string) => {
+    if (!packToBuy) return;
+    setIsBuyingPack(true);
+    try {
+      const res = await apiRequest("POST", "/api/members/me/credit-packs", {
+        packId: packToBuy.id,
+        paymentToken,
+        verificationToken,
+      });
+      const data = await res.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/credits"] });
+      toast({ title: "Class pack bought!", description: data.message });
+      setPackToBuy(null);
+    } catch (error: any) {
+      toast({ title: "Purchase failed", description: error.message, variant: "destructive" });
+    } finally {
+      setIsBuyingPack(false);
+    }
+  };
+
+  const openVoucherDialog = () => {
+    setVoucherForm(emptyVoucherForm);
+    setVoucherStep("details");
+    setVoucherDialogOpen(true);
+  };
+
+  const handleVoucherPayment = async (paymentToken: string, verificationToken?: string) => {
+    setIsBuyingVoucher(true);
+    try {
+      const res = await apiRequest("POST", "/api/gift-vouchers", {
+        ...voucherForm,
+        message: voucherForm.message || null,
+        paymentToken,
+        verificationToken,
+      });
+      const data = await res.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/gift-vouchers"] });
+      toast({ title: "Gift voucher sent!", description: data.message });
+      setVoucherDialogOpen(false);
+    } catch (error: any) {
+      toast({ title: "Purchase failed", description: error.message, variant: "destructive" });
+    } finally {
+      setIsBuyingVoucher(false);
+    }
+  };
+
+  const handleMembershipPayment = async (paymentToken: string, verificationToken?: string) => {
+    setIsSavingMembership(true);
+    try {
+      const res = updatingCard
+        ? await apiRequest("PUT", "/api/members/me/subscription/card", { paymentToken, verificationToken })
+        : await apiRequest("POST", "/api/members/me/subscription", { planId: planToJoin?.id, paymentToken, verificationToken });
+      const data = await res.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/subscription"] });
+      toast({ title: updatingCard ? "Card updated" : "Membership started!", description: data.message });
+      setPlanToJoin(null);
+      setUpdatingCard(false);
+    } catch (error: any) {
+      toast({ title: "Payment failed", description: error.message, variant: "destructive" });
+    } finally {
+      setIsSavingMembership(false);
+    }
+  };
+
+  const cancelMembershipMutation = useMutation({
+    mutationFn: async (resume: boolean) => {
+      await apiRequest("POST", "/api/members/me/subscription/cancel", { resume });
+    },
+    onSuccess: (_data, resume) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/subscription"] });
+      toast({
+        title: resume ? "Membership continued" : "Membership cancelled",
+        description: resume ? "Your membership will renew as normal." : "You can keep training until the end of the period you've paid for.",
+      });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to update membership.", variant: "destructive" });
+    },
+  });
+
   const handleDeleteAccount = () => {
     if (!deletePassword) {
       toast({ title: "Error", description: "Please enter your password to confirm.", variant: "destructive" });
@@ -109,11 +366,11 @@ export default function Dashboard() {
   }
 
   const upcomingBookings = bookings?.filter(
-    b => b.status !== 'cancelled' && b.class && !isPast(parseISO(`${b.class.date}T${b.class.time}`))
+    b => b.status !== 'cancelled' && b.class && !hasClassStarted(b.class)
   ) || [];
 
   const pastBookings = bookings?.filter(
-    b => b.status !== 'cancelled' && b.class && isPast(parseISO(`${b.class.date}T${b.class.time}`))
+    b => b.status !== 'cancelled' && b.class && hasClassStarted(b.class)
   ) || [];
 
   const formatDate = (dateStr: string) => {
@@ -168,6 +425,276 @@ export default function Dashboard() {
             </div>
           </Card>
 
+          <FormsCard memberId={member?.id} />
+
+          <JuniorsCard />
+
+          <FightRecordCard memberId={member?.id} />
+
+          {/* Membership Card */}
+          <Card className="p-6" data-testid="card-membership">
+            <div className="flex flex-col gap-6 sm:flex-row sm:items-center">
+              <div className="flex-1">
+                <div className="flex items-center gap-2">
+                  <QrCode className="h-5 w-5 text-primary" />
+                  <h2 className="text-lg font-semibold text-foreground">Membership Card</h2>
+                </div>
+                <p className="mt-2 text-sm text-muted-foreground">
+                  Scan this at the kiosk by the door to check in for your class. No booking? The kiosk can add you as a walk-in.
+                </p>
+                {memberCard?.memberSince && (
+                  <p className="mt-2 text-xs text-muted-foreground">
+                    Member since {format(new Date(memberCard.memberSince), "MMMM yyyy")}
+                  </p>
+                )}
+              </div>
+              <div className="mx-auto sm:mx-0 rounded-lg bg-white p-2 border">
+                {memberCard ? (
+                  <img
+                    src={memberCard.qrCode}
+                    alt="Membership QR code"
+                    className="h-40 w-40"
+                    data-testid="img-membership-qr"
+                  />
+                ) : (
+                  <Skeleton className="h-40 w-40" />
+                )}
+              </div>
+            </div>
+          </Card>
+
+          {/* Membership */}
+          {(membership || (plans && plans.length > 0)) && (
+            <Card className="p-6" data-testid="card-membership-plan">
+              <div className="flex items-center gap-2">
+                <Award className="h-5 w-5 text-primary" />
+                <h2 className="text-lg font-semibold text-foreground">Membership</h2>
+              </div>
+              {membership ? (
+                <div className="mt-3 space-y-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium text-foreground">{membership.plan.name}</span>
+                    <Badge
+                      variant={membership.subscription.status === "active" ? "default" : "outline"}
+                      className={membership.subscription.status === "active" ? "bg-green-600" : "border-amber-500 text-amber-600"}
+                      data-testid="badge-membership-status"
+                    >
+                      {membership.subscription.status === "past_due" ? "Payment due" : membership.subscription.status}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {membership.sessionsLeft === null
+                      ? "Unlimited sessions"
+                      : `${membership.sessionsLeft} of ${membership.plan.includedSessions} sessions left this ${membership.plan.interval}`}
+                    {membership.subscription.status !== "suspended" && (
+                      <> · {membership.subscription.cancelAtPeriodEnd ? "ends" : "renews"} {format(new Date(membership.subscription.currentPeriodEnd), "d MMM yyyy")}</>
+                    )}
+                  </p>
+                  {membership.subscription.status === "past_due" && membership.subscription.graceEndsAt && (
+                    <p className="text-sm text-amber-600">
+                      We couldn't take your last payment. Update your card before {format(new Date(membership.subscription.graceEndsAt), "d MMM")} to keep your membership.
+                    </p>
+                  )}
+                  {membership.subscription.status === "suspended" && (
+                    <p className="text-sm text-amber-600">Your membership is suspended. Add a new card to restart it.</p>
+                  )}
+                  {membership.subscription.cardLast4 && (
+                    <p className="text-xs text-muted-foreground">
+                      {membership.subscription.cardBrand || "Card"} ending {membership.subscription.cardLast4}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setUpdatingCard(true)} data-testid="button-update-membership-card">
+                      Update Card
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => cancelMembershipMutation.mutate(membership.subscription.cancelAtPeriodEnd === true)}
+                      disabled={cancelMembershipMutation.isPending}
+                      data-testid="button-cancel-membership"
+                    >
+                      {membership.subscription.cancelAtPeriodEnd ? "Keep Membership" : "Cancel Membership"}
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="mt-3 space-y-3">
+                  <p className="text-sm text-muted-foreground">Train regularly? A membership covers your sessions each month - no paying per class.</p>
+                  {plans?.map((plan) => (
+                    <div key={plan.id} className="flex items-center justify-between gap-3 rounded-lg bg-muted/50 p-3" data-testid={`row-plan-${plan.id}`}>
+                      <div>
+                        <p className="font-medium text-foreground">{plan.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {plan.includedSessions ? `${plan.includedSessions} sessions` : "Unlimited sessions"} per {plan.interval}
+                        </p>
+                      </div>
+                      <Button size="sm" onClick={() => setPlanToJoin(plan)} data-testid={`button-join-plan-${plan.id}`}>
+                        £{plan.price}/{plan.interval}
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Card>
+          )}
+
+          {/* Session Credits */}
+          {((credits && credits.balance > 0) || (packOffers && packOffers.length > 0)) && (
+            <Card className="p-6" data-testid="card-credits">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-2">
+                  <Ticket className="h-5 w-5 text-primary" />
+                  <h2 className="text-lg font-semibold text-foreground">Session Credits</h2>
+                </div>
+                <span className="text-2xl font-bold text-foreground" data-testid="text-credit-balance">{credits?.balance ?? 0}</span>
+              </div>
+              <p className="mt-2 text-sm text-muted-foreground">
+                Credits are used automatically when you book. Cancel a booking and the credit comes back.
+              </p>
+
+              {credits?.packs.some(p => (p.creditsRemaining || 0) > 0) && (
+                <div className="mt-4 space-y-2">
+                  {credits.packs.filter(p => (p.creditsRemaining || 0) > 0).map((pack) => {
+                    const expired = !!pack.expiresAt && isPast(new Date(pack.expiresAt));
+                    return (
+                      <div key={pack.id} className="flex items-center justify-between rounded-lg bg-muted/50 p-3 text-sm" data-testid={`row-credit-pack-${pack.id}`}>
+                        <span className="font-medium">{pack.name}</span>
+                        <span className={expired ? "text-muted-foreground line-through" : "text-muted-foreground"}>
+                          {pack.creditsRemaining} left
+                          {pack.expiresAt && ` · ${expired ? "expired" : "expires"} ${format(new Date(pack.expiresAt), "d MMM yyyy")}`}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {packOffers && packOffers.length > 0 && (
+                <div className="mt-4 flex flex-wrap gap-2">
+                  {packOffers.map((offer) => (
+                    <Button key={offer.id} variant="outline" onClick={() => setPackToBuy(offer)} data-testid={`button-buy-pack-${offer.id}`}>
+                      Buy {offer.name} - £{offer.price}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </Card>
+          )}
+
+          {/* Gift Vouchers */}
+          <Card className="p-6" data-testid="card-gift-vouchers">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <Gift className="h-5 w-5 text-primary" />
+                <h2 className="text-lg font-semibold text-foreground">Gift Vouchers</h2>
+              </div>
+              <Button variant="outline" size="sm" onClick={openVoucherDialog} data-testid="button-buy-voucher">
+                Buy a Voucher
+              </Button>
+            </div>
+            <p className="mt-2 text-sm text-muted-foreground">
+              Give someone boxing sessions. We email them a code they can spend on any class.
+            </p>
+
+            {giftVouchers && giftVouchers.length > 0 && (
+              <div className="mt-4 space-y-2">
+                {giftVouchers.map((voucher) => (
+                  <div key={voucher.id} className="flex items-center justify-between rounded-lg bg-muted/50 p-3 text-sm" data-testid={`row-gift-voucher-${voucher.id}`}>
+                    <span>
+                      <span className="font-medium">{voucher.recipientName}</span>
+                      <span className="text-muted-foreground"> · {voucher.code}</span>
+                    </span>
+                    <span className={voucher.status === "voided" ? "text-muted-foreground line-through" : "text-muted-foreground"}>
+                      £{voucher.balance} of £{voucher.amount} left
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+
+          {/* Saved Cards */}
+          <Card className="p-6" data-testid="card-saved-cards">
+            <div className="flex items-center gap-2">
+              <CreditCard className="h-5 w-5 text-primary" />
+              <h2 className="text-lg font-semibold text-foreground">Saved Cards</h2>
+            </div>
+            <p className="mt-2 text-sm text-muted-foreground">
+              {savedCards && savedCards.length > 0
+                ? "Pick one of these when you pay for a session. Your bank may still ask you to confirm."
+                : "Tick \"Save this card for next time\" when you pay for a session to book faster next time."}
+            </p>
+
+            {savedCards && savedCards.length > 0 && (
+              <div className="mt-4 space-y-2">
+                {savedCards.map((card) => (
+                  <div key={card.id} className="flex items-center justify-between rounded-lg bg-muted/50 p-3 text-sm" data-testid={`row-saved-card-${card.id}`}>
+                    <span>
+                      <span className="font-medium">{card.cardBrand || "Card"} •••• {card.last4 || "????"}</span>
+                      {card.expMonth && card.expYear && (
+                        <span className="text-muted-foreground">
+                          {" · "}{isCardExpired(card) ? "expired" : "expires"} {String(card.expMonth).padStart(2, "0")}/{card.expYear}
+                        </span>
+                      )}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeCardMutation.mutate(card.id)}
+                      disabled={removeCardMutation.isPending}
+                      data-testid={`button-remove-card-${card.id}`}
+                    >
+                      {removeCardMutation.isPending && removeCardMutation.variables === card.id
+                        ? <Loader2 className="h-4 w-4 animate-spin" />
+                        : <Trash2 className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+
+          {/* Receipts */}
+          <Card className="p-6" data-testid="card-receipts">
+            <div className="flex items-center gap-2">
+              <FileText className="h-5 w-5 text-primary" />
+              <h2 className="text-lg font-semibold text-foreground">Receipts</h2>
+            </div>
+            <p className="mt-2 text-sm text-muted-foreground">
+              {receipts && receipts.length > 0
+                ? "Download a PDF receipt for any session or payment. Cash sessions appear once you've paid at the class."
+                : "Receipts for your sessions and payments will appear here."}
+            </p>
+
+            {receipts && receipts.length > 0 && (
+              <div className="mt-4 space-y-2">
+                {(showAllReceipts ? receipts : receipts.slice(0, 5)).map((item) => (
+                  <div key={`${item.kind}-${item.sourceId}`} className="flex items-center justify-between gap-2 rounded-lg bg-muted/50 p-3 text-sm" data-testid={`row-receipt-${item.sourceId}`}>
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{item.description}</p>
+                      <p className="text-muted-foreground">
+                        {item.classDate ? formatDate(item.classDate) : item.paidAt ? format(new Date(item.paidAt), "d MMM yyyy") : ""}
+                        {" · "}£{item.amount} {item.paymentMethod.toLowerCase()}
+                        {item.receiptNumber && ` · ${item.receiptNumber}`}
+                      </p>
+                    </div>
+                    <Button asChild variant="ghost" size="icon" data-testid={`button-download-receipt-${item.sourceId}`}>
+                      <a href={`/api/members/me/receipts/${item.kind}/${item.sourceId}/pdf`} download aria-label="Download receipt">
+                        <Download className="h-4 w-4" />
+                      </a>
+                    </Button>
+                  </div>
+                ))}
+                {receipts.length > 5 && (
+                  <Button variant="ghost" size="sm" className="w-full" onClick={() => setShowAllReceipts(!showAllReceipts)} data-testid="button-toggle-receipts">
+                    {showAllReceipts ? "Show fewer" : `Show all ${receipts.length}`}
+                  </Button>
+                )}
+              </div>
+            )}
+          </Card>
+
           {/* Upcoming Bookings */}
           <div>
             <div className="flex items-center justify-between mb-4">
@@ -197,8 +724,13 @@ export default function Dashboard() {
                       <div>
                         <div className="flex items-center gap-2">
                           <h3 className="font-semibold text-foreground">{booking.class?.title}</h3>
+                          {booking.memberId !== member?.id && booking.memberName && (
+                            <Badge variant="outline" className="text-xs" data-testid={`badge-for-${booking.id}`}>For {booking.memberName}</Badge>
+                          )}
                           {booking.isFreeSession ? (
                             <Badge variant="default" className="bg-green-600 text-xs" data-testid={`badge-free-${booking.id}`}>FREE</Badge>
+                          ) : booking.paymentMethod === "credit" ? (
+                            <Badge variant="secondary" className="text-xs" data-testid={`badge-credit-${booking.id}`}>Credit</Badge>
                           ) : (
                             <Badge variant="secondary" className="text-xs" data-testid={`badge-price-${booking.id}`}>£{booking.price || '5'}</Badge>
                           )}
@@ -237,6 +769,71 @@ export default function Dashboard() {
             )}
           </div>
 
+          {/* Waitlist */}
+          {waitlist && waitlist.length > 0 && (
+            <div>
+              <h2 className="text-xl font-semibold text-foreground mb-4">Waitlist</h2>
+              <div className="space-y-3">
+                {waitlist.map((entry) => (
+                  <Card key={entry.id} className="p-4" data-testid={`card-waitlist-${entry.id}`}>
+                    <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <h3 className="font-semibold text-foreground">{entry.class?.title}</h3>
+                          {entry.memberId !== member?.id && (
+                            <Badge variant="outline" className="text-xs">
+                              For {dependants?.find(d => d.id === entry.memberId)?.name || "junior"}
+                            </Badge>
+                          )}
+                          {entry.status === "offered" ? (
+                            <Badge variant="default" className="bg-green-600 text-xs">Place Available</Badge>
+                          ) : (
+                            <Badge variant="secondary" className="text-xs">
+                              <Hourglass className="mr-1 h-3 w-3" />
+                              #{entry.position} in queue
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="flex flex-wrap gap-3 mt-1 text-sm text-muted-foreground">
+                          <span className="flex items-center gap-1">
+                            <Calendar className="h-4 w-4" />
+                            {formatDate(entry.class?.date || '')}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <Clock className="h-4 w-4" />
+                            {entry.class?.time}
+                          </span>
+                        </div>
+                        {entry.status === "offered" && entry.offerExpiresAt && (
+                          <p className="mt-1 text-sm font-medium text-amber-700 dark:text-amber-300">
+                            Book before {format(new Date(entry.offerExpiresAt), "EEE d MMM, HH:mm")} or the place goes to the next person
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex gap-2">
+                        {entry.status === "offered" && (
+                          <Button asChild size="sm" data-testid={`button-claim-waitlist-${entry.id}`}>
+                            <Link href="/sessions">Book Now</Link>
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => leaveWaitlistMutation.mutate(entry)}
+                          disabled={leaveWaitlistMutation.isPending}
+                          data-testid={`button-leave-waitlist-${entry.id}`}
+                        >
+                          <X className="mr-1 h-4 w-4" />
+                          Leave
+                        </Button>
+                      </div>
+                    </div>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Past Bookings */}
           {pastBookings.length > 0 && (
             <div>
@@ -246,14 +843,21 @@ export default function Dashboard() {
                   <Card key={booking.id} className="p-4 opacity-70">
                     <div className="space-y-2">
                       <div className="flex items-center justify-between gap-2">
-                        <h3 className="font-medium text-foreground truncate">{booking.class?.title}</h3>
+                        <h3 className="font-medium text-foreground truncate">
+                          {booking.class?.title}
+                          {booking.memberId !== member?.id && booking.memberName && (
+                            <span className="font-normal text-muted-foreground"> · {booking.memberName}</span>
+                          )}
+                        </h3>
                         <div className="flex items-center gap-2 shrink-0">
                           {booking.isFreeSession ? (
                             <Badge variant="default" className="bg-green-600/70 text-xs" data-testid={`badge-history-free-${booking.id}`}>FREE</Badge>
                           ) : (
                             <Badge variant="secondary" className="text-xs" data-testid={`badge-history-price-${booking.id}`}>£{booking.price || '5'}</Badge>
                           )}
-                          <Badge variant="secondary" className="text-xs">Completed</Badge>
+                          <Badge variant={booking.status === "no_show" ? "outline" : "secondary"} className="text-xs">
+                            {booking.status === "attended" ? "Attended" : booking.status === "no_show" ? "Missed" : "Completed"}
+                          </Badge>
                         </div>
                       </div>
                       <p className="text-sm text-muted-foreground">
@@ -299,6 +903,7 @@ export default function Dashboard() {
                       <h3 className="font-medium text-destructive">This action cannot be undone</h3>
                       <p className="text-sm text-muted-foreground mt-1">
                         Your account, booking history, and all personal information will be permanently deleted.
+                        {dependants && dependants.length > 0 && " Juniors on your account are removed with it."}
                       </p>
                     </div>
                   </div>
@@ -346,6 +951,608 @@ export default function Dashboard() {
           </div>
         </div>
       </section>
+
+      <Dialog
+        open={!!planToJoin || updatingCard}
+        onOpenChange={(open) => { if (!open && !isSavingMembership) { setPlanToJoin(null); setUpdatingCard(false); } }}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{updatingCard ? "Update Membership Card" : `${planToJoin?.name} - £${planToJoin?.price}/${planToJoin?.interval}`}</DialogTitle>
+            <DialogDescription>
+              {updatingCard
+                ? "Your new card will be used for future renewals. Any overdue payment is taken straight away."
+                : `Your card is saved and charged £${planToJoin?.price} now, then every ${planToJoin?.interval} until you cancel.`}
+            </DialogDescription>
+          </DialogHeader>
+          {(planToJoin || updatingCard) && (
+            <SquarePayment
+              amount={updatingCard ? Math.round(parseFloat(membership?.plan.price || "0") * 100) : Math.round(parseFloat(planToJoin!.price) * 100)}
+              onPaymentSuccess={handleMembershipPayment}
+              onPaymentError={(error) => toast({ title: "Payment failed", description: error, variant: "destructive" })}
+              onCancel={() => { setPlanToJoin(null); setUpdatingCard(false); }}
+              isProcessing={isSavingMembership}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={voucherDialogOpen} onOpenChange={(open) => !open && !isBuyingVoucher && setVoucherDialogOpen(false)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Gift Voucher - £{voucherForm.amount || "0"}</DialogTitle>
+            <DialogDescription>
+              {voucherStep === "details"
+                ? "Choose an amount and who it's for. The code is emailed to them as soon as you've paid."
+                : `Sending to ${voucherForm.recipientName} at ${voucherForm.recipientEmail}.`}
+            </DialogDescription>
+          </DialogHeader>
+          {voucherStep === "details" ? (
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                setVoucherStep("payment");
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="voucher-amount">Amount (£)</Label>
+                <div className="flex gap-2">
+                  {VOUCHER_AMOUNTS.map((amount) => (
+                    <Button
+                      key={amount}
+                      type="button"
+                      variant={voucherForm.amount === amount ? "default" : "outline"}
+                      onClick={() => setVoucherForm({ ...voucherForm, amount })}
+                      data-testid={`button-voucher-amount-${amount}`}
+                    >
+                      £{amount}
+                    </Button>
+                  ))}
+                  <Input
+                    id="voucher-amount"
+                    type="number"
+                    min={5}
+                    max={200}
+                    value={voucherForm.amount}
+                    onChange={(e) => setVoucherForm({ ...voucherForm, amount: e.target.value })}
+                    data-testid="input-voucher-amount"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="voucher-recipient-name">Their name</Label>
+                <Input
+                  id="voucher-recipient-name"
+                  value={voucherForm.recipientName}
+                  onChange={(e) => setVoucherForm({ ...voucherForm, recipientName: e.target.value })}
+                  data-testid="input-voucher-recipient-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="voucher-recipient-email">Their email</Label>
+                <Input
+                  id="voucher-recipient-email"
+                  type="email"
+                  value={voucherForm.recipientEmail}
+                  onChange={(e) => setVoucherForm({ ...voucherForm, recipientEmail: e.target.value })}
+                  data-testid="input-voucher-recipient-email"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="voucher-message">Message (optional)</Label>
+                <Textarea
+                  id="voucher-message"
+                  maxLength={500}
+                  value={voucherForm.message}
+                  onChange={(e) => setVoucherForm({ ...voucherForm, message: e.target.value })}
+                  placeholder="Happy birthday! Time to get in the ring."
+                  data-testid="input-voucher-message"
+                />
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={!(parseFloat(voucherForm.amount) >= 5 && parseFloat(voucherForm.amount) <= 200) || !voucherForm.recipientName || !voucherForm.recipientEmail}
+                data-testid="button-voucher-continue"
+              >
+                Continue to Payment
+              </Button>
+            </form>
+          ) : (
+            <SquarePayment
+              amount={Math.round(parseFloat(voucherForm.amount) * 100)}
+              onPaymentSuccess={handleVoucherPayment}
+              onPaymentError={(error) => toast({ title: "Payment failed", description: error, variant: "destructive" })}
+              onCancel={() => setVoucherStep("details")}
+              isProcessing={isBuyingVoucher}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!packToBuy} onOpenChange={(open) => !open && !isBuyingPack && setPackToBuy(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{packToBuy?.name} - £{packToBuy?.price}</DialogTitle>
+            <DialogDescription>
+              {packToBuy?.credits} session credits
+              {packToBuy?.validDays ? `, valid for ${packToBuy.validDays} days` : ""}.
+            </DialogDescription>
+          </DialogHeader>
+          {packToBuy && (
+            <SquarePayment
+              amount={Math.round(parseFloat(packToBuy.price) * 100)}
+              onPaymentSuccess={handlePackPayment}
+              onPaymentError={(error) => toast({ title: "Payment failed", description: error, variant: "destructive" })}
+              onCancel={() => setPackToBuy(null)}
+              isProcessing={isBuyingPack}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </PublicLayout>
   );
 }
+
+// Children this member books for - they train on the member's account rather than logging in themselves
+function JuniorsCard() {
+  const { toast } = useToast();
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyJuniorForm);
+  const [cardFor, setCardFor] = useState<DependantData | null>(null);
+  const [removing, setRemoving] = useState<DependantData | null>(null);
+
+  const { data: dependants } = useQuery<DependantData[]>({
+    queryKey: ["/api/members/me/dependants"],
+  });
+
+  const { data: juniorCard } = useQuery<{ name: string; qrCode: string }>({
+    queryKey: ["/api/members/me/dependants", cardFor?.id, "card"],
+    enabled: !!cardFor,
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/members/me/dependants", {
+        name: form.name,
+        age: parseInt(form.age),
+        experienceLevel: form.experienceLevel,
+        consent: form.consent,
+      });
+      return res.json();
+    },
+    onSuccess: (junior: DependantData) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/dependants"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/documents"] });
+      setForm(emptyJuniorForm);
+      setShowForm(false);
+      toast({ title: "Junior added", description: `You can now book classes for ${junior.name}.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't add junior", description: error.message.replace(/^\d+: /, ""), variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/members/me/dependants/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/dependants"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/waitlist"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/documents"] });
+      toast({ title: "Junior removed", description: `${removing?.name} has been removed from your account.` });
+      setRemoving(null);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to remove junior.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="p-6" data-testid="card-juniors">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <Users className="h-5 w-5 text-primary" />
+            <h2 className="text-lg font-semibold text-foreground">Juniors</h2>
+          </div>
+          <p className="mt-2 text-sm text-muted-foreground">
+            Book classes for your children from this account. Their booking emails come to you, and your emergency contact is used for them.
+          </p>
+        </div>
+        {!showForm && (
+          <Button variant="outline" size="sm" onClick={() => setShowForm(true)} data-testid="button-add-junior">
+            <UserPlus className="mr-1 h-4 w-4" />
+            Add
+          </Button>
+        )}
+      </div>
+
+      {dependants && dependants.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {dependants.map((junior) => (
+            <div key={junior.id} className="rounded-md border p-3" data-testid={`row-junior-${junior.id}`}>
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-foreground">{junior.name}</span>
+                    {junior.age != null && <span className="text-sm text-muted-foreground">age {junior.age}</span>}
+                    <Badge variant="secondary" className="text-xs capitalize">{junior.experienceLevel}</Badge>
+                  </div>
+                  {junior.guardianConsentAt && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Consent given {format(new Date(junior.guardianConsentAt), "d MMM yyyy")}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setCardFor(junior)} data-testid={`button-junior-card-${junior.id}`}>
+                    <QrCode className="mr-1 h-4 w-4" />
+                    Card
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setRemoving(junior)} data-testid={`button-remove-junior-${junior.id}`}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              {removing?.id === junior.id && (
+                <div className="mt-3 flex flex-col gap-2 rounded-md bg-destructive/10 p-3 sm:flex-row sm:items-center sm:justify-between">
+                  <p className="text-sm text-foreground">Remove {junior.name}? Their upcoming bookings will be cancelled.</p>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setRemoving(null)}>Keep</Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => removeMutation.mutate(junior.id)}
+                      disabled={removeMutation.isPending}
+                      data-testid={`button-confirm-remove-junior-${junior.id}`}
+                    >
+                      {removeMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Remove"}
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showForm && (
+        <div className="mt-4 space-y-3 rounded-md border p-4">
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div className="space-y-1 sm:col-span-2">
+              <Label htmlFor="junior-name">Name</Label>
+              <Input
+                id="junior-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                data-testid="input-junior-name"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="junior-age">Age</Label>
+              <Input
+                id="junior-age"
+                type="number"
+                min={1}
+                max={17}
+                value={form.age}
+                onChange={(e) => setForm({ ...form, age: e.target.value })}
+                data-testid="input-junior-age"
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label>Experience</Label>
+            <Select value={form.experienceLevel} onValueChange={(experienceLevel) => setForm({ ...form, experienceLevel })}>
+              <SelectTrigger data-testid="select-junior-experience">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="beginner">Beginner</SelectItem>
+                <SelectItem value="intermediate">Intermediate</SelectItem>
+                <SelectItem value="advanced">Advanced</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="junior-consent"
+              checked={form.consent}
+              onCheckedChange={(checked) => setForm({ ...form, consent: checked === true })}
+              data-testid="checkbox-junior-consent"
+            />
+            <Label htmlFor="junior-consent" className="text-sm font-normal leading-snug">
+              I'm their parent or guardian and I give my consent for them to take part in boxing training at Mill Town ABC.
+            </Label>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => { setShowForm(false); setForm(emptyJuniorForm); }}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => addMutation.mutate()}
+              disabled={addMutation.isPending || !form.name.trim() || !form.age || !form.consent}
+              data-testid="button-save-junior"
+            >
+              {addMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Add Junior"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={!!cardFor} onOpenChange={(open) => !open && setCardFor(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{cardFor?.name}'s Card</DialogTitle>
+            <DialogDescription>Scan this at the kiosk by the door to check them in.</DialogDescription>
+          </DialogHeader>
+          <div className="mx-auto rounded-lg bg-white p-2 border">
+            {juniorCard ? (
+              <img src={juniorCard.qrCode} alt={`${juniorCard.name}'s membership QR code`} className="h-48 w-48" data-testid="img-junior-qr" />
+            ) : (
+              <Skeleton className="h-48 w-48" />
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+function FormsCard({ memberId }: { memberId?: string }) {
+  const { toast } = useToast();
+  const [signing, setSigning] = useState<{ boxer: BoxerForms; form: MemberForm } | null>(null);
+  const [answers, setAnswers] = useState<(boolean | null)[]>([]);
+  const [signatureName, setSignatureName] = useState("");
+
+  const { data: boxers } = useQuery<BoxerForms[]>({
+    queryKey: ["/api/members/me/documents"],
+  });
+
+  const openForm = (boxer: BoxerForms, form: MemberForm) => {
+    setSigning({ boxer, form });
+    setAnswers(form.questions.map(() => null));
+    setSignatureName("");
+  };
+
+  const signMutation = useMutation({
+    mutationFn: async (agreed: boolean) => {
+      const res = await apiRequest("POST", `/api/members/me/documents/${signing!.form.id}/sign`, {
+        forMemberId: signing!.boxer.memberId,
+        version: signing!.form.version,
+        signatureName,
+        agreed,
+        answers,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/documents"] });
+      toast({ title: "Form signed", description: `Thanks - ${signing?.form.title} is done.` });
+      setSigning(null);
+    },
+    onError: (error: Error) => {
+      // The form was reworded while it was open - reload it so they read the new version
+      if (error.message.startsWith("409")) {
+        queryClient.invalidateQueries({ queryKey: ["/api/members/me/documents"] });
+        setSigning(null);
+      }
+      toast({ title: "Couldn't sign form", description: error.message.replace(/^\d+: /, ""), variant: "destructive" });
+    },
+  });
+
+  if (!boxers || boxers.every(b => b.forms.length === 0)) return null;
+
+  const outstandingCount = boxers.reduce((count, b) => count + b.forms.filter(f => f.outstanding).length, 0);
+  const ready = answers.every(a => a !== null) && signatureName.trim().length >= 2;
+
+  return (
+    <Card className="p-6" data-testid="card-forms">
+      <div className="flex items-center gap-2">
+        <FileSignature className="h-5 w-5 text-primary" />
+        <h2 className="text-lg font-semibold text-foreground">Forms</h2>
+        {outstandingCount > 0 && <Badge variant="destructive">{outstandingCount} to sign</Badge>}
+      </div>
+      <p className="mt-2 text-sm text-muted-foreground">
+        {outstandingCount > 0
+          ? "Please sign these before booking. If we update a form, we'll ask you to sign it again."
+          : "All signed - thanks. If we update a form, we'll ask you to sign it again."}
+      </p>
+
+      <div className="mt-4 space-y-4">
+        {boxers.filter(b => b.forms.length > 0).map((boxer) => (
+          <div key={boxer.memberId}>
+            {boxers.length > 1 && (
+              <p className="text-sm font-medium text-foreground mb-2">
+                {boxer.memberId === memberId ? "You" : boxer.memberName}
+              </p>
+            )}
+            <div className="space-y-2">
+              {boxer.forms.map((form) => (
+                <div
+                  key={form.id}
+                  className="flex flex-col gap-2 rounded-md border p-3 sm:flex-row sm:items-center sm:justify-between"
+                  data-testid={`row-form-${boxer.memberId}-${form.id}`}
+                >
+                  <div>
+                    <p className="font-medium text-foreground">{form.title}</p>
+                    {form.outstanding ? (
+                      <p className="text-xs text-destructive mt-1">
+                        {form.signature ? "Updated since you signed - please sign again" : "Not signed yet"}
+                      </p>
+                    ) : (
+                      <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                        <CheckCircle className="h-3 w-3" />
+                        {form.signature!.agreed ? "Signed" : "Declined"} by {form.signature!.signatureName} on {format(new Date(form.signature!.signedAt), "d MMM yyyy")}
+                      </p>
+                    )}
+                  </div>
+                  <Button
+                    variant={form.outstanding ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => openForm(boxer, form)}
+                    data-testid={`button-sign-form-${boxer.memberId}-${form.id}`}
+                  >
+                    {form.outstanding ? "Read & Sign" : "View"}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Dialog open={!!signing} onOpenChange={(open) => !open && setSigning(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{signing?.form.title}</DialogTitle>
+            <DialogDescription>
+              {signing && signing.boxer.memberId !== memberId ? `For ${signing.boxer.memberName}` : `Version ${signing?.form.version}`}
+            </DialogDescription>
+          </DialogHeader>
+          {signing && (
+            <div className="space-y-4">
+              <p className="text-sm text-foreground whitespace-pre-line">{signing.form.body}</p>
+
+              {signing.form.outstanding ? (
+                <>
+                  {signing.form.questions.length > 0 && (
+                    <div className="space-y-3">
+                      {signing.form.questions.map((question, i) => (
+                        <div key={i} className="space-y-1">
+                          <p className="text-sm text-foreground">{question}</p>
+                          <div className="flex gap-2">
+                            {[true, false].map((answer) => (
+                              <Button
+                                key={String(answer)}
+                                type="button"
+                                size="sm"
+                                variant={answers[i] === answer ? "default" : "outline"}
+                                onClick={() => setAnswers(answers.map((a, j) => (j === i ? answer : a)))}
+                                data-testid={`button-answer-${i}-${answer ? "yes" : "no"}`}
+                              >
+                                {answer ? "Yes" : "No"}
+                              </Button>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="space-y-1">
+                    <Label htmlFor="signature-name">Type your full name to sign</Label>
+                    <Input
+                      id="signature-name"
+                      value={signatureName}
+                      onChange={(e) => setSignatureName(e.target.value)}
+                      data-testid="input-signature-name"
+                    />
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    {signing.form.allowDecline && (
+                      <Button
+                        variant="outline"
+                        onClick={() => signMutation.mutate(false)}
+                        disabled={signMutation.isPending || !ready}
+                        data-testid="button-decline-form"
+                      >
+                        I don't agree
+                      </Button>
+                    )}
+                    <Button
+                      onClick={() => signMutation.mutate(true)}
+                      disabled={signMutation.isPending || !ready}
+                      data-testid="button-submit-signature"
+                    >
+                      {signMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "I Agree & Sign"}
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {signing.form.signature!.agreed ? "Signed" : "Declined"} by {signing.form.signature!.signatureName} on {format(new Date(signing.form.signature!.signedAt), "d MMM yyyy 'at' HH:mm")}.
+                </p>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+function FightRecordCard({ memberId }: { memberId?: string }) {
+  const { toast } = useToast();
+
+  const { data: records } = useQuery<BoxerFightRecord[]>({
+    queryKey: ["/api/members/me/fight-record"],
+  });
+
+  const publicMutation = useMutation({
+    mutationFn: async ({ forMemberId, publicProfile }: { forMemberId: string; publicProfile: boolean }) => {
+      const res = await apiRequest("PATCH", "/api/members/me/fight-record/public", { forMemberId, publicProfile });
+      return res.json();
+    },
+    onSuccess: (_data, { publicProfile }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/fight-record"] });
+      toast({
+        title: publicProfile ? "Record is public" : "Record is private",
+        description: publicProfile ? "It's now listed on our blog." : "It's no longer shown on our website.",
+      });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to update your profile.", variant: "destructive" });
+    },
+  });
+
+  // Only boxers with bouts on record get this card - coaches enter them after each show
+  if (!records || records.length === 0) return null;
+
+  return (
+    <Card className="p-6" data-testid="card-fight-record">
+      <div className="flex items-center gap-2">
+        <Trophy className="h-5 w-5 text-primary" />
+        <h2 className="text-lg font-semibold text-foreground">Fight Record</h2>
+      </div>
+      <p className="mt-2 text-sm text-muted-foreground">
+        Entered by our coaches after each show. Spotted a mistake? Let a coach know.
+      </p>
+
+      <div className="mt-4 space-y-6">
+        {records.map((boxer) => (
+          <div key={boxer.memberId} className="space-y-3" data-testid={`fight-record-${boxer.memberId}`}>
+            {(records.length > 1 || boxer.memberId !== memberId) && (
+              <p className="font-medium text-foreground">{boxer.memberId === memberId ? "You" : boxer.memberName}</p>
+            )}
+            <RecordSummary record={boxer.record} />
+            <BoutList bouts={boxer.bouts} />
+            <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+              <div>
+                <Label htmlFor={`public-profile-${boxer.memberId}`}>Public profile</Label>
+                <p className="text-xs text-muted-foreground">
+                  {boxer.publicProfile ? (
+                    <Link href={`/boxers/${boxer.memberId}`} className="text-primary hover:underline">View the public page</Link>
+                  ) : (
+                    "Show this record on our website, linked from the blog."
+                  )}
+                </p>
+              </div>
+              <Switch
+                id={`public-profile-${boxer.memberId}`}
+                checked={boxer.publicProfile}
+                onCheckedChange={(publicProfile) => publicMutation.mutate({ forMemberId: boxer.memberId, publicProfile })}
+                disabled={publicMutation.isPending}
+                data-testid={`switch-public-profile-${boxer.memberId}`}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
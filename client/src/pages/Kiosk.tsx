@@ -0,0 +1,330 @@
+import { useState, useRef, useEffect, useCallback } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CheckCircle, AlertCircle, Camera, Loader2, LogOut, Banknote } from "lucide-react";
+
+const TOKEN_STORAGE_KEY = "kioskDeviceToken";
+const RESULT_DISPLAY_MS = 8000;
+
+interface KioskClass {
+  id: string;
+  title: string;
+  time: string;
+  placesLeft?: number | null;
+}
+
+type ScanResult =
+  | { result: "checked_in"; member: { name: string }; class: KioskClass; paymentDue: boolean; price: string | null }
+  | { result: "already_checked_in"; member: { name: string }; class: KioskClass }
+  | { result: "no_booking"; member: { name: string }; classes: KioskClass[] };
+
+// Kiosk requests authenticate with the device token, not the browser's login session
+async function kioskRequest<T>(url: string, token: string, body: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Kiosk-Token": token },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const error = new Error(data.message || res.statusText) as Error & { status?: number };
+    error.status = res.status;
+    throw error;
+  }
+  return data as T;
+}
+
+export default function Kiosk() {
+  const [token, setToken] = useState<string | null>(() => localStorage.getItem(TOKEN_STORAGE_KEY));
+  const [deviceCode, setDeviceCode] = useState("");
+  const [loginError, setLoginError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const [manualCode, setManualCode] = useState("");
+  const [scannedCode, setScannedCode] = useState<string | null>(null);
+  const [scanResult, setScanResult] = useState<ScanResult | null>(null);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [cameraActive, setCameraActive] = useState(false);
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const resetTimer = useRef<number | null>(null);
+  const busyRef = useRef(false);
+
+  const cameraSupported = typeof window !== "undefined" && "BarcodeDetector" in window;
+
+  const resetScreen = useCallback(() => {
+    setScanResult(null);
+    setScanError(null);
+    setScannedCode(null);
+    setManualCode("");
+    inputRef.current?.focus();
+  }, []);
+
+  const scheduleReset = useCallback(() => {
+    if (resetTimer.current) window.clearTimeout(resetTimer.current);
+    resetTimer.current = window.setTimeout(resetScreen, RESULT_DISPLAY_MS);
+  }, [resetScreen]);
+
+  const signOutDevice = useCallback(() => {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+    setToken(null);
+  }, []);
+
+  const handleRequestError = useCallback((error: any) => {
+    if (error?.status === 401) {
+      signOutDevice();
+      setLoginError(error.message);
+      return;
+    }
+    setScanError(error?.message || "Something went wrong. Please see a coach.");
+    scheduleReset();
+  }, [signOutDevice, scheduleReset]);
+
+  const submitScan = useCallback(async (code: string) => {
+    if (!token || busyRef.current || !code.trim()) return;
+    busyRef.current = true;
+    setIsProcessing(true);
+    setScanError(null);
+    try {
+      const result = await kioskRequest<ScanResult>("/api/kiosk/scan", token, { code: code.trim() });
+      setScannedCode(code.trim());
+      setScanResult(result);
+      // Leave the walk-in choices up long enough to pick one
+      if (result.result !== "no_booking") scheduleReset();
+    } catch (error) {
+      handleRequestError(error);
+    } finally {
+      busyRef.current = false;
+      setIsProcessing(false);
+      setManualCode("");
+    }
+  }, [token, scheduleReset, handleRequestError]);
+
+  const bookWalkIn = async (classId: string) => {
+    if (!token || !scannedCode) return;
+    setIsProcessing(true);
+    try {
+      const result = await kioskRequest<ScanResult>("/api/kiosk/walk-in", token, { code: scannedCode, classId });
+      setScanResult(result);
+      scheduleReset();
+    } catch (error) {
+      handleRequestError(error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleDeviceLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSigningIn(true);
+    setLoginError(null);
+    try {
+      const res = await fetch("/api/kiosk/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token: deviceCode.trim() }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.message || "Device code not recognised");
+      }
+      localStorage.setItem(TOKEN_STORAGE_KEY, deviceCode.trim());
+      setToken(deviceCode.trim());
+      setDeviceCode("");
+    } catch (error: any) {
+      setLoginError(error.message);
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  // Camera scanning where the browser supports BarcodeDetector; otherwise a handheld scanner types into the input
+  useEffect(() => {
+    if (!cameraActive || !token) return;
+
+    let stream: MediaStream | null = null;
+    let frame: number | null = null;
+    let stopped = false;
+    const detector = new BarcodeDetector({ formats: ["qr_code"] });
+
+    const detect = async () => {
+      if (stopped || !videoRef.current) return;
+      try {
+        if (!busyRef.current && videoRef.current.readyState >= 2) {
+          const codes = await detector.detect(videoRef.current);
+          if (codes.length > 0) {
+            await submitScan(codes[0].rawValue);
+          }
+        }
+      } catch {
+        // Frames that can't be read are skipped
+      }
+      frame = window.setTimeout(detect, 400);
+    };
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: "user" } })
+      .then((s) => {
+        stream = s;
+        if (videoRef.current) {
+          videoRef.current.srcObject = s;
+          videoRef.current.play();
+        }
+        detect();
+      })
+      .catch(() => {
+        setScanError("Camera unavailable. Use the scanner or type the card code.");
+        setCameraActive(false);
+      });
+
+    return () => {
+      stopped = true;
+      if (frame) window.clearTimeout(frame);
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, [cameraActive, token, submitScan]);
+
+  useEffect(() => {
+    return () => {
+      if (resetTimer.current) window.clearTimeout(resetTimer.current);
+    };
+  }, []);
+
+  if (!token) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/30 p-4">
+        <Card className="w-full max-w-md p-8">
+          <h1 className="text-2xl font-bold text-foreground">Kiosk Setup</h1>
+          <p className="mt-2 text-sm text-muted-foreground">
+            Enter the device code from Admin → Kiosk to set up this tablet for door check-in.
+          </p>
+          <form onSubmit={handleDeviceLogin} className="mt-6 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="device-code">Device code</Label>
+              <Input
+                id="device-code"
+                value={deviceCode}
+                onChange={(e) => setDeviceCode(e.target.value)}
+                autoComplete="off"
+                className="h-12 font-mono"
+                data-testid="input-device-code"
+              />
+            </div>
+            {loginError && (
+              <p className="text-sm text-destructive" data-testid="text-kiosk-login-error">{loginError}</p>
+            )}
+            <Button type="submit" className="w-full h-12" disabled={!deviceCode.trim() || isSigningIn} data-testid="button-kiosk-login">
+              {isSigningIn ? <Loader2 className="h-4 w-4 animate-spin" /> : "Set Up Kiosk"}
+            </Button>
+          </form>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-muted/30 p-6" onClick={() => !scanResult && inputRef.current?.focus()}>
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-foreground">Mill Town ABC Check-In</h1>
+        <Button variant="ghost" size="sm" onClick={signOutDevice} data-testid="button-kiosk-sign-out">
+          <LogOut className="h-4 w-4 mr-1" />
+          Sign out device
+        </Button>
+      </div>
+
+      <div className="flex-1 flex items-center justify-center">
+        <Card className="w-full max-w-xl p-8 text-center">
+          {scanError ? (
+            <div data-testid="kiosk-error">
+              <AlertCircle className="h-16 w-16 mx-auto text-destructive" />
+              <p className="mt-4 text-xl font-semibold text-foreground">{scanError}</p>
+              <Button className="mt-6" variant="outline" onClick={resetScreen}>Try Again</Button>
+            </div>
+          ) : scanResult?.result === "checked_in" ? (
+            <div data-testid="kiosk-checked-in">
+              <CheckCircle className="h-16 w-16 mx-auto text-green-600" />
+              <p className="mt-4 text-2xl font-bold text-foreground">Welcome, {scanResult.member.name.split(" ")[0]}!</p>
+              <p className="mt-2 text-muted-foreground">You're checked in for {scanResult.class.title} at {scanResult.class.time}</p>
+              {scanResult.paymentDue && (
+                <p className="mt-4 inline-flex items-center gap-2 rounded-md bg-amber-100 dark:bg-amber-900/30 px-4 py-2 font-medium text-amber-800 dark:text-amber-200">
+                  <Banknote className="h-5 w-5" />
+                  Please pay £{scanResult.price || "5.00"} cash to a coach
+                </p>
+              )}
+            </div>
+          ) : scanResult?.result === "already_checked_in" ? (
+            <div data-testid="kiosk-already-checked-in">
+              <CheckCircle className="h-16 w-16 mx-auto text-green-600" />
+              <p className="mt-4 text-2xl font-bold text-foreground">You're already checked in</p>
+              <p className="mt-2 text-muted-foreground">{scanResult.class.title} at {scanResult.class.time}</p>
+            </div>
+          ) : scanResult?.result === "no_booking" ? (
+            <div data-testid="kiosk-no-booking">
+              <p className="text-2xl font-bold text-foreground">Hi {scanResult.member.name.split(" ")[0]}</p>
+              {scanResult.classes.length === 0 ? (
+                <p className="mt-2 text-muted-foreground">You're not booked in today and there are no classes left to join. Please see a coach.</p>
+              ) : (
+                <>
+                  <p className="mt-2 text-muted-foreground">You're not booked in today. Join a class as a walk-in and pay cash at the door:</p>
+                  <div className="mt-6 space-y-3">
+                    {scanResult.classes.map((c) => (
+                      <Button
+                        key={c.id}
+                        className="w-full h-14 text-lg"
+                        onClick={() => bookWalkIn(c.id)}
+                        disabled={isProcessing}
+                        data-testid={`button-kiosk-walk-in-${c.id}`}
+                      >
+                        {c.time} - {c.title}
+                      </Button>
+                    ))}
+                  </div>
+                </>
+              )}
+              <Button className="mt-4" variant="ghost" onClick={resetScreen} data-testid="button-kiosk-cancel">Cancel</Button>
+            </div>
+          ) : (
+            <div>
+              {cameraActive ? (
+                <video ref={videoRef} className="mx-auto w-full max-w-sm rounded-lg bg-black" muted playsInline />
+              ) : (
+                <Camera className="h-16 w-16 mx-auto text-muted-foreground" />
+              )}
+              <p className="mt-4 text-xl font-semibold text-foreground">Scan your membership card</p>
+              <p className="mt-1 text-sm text-muted-foreground">Open your card from My Dashboard on the website</p>
+              {isProcessing && <Loader2 className="h-6 w-6 mx-auto mt-4 animate-spin" />}
+              {cameraSupported && !cameraActive && (
+                <Button className="mt-6" onClick={() => setCameraActive(true)} data-testid="button-kiosk-camera">
+                  <Camera className="h-4 w-4 mr-2" />
+                  Use Camera
+                </Button>
+              )}
+            </div>
+          )}
+
+          <form
+            className="mt-6"
+            onSubmit={(e) => {
+              e.preventDefault();
+              submitScan(manualCode);
+            }}
+          >
+            <Input
+              ref={inputRef}
+              value={manualCode}
+              onChange={(e) => setManualCode(e.target.value)}
+              placeholder="Scanner input"
+              autoFocus
+              autoComplete="off"
+              className="text-center font-mono opacity-60"
+              data-testid="input-kiosk-code"
+            />
+          </form>
+        </Card>
+      </div>
+    </div>
+  );
+}
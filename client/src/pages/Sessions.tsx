@@ -6,15 +6,17 @@ import { BreadcrumbSchema } from "@/components/BreadcrumbSchema";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { ChevronLeft, ChevronRight, Clock, Loader2, Check, CreditCard, Banknote } from "lucide-react";
+import { ChevronLeft, ChevronRight, Clock, Loader2, Check, CreditCard, Banknote, Hourglass, Tag, Gift, X, FileSignature, type LucideIcon } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { format, startOfWeek, endOfWeek, eachDayOfInterval, isSameDay, addWeeks, subWeeks, isToday, isBefore, startOfDay, addDays } from "date-fns";
+import { format, startOfWeek, endOfWeek, eachDayOfInterval, isSameDay, addWeeks, subWeeks, addDays, parseISO, max } from "date-fns";
 import { Link } from "wouter";
-import type { BoxingClass } from "@shared/schema";
+import { resolveClassPrice, isCardExpired, describeEligibility, type BoxingClass, type SavedCard, type SiteSettings } from "@shared/schema";
+import { DEFAULT_CLUB_TIMEZONE, zonedDate } from "@shared/clubTime";
 import HCaptcha from "@hcaptcha/react-hcaptcha";
 import { SquarePayment } from "@/components/SquarePayment";
 
@@ -24,6 +26,27 @@ interface MemberData {
   id: string;
   name: string;
   hasUsedFreeSession?: boolean;
+  isConcession?: boolean;
+}
+
+interface AppliedPromo {
+  code: string;
+  description: string | null;
+  originalPrice: string;
+  discountAmount: string;
+  price: string;
+}
+
+// The server adds when booking opens, from the class type's booking window
+type SessionClass = BoxingClass & { bookingOpensAt: string };
+
+interface WaitlistEntryData {
+  id: string;
+  classId: string;
+  memberId: string;
+  status: string;
+  offerExpiresAt: string | null;
+  position: number | null;
 }
 
 export default function Sessions() {
@@ -39,18 +62,176 @@ export default function Sessions() {
   const [paymentClassId, setPaymentClassId] = useState<string | null>(null);
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
   const [paymentMethod, setPaymentMethod] = useState<"card" | "cash">("card");
+  const [fullClassIds, setFullClassIds] = useState<string[]>([]);
+  const [promoInput, setPromoInput] = useState("");
+  const [appliedPromo, setAppliedPromo] = useState<AppliedPromo | null>(null);
+  const [voucherInput, setVoucherInput] = useState("");
+  const [appliedVoucher, setAppliedVoucher] = useState<{ code: string; balance: string } | null>(null);
+  const [bookingForId, setBookingForId] = useState<string | null>(null);
 
-  const { data: classes, isLoading } = useQuery<BoxingClass[]>({
+  const { data: classes, isLoading } = useQuery<SessionClass[]>({
     queryKey: ["/api/classes"],
   });
 
+  const { data: settingsData } = useQuery<{ content: SiteSettings | null }>({
+    queryKey: ["/api/content", "settings"],
+  });
+  // Which days are past is the club's call, not the browser's
+  const clubToday = zonedDate(new Date(), settingsData?.content?.timezone || DEFAULT_CLUB_TIMEZONE);
+
   const { data: currentMember } = useQuery<MemberData>({
     queryKey: ["/api/members/me"],
     retry: false,
   });
 
+  // Guardians can book for their juniors - the price, free session, class rules and waitlist place are then the junior's
+  const { data: dependants } = useQuery<MemberData[]>({
+    queryKey: ["/api/members/me/dependants"],
+    enabled: !!currentMember,
+  });
+  const bookingFor = dependants?.find(d => d.id === bookingForId);
+  const boxer = bookingFor ?? currentMember;
+  const forMemberId = bookingFor?.id;
+
+  const { data: myWaitlist } = useQuery<WaitlistEntryData[]>({
+    queryKey: ["/api/members/me/waitlist"],
+    enabled: !!currentMember,
+  });
+
+  const { data: myCredits } = useQuery<{ balance: number }>({
+    queryKey: ["/api/members/me/credits"],
+    enabled: !!currentMember,
+  });
+  // Packs and plans are the account holder's own, so they don't cover a junior's sessions
+  const creditBalance = bookingFor ? 0 : myCredits?.balance ?? 0;
+
+  const { data: mySubscription } = useQuery<{ covers: boolean; plan: { name: string } } | null>({
+    queryKey: ["/api/members/me/subscription"],
+    enabled: !!currentMember,
+  });
+  const onPlan = !bookingFor && !!mySubscription?.covers;
+
+  // Classes the member doesn't meet the rules for, with the reasons why
+  const { data: myIneligibility } = useQuery<Record<string, string[]>>({
+    queryKey: bookingFor ? ["/api/members/me/dependants", bookingFor.id, "class-eligibility"] : ["/api/members/me/class-eligibility"],
+    enabled: !!currentMember,
+  });
+
+  // Forms the boxer still has to sign - booking is blocked until they have
+  const { data: myForms } = useQuery<{ memberId: string; forms: { title: string; outstanding: boolean }[] }[]>({
+    queryKey: ["/api/members/me/documents"],
+    enabled: !!currentMember,
+  });
+  const unsignedForms = myForms?.find(b => b.memberId === boxer?.id)?.forms.filter(f => f.outstanding) ?? [];
+
+  const { data: savedCards } = useQuery<SavedCard[]>({
+    queryKey: ["/api/members/me/cards"],
+    enabled: !!currentMember,
+  });
+  const chargeableCards = savedCards?.filter(card => !isCardExpired(card));
+
+  // Server works out the same price when booking - this is just for display
+  const getClassPrice = (boxingClass: BoxingClass) => resolveClassPrice(boxingClass, !!boxer?.isConcession);
+  const formatPrice = (price: string) => `£${parseFloat(price).toFixed(2).replace(/\.00$/, "")}`;
+  const paymentClass = classes?.find(c => c.id === paymentClassId);
+  const paymentPrice = paymentClass ? getClassPrice(paymentClass) : "0.00";
+  // The server re-checks both codes and works out the same amounts again when booking.
+  // Promo discounts come off first, then the voucher pays what it can of the rest.
+  const priceAfterPromo = parseFloat(appliedPromo?.price ?? paymentPrice);
+  const voucherUsed = appliedVoucher ? Math.min(parseFloat(appliedVoucher.balance), priceAfterPromo) : 0;
+  const bookingPrice = (priceAfterPromo - voucherUsed).toFixed(2);
+  const nothingToPay = (!!appliedPromo || !!appliedVoucher) && parseFloat(bookingPrice) === 0;
+
+  const clearDiscounts = () => {
+    setPromoInput("");
+    setAppliedPromo(null);
+    setVoucherInput("");
+    setAppliedVoucher(null);
+  };
+
+  const closePaymentDialog = () => {
+    setPaymentDialogOpen(false);
+    setPaymentClassId(null);
+    setPaymentMethod("card");
+    clearDiscounts();
+  };
+
+  const getWaitlistEntry = (classId: string) => myWaitlist?.find(e => e.classId === classId && e.memberId === boxer?.id);
+
+  // Places held for waitlist offers aren't in bookedCount, so also remember classes the server told us are full
+  const isClassFull = (boxingClass: BoxingClass) =>
+    fullClassIds.includes(boxingClass.id) ||
+    (boxingClass.capacity != null && (boxingClass.bookedCount || 0) >= boxingClass.capacity);
+
+  const markFullIfRejected = (classId: string, error: any) => {
+    if (String(error?.message || "").startsWith("409")) {
+      setFullClassIds(ids => ids.includes(classId) ? ids : [...ids, classId]);
+      queryClient.invalidateQueries({ queryKey: ["/api/classes"] });
+    }
+  };
+
+  const joinWaitlistMutation = useMutation({
+    mutationFn: async (classId: string) => {
+      const res = await apiRequest("POST", `/api/classes/${classId}/waitlist`, { forMemberId });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/waitlist"] });
+      toast({ title: "Added to waitlist", description: data.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't join waitlist", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const leaveWaitlistMutation = useMutation({
+    mutationFn: async (classId: string) => {
+      await apiRequest("DELETE", `/api/classes/${classId}/waitlist`, { forMemberId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/waitlist"] });
+      toast({ title: "Left waitlist", description: "You've been removed from the waitlist." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const applyPromoMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/promo-codes/check", { code: promoInput.trim(), classId: paymentClassId, forMemberId });
+      return res.json() as Promise<AppliedPromo>;
+    },
+    onSuccess: (promo) => {
+      setAppliedPromo(promo);
+      toast({ title: "Promo code applied", description: `You save ${formatPrice(promo.discountAmount)}.` });
+    },
+    onError: (error: Error) => {
+      setAppliedPromo(null);
+      toast({ title: "Promo code not applied", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const applyVoucherMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/gift-vouchers/check", { code: voucherInput.trim() });
+      return res.json() as Promise<{ code: string; balance: string }>;
+    },
+    onSuccess: (voucher) => {
+      setAppliedVoucher(voucher);
+      toast({ title: "Gift voucher applied", description: `${formatPrice(voucher.balance)} available on this voucher.` });
+    },
+    onError: (error: Error) => {
+      setAppliedVoucher(null);
+      toast({ title: "Gift voucher not applied", description: error.message, variant: "destructive" });
+    },
+  });
+
   const handleBookClick = (classId: string, isFreeSession: boolean) => {
-    if (isFreeSession) {
+    const boxingClass = classes?.find(c => c.id === classId);
+    const needsPayment = !boxingClass || parseFloat(getClassPrice(boxingClass)) > 0;
+    // Class pack credits are spent by the server, so credit bookings skip the payment form
+    if (isFreeSession || !needsPayment || creditBalance > 0 || onPlan) {
       if (HCAPTCHA_SITE_KEY) {
         setPendingBookingClassId(classId);
         setCaptchaDialogOpen(true);
@@ -63,30 +244,38 @@ export default function Sessions() {
     }
   };
 
-  const handlePaymentSuccess = async (paymentToken: string, verificationToken?: string) => {
+  // Card bookings send either a fresh card token or the id of a card the member saved earlier
+  const submitCardBooking = async (payment: { paymentToken?: string; savedCardId?: string; verificationToken?: string; saveCard?: boolean }) => {
     if (!paymentClassId) return;
     
     setIsProcessingPayment(true);
     try {
       const res = await apiRequest("POST", `/api/classes/${paymentClassId}/book`, {
-        paymentToken,
-        verificationToken,
+        ...payment,
+        forMemberId,
         hcaptchaToken: null,
+        promoCode: appliedPromo?.code,
+        giftVoucherCode: appliedVoucher?.code,
       });
       const data = await res.json();
       
       queryClient.invalidateQueries({ queryKey: ["/api/classes"] });
       queryClient.invalidateQueries({ queryKey: ["/api/members/me/bookings"] });
       queryClient.invalidateQueries({ queryKey: ["/api/members/me"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/dependants"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/waitlist"] });
+      if (payment.saveCard) {
+        queryClient.invalidateQueries({ queryKey: ["/api/members/me/cards"] });
+      }
       
       toast({ 
         title: "Payment successful!", 
         description: "Your session has been booked."
       });
       
-      setPaymentDialogOpen(false);
-      setPaymentClassId(null);
+      closePaymentDialog();
     } catch (error: any) {
+      markFullIfRejected(paymentClassId, error);
       toast({
         title: "Booking failed",
         description: error.message || "Payment processed but booking failed",
@@ -97,6 +286,12 @@ export default function Sessions() {
     }
   };
 
+  const handlePaymentSuccess = (paymentToken: string, verificationToken?: string, saveCard?: boolean) =>
+    submitCardBooking({ paymentToken, verificationToken, saveCard });
+
+  const handleSavedCardPayment = (savedCardId: string, verificationToken?: string) =>
+    submitCardBooking({ savedCardId, verificationToken });
+
   const handlePaymentError = (error: string) => {
     toast({
       title: "Payment failed",
@@ -112,23 +307,27 @@ export default function Sessions() {
     try {
       const res = await apiRequest("POST", `/api/classes/${paymentClassId}/book`, {
         paymentMethod: "cash",
+        forMemberId,
         hcaptchaToken: null,
+        promoCode: appliedPromo?.code,
+        giftVoucherCode: appliedVoucher?.code,
       });
       const data = await res.json();
       
       queryClient.invalidateQueries({ queryKey: ["/api/classes"] });
       queryClient.invalidateQueries({ queryKey: ["/api/members/me/bookings"] });
       queryClient.invalidateQueries({ queryKey: ["/api/members/me"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/dependants"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/waitlist"] });
       
       toast({ 
         title: "Session booked!", 
-        description: "Pay £5 cash when you arrive at reception."
+        description: `Pay ${formatPrice(bookingPrice)} cash when you arrive at reception.`
       });
       
-      setPaymentDialogOpen(false);
-      setPaymentClassId(null);
-      setPaymentMethod("card");
+      closePaymentDialog();
     } catch (error: any) {
+      markFullIfRejected(paymentClassId, error);
       toast({
         title: "Booking failed",
         description: error.message || "Unable to book session",
@@ -139,6 +338,20 @@ export default function Sessions() {
     }
   };
 
+  // Nothing left to pay, so this goes through the same captcha check as a free session
+  const handleNothingToPayBooking = () => {
+    if (!paymentClassId) return;
+    setPaymentDialogOpen(false);
+    setPaymentClassId(null);
+    setPaymentMethod("card");
+    if (HCAPTCHA_SITE_KEY) {
+      setPendingBookingClassId(paymentClassId);
+      setCaptchaDialogOpen(true);
+    } else {
+      bookMutation.mutate(paymentClassId);
+    }
+  };
+
   const handleCaptchaVerify = (token: string) => {
     setHcaptchaToken(token);
   };
@@ -156,7 +369,10 @@ export default function Sessions() {
     mutationFn: async (classId: string) => {
       setBookingClassId(classId);
       const res = await apiRequest("POST", `/api/classes/${classId}/book`, {
+        forMemberId,
         hcaptchaToken,
+        promoCode: appliedPromo?.code,
+        giftVoucherCode: appliedVoucher?.code,
       });
       return res.json();
     },
@@ -164,13 +380,19 @@ export default function Sessions() {
       queryClient.invalidateQueries({ queryKey: ["/api/classes"] });
       queryClient.invalidateQueries({ queryKey: ["/api/members/me/bookings"] });
       queryClient.invalidateQueries({ queryKey: ["/api/members/me"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/dependants"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/waitlist"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/credits"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/members/me/subscription"] });
       toast({ 
         title: data.isFreeSession ? "Free Session Booked!" : "Booking confirmed!", 
         description: data.message || "You've successfully booked this class."
       });
       setBookingClassId(null);
+      clearDiscounts();
     },
-    onError: (error: Error) => {
+    onError: (error: Error, classId) => {
+      markFullIfRejected(classId, error);
       toast({
         title: "Booking failed",
         description: error.message || "Unable to book class",
@@ -180,9 +402,83 @@ export default function Sessions() {
       setPendingBookingClassId(null);
       setHcaptchaToken(null);
       captchaRef.current?.resetCaptcha();
+      clearDiscounts();
     },
   });
 
+  const renderWaitlistAction = (boxingClass: BoxingClass, testIdPrefix: string) => {
+    const entry = getWaitlistEntry(boxingClass.id);
+    if (entry) {
+      return (
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => leaveWaitlistMutation.mutate(boxingClass.id)}
+          disabled={leaveWaitlistMutation.isPending}
+          data-testid={`${testIdPrefix}-leave-waitlist-${boxingClass.id}`}
+        >
+          <Hourglass className="h-4 w-4 mr-2" />
+          On Waitlist{entry.position ? ` (#${entry.position})` : ""} - Leave
+        </Button>
+      );
+    }
+    return (
+      <Button
+        variant="secondary"
+        className="w-full"
+        onClick={() => joinWaitlistMutation.mutate(boxingClass.id)}
+        disabled={joinWaitlistMutation.isPending}
+        data-testid={`${testIdPrefix}-join-waitlist-${boxingClass.id}`}
+      >
+        {joinWaitlistMutation.isPending ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <span><Hourglass className="h-4 w-4 mr-2 inline" />Class Full - Join Waitlist</span>
+        )}
+      </Button>
+    );
+  };
+
+  const bookingOpensLater = (boxingClass: SessionClass) => new Date(boxingClass.bookingOpensAt) > new Date();
+
+  const renderBookingOpens = (boxingClass: SessionClass, testIdPrefix: string) => (
+    <Button variant="outline" className="w-full" disabled data-testid={`${testIdPrefix}-booking-opens-${boxingClass.id}`}>
+      <Clock className="h-4 w-4 mr-2" />
+      Booking opens {format(new Date(boxingClass.bookingOpensAt), "EEE d MMM")}
+    </Button>
+  );
+
+  const renderIneligible = (boxingClass: BoxingClass, reasons: string[], testIdPrefix: string) => (
+    <div data-testid={`${testIdPrefix}-ineligible-${boxingClass.id}`}>
+      <ul className="text-xs text-muted-foreground mb-2 space-y-0.5">
+        {reasons.map(reason => <li key={reason}>{reason}</li>)}
+      </ul>
+      <Button variant="outline" className="w-full" disabled>
+        Not open to you
+      </Button>
+    </div>
+  );
+
+  const renderRules = (boxingClass: BoxingClass) => {
+    const rules = describeEligibility(boxingClass);
+    if (rules.length === 0) return null;
+    return (
+      <div className="flex flex-wrap gap-1 mb-2" data-testid={`rules-${boxingClass.id}`}>
+        {rules.map(rule => <Badge key={rule} variant="outline" className="text-xs">{rule}</Badge>)}
+      </div>
+    );
+  };
+
+  const renderOfferNotice = (boxingClass: BoxingClass) => {
+    const entry = getWaitlistEntry(boxingClass.id);
+    if (entry?.status !== "offered" || !entry.offerExpiresAt) return null;
+    return (
+      <p className="text-xs font-medium text-amber-700 dark:text-amber-300 mb-2" data-testid={`text-waitlist-offer-${boxingClass.id}`}>
+        A place is being held for you until {format(new Date(entry.offerExpiresAt), "EEE d MMM, HH:mm")}
+      </p>
+    );
+  };
+
   const weekEnd = addDays(weekStart, 13);
   const twoWeeksDays = eachDayOfInterval({ start: weekStart, end: weekEnd });
 
@@ -191,7 +487,7 @@ export default function Sessions() {
     if (!acc[c.date]) acc[c.date] = [];
     acc[c.date].push(c);
     return acc;
-  }, {} as Record<string, BoxingClass[]>);
+  }, {} as Record<string, SessionClass[]>);
 
   const classesForSelectedDate = selectedDate
     ? classesByDate[format(selectedDate, "yyyy-MM-dd")] || []
@@ -199,7 +495,11 @@ export default function Sessions() {
 
   const currentWeekStart = startOfWeek(new Date(), { weekStartsOn: 1 });
   const isCurrentWeek = weekStart.getTime() === currentWeekStart.getTime();
-  const maxWeekStart = addWeeks(currentWeekStart, 1);
+  // Two weeks show at once, so stop when the last session on the timetable is in view
+  const lastClassDate = (classes || []).reduce((last, c) => c.date > last ? c.date : last, "");
+  const maxWeekStart = lastClassDate
+    ? max([currentWeekStart, subWeeks(startOfWeek(parseISO(lastClassDate), { weekStartsOn: 1 }), 1)])
+    : currentWeekStart;
 
   const prevWeek = () => {
     if (weekStart > currentWeekStart) {
@@ -214,7 +514,7 @@ export default function Sessions() {
 
   const handleDateClick = (date: Date) => {
     const dateStr = format(date, "yyyy-MM-dd");
-    if (classesByDate[dateStr] && !isBefore(date, startOfDay(new Date()))) {
+    if (classesByDate[dateStr] && dateStr >= clubToday) {
       setSelectedDate(date);
     }
   };
@@ -243,7 +543,7 @@ export default function Sessions() {
             Class Schedule
           </h1>
           <p className="mt-2 text-gray-300">
-            View our weekly schedule and book your sessions. All classes are £5 each. First session FREE!
+            View our weekly schedule and book your sessions. First session FREE!
           </p>
         </div>
       </section>
@@ -251,8 +551,48 @@ export default function Sessions() {
       <section className="py-12 lg:py-16">
         <div className="mx-auto max-w-6xl px-4 sm:px-6 lg:px-8">
 
+          {/* Who the booking is for */}
+          {currentMember && dependants && dependants.length > 0 && (
+            <Card className="p-4 mb-6" data-testid="card-booking-for">
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                <p className="font-semibold text-foreground">Booking for</p>
+                <Select value={bookingForId ?? "me"} onValueChange={(id) => setBookingForId(id === "me" ? null : id)}>
+                  <SelectTrigger className="sm:w-64" data-testid="select-booking-for">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="me">Me ({currentMember.name})</SelectItem>
+                    {dependants.map(junior => (
+                      <SelectItem key={junior.id} value={junior.id}>{junior.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </Card>
+          )}
+
+          {/* Unsigned forms */}
+          {unsignedForms.length > 0 && (
+            <Card className="p-4 mb-6 border-destructive/50 bg-destructive/5" data-testid="banner-unsigned-forms">
+              <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                <div className="flex items-center gap-3">
+                  <FileSignature className="h-5 w-5 text-destructive shrink-0" />
+                  <div>
+                    <p className="font-bold text-foreground">
+                      {bookingFor ? `${bookingFor.name} has` : "You have"} forms to sign before booking
+                    </p>
+                    <p className="text-sm text-muted-foreground">{unsignedForms.map(f => f.title).join(", ")}</p>
+                  </div>
+                </div>
+                <Button asChild size="sm" data-testid="button-sign-forms">
+                  <Link href="/dashboard">Sign Forms</Link>
+                </Button>
+              </div>
+            </Card>
+          )}
+
           {/* Free Session Banner */}
-          {currentMember && !currentMember.hasUsedFreeSession && (
+          {boxer && !boxer.hasUsedFreeSession && (
             <Card className="p-4 mb-6 bg-green-50 dark:bg-green-950 border-green-200 dark:border-green-800" data-testid="banner-free-session">
               <div className="flex items-center gap-3">
                 <Badge variant="default" className="bg-green-600" data-testid="badge-free-intro">
@@ -260,10 +600,10 @@ export default function Sessions() {
                 </Badge>
                 <div>
                   <p className="font-bold text-green-800 dark:text-green-200" data-testid="text-free-session-title">
-                    Your first session is FREE, then £5 per session
+                    {bookingFor ? `${bookingFor.name}'s` : "Your"} first session is FREE
                   </p>
                   <p className="text-sm text-green-700 dark:text-green-300" data-testid="text-free-session-desc">
-                    Book any class below - your first session costs £0. All subsequent sessions are just £5.
+                    Book any class below - your first session costs £0. After that you pay the price shown on each class.
                   </p>
                 </div>
               </div>
@@ -279,8 +619,8 @@ export default function Sessions() {
                 Cancellations within 1 hour of the session start time will forfeit your free session.
               </p>
               <p className="mt-2">
-                For card payment refunds, please contact us at Milltownabc@gmail.com or speak to a coach at the gym. 
-                Refunds for cancellations made more than 1 hour before the session will be processed within a few days.
+                Card payments are refunded automatically when you cancel more than 1 hour before the session. 
+                Cancellations within 1 hour of the session start time are non-refundable.
               </p>
             </div>
           </Card>
@@ -337,8 +677,8 @@ export default function Sessions() {
               const dayClasses = classesByDate[dateStr] || [];
               const hasClass = dayClasses.length > 0;
               const isSelected = selectedDate && isSameDay(day, selectedDate);
-              const isPast = isBefore(day, startOfDay(new Date()));
-              const isCurrentDay = isToday(day);
+              const isPast = dateStr < clubToday;
+              const isCurrentDay = dateStr === clubToday;
 
               return (
                 <button
@@ -440,7 +780,7 @@ export default function Sessions() {
                   <div className="space-y-3">
                     {classesForSelectedDate.map(boxingClass => {
                       const isBooking = bookingClassId === boxingClass.id;
-                      const isEligibleForFree = currentMember && !currentMember.hasUsedFreeSession;
+                      const isEligibleForFree = boxer && !boxer.hasUsedFreeSession && !onPlan;
 
                       return (
                         <Card
@@ -457,16 +797,25 @@ export default function Sessions() {
                           </div>
                           
                           <h3 className="font-semibold text-foreground mb-2">{boxingClass.title}</h3>
+                          {renderRules(boxingClass)}
                           
-                          <div className="flex items-center justify-end text-sm mb-4">
+                          <div className="flex items-center justify-end gap-2 text-sm mb-4">
+                            {isClassFull(boxingClass) && <Badge variant="outline">Full</Badge>}
                             {isEligibleForFree ? (
                               <Badge variant="default" className="bg-green-600">FREE</Badge>
                             ) : (
-                              <span className="font-bold text-primary">£5</span>
+                              <span className="font-bold text-primary">{formatPrice(getClassPrice(boxingClass))}</span>
                             )}
                           </div>
 
-                          {currentMember ? (
+                          {currentMember && renderOfferNotice(boxingClass)}
+                          {bookingOpensLater(boxingClass) ? (
+                            renderBookingOpens(boxingClass, "mobile")
+                          ) : myIneligibility?.[boxingClass.id] ? (
+                            renderIneligible(boxingClass, myIneligibility[boxingClass.id], "mobile")
+                          ) : currentMember && isClassFull(boxingClass) && getWaitlistEntry(boxingClass.id)?.status !== "offered" ? (
+                            renderWaitlistAction(boxingClass, "mobile")
+                          ) : currentMember ? (
                             <Button
                               className={`w-full ${isEligibleForFree ? 'bg-green-600' : ''}`}
                               onClick={() => handleBookClick(boxingClass.id, isEligibleForFree ?? false)}
@@ -476,8 +825,12 @@ export default function Sessions() {
                                 <Loader2 className="h-4 w-4 animate-spin" />
                               ) : isEligibleForFree ? (
                                 <span><Check className="h-4 w-4 mr-2 inline" />Book Free First Session</span>
+                              ) : onPlan ? (
+                                <span><Check className="h-4 w-4 mr-2 inline" />Book on Membership</span>
+                              ) : creditBalance > 0 ? (
+                                <span><Check className="h-4 w-4 mr-2 inline" />Book with Credit ({creditBalance} left)</span>
                               ) : (
-                                <span><Check className="h-4 w-4 mr-2 inline" />Pay £5 with Square</span>
+                                <span><Check className="h-4 w-4 mr-2 inline" />Pay {formatPrice(getClassPrice(boxingClass))} with Square</span>
                               )}
                             </Button>
                           ) : (
@@ -499,7 +852,7 @@ export default function Sessions() {
             <h2 className="text-lg font-bold text-foreground mb-4">Upcoming Sessions</h2>
             <div className="space-y-3">
               {(classes || [])
-                .filter(c => !isBefore(new Date(c.date), startOfDay(new Date())))
+                .filter(c => c.date >= clubToday)
                 .sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time))
                 .slice(0, 10)
                 .map(boxingClass => {
@@ -526,10 +879,10 @@ export default function Sessions() {
                           </div>
                         </div>
                         <div className="text-right">
-                          {currentMember && !currentMember.hasUsedFreeSession ? (
+                          {boxer && !boxer.hasUsedFreeSession ? (
                             <Badge variant="default" className="bg-green-600">FREE</Badge>
                           ) : (
-                            <div className="font-bold text-primary">£5</div>
+                            <div className="font-bold text-primary">{formatPrice(getClassPrice(boxingClass))}</div>
                           )}
                         </div>
                       </div>
@@ -564,7 +917,7 @@ export default function Sessions() {
                 <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
                   {classesForSelectedDate.map(boxingClass => {
                     const isBooking = bookingClassId === boxingClass.id;
-                    const isEligibleForFree = currentMember && !currentMember.hasUsedFreeSession;
+                    const isEligibleForFree = boxer && !boxer.hasUsedFreeSession && !onPlan;
 
                     return (
                       <Card
@@ -581,18 +934,29 @@ export default function Sessions() {
                         </div>
                         
                         <h3 className="font-semibold text-foreground mb-2">{boxingClass.title}</h3>
+                        {renderRules(boxingClass)}
                         
-                        <div className="flex items-center justify-end text-sm mb-4">
+                        <div className="flex items-center justify-end gap-2 text-sm mb-4">
+                          {isClassFull(boxingClass) && (
+                            <Badge variant="outline" data-testid={`badge-full-${boxingClass.id}`}>Full</Badge>
+                          )}
                           {isEligibleForFree ? (
                             <Badge variant="default" className="bg-green-600" data-testid={`badge-free-${boxingClass.id}`}>
                               FREE
                             </Badge>
                           ) : (
-                            <span className="font-bold text-primary" data-testid={`text-price-${boxingClass.id}`}>£5</span>
+                            <span className="font-bold text-primary" data-testid={`text-price-${boxingClass.id}`}>{formatPrice(getClassPrice(boxingClass))}</span>
                           )}
                         </div>
 
-                        {currentMember ? (
+                        {currentMember && renderOfferNotice(boxingClass)}
+                        {bookingOpensLater(boxingClass) ? (
+                          renderBookingOpens(boxingClass, "button")
+                        ) : myIneligibility?.[boxingClass.id] ? (
+                          renderIneligible(boxingClass, myIneligibility[boxingClass.id], "button")
+                        ) : currentMember && isClassFull(boxingClass) && getWaitlistEntry(boxingClass.id)?.status !== "offered" ? (
+                          renderWaitlistAction(boxingClass, "button")
+                        ) : currentMember ? (
                           <Button
                             className={`w-full ${isEligibleForFree ? 'bg-green-600' : ''}`}
                             onClick={() => handleBookClick(boxingClass.id, isEligibleForFree ?? false)}
@@ -606,10 +970,20 @@ export default function Sessions() {
                                 <Check className="h-4 w-4 mr-2 inline" />
                                 Book Free First Session
                               </span>
+                            ) : onPlan ? (
+                              <span data-testid={`text-book-membership-${boxingClass.id}`}>
+                                <Check className="h-4 w-4 mr-2 inline" />
+                                Book on Membership
+                              </span>
+                            ) : creditBalance > 0 ? (
+                              <span data-testid={`text-book-credit-${boxingClass.id}`}>
+                                <Check className="h-4 w-4 mr-2 inline" />
+                                Book with Credit ({creditBalance} left)
+                              </span>
                             ) : (
                               <span data-testid={`text-book-paid-${boxingClass.id}`}>
                                 <Check className="h-4 w-4 mr-2 inline" />
-                                Pay £5 with Square
+                                Pay {formatPrice(getClassPrice(boxingClass))} with Square
                               </span>
                             )}
                           </Button>
@@ -646,6 +1020,7 @@ export default function Sessions() {
           setPendingBookingClassId(null);
           setHcaptchaToken(null);
           captchaRef.current?.resetCaptcha();
+          clearDiscounts();
         }
       }}>
         <DialogContent className="sm:max-w-md" data-testid="dialog-captcha-booking">
@@ -672,6 +1047,7 @@ export default function Sessions() {
                 setPendingBookingClassId(null);
                 setHcaptchaToken(null);
                 captchaRef.current?.resetCaptcha();
+                clearDiscounts();
               }}
               data-testid="button-captcha-cancel"
             >
@@ -694,107 +1070,161 @@ export default function Sessions() {
       {/* Payment Dialog */}
       <Dialog open={paymentDialogOpen} onOpenChange={(open) => {
         if (!open && !isProcessingPayment) {
-          setPaymentDialogOpen(false);
-          setPaymentClassId(null);
-          setPaymentMethod("card");
+          closePaymentDialog();
         }
       }}>
         <DialogContent className="sm:max-w-md" data-testid="dialog-payment">
           <DialogHeader>
-            <DialogTitle>Book Session - £5</DialogTitle>
+            <DialogTitle>
+              Book Session - {(appliedPromo || appliedVoucher) && (
+                <span className="line-through text-muted-foreground font-normal mr-1" data-testid="text-original-price">{formatPrice(paymentPrice)}</span>
+              )}
+              {formatPrice(bookingPrice)}
+            </DialogTitle>
             <DialogDescription>
               Choose how you'd like to pay for this session.
             </DialogDescription>
           </DialogHeader>
           
           <div className="space-y-4">
-            <div>
-              <label className="text-sm font-medium mb-2 block">Payment Method</label>
-              <Select 
-                value={paymentMethod} 
-                onValueChange={(value: "card" | "cash") => setPaymentMethod(value)}
-                disabled={isProcessingPayment}
-              >
-                <SelectTrigger data-testid="select-payment-method">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="card">
-                    <div className="flex items-center gap-2">
-                      <CreditCard className="h-4 w-4" />
-                      <span>Card (Pay now)</span>
-                    </div>
-                  </SelectItem>
-                  <SelectItem value="cash">
-                    <div className="flex items-center gap-2">
-                      <Banknote className="h-4 w-4" />
-                      <span>Cash at reception</span>
-                    </div>
-                  </SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+            <DiscountCodeField
+              label="Promo Code"
+              testIdPrefix="promo"
+              icon={Tag}
+              value={promoInput}
+              onChange={setPromoInput}
+              applied={appliedPromo && {
+                code: appliedPromo.code,
+                summary: `saves ${formatPrice(appliedPromo.discountAmount)}`,
+                description: appliedPromo.description,
+              }}
+              onApply={() => applyPromoMutation.mutate()}
+              onRemove={() => { setPromoInput(""); setAppliedPromo(null); }}
+              isApplying={applyPromoMutation.isPending}
+              disabled={isProcessingPayment}
+            />
+
+            <DiscountCodeField
+              label="Gift Voucher"
+              testIdPrefix="voucher"
+              icon={Gift}
+              value={voucherInput}
+              onChange={setVoucherInput}
+              applied={appliedVoucher && {
+                code: appliedVoucher.code,
+                summary: `${formatPrice(voucherUsed.toFixed(2))} of ${formatPrice(appliedVoucher.balance)} used`,
+              }}
+              onApply={() => applyVoucherMutation.mutate()}
+              onRemove={() => { setVoucherInput(""); setAppliedVoucher(null); }}
+              isApplying={applyVoucherMutation.isPending}
+              disabled={isProcessingPayment}
+            />
 
-            {paymentMethod === "card" ? (
-              <SquarePayment
-                amount={500}
-                onPaymentSuccess={handlePaymentSuccess}
-                onPaymentError={handlePaymentError}
-                onCancel={() => {
-                  setPaymentDialogOpen(false);
-                  setPaymentClassId(null);
-                  setPaymentMethod("card");
-                }}
-                isProcessing={isProcessingPayment}
-              />
+            {nothingToPay ? (
+              <div className="flex gap-3">
+                <Button
+                  variant="outline"
+                  onClick={closePaymentDialog}
+                  className="flex-1"
+                  data-testid="button-discount-cancel"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleNothingToPayBooking}
+                  className="flex-1"
+                  data-testid="button-discount-confirm"
+                >
+                  <Check className="h-4 w-4 mr-2" />
+                  Confirm Booking
+                </Button>
+              </div>
             ) : (
-              <div className="space-y-4">
-                <div className="p-4 bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800 rounded-md" data-testid="cash-payment-note">
-                  <div className="flex items-start gap-3">
-                    <Banknote className="h-5 w-5 text-amber-600 dark:text-amber-400 mt-0.5" />
-                    <div>
-                      <p className="font-medium text-amber-800 dark:text-amber-200">Pay cash when you arrive</p>
-                      <p className="text-sm text-amber-700 dark:text-amber-300 mt-1">
-                        Bring £5 cash and pay at reception before your session.
-                      </p>
-                    </div>
-                  </div>
-                </div>
-                
-                <div className="flex gap-3">
-                  <Button
-                    variant="outline"
-                    onClick={() => {
-                      setPaymentDialogOpen(false);
-                      setPaymentClassId(null);
-                      setPaymentMethod("card");
-                    }}
-                    disabled={isProcessingPayment}
-                    className="flex-1"
-                    data-testid="button-cash-cancel"
-                  >
-                    Cancel
-                  </Button>
-                  <Button
-                    onClick={handleCashBooking}
+              <>
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Payment Method</label>
+                  <Select 
+                    value={paymentMethod} 
+                    onValueChange={(value: "card" | "cash") => setPaymentMethod(value)}
                     disabled={isProcessingPayment}
-                    className="flex-1"
-                    data-testid="button-cash-confirm"
                   >
-                    {isProcessingPayment ? (
-                      <>
-                        <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                        Booking...
-                      </>
-                    ) : (
-                      <>
-                        <Check className="h-4 w-4 mr-2" />
-                        Confirm Booking
-                      </>
-                    )}
-                  </Button>
+                    <SelectTrigger data-testid="select-payment-method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="card">
+                        <div className="flex items-center gap-2">
+                          <CreditCard className="h-4 w-4" />
+                          <span>Card (Pay now)</span>
+                        </div>
+                      </SelectItem>
+                      <SelectItem value="cash">
+                        <div className="flex items-center gap-2">
+                          <Banknote className="h-4 w-4" />
+                          <span>Cash at reception</span>
+                        </div>
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
-              </div>
+
+                {paymentMethod === "card" ? (
+                  <SquarePayment
+                    amount={Math.round(parseFloat(bookingPrice) * 100)}
+                    onPaymentSuccess={handlePaymentSuccess}
+                    onPaymentError={handlePaymentError}
+                    onCancel={closePaymentDialog}
+                    isProcessing={isProcessingPayment}
+                    savedCards={chargeableCards}
+                    onSavedCardPayment={handleSavedCardPayment}
+                    offerSaveCard
+                  />
+                ) : (
+                  <div className="space-y-4">
+                    <div className="p-4 bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800 rounded-md" data-testid="cash-payment-note">
+                      <div className="flex items-start gap-3">
+                        <Banknote className="h-5 w-5 text-amber-600 dark:text-amber-400 mt-0.5" />
+                        <div>
+                          <p className="font-medium text-amber-800 dark:text-amber-200">Pay cash when you arrive</p>
+                          <p className="text-sm text-amber-700 dark:text-amber-300 mt-1">
+                            Bring {formatPrice(bookingPrice)} cash and pay at reception before your session.
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+                    
+                    <div className="flex gap-3">
+                      <Button
+                        variant="outline"
+                        onClick={closePaymentDialog}
+                        disabled={isProcessingPayment}
+                        className="flex-1"
+                        data-testid="button-cash-cancel"
+                      >
+                        Cancel
+                      </Button>
+                      <Button
+                        onClick={handleCashBooking}
+                        disabled={isProcessingPayment}
+                        className="flex-1"
+                        data-testid="button-cash-confirm"
+                      >
+                        {isProcessingPayment ? (
+                          <>
+                            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                            Booking...
+                          </>
+                        ) : (
+                          <>
+                            <Check className="h-4 w-4 mr-2" />
+                            Confirm Booking
+                          </>
+                        )}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </>
             )}
           </div>
         </DialogContent>
@@ -802,3 +1232,62 @@ export default function Sessions() {
     </PublicLayout>
   );
 }
+
+interface DiscountCodeFieldProps {
+  label: string;
+  testIdPrefix: string;
+  icon: LucideIcon;
+  value: string;
+  onChange: (value: string) => void;
+  applied: { code: string; summary: string; description?: string | null } | null;
+  onApply: () => void;
+  onRemove: () => void;
+  isApplying: boolean;
+  disabled: boolean;
+}
+
+function DiscountCodeField({ label, testIdPrefix, icon: Icon, value, onChange, applied, onApply, onRemove, isApplying, disabled }: DiscountCodeFieldProps) {
+  return (
+    <div>
+      <label className="text-sm font-medium mb-2 block">{label}</label>
+      {applied ? (
+        <div className="flex items-center justify-between gap-2 p-3 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 rounded-md" data-testid={`${testIdPrefix}-applied`}>
+          <div className="flex items-center gap-2 text-sm">
+            <Icon className="h-4 w-4 text-green-600 dark:text-green-400" />
+            <span>
+              <span className="font-medium">{applied.code}</span> - {applied.summary}
+              {applied.description && <span className="block text-muted-foreground">{applied.description}</span>}
+            </span>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onRemove}
+            disabled={disabled}
+            data-testid={`button-remove-${testIdPrefix}`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <Input
+            value={value}
+            onChange={(e) => onChange(e.target.value.toUpperCase())}
+            placeholder="Enter code"
+            disabled={disabled}
+            data-testid={`input-${testIdPrefix}-code`}
+          />
+          <Button
+            variant="outline"
+            onClick={onApply}
+            disabled={!value.trim() || isApplying || disabled}
+            data-testid={`button-apply-${testIdPrefix}`}
+          >
+            {isApplying ? <Loader2 className="h-4 w-4 animate-spin" /> : "Apply"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -76,9 +76,9 @@ export default function Terms() {
             <ul className="list-disc pl-6 space-y-2 text-muted-foreground">
               <li>You can cancel a booking from your member dashboard at any time before the session.</li>
               <li><strong className="text-foreground">Free sessions:</strong> If you cancel more than 1 hour before the session start time, your free first session will be restored and you can use it on another booking. Cancellations within 1 hour of the session will forfeit your free session.</li>
-              <li><strong className="text-foreground">Paid sessions (card):</strong> For refunds on card payments, please contact us at Milltownabc@gmail.com or speak to a coach at the gym. Refunds for cancellations made more than 1 hour before the session will be processed within a few days via your original payment method.</li>
+              <li><strong className="text-foreground">Paid sessions (card):</strong> If you cancel more than 1 hour before the session start time, your payment is refunded automatically to your original card. Refunds usually take 5-10 working days to appear on your statement. Cancellations within 1 hour of the session are non-refundable.</li>
               <li><strong className="text-foreground">Cash payments:</strong> If you paid cash and cancel before attending, please speak to a coach to arrange a refund or credit.</li>
-              <li>Mill Town ABC reserves the right to cancel or reschedule classes due to unforeseen circumstances. If we cancel a class, any bookings will be cancelled and refunds arranged.</li>
+              <li>Mill Town ABC reserves the right to cancel or reschedule classes due to unforeseen circumstances. If we cancel a class or your booking, card payments are refunded in full.</li>
             </ul>
           </Card>
 
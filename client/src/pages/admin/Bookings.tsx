@@ -1,4 +1,4 @@
-import { useState, useMemo } from "react";
+import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { AdminLayout } from "@/components/layout/AdminLayout";
 import { Card } from "@/components/ui/card";
@@ -22,10 +22,12 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { format, startOfDay, startOfWeek, startOfMonth, startOfYear, isAfter, isBefore, subMonths, parseISO, addMinutes } from "date-fns";
+import { format, isBefore, parseISO, addMinutes } from "date-fns";
 import { ClipboardList, CheckCircle, XCircle, PoundSterling, TrendingUp, Calendar, AlertCircle, Download, FileText, Building2, Gift, CreditCard, Banknote } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { isPaidBooking, type PaymentIssue, type SiteSettings } from "@shared/schema";
+import { DEFAULT_CLUB_TIMEZONE, zonedDateTime } from "@shared/clubTime";
 
 interface Booking {
   id: string;
@@ -36,6 +38,8 @@ interface Booking {
   isFreeSession?: boolean;
   paymentMethod?: string;
   price?: string;
+  refundStatus?: string | null;
+  refundAmount?: string | null;
   memberDeleted?: boolean;
   deletedMemberName?: string;
   member?: {
@@ -66,19 +70,17 @@ function getMemberEmail(booking: Booking): string | null {
   return booking.member?.email || null;
 }
 
-const SESSION_PRICE = 5.00;
 const BUSINESS_NAME = "Mill Town ABC";
 const BUSINESS_ADDRESS = "Whitfield Community Centre, Ebenezer Street, Glossop, SK13 8JY";
 const CURRENCY = "GBP";
 
-function isSessionPast(booking: Booking): boolean {
+// Class times are the club's wall clock, so they're read in its timezone rather than the browser's
+function isSessionPast(booking: Booking, clubTimezone: string): boolean {
   if (!booking.class?.date || !booking.class?.time) return false;
   try {
-    const [hours, minutes] = booking.class.time.split(":").map(Number);
-    const classDate = parseISO(booking.class.date);
-    classDate.setHours(hours, minutes, 0, 0);
+    const classStart = zonedDateTime(booking.class.date, booking.class.time, clubTimezone);
     const duration = booking.class.duration || 60;
-    const classEnd = addMinutes(classDate, duration);
+    const classEnd = addMinutes(classStart, duration);
     return isBefore(classEnd, new Date());
   } catch {
     return false;
@@ -88,7 +90,6 @@ function isSessionPast(booking: Booking): boolean {
 export default function AdminBookings() {
   const [statusFilter, setStatusFilter] = useState<string>("confirmed");
   const [activeTab, setActiveTab] = useState<string>("bookings");
-  const [financePeriod, setFinancePeriod] = useState<string>("all");
   const [hideDeletedMembers, setHideDeletedMembers] = useState<boolean>(true);
   const { toast } = useToast();
   
@@ -96,6 +97,11 @@ export default function AdminBookings() {
     queryKey: ["/api/admin/bookings"],
   });
 
+  const { data: settingsData } = useQuery<{ content: SiteSettings | null }>({
+    queryKey: ["/api/content", "settings"],
+  });
+  const clubTimezone = settingsData?.content?.timezone || DEFAULT_CLUB_TIMEZONE;
+
   const confirmMutation = useMutation({
     mutationFn: async (bookingId: string) => {
       await apiRequest("POST", `/api/admin/bookings/${bookingId}/confirm`);
@@ -104,27 +110,61 @@ export default function AdminBookings() {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/bookings"] });
       toast({ title: "Payment confirmed", description: "Booking has been marked as paid." });
     },
-    onError: () => {
-      toast({ title: "Error", description: "Failed to confirm payment.", variant: "destructive" });
+    onError: (error: Error) => {
+      const description = error.message.startsWith("409")
+        ? "This class's cash has already been counted. Reopen its cash session on the Cash Takings page first."
+        : "Failed to confirm payment.";
+      toast({ title: "Error", description, variant: "destructive" });
     },
   });
 
   const cancelMutation = useMutation({
     mutationFn: async (bookingId: string) => {
-      await apiRequest("DELETE", `/api/admin/bookings/${bookingId}`);
+      const res = await apiRequest("DELETE", `/api/admin/bookings/${bookingId}`);
+      return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { message: string }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/bookings"] });
-      toast({ title: "Booking cancelled", description: "The booking has been cancelled." });
+      toast({ title: "Booking cancelled", description: data.message });
     },
     onError: () => {
       toast({ title: "Error", description: "Failed to cancel booking.", variant: "destructive" });
     },
   });
 
+  const refundMutation = useMutation({
+    mutationFn: async (bookingId: string) => {
+      const res = await apiRequest("POST", `/api/admin/bookings/${bookingId}/refund`);
+      return res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/bookings"] });
+      toast({ title: "Refund issued", description: data.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Refund failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Failed refunds can be retried, and late cancellations refunded as a goodwill override
+  const canRefund = (booking: Booking) =>
+    booking.status === "cancelled" && (booking.refundStatus === "failed" || booking.refundStatus === "not_eligible");
+
+  const getRefundLabel = (booking: Booking) => {
+    switch (booking.refundStatus) {
+      case "refunded": return "Refunded";
+      case "pending": return "Refunding";
+      case "failed": return "Refund failed";
+      case "not_eligible": return "No refund";
+      default: return null;
+    }
+  };
+
   const getStatusVariant = (status: string) => {
     switch (status) {
       case "confirmed": return "default";
+      case "attended": return "default";
+      case "no_show": return "destructive";
       case "cancelled": return "secondary";
       case "pending": return "outline";
       case "pending_cash": return "outline";
@@ -137,66 +177,13 @@ export default function AdminBookings() {
   const allBookings = hideDeletedMembers 
     ? allBookingsRaw.filter(b => !b.memberDeleted) 
     : allBookingsRaw;
-  const confirmedBookings = allBookings.filter(b => b.status === "confirmed");
+  const confirmedBookings = allBookings.filter(b => isPaidBooking(b));
   const cancelledBookings = allBookings.filter(b => b.status === "cancelled");
   
-  const now = new Date();
-  const todayStart = startOfDay(now);
-  const weekStart = startOfWeek(now, { weekStartsOn: 1 });
-  const monthStart = startOfMonth(now);
-  const yearStart = startOfYear(now);
-  const lastMonthStart = subMonths(monthStart, 1);
-
-  const getFilteredByPeriod = (list: Booking[], period: string) => {
-    switch (period) {
-      case "today":
-        return list.filter(b => isAfter(new Date(b.bookedAt), todayStart));
-      case "week":
-        return list.filter(b => isAfter(new Date(b.bookedAt), weekStart));
-      case "month":
-        return list.filter(b => isAfter(new Date(b.bookedAt), monthStart));
-      case "lastmonth":
-        return list.filter(b => {
-          const date = new Date(b.bookedAt);
-          return isAfter(date, lastMonthStart) && !isAfter(date, monthStart);
-        });
-      case "year":
-        return list.filter(b => isAfter(new Date(b.bookedAt), yearStart));
-      default:
-        return list;
-    }
-  };
-
-  // Revenue calculations - exclude free sessions
-  const paidConfirmedBookings = confirmedBookings.filter(b => !b.isFreeSession);
-  const todayRevenue = paidConfirmedBookings.filter(b => isAfter(new Date(b.bookedAt), todayStart)).reduce((sum, b) => sum + parseFloat(b.price || "5.00"), 0);
-  const weekRevenue = paidConfirmedBookings.filter(b => isAfter(new Date(b.bookedAt), weekStart)).reduce((sum, b) => sum + parseFloat(b.price || "5.00"), 0);
-  const monthRevenue = paidConfirmedBookings.filter(b => isAfter(new Date(b.bookedAt), monthStart)).reduce((sum, b) => sum + parseFloat(b.price || "5.00"), 0);
-  const yearRevenue = paidConfirmedBookings.filter(b => isAfter(new Date(b.bookedAt), yearStart)).reduce((sum, b) => sum + parseFloat(b.price || "5.00"), 0);
-  const totalRevenue = paidConfirmedBookings.reduce((sum, b) => sum + parseFloat(b.price || "5.00"), 0);
-  const refundedAmount = cancelledBookings.filter(b => !b.isFreeSession).reduce((sum, b) => sum + parseFloat(b.price || "5.00"), 0);
-  
-  // Free session tracking
-  const confirmedFreeSessionsCount = confirmedBookings.filter(b => b.isFreeSession).length;
-  const freeSessionValue = confirmedFreeSessionsCount * SESSION_PRICE; // Notional value for records
-  
   const filteredBookings = allBookings
     .filter(b => statusFilter === "all" || b.status === statusFilter)
     .sort((a, b) => new Date(b.bookedAt).getTime() - new Date(a.bookedAt).getTime());
 
-  const financeBookings = useMemo(() => {
-    return getFilteredByPeriod(allBookings, financePeriod)
-      .sort((a, b) => new Date(b.bookedAt).getTime() - new Date(a.bookedAt).getTime());
-  }, [allBookings, financePeriod]);
-
-  const financeConfirmed = financeBookings.filter(b => b.status === "confirmed");
-  const financeCancelled = financeBookings.filter(b => b.status === "cancelled");
-  const financePaidConfirmed = financeConfirmed.filter(b => !b.isFreeSession);
-  const financeFreeConfirmed = financeConfirmed.filter(b => b.isFreeSession);
-  const financeGross = financePaidConfirmed.reduce((sum, b) => sum + parseFloat(b.price || "5.00"), 0);
-  const financeRefunds = financeCancelled.filter(b => !b.isFreeSession).reduce((sum, b) => sum + parseFloat(b.price || "5.00"), 0);
-  const financeFreeValue = financeFreeConfirmed.length * SESSION_PRICE; // Notional value
-
   // Payment type breakdowns
   const freeSessionBookings = allBookings.filter(b => b.isFreeSession === true);
   const paidOnlineBookings = allBookings.filter(b => !b.isFreeSession && b.paymentMethod === "card");
@@ -204,87 +191,18 @@ export default function AdminBookings() {
   
   // Pending cash (awaiting payment at reception)
   const pendingCashBookings = cashBookings.filter(b => b.status === "pending_cash");
-  const confirmedCashBookings = cashBookings.filter(b => b.status === "confirmed");
+  const confirmedCashBookings = cashBookings.filter(b => isPaidBooking(b));
 
   const getPaymentTypeLabel = (booking: Booking) => {
     if (booking.isFreeSession) return "Free (1st Session)";
     if (booking.paymentMethod === "cash") return "Cash";
+    if (booking.paymentMethod === "credit") return "Class Pack Credit";
+    if (booking.paymentMethod === "subscription") return "Membership";
+    if (booking.paymentMethod === "promo") return "Promo Code";
+    if (booking.paymentMethod === "voucher") return "Gift Voucher";
     return "Card (Online)";
   };
 
-  const exportToCSV = () => {
-    const headers = [
-      "Transaction Date",
-      "Transaction ID", 
-      "Member Name",
-      "Member Email",
-      "Service Description",
-      "Class Date",
-      "Class Time",
-      "Status",
-      "Amount (GBP)",
-      "VAT Amount",
-      "Net Amount",
-      "Payment Method"
-    ];
-
-    const rows = financeBookings.map(booking => {
-      const amount = booking.isFreeSession ? 0 : parseFloat(booking.price || "5.00");
-      const paymentMethod = booking.isFreeSession ? "Free First Session" : (booking.paymentMethod === "cash" ? "Cash" : "Card");
-      return [
-        format(new Date(booking.bookedAt), "dd/MM/yyyy HH:mm:ss"),
-        booking.id,
-        getMemberDisplayName(booking),
-        getMemberEmail(booking) || "(Account Deleted)",
-        `Boxing class: ${booking.class?.title || "Session"}${booking.isFreeSession ? " (FREE)" : ""}`,
-        booking.class?.date || "",
-        booking.class?.time || "",
-        booking.status,
-        booking.status === "cancelled" ? `-${amount.toFixed(2)}` : amount.toFixed(2),
-        "0.00",
-        booking.status === "cancelled" ? `-${amount.toFixed(2)}` : amount.toFixed(2),
-        paymentMethod
-      ];
-    });
-
-    const summaryRows = [
-      [],
-      ["FINANCIAL SUMMARY"],
-      ["Business Name", BUSINESS_NAME],
-      ["Report Period", financePeriod === "all" ? "All Time" : financePeriod],
-      ["Generated", format(new Date(), "dd/MM/yyyy HH:mm:ss")],
-      [],
-      ["Total Confirmed Bookings", financeConfirmed.length.toString()],
-      ["- Paid Sessions", financePaidConfirmed.length.toString()],
-      ["- Free First Sessions", financeFreeConfirmed.length.toString()],
-      [],
-      ["Gross Revenue (Paid Sessions)", `£${financeGross.toFixed(2)}`],
-      ["Free Sessions Value (Promotional)", `£${financeFreeValue.toFixed(2)}`],
-      ["Cancelled/Refunded", `£${financeRefunds.toFixed(2)}`],
-      ["VAT (Not Registered)", "£0.00"],
-      ["Net Revenue", `£${financeGross.toFixed(2)}`],
-      [],
-      ["Note: Free first sessions are promotional - no revenue recorded"],
-      ["Note: VAT not charged - turnover below £90,000 threshold"],
-      ["Records retained for HMRC compliance (6 years minimum)"]
-    ];
-
-    const csvContent = [
-      headers.join(","),
-      ...rows.map(row => row.map(cell => `"${cell}"`).join(",")),
-      ...summaryRows.map(row => row.join(","))
-    ].join("\n");
-
-    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    link.setAttribute("href", url);
-    link.setAttribute("download", `milltown-boxing-finance-${format(new Date(), "yyyy-MM-dd")}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
-
   return (
     <AdminLayout title="Bookings & Finance">
       <div className="mx-auto max-w-6xl space-y-6">
@@ -295,6 +213,8 @@ export default function AdminBookings() {
           </div>
         </div>
 
+        <PaymentIssuesCard />
+
         <Tabs value={activeTab} onValueChange={setActiveTab}>
           <div className="sm:hidden">
             <Select value={activeTab} onValueChange={setActiveTab}>
@@ -360,6 +280,8 @@ export default function AdminBookings() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="confirmed">Confirmed only</SelectItem>
+                    <SelectItem value="attended">Attended</SelectItem>
+                    <SelectItem value="no_show">No-shows</SelectItem>
                     <SelectItem value="cancelled">Cancelled only</SelectItem>
                     <SelectItem value="pending_cash">Pending Cash</SelectItem>
                     <SelectItem value="all">All bookings</SelectItem>
@@ -412,7 +334,7 @@ export default function AdminBookings() {
                             {booking.class?.title || "Unknown Class"}
                           </p>
                           <p className="text-sm text-muted-foreground">
-                            {booking.class ? `${format(new Date(booking.class.date), "MMM d")} at ${booking.class.time}` : "-"}
+                            {booking.class ? `${format(parseISO(booking.class.date), "MMM d")} at ${booking.class.time}` : "-"}
                           </p>
                         </div>
                         <div className="flex flex-col items-end gap-1">
@@ -422,6 +344,9 @@ export default function AdminBookings() {
                           >
                             {booking.status === "pending_cash" ? "Awaiting Cash" : booking.status}
                           </Badge>
+                          {getRefundLabel(booking) && (
+                            <Badge variant="outline" className="text-xs" data-testid={`badge-refund-${booking.id}`}>{getRefundLabel(booking)}</Badge>
+                          )}
                           <span className={`text-sm font-medium ${booking.status === "cancelled" ? "line-through text-muted-foreground" : ""}`}>
                             {booking.isFreeSession ? (
                               <span className="text-green-600">FREE</span>
@@ -472,6 +397,21 @@ export default function AdminBookings() {
                           </Button>
                         </div>
                       )}
+                      {canRefund(booking) && (
+                        <div className="flex items-center gap-2 mt-3 pt-2 border-t">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="flex-1 h-8 text-xs"
+                            onClick={() => refundMutation.mutate(booking.id)}
+                            disabled={refundMutation.isPending}
+                            data-testid={`button-refund-booking-${booking.id}`}
+                          >
+                            <PoundSterling className="h-3 w-3 mr-1" />
+                            Refund £{parseFloat(booking.price || "0").toFixed(2)}
+                          </Button>
+                        </div>
+                      )}
                     </Card>
                   ))}
                 </div>
@@ -499,7 +439,7 @@ export default function AdminBookings() {
                           <TableCell>
                             {booking.class ? (
                               <div className="flex items-center gap-1 text-sm">
-                                <span>{format(new Date(booking.class.date), "MMM d")}</span>
+                                <span>{format(parseISO(booking.class.date), "MMM d")}</span>
                                 <span className="text-muted-foreground">at</span>
                                 <span>{booking.class.time}</span>
                               </div>
@@ -539,6 +479,9 @@ export default function AdminBookings() {
                             {booking.isFreeSession && (
                               <Badge variant="outline" className="ml-1 text-xs">1st Session</Badge>
                             )}
+                            {getRefundLabel(booking) && (
+                              <Badge variant="outline" className="ml-1 text-xs" data-testid={`badge-refund-${booking.id}`}>{getRefundLabel(booking)}</Badge>
+                            )}
                           </TableCell>
                           <TableCell className="text-sm text-muted-foreground">
                             {format(new Date(booking.bookedAt), "MMM d, h:mm a")}
@@ -568,6 +511,18 @@ export default function AdminBookings() {
                                   Cancel
                                 </Button>
                               </div>
+                            ) : canRefund(booking) ? (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="h-7 text-xs"
+                                onClick={() => refundMutation.mutate(booking.id)}
+                                disabled={refundMutation.isPending}
+                                data-testid={`button-refund-booking-${booking.id}`}
+                              >
+                                <PoundSterling className="h-3 w-3 mr-1" />
+                                Refund £{parseFloat(booking.price || "0").toFixed(2)}
+                              </Button>
                             ) : (
                               <span className="text-xs text-muted-foreground">-</span>
                             )}
@@ -628,7 +583,7 @@ export default function AdminBookings() {
                         {pendingCashBookings.length} Pending Cash Payment{pendingCashBookings.length !== 1 ? 's' : ''}
                       </p>
                       <p className="text-sm text-amber-700 dark:text-amber-300">
-                        These members have booked but need to pay £5 cash at reception. Use the buttons below to confirm or cancel each booking.
+                        These members have booked but need to pay cash at reception. Use the buttons below to confirm or cancel each booking.
                       </p>
                     </div>
                   </div>
@@ -657,7 +612,7 @@ export default function AdminBookings() {
                             <Badge variant={getStatusVariant(booking.status)} className="text-xs shrink-0">{booking.status}</Badge>
                           </div>
                           <div className="flex items-center justify-between text-xs text-muted-foreground">
-                            <span>{booking.class?.date && `${format(new Date(booking.class.date), "MMM d")} at ${booking.class.time}`}</span>
+                            <span>{booking.class?.date && `${format(parseISO(booking.class.date), "MMM d")} at ${booking.class.time}`}</span>
                             <span className="text-green-600 font-medium">FREE</span>
                           </div>
                         </div>
@@ -691,7 +646,7 @@ export default function AdminBookings() {
                               <TableCell>{booking.class?.title || "Unknown"}</TableCell>
                               <TableCell>
                                 {booking.class?.date && (
-                                  <span>{format(new Date(booking.class.date), "MMM d")} at {booking.class.time}</span>
+                                  <span>{format(parseISO(booking.class.date), "MMM d")} at {booking.class.time}</span>
                                 )}
                               </TableCell>
                               <TableCell>
@@ -729,7 +684,7 @@ export default function AdminBookings() {
                             <Badge variant={getStatusVariant(booking.status)} className="text-xs shrink-0">{booking.status}</Badge>
                           </div>
                           <div className="flex items-center justify-between text-xs text-muted-foreground">
-                            <span>{booking.class?.date && `${format(new Date(booking.class.date), "MMM d")} at ${booking.class.time}`}</span>
+                            <span>{booking.class?.date && `${format(parseISO(booking.class.date), "MMM d")} at ${booking.class.time}`}</span>
                             <span className="font-medium text-foreground">£{booking.price || "5.00"}</span>
                           </div>
                         </div>
@@ -764,7 +719,7 @@ export default function AdminBookings() {
                               <TableCell>{booking.class?.title || "Unknown"}</TableCell>
                               <TableCell>
                                 {booking.class?.date && (
-                                  <span>{format(new Date(booking.class.date), "MMM d")} at {booking.class.time}</span>
+                                  <span>{format(parseISO(booking.class.date), "MMM d")} at {booking.class.time}</span>
                                 )}
                               </TableCell>
                               <TableCell className="font-medium">£{booking.price || "5.00"}</TableCell>
@@ -794,7 +749,7 @@ export default function AdminBookings() {
                   <>
                     <div className="space-y-3 md:hidden">
                       {cashBookings.map((booking) => {
-                        const past = isSessionPast(booking);
+                        const past = isSessionPast(booking, clubTimezone);
                         return (
                           <div key={booking.id} className={`p-3 rounded-lg ${booking.status === "pending_cash" && past ? "bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-800" : "bg-muted/50"}`} data-testid={`card-cash-${booking.id}`}>
                             <div className="flex items-start justify-between gap-2 mb-2">
@@ -810,7 +765,7 @@ export default function AdminBookings() {
                               </Badge>
                             </div>
                             <div className="flex items-center justify-between text-xs text-muted-foreground">
-                              <span>{booking.class?.date && `${format(new Date(booking.class.date), "MMM d")} at ${booking.class.time}`}</span>
+                              <span>{booking.class?.date && `${format(parseISO(booking.class.date), "MMM d")} at ${booking.class.time}`}</span>
                               <span className="font-medium text-foreground">£{booking.price || "5.00"}</span>
                             </div>
                             {booking.status === "pending_cash" && (
@@ -857,7 +812,7 @@ export default function AdminBookings() {
                         </TableHeader>
                         <TableBody>
                           {cashBookings.map((booking) => {
-                            const past = isSessionPast(booking);
+                            const past = isSessionPast(booking, clubTimezone);
                             return (
                               <TableRow key={booking.id} className={booking.status === "pending_cash" && past ? "bg-red-50/50 dark:bg-red-950/10" : ""} data-testid={`row-cash-${booking.id}`}>
                                 <TableCell>
@@ -874,7 +829,7 @@ export default function AdminBookings() {
                                 <TableCell>{booking.class?.title || "Unknown"}</TableCell>
                                 <TableCell>
                                   {booking.class?.date && (
-                                    <span>{format(new Date(booking.class.date), "MMM d")} at {booking.class.time}</span>
+                                    <span>{format(parseISO(booking.class.date), "MMM d")} at {booking.class.time}</span>
                                   )}
                                 </TableCell>
                                 <TableCell className="font-medium">£{booking.price || "5.00"}</TableCell>
@@ -931,290 +886,417 @@ export default function AdminBookings() {
           </TabsContent>
 
           <TabsContent value="finance" className="space-y-6 mt-6">
-            <Card className="p-4">
-              <div className="flex items-start gap-3">
-                <Building2 className="h-5 w-5 text-muted-foreground mt-0.5" />
-                <div className="flex-1">
-                  <p className="font-semibold text-foreground">{BUSINESS_NAME}</p>
-                  <p className="text-sm text-muted-foreground">{BUSINESS_ADDRESS}</p>
-                  <p className="text-xs text-muted-foreground mt-1">Currency: {CURRENCY} | Session Rate: £{SESSION_PRICE.toFixed(2)}</p>
-                </div>
-              </div>
-            </Card>
+            <FinanceReport />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </AdminLayout>
+  );
+}
 
-            <Card className="p-4 border-amber-200 bg-amber-50 dark:bg-amber-950/20 dark:border-amber-800">
-              <div className="flex items-start gap-3">
-                <AlertCircle className="h-5 w-5 text-amber-600 mt-0.5" />
-                <div>
-                  <p className="font-medium text-amber-800 dark:text-amber-200">VAT Status: Not Registered</p>
-                  <p className="text-sm text-amber-700 dark:text-amber-300">
-                    VAT is not charged as annual turnover is below the £90,000 registration threshold (2024/25). 
-                    Monitor your turnover - you must register within 30 days if you expect to exceed £90,000 in the next 30 days.
-                  </p>
-                </div>
-              </div>
-            </Card>
+const issueLabels: Record<string, string> = {
+  unknown_payment: "Unmatched payment",
+  missing_payment: "Missing in Square",
+  amount_mismatch: "Amount mismatch",
+  payment_failed: "Payment failed",
+  refund_mismatch: "Refund mismatch",
+  dispute: "Dispute",
+};
 
-            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
-              <Card className="p-4">
-                <div className="flex items-center gap-3">
-                  <div className="rounded-lg bg-green-500/10 p-2 text-green-600">
-                    <PoundSterling className="h-5 w-5" />
-                  </div>
-                  <div>
-                    <p className="text-2xl font-bold text-foreground">£{todayRevenue.toFixed(2)}</p>
-                    <p className="text-sm text-muted-foreground">Today</p>
-                  </div>
-                </div>
-              </Card>
-              <Card className="p-4">
-                <div className="flex items-center gap-3">
-                  <div className="rounded-lg bg-blue-500/10 p-2 text-blue-600">
-                    <Calendar className="h-5 w-5" />
-                  </div>
-                  <div>
-                    <p className="text-2xl font-bold text-foreground">£{weekRevenue.toFixed(2)}</p>
-                    <p className="text-sm text-muted-foreground">This Week</p>
-                  </div>
-                </div>
-              </Card>
-              <Card className="p-4">
-                <div className="flex items-center gap-3">
-                  <div className="rounded-lg bg-purple-500/10 p-2 text-purple-600">
-                    <TrendingUp className="h-5 w-5" />
-                  </div>
-                  <div>
-                    <p className="text-2xl font-bold text-foreground">£{monthRevenue.toFixed(2)}</p>
-                    <p className="text-sm text-muted-foreground">This Month</p>
-                  </div>
-                </div>
-              </Card>
-              <Card className="p-4">
-                <div className="flex items-center gap-3">
-                  <div className="rounded-lg bg-primary/10 p-2 text-primary">
-                    <PoundSterling className="h-5 w-5" />
-                  </div>
-                  <div>
-                    <p className="text-2xl font-bold text-foreground">£{yearRevenue.toFixed(2)}</p>
-                    <p className="text-sm text-muted-foreground">This Tax Year</p>
-                  </div>
-                </div>
-              </Card>
-            </div>
+// Problems raised by Square webhooks and the nightly reconciliation
+function PaymentIssuesCard() {
+  const { toast } = useToast();
+  const { data: issues } = useQuery<PaymentIssue[]>({
+    queryKey: ["/api/admin/payment-issues"],
+  });
 
-            <Card className="p-6">
-              <div className="flex items-center justify-between mb-4">
-                <h3 className="text-lg font-semibold text-foreground">Financial Summary</h3>
-                <div className="flex items-center gap-2">
-                  <Select value={financePeriod} onValueChange={setFinancePeriod}>
-                    <SelectTrigger className="w-[160px]" data-testid="select-finance-period">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="today">Today</SelectItem>
-                      <SelectItem value="week">This Week</SelectItem>
-                      <SelectItem value="month">This Month</SelectItem>
-                      <SelectItem value="lastmonth">Last Month</SelectItem>
-                      <SelectItem value="year">This Tax Year</SelectItem>
-                      <SelectItem value="all">All Time</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-              <div className="space-y-4">
-                <div className="flex justify-between items-center py-2 border-b">
-                  <span className="text-muted-foreground">Total Bookings</span>
-                  <span className="font-medium">{financeConfirmed.length}</span>
-                </div>
-                <div className="flex justify-between items-center py-2 border-b pl-4">
-                  <span className="text-muted-foreground flex items-center gap-2">
-                    <CreditCard className="h-4 w-4" /> Paid Sessions
-                  </span>
-                  <span className="font-medium">{financePaidConfirmed.length} @ £{SESSION_PRICE.toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between items-center py-2 border-b pl-4">
-                  <span className="text-muted-foreground flex items-center gap-2">
-                    <Gift className="h-4 w-4 text-green-600" /> Free First Sessions
+  const reconcileMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/payment-issues/reconcile");
+      return res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/payment-issues"] });
+      toast({ title: "Square check complete", description: data.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Square check failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/admin/payment-issues/${id}/resolve`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/payment-issues"] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to resolve issue.", variant: "destructive" });
+    },
+  });
+
+  const openIssues = issues || [];
+
+  return (
+    <Card className={`p-4 ${openIssues.length > 0 ? "border-amber-500" : ""}`} data-testid="card-payment-issues">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <AlertCircle className={`h-5 w-5 shrink-0 ${openIssues.length > 0 ? "text-amber-500" : "text-muted-foreground"}`} />
+          <p className="text-sm font-medium text-foreground">
+            {openIssues.length > 0
+              ? `${openIssues.length} payment issue${openIssues.length === 1 ? "" : "s"} to review`
+              : "Card payments match Square"}
+          </p>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => reconcileMutation.mutate()}
+          disabled={reconcileMutation.isPending}
+          data-testid="button-reconcile-square"
+        >
+          {reconcileMutation.isPending ? "Checking..." : "Check Square now"}
+        </Button>
+      </div>
+      {openIssues.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {openIssues.map((issue) => (
+            <div key={issue.id} className="flex items-start justify-between gap-3 border-t pt-2" data-testid={`row-payment-issue-${issue.id}`}>
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline" className="text-xs">{issueLabels[issue.kind] || issue.kind}</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {issue.createdAt ? format(new Date(issue.createdAt), "MMM d, h:mm a") : ""} · {issue.squarePaymentId}
                   </span>
-                  <span className="font-medium text-green-600">{financeFreeConfirmed.length} (£0.00)</span>
-                </div>
-                <div className="flex justify-between items-center py-2 border-b">
-                  <span className="text-muted-foreground">Gross Revenue</span>
-                  <span className="font-medium">£{financeGross.toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between items-center py-2 border-b">
-                  <span className="text-muted-foreground">Cancelled/Refunded ({financeCancelled.length})</span>
-                  <span className="font-medium text-destructive">-£{financeRefunds.toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between items-center py-2 border-b">
-                  <span className="text-muted-foreground">VAT (Not Registered)</span>
-                  <span className="font-medium">£0.00</span>
-                </div>
-                <div className="flex justify-between items-center py-2 text-lg">
-                  <span className="font-semibold">Net Revenue</span>
-                  <span className="font-bold text-primary">£{financeGross.toFixed(2)}</span>
                 </div>
+                <p className="text-sm text-muted-foreground mt-1">{issue.detail}</p>
               </div>
-            </Card>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="shrink-0"
+                onClick={() => resolveMutation.mutate(issue.id)}
+                disabled={resolveMutation.isPending}
+                data-testid={`button-resolve-issue-${issue.id}`}
+              >
+                <CheckCircle className="h-4 w-4 mr-1" />
+                Resolved
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
 
-            <Card className="p-4 sm:p-6">
-              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
-                <div>
-                  <h3 className="text-base sm:text-lg font-semibold text-foreground">Transaction Ledger</h3>
-                  <p className="text-xs sm:text-sm text-muted-foreground">
-                    Complete record for HMRC compliance.
-                  </p>
-                </div>
-                <Button onClick={exportToCSV} variant="outline" className="w-full sm:w-auto h-12 sm:h-9 text-base sm:text-sm" data-testid="button-export-csv">
-                  <Download className="h-4 w-4 mr-2" />
-                  Export CSV
-                </Button>
+interface IncomeLine {
+  count: number;
+  amount: string;
+}
+
+interface IncomeReport {
+  from: string | null;
+  to: string | null;
+  card: IncomeLine;
+  cash: IncomeLine;
+  voucher: IncomeLine;
+  free: IncomeLine;
+  refunded: IncomeLine;
+  packSales: IncomeLine;
+  membershipPayments: IncomeLine;
+  voucherSales: IncomeLine;
+  takings: string;
+}
+
+type OverviewPeriod = "today" | "week" | "month" | "year" | "all";
+type FinanceOverview = Record<OverviewPeriod, { from: string | null; to: string | null; takings: string }>;
+
+interface FinanceTransaction {
+  id: string;
+  source: "booking" | "credit_pack" | "subscription" | "gift_voucher";
+  date: string;
+  description: string;
+  memberName: string | null;
+  paymentMethod: string | null;
+  status: string | null;
+  isFreeSession: boolean;
+  amount: string;
+  voucherAmount: string;
+  refundAmount: string;
+}
+
+// Totals are worked out on the server from the class date, so they match the exports
+function FinanceReport() {
+  const [financePeriod, setFinancePeriod] = useState<string>("all");
+
+  const { data: overview } = useQuery<FinanceOverview>({
+    queryKey: ["/api/admin/reports/overview"],
+    staleTime: 0,
+  });
+
+  const { data: income } = useQuery<IncomeReport>({
+    queryKey: [`/api/admin/reports/income?period=${financePeriod}`],
+    staleTime: 0,
+  });
+
+  const { data: transactions, isLoading } = useQuery<FinanceTransaction[]>({
+    queryKey: [`/api/admin/reports/transactions?period=${financePeriod}`],
+    staleTime: 0,
+  });
+
+  const overviewTiles: { period: OverviewPeriod; label: string; icon: typeof PoundSterling; tone: string }[] = [
+    { period: "today", label: "Today", icon: PoundSterling, tone: "bg-green-500/10 text-green-600" },
+    { period: "week", label: "This Week", icon: Calendar, tone: "bg-blue-500/10 text-blue-600" },
+    { period: "month", label: "This Month", icon: TrendingUp, tone: "bg-purple-500/10 text-purple-600" },
+    { period: "year", label: "This Tax Year", icon: PoundSterling, tone: "bg-primary/10 text-primary" },
+  ];
+
+  const incomeLines: { label: string; line?: IncomeLine; icon: typeof PoundSterling; negative?: boolean }[] = [
+    { label: "Card Sessions", line: income?.card, icon: CreditCard },
+    { label: "Cash Sessions", line: income?.cash, icon: Banknote },
+    { label: "Class Pack Sales", line: income?.packSales, icon: CreditCard },
+    { label: "Membership Payments", line: income?.membershipPayments, icon: CreditCard },
+    { label: "Gift Voucher Sales", line: income?.voucherSales, icon: Gift },
+    { label: "Refunds", line: income?.refunded, icon: XCircle, negative: true },
+  ];
+
+  return (
+    <>
+      <Card className="p-4">
+        <div className="flex items-start gap-3">
+          <Building2 className="h-5 w-5 text-muted-foreground mt-0.5" />
+          <div className="flex-1">
+            <p className="font-semibold text-foreground">{BUSINESS_NAME}</p>
+            <p className="text-sm text-muted-foreground">{BUSINESS_ADDRESS}</p>
+            <p className="text-xs text-muted-foreground mt-1">Currency: {CURRENCY} | Session income is dated by the class, not the booking</p>
+          </div>
+        </div>
+      </Card>
+
+      <Card className="p-4 border-amber-200 bg-amber-50 dark:bg-amber-950/20 dark:border-amber-800">
+        <div className="flex items-start gap-3">
+          <AlertCircle className="h-5 w-5 text-amber-600 mt-0.5" />
+          <div>
+            <p className="font-medium text-amber-800 dark:text-amber-200">VAT Status: Not Registered</p>
+            <p className="text-sm text-amber-700 dark:text-amber-300">
+              VAT is not charged as annual turnover is below the £90,000 registration threshold (2024/25). 
+              Monitor your turnover - you must register within 30 days if you expect to exceed £90,000 in the next 30 days.
+            </p>
+          </div>
+        </div>
+      </Card>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {overviewTiles.map(({ period, label, icon: Icon, tone }) => (
+          <Card key={period} className="p-4">
+            <div className="flex items-center gap-3">
+              <div className={`rounded-lg p-2 ${tone}`}>
+                <Icon className="h-5 w-5" />
               </div>
-              {isLoading ? (
-                <Skeleton className="h-48 w-full" />
-              ) : financeBookings.length === 0 ? (
-                <div className="text-center py-8">
-                  <FileText className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
-                  <p className="text-muted-foreground">No transactions for this period.</p>
-                </div>
-              ) : (
-                <>
-                  {/* Mobile transaction cards */}
-                  <div className="space-y-3 md:hidden">
-                    {financeBookings.map((booking) => {
-                      const bookingAmount = booking.isFreeSession ? 0 : parseFloat(booking.price || "5.00");
-                      return (
-                        <div key={booking.id} className="p-3 bg-muted/50 rounded-lg">
-                          <div className="flex items-start justify-between gap-2 mb-2">
-                            <div className="min-w-0">
-                              <p className="font-medium text-sm truncate">{getMemberDisplayName(booking)}</p>
-                              <p className="text-xs text-muted-foreground truncate">{booking.class?.title || "Session"}</p>
-                            </div>
-                            <div className="text-right shrink-0">
-                              {booking.isFreeSession ? (
-                                <span className="text-xs text-muted-foreground">£0.00</span>
-                              ) : booking.status === "cancelled" ? (
-                                <span className="text-sm font-medium text-destructive">-£{bookingAmount.toFixed(2)}</span>
-                              ) : (
-                                <span className="text-sm font-medium text-green-600">+£{bookingAmount.toFixed(2)}</span>
-                              )}
-                            </div>
-                          </div>
-                          <div className="flex items-center justify-between text-xs text-muted-foreground">
-                            <span>{format(new Date(booking.bookedAt), "dd/MM/yy")}</span>
-                            <Badge variant={getStatusVariant(booking.status)} className="text-xs">{booking.status}</Badge>
-                          </div>
-                        </div>
-                      );
-                    })}
+              <div>
+                <p className="text-2xl font-bold text-foreground" data-testid={`text-takings-${period}`}>£{overview?.[period].takings ?? "0.00"}</p>
+                <p className="text-sm text-muted-foreground">{label}</p>
+              </div>
+            </div>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-foreground">Financial Summary</h3>
+          <div className="flex items-center gap-2">
+            <Select value={financePeriod} onValueChange={setFinancePeriod}>
+              <SelectTrigger className="w-[160px]" data-testid="select-finance-period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="today">Today</SelectItem>
+                <SelectItem value="week">This Week</SelectItem>
+                <SelectItem value="month">This Month</SelectItem>
+                <SelectItem value="lastmonth">Last Month</SelectItem>
+                <SelectItem value="year">This Tax Year</SelectItem>
+                <SelectItem value="all">All Time</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="space-y-4">
+          {incomeLines.map(({ label, line, icon: Icon, negative }) => (
+            <div key={label} className="flex justify-between items-center py-2 border-b">
+              <span className="text-muted-foreground flex items-center gap-2">
+                <Icon className="h-4 w-4" /> {label} ({line?.count ?? 0})
+              </span>
+              <span className={`font-medium ${negative ? "text-destructive" : ""}`}>
+                {negative ? "-" : ""}£{line?.amount ?? "0.00"}
+              </span>
+            </div>
+          ))}
+          <div className="flex justify-between items-center py-2 border-b">
+            <span className="text-muted-foreground">VAT (Not Registered)</span>
+            <span className="font-medium">£0.00</span>
+          </div>
+          <div className="flex justify-between items-center py-2 text-lg border-b">
+            <span className="font-semibold">Total Takings</span>
+            <span className="font-bold text-primary" data-testid="text-finance-takings">£{income?.takings ?? "0.00"}</span>
+          </div>
+          <div className="flex justify-between items-center py-2 border-b pl-4">
+            <span className="text-muted-foreground flex items-center gap-2">
+              <Gift className="h-4 w-4" /> Sessions paid by gift voucher ({income?.voucher.count ?? 0})
+            </span>
+            <span className="font-medium text-muted-foreground">£{income?.voucher.amount ?? "0.00"}</span>
+          </div>
+          <div className="flex justify-between items-center py-2 pl-4">
+            <span className="text-muted-foreground flex items-center gap-2">
+              <Gift className="h-4 w-4 text-green-600" /> Free First Sessions ({income?.free.count ?? 0})
+            </span>
+            <span className="font-medium text-green-600">£{income?.free.amount ?? "0.00"} promotional</span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Gift voucher spends were paid for when the voucher was sold, so they aren't added to takings again.
+          </p>
+        </div>
+      </Card>
+
+      <Card className="p-4 sm:p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+          <div>
+            <h3 className="text-base sm:text-lg font-semibold text-foreground">Transaction Ledger</h3>
+            <p className="text-xs sm:text-sm text-muted-foreground">
+              Complete record for HMRC compliance. The journal export is double-entry for bookkeeping software.
+            </p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button asChild variant="outline" className="w-full sm:w-auto h-12 sm:h-9 text-base sm:text-sm" data-testid="button-export-csv">
+              <a href={`/api/admin/reports/transactions.csv?period=${financePeriod}`} download>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </a>
+            </Button>
+            <Button asChild variant="outline" className="w-full sm:w-auto h-12 sm:h-9 text-base sm:text-sm" data-testid="button-export-journal">
+              <a href={`/api/admin/reports/journal.csv?period=${financePeriod}`} download>
+                <FileText className="h-4 w-4 mr-2" />
+                Export Journal
+              </a>
+            </Button>
+          </div>
+        </div>
+        {isLoading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : !transactions || transactions.length === 0 ? (
+          <div className="text-center py-8">
+            <FileText className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+            <p className="text-muted-foreground">No transactions for this period.</p>
+          </div>
+        ) : (
+          <>
+            {/* Mobile transaction cards */}
+            <div className="space-y-3 md:hidden">
+              {transactions.map((transaction) => (
+                <div key={transaction.id} className="p-3 bg-muted/50 rounded-lg">
+                  <div className="flex items-start justify-between gap-2 mb-2">
+                    <div className="min-w-0">
+                      <p className="font-medium text-sm truncate">{transaction.memberName || "Deleted Member"}</p>
+                      <p className="text-xs text-muted-foreground truncate">{transaction.description}</p>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <TransactionAmount transaction={transaction} />
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>{format(parseISO(transaction.date), "dd/MM/yy")}</span>
+                    {transaction.status && <Badge variant="outline" className="text-xs">{transaction.status}</Badge>}
                   </div>
-                  {/* Desktop table */}
-                  <div className="overflow-x-auto hidden md:block">
-                    <Table>
-                      <TableHeader>
-                        <TableRow>
-                          <TableHead>Date</TableHead>
-                          <TableHead>Transaction ID</TableHead>
-                          <TableHead>Member</TableHead>
-                          <TableHead>Description</TableHead>
-                          <TableHead>Status</TableHead>
-                          <TableHead className="text-right">Amount (GBP)</TableHead>
-                          <TableHead className="text-right">Running Total</TableHead>
-                        </TableRow>
-                      </TableHeader>
-                      <TableBody>
-                        {financeBookings.map((booking, index) => {
-                          const bookingAmount = booking.isFreeSession ? 0 : parseFloat(booking.price || "5.00");
-                          const runningTotal = financeBookings
-                            .slice(index)
-                            .filter(b => b.status === "confirmed" && !b.isFreeSession)
-                            .reduce((sum, b) => sum + parseFloat(b.price || "5.00"), 0);
-                          return (
-                            <TableRow key={booking.id}>
-                              <TableCell className="text-sm whitespace-nowrap">
-                                {format(new Date(booking.bookedAt), "dd/MM/yyyy HH:mm")}
-                              </TableCell>
-                              <TableCell className="font-mono text-xs">
-                                TXN-{booking.id.slice(0, 8).toUpperCase()}
-                              </TableCell>
-                              <TableCell>
-                                <div>
-                                  <p className="font-medium">
-                                    {getMemberDisplayName(booking)}
-                                    {booking.memberDeleted && <Badge variant="outline" className="ml-1 text-xs">Deleted</Badge>}
-                                </p>
-                                {getMemberEmail(booking) && (
-                                  <p className="text-xs text-muted-foreground">{getMemberEmail(booking)}</p>
-                                )}
-                              </div>
-                            </TableCell>
-                            <TableCell>
-                              Boxing class: {booking.class?.title || "Session"}
-                              {booking.isFreeSession && (
-                                <Badge variant="outline" className="ml-2 text-xs text-green-600">FREE</Badge>
-                              )}
-                              {booking.class?.date && (
-                                <span className="text-xs text-muted-foreground ml-1">
-                                  ({format(new Date(booking.class.date), "dd/MM/yy")})
-                                </span>
-                              )}
-                            </TableCell>
-                            <TableCell>
-                              <Badge variant={getStatusVariant(booking.status)}>
-                                {booking.status}
-                              </Badge>
-                            </TableCell>
-                            <TableCell className="text-right font-medium">
-                              {booking.isFreeSession ? (
-                                <span className="text-muted-foreground">£0.00</span>
-                              ) : booking.status === "cancelled" ? (
-                                <span className="text-destructive">-£{bookingAmount.toFixed(2)}</span>
-                              ) : (
-                                <span className="text-green-600">+£{bookingAmount.toFixed(2)}</span>
-                              )}
-                            </TableCell>
-                            <TableCell className="text-right font-medium">
-                              £{runningTotal.toFixed(2)}
-                            </TableCell>
-                          </TableRow>
-                        );
-                      })}
-                    </TableBody>
-                  </Table>
                 </div>
-                </>
-              )}
-            </Card>
-
-            <div className="grid gap-4 md:grid-cols-2">
-              <Card className="p-4 bg-muted/50">
-                <h4 className="font-semibold text-foreground mb-2 flex items-center gap-2">
-                  <FileText className="h-4 w-4" />
-                  HMRC Record Keeping
-                </h4>
-                <ul className="text-xs text-muted-foreground space-y-1">
-                  <li>• Keep all records for at least 6 years</li>
-                  <li>• Records must show date, amount, and payer details</li>
-                  <li>• Store bank statements alongside these records</li>
-                  <li>• Export CSV regularly for backup</li>
-                </ul>
-              </Card>
-              <Card className="p-4 bg-muted/50">
-                <h4 className="font-semibold text-foreground mb-2 flex items-center gap-2">
-                  <AlertCircle className="h-4 w-4" />
-                  Tax Reporting Notes
-                </h4>
-                <ul className="text-xs text-muted-foreground space-y-1">
-                  <li>• Self Assessment: Report income for tax year (6 Apr - 5 Apr)</li>
-                  <li>• VAT Threshold (2024/25): £90,000 annual turnover</li>
-                  <li>• Total Revenue This Year: £{yearRevenue.toFixed(2)}</li>
-                  <li>• All-Time Revenue: £{totalRevenue.toFixed(2)}</li>
-                </ul>
-              </Card>
+              ))}
             </div>
-          </TabsContent>
-        </Tabs>
+            {/* Desktop table */}
+            <div className="overflow-x-auto hidden md:block">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Transaction ID</TableHead>
+                    <TableHead>Member</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Amount (GBP)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transactions.map((transaction) => (
+                    <TableRow key={transaction.id}>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {format(parseISO(transaction.date), "dd/MM/yyyy")}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        TXN-{transaction.id.slice(0, 8).toUpperCase()}
+                      </TableCell>
+                      <TableCell className="font-medium">{transaction.memberName || "Deleted Member"}</TableCell>
+                      <TableCell>
+                        {transaction.description}
+                        {transaction.isFreeSession && (
+                          <Badge variant="outline" className="ml-2 text-xs text-green-600">FREE</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {transaction.status && <Badge variant="outline">{transaction.status}</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        <TransactionAmount transaction={transaction} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card className="p-4 bg-muted/50">
+          <h4 className="font-semibold text-foreground mb-2 flex items-center gap-2">
+            <FileText className="h-4 w-4" />
+            HMRC Record Keeping
+          </h4>
+          <ul className="text-xs text-muted-foreground space-y-1">
+            <li>• Keep all records for at least 6 years</li>
+            <li>• Records must show date, amount, and payer details</li>
+            <li>• Store bank statements alongside these records</li>
+            <li>• Export CSV regularly for backup</li>
+          </ul>
+        </Card>
+        <Card className="p-4 bg-muted/50">
+          <h4 className="font-semibold text-foreground mb-2 flex items-center gap-2">
+            <AlertCircle className="h-4 w-4" />
+            Tax Reporting Notes
+          </h4>
+          <ul className="text-xs text-muted-foreground space-y-1">
+            <li>• Self Assessment: Report income for tax year (6 Apr - 5 Apr)</li>
+            <li>• VAT Threshold (2024/25): £90,000 annual turnover</li>
+            <li>• Total Takings This Tax Year: £{overview?.year.takings ?? "0.00"}</li>
+            <li>• All-Time Takings: £{overview?.all.takings ?? "0.00"}</li>
+          </ul>
+        </Card>
       </div>
-    </AdminLayout>
+    </>
+  );
+}
+
+function TransactionAmount({ transaction }: { transaction: FinanceTransaction }) {
+  const refunded = parseFloat(transaction.refundAmount);
+  const received = parseFloat(transaction.amount);
+  const voucher = parseFloat(transaction.voucherAmount);
+  return (
+    <div className="text-sm">
+      {received > 0 && <p className="text-green-600">+£{transaction.amount}</p>}
+      {voucher > 0 && <p className="text-muted-foreground">£{transaction.voucherAmount} voucher</p>}
+      {refunded > 0 && <p className="text-destructive">-£{transaction.refundAmount} refund</p>}
+      {received === 0 && voucher === 0 && refunded === 0 && <p className="text-muted-foreground">£0.00</p>}
+    </div>
   );
 }
+
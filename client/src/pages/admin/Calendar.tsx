@@ -32,31 +32,62 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Plus, Pencil, Trash2, Users, Clock, Loader2, Eye, Mail, ChevronLeft, ChevronRight } from "lucide-react";
+import { Plus, Pencil, Trash2, Users, Clock, Loader2, ClipboardCheck, Phone, ChevronLeft, ChevronRight, UserCheck, UserX, UserPlus, ShieldCheck, X } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { format, startOfWeek, endOfWeek, addWeeks, subWeeks, isWithinInterval, parseISO } from "date-fns";
-import type { BoxingClass } from "@shared/schema";
+import { format, startOfWeek, parseISO } from "date-fns";
+import { ClassRulesFields, classRulesForm, emptyClassRules, type ClassRulesForm } from "@/components/ClassRulesFields";
+import { describeEligibility, type BoxingClass, type EligibilityOverride, type SiteSettings, type SeriesScope } from "@shared/schema";
+import { DEFAULT_CLUB_TIMEZONE, zonedDate, zonedTime, addDaysToDate } from "@shared/clubTime";
 
-interface Booking {
+interface MemberOption {
   id: string;
+  name: string;
+}
+
+interface RegisterBooking {
+  id: string;
+  memberId: string | null;
   classId: string;
   status: string;
-  bookedAt: string;
+  paymentMethod: string | null;
+  checkedInAt: string | null;
   member?: {
     name: string;
     email: string;
-  };
+    phone: string | null;
+    age: number | null;
+    emergencyContactName: string | null;
+    emergencyContactPhone: string | null;
+    formsMissing: string[];
+  } | null;
+}
+
+interface ClassRegister {
+  class: BoxingClass;
+  bookings: RegisterBooking[];
+}
+
+interface WaitlistEntry {
+  id: string;
+  status: string;
+  offerExpiresAt: string | null;
+  member?: {
+    name: string;
+    email: string;
+  } | null;
 }
 
-interface ClassFormData {
+interface ClassFormData extends ClassRulesForm {
   title: string;
   description: string;
   classType: string;
   date: string;
   time: string;
   duration: number;
+  capacity: number;
   price: string;
+  concessionPrice: string;
   isActive: boolean;
 }
 
@@ -67,7 +98,10 @@ const defaultFormData: ClassFormData = {
   date: "",
   time: "18:00",
   duration: 60,
-  price: "15.00",
+  capacity: 12,
+  price: "",
+  concessionPrice: "",
+  ...emptyClassRules,
   isActive: true,
 };
 
@@ -85,37 +119,133 @@ const dayNames = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
 
 export default function AdminCalendar() {
   const { toast } = useToast();
-  const [currentWeekStart, setCurrentWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [weekOffset, setWeekOffset] = useState(0);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editScope, setEditScope] = useState<SeriesScope>("occurrence");
   const [editingClass, setEditingClass] = useState<BoxingClass | null>(null);
   const [deleteClass, setDeleteClass] = useState<BoxingClass | null>(null);
   const [attendeesClass, setAttendeesClass] = useState<BoxingClass | null>(null);
   const [formData, setFormData] = useState<ClassFormData>(defaultFormData);
+  const [walkInMemberId, setWalkInMemberId] = useState("");
+  const [overrideMemberId, setOverrideMemberId] = useState("");
 
-  const weekEnd = endOfWeek(currentWeekStart, { weekStartsOn: 1 });
+  const { data: settingsData } = useQuery<{ content: SiteSettings | null }>({
+    queryKey: ["/api/content", "settings"],
+  });
+
+  // Days are the club's days, not the browser's - the admin may be abroad or the clocks about to change
+  const clubTimezone = settingsData?.content?.timezone || DEFAULT_CLUB_TIMEZONE;
+  const today = zonedDate(new Date(), clubTimezone);
+  const weekStartStr = addDaysToDate(format(startOfWeek(parseISO(today), { weekStartsOn: 1 }), "yyyy-MM-dd"), weekOffset * 7);
+  const weekEndStr = addDaysToDate(weekStartStr, 6);
 
   const { data: classes, isLoading } = useQuery<BoxingClass[]>({
     queryKey: ["/api/admin/classes"],
   });
 
-  const { data: allBookings } = useQuery<Booking[]>({
-    queryKey: ["/api/admin/bookings"],
+  const { data: register, isLoading: registerLoading } = useQuery<ClassRegister>({
+    queryKey: ["/api/admin/classes", attendeesClass?.id, "register"],
+    enabled: !!attendeesClass,
+  });
+
+  const { data: members } = useQuery<MemberOption[]>({
+    queryKey: ["/api/admin/members"],
+    enabled: !!attendeesClass,
+  });
+
+  const { data: attendeesWaitlist } = useQuery<WaitlistEntry[]>({
+    queryKey: ["/api/admin/classes", attendeesClass?.id, "waitlist"],
+    enabled: !!attendeesClass,
+  });
+
+  const attendeesClassRules = attendeesClass ? describeEligibility(attendeesClass) : [];
+  const { data: overrides } = useQuery<(EligibilityOverride & { memberName: string })[]>({
+    queryKey: ["/api/admin/classes", attendeesClass?.id, "eligibility-overrides"],
+    enabled: !!attendeesClass && attendeesClassRules.length > 0,
+  });
+
+  const registerBookings = register?.bookings || [];
+  const attendedCount = registerBookings.filter(b => b.status === "attended" || !!b.checkedInAt).length;
+  const noShowCount = registerBookings.filter(b => b.status === "no_show").length;
+  const walkInCandidates = (members || []).filter(
+    m => !registerBookings.some(b => b.memberId === m.id)
+  );
+
+  const invalidateRegister = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/classes", attendeesClass?.id, "register"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/classes"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/bookings"] });
+  };
+
+  const attendanceMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: "attended" | "no_show" }) => {
+      const res = await apiRequest("PATCH", `/api/admin/bookings/${id}/attendance`, { status });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateRegister();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update register", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const walkInMutation = useMutation({
+    mutationFn: async ({ classId, memberId }: { classId: string; memberId: string }) => {
+      const res = await apiRequest("POST", `/api/admin/classes/${classId}/walk-in`, { memberId });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateRegister();
+      setWalkInMemberId("");
+      toast({ title: "Walk-in added", description: "The member has been booked and checked in." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to add walk-in", description: error.message, variant: "destructive" });
+    },
   });
 
-  const getAttendeesForClass = (classId: string) => {
-    return (allBookings || []).filter(b => b.classId === classId && b.status === "confirmed");
+  const invalidateOverrides = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/classes", attendeesClass?.id, "eligibility-overrides"] });
   };
 
+  const allowMemberMutation = useMutation({
+    mutationFn: async ({ classId, memberId }: { classId: string; memberId: string }) => {
+      const res = await apiRequest("POST", `/api/admin/classes/${classId}/eligibility-overrides`, { memberId });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateOverrides();
+      setOverrideMemberId("");
+      toast({ title: "Member allowed", description: "They can now book this class, or be added as a walk-in." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to allow member", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeOverrideMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/eligibility-overrides/${id}`);
+    },
+    onSuccess: () => {
+      invalidateOverrides();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove", description: error.message, variant: "destructive" });
+    },
+  });
+
   const goToPreviousWeek = () => {
-    setCurrentWeekStart(subWeeks(currentWeekStart, 1));
+    setWeekOffset(weekOffset - 1);
   };
 
   const goToNextWeek = () => {
-    setCurrentWeekStart(addWeeks(currentWeekStart, 1));
+    setWeekOffset(weekOffset + 1);
   };
 
   const goToCurrentWeek = () => {
-    setCurrentWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }));
+    setWeekOffset(0);
   };
 
   const createMutation = useMutation({
@@ -137,14 +267,17 @@ export default function AdminCalendar() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: ClassFormData }) => {
-      const res = await apiRequest("PUT", `/api/admin/classes/${id}`, data);
-      return res.json();
+    mutationFn: async ({ id, data, scope }: { id: string; data: ClassFormData; scope: SeriesScope }) => {
+      const res = await apiRequest("PUT", `/api/admin/classes/${id}`, { ...data, scope });
+      return res.json() as Promise<BoxingClass & { classesUpdated: number; membersNotified: number }>;
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/classes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/class-templates"] });
       queryClient.invalidateQueries({ queryKey: ["/api/classes"] });
-      toast({ title: "Class updated", description: "The class has been updated." });
+      let description = data.classesUpdated > 1 ? `${data.classesUpdated} sessions updated.` : "The class has been updated.";
+      if (data.membersNotified > 0) description += ` ${data.membersNotified} booked member(s) emailed about the change.`;
+      toast({ title: "Class updated", description });
       setIsDialogOpen(false);
       setEditingClass(null);
       resetForm();
@@ -156,13 +289,17 @@ export default function AdminCalendar() {
 
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
-      await apiRequest("DELETE", `/api/admin/classes/${id}`);
+      const res = await apiRequest("DELETE", `/api/admin/classes/${id}`);
+      return res.json() as Promise<{ message: string; bookingsCancelled?: number }>;
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/classes"] });
       queryClient.invalidateQueries({ queryKey: ["/api/classes"] });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
-      toast({ title: "Class deleted", description: "The class has been removed." });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/bookings"] });
+      toast(result.bookingsCancelled !== undefined
+        ? { title: "Class cancelled", description: result.message }
+        : { title: "Class deleted", description: "The class has been removed." });
       setDeleteClass(null);
     },
     onError: (error: Error) => {
@@ -177,6 +314,7 @@ export default function AdminCalendar() {
 
   const openEditDialog = (boxingClass: BoxingClass) => {
     setEditingClass(boxingClass);
+    setEditScope("occurrence");
     setFormData({
       title: boxingClass.title,
       description: boxingClass.description || "",
@@ -184,7 +322,10 @@ export default function AdminCalendar() {
       date: boxingClass.date,
       time: boxingClass.time,
       duration: boxingClass.duration || 60,
-      price: boxingClass.price || "15.00",
+      capacity: boxingClass.capacity ?? 12,
+      price: boxingClass.price || "",
+      concessionPrice: boxingClass.concessionPrice || "",
+      ...classRulesForm(boxingClass),
       isActive: boxingClass.isActive !== false,
     });
     setIsDialogOpen(true);
@@ -193,34 +334,27 @@ export default function AdminCalendar() {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (editingClass) {
-      updateMutation.mutate({ id: editingClass.id, data: formData });
+      updateMutation.mutate({ id: editingClass.id, data: formData, scope: editScope });
     } else {
       createMutation.mutate(formData);
     }
   };
 
   const weekClasses = (classes || []).filter((boxingClass) => {
-    const classDate = parseISO(boxingClass.date);
-    return isWithinInterval(classDate, { start: currentWeekStart, end: weekEnd });
-  }).sort((a, b) => {
-    const dateA = new Date(a.date + "T" + a.time);
-    const dateB = new Date(b.date + "T" + b.time);
-    return dateA.getTime() - dateB.getTime();
-  });
+    return boxingClass.date >= weekStartStr && boxingClass.date <= weekEndStr;
+  }).sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time));
 
   const groupedByDay = dayNames.map((_, index) => {
-    const dayDate = new Date(currentWeekStart);
-    dayDate.setDate(dayDate.getDate() + index);
-    const dateStr = format(dayDate, "yyyy-MM-dd");
+    const dateStr = addDaysToDate(weekStartStr, index);
     return {
-      date: dayDate,
+      date: parseISO(dateStr),
       dateStr,
       dayName: dayNames[index],
       classes: weekClasses.filter(c => c.date === dateStr),
     };
   });
 
-  const isCurrentWeek = startOfWeek(new Date(), { weekStartsOn: 1 }).getTime() === currentWeekStart.getTime();
+  const isCurrentWeek = weekOffset === 0;
 
   return (
     <AdminLayout title="Calendar">
@@ -296,7 +430,7 @@ export default function AdminCalendar() {
                   </div>
                 </div>
 
-                <div className="grid grid-cols-3 gap-4">
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
                   <div className="space-y-2">
                     <Label htmlFor="duration">Duration (min)</Label>
                     <Input
@@ -310,6 +444,19 @@ export default function AdminCalendar() {
                       data-testid="input-class-duration"
                     />
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="capacity">Capacity</Label>
+                    <Input
+                      id="capacity"
+                      type="number"
+                      className="h-12 text-base"
+                      value={formData.capacity}
+                      onChange={(e) => setFormData({ ...formData, capacity: parseInt(e.target.value) || 1 })}
+                      min={1}
+                      max={100}
+                      data-testid="input-class-capacity"
+                    />
+                  </div>
                   <div className="space-y-2">
                     <Label htmlFor="price">Price (£)</Label>
                     <Input
@@ -317,10 +464,21 @@ export default function AdminCalendar() {
                       className="h-12 text-base"
                       value={formData.price}
                       onChange={(e) => setFormData({ ...formData, price: e.target.value })}
-                      placeholder="15.00"
+                      placeholder="Default"
                       data-testid="input-class-price"
                     />
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="concessionPrice">Concession (£)</Label>
+                    <Input
+                      id="concessionPrice"
+                      className="h-12 text-base"
+                      value={formData.concessionPrice}
+                      onChange={(e) => setFormData({ ...formData, concessionPrice: e.target.value })}
+                      placeholder="None"
+                      data-testid="input-class-concession-price"
+                    />
+                  </div>
                 </div>
 
                 <div className="space-y-2">
@@ -335,6 +493,34 @@ export default function AdminCalendar() {
                   />
                 </div>
 
+                <ClassRulesFields
+                  value={formData}
+                  onChange={(rules) => setFormData({ ...formData, ...rules })}
+                  idPrefix="class"
+                />
+
+                {editingClass?.templateId && (
+                  <div className="space-y-2">
+                    <Label>Apply changes to</Label>
+                    <Select value={editScope} onValueChange={(value) => setEditScope(value as SeriesScope)}>
+                      <SelectTrigger className="h-12" data-testid="select-edit-scope">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="occurrence">This session only</SelectItem>
+                        <SelectItem value="future">This and all future sessions</SelectItem>
+                        <SelectItem value="series">Every upcoming session in the series</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      {editScope === "occurrence"
+                        ? "The weekly schedule stays as it is."
+                        : "The weekly schedule is updated too. Date, type and active changes only apply to this session."}
+                      {" "}Members booked on changed sessions are emailed.
+                    </p>
+                  </div>
+                )}
+
                 <div className="flex justify-end gap-3 pt-4">
                   <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)} data-testid="button-cancel-class">
                     Cancel
@@ -356,7 +542,7 @@ export default function AdminCalendar() {
             </Button>
             <div className="text-center">
               <h3 className="text-lg font-semibold text-foreground">
-                {format(currentWeekStart, "d MMM")} - {format(weekEnd, "d MMM yyyy")}
+                {format(parseISO(weekStartStr), "d MMM")} - {format(parseISO(weekEndStr), "d MMM yyyy")}
               </h3>
               {!isCurrentWeek && (
                 <Button variant="ghost" size="sm" onClick={goToCurrentWeek} className="text-xs" data-testid="button-today">
@@ -378,8 +564,8 @@ export default function AdminCalendar() {
           ) : (
             <div className="space-y-4">
               {groupedByDay.map(({ date, dateStr, dayName, classes: dayClasses }) => {
-                const isToday = format(new Date(), "yyyy-MM-dd") === dateStr;
-                const isPast = new Date(dateStr) < new Date(format(new Date(), "yyyy-MM-dd"));
+                const isToday = dateStr === today;
+                const isPast = dateStr < today;
                 
                 return (
                   <div key={dateStr} className={`border rounded-lg ${isToday ? "border-primary bg-primary/5" : isPast ? "opacity-60" : ""}`}>
@@ -411,9 +597,9 @@ export default function AdminCalendar() {
                                   </span>
                                   <span className="flex items-center gap-1">
                                     <Users className="h-3 w-3 sm:h-3.5 sm:w-3.5" />
-                                    {boxingClass.bookedCount || 0} booked
+                                    {boxingClass.bookedCount || 0}/{boxingClass.capacity ?? "-"} booked
                                   </span>
-                                  <span className="font-medium text-primary">£{boxingClass.price}</span>
+                                  <span className="font-medium text-primary">£{boxingClass.price}{boxingClass.concessionPrice && ` / £${boxingClass.concessionPrice}`}</span>
                                 </div>
                               </div>
                               <div className="flex items-center gap-1 justify-end shrink-0">
@@ -424,8 +610,8 @@ export default function AdminCalendar() {
                                   className="text-xs h-8 px-2 sm:px-3"
                                   data-testid={`button-attendees-${boxingClass.id}`}
                                 >
-                                  <Eye className="h-3.5 w-3.5 sm:mr-1" />
-                                  <span className="hidden sm:inline">Attendees</span>
+                                  <ClipboardCheck className="h-3.5 w-3.5 sm:mr-1" />
+                                  <span className="hidden sm:inline">Register</span>
                                 </Button>
                                 <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEditDialog(boxingClass)} data-testid={`button-edit-${boxingClass.id}`}>
                                   <Pencil className="h-3.5 w-3.5" />
@@ -451,7 +637,8 @@ export default function AdminCalendar() {
             <AlertDialogHeader>
               <AlertDialogTitle>Delete Class</AlertDialogTitle>
               <AlertDialogDescription>
-                Are you sure you want to delete "{deleteClass?.title}"? This action cannot be undone.
+                Are you sure you want to delete "{deleteClass?.title}"? If anyone has booked it, the class is cancelled instead and
+                they're refunded and emailed. This action cannot be undone.
               </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter>
@@ -468,24 +655,29 @@ export default function AdminCalendar() {
         </AlertDialog>
 
         <Dialog open={!!attendeesClass} onOpenChange={() => setAttendeesClass(null)}>
-          <DialogContent className="max-w-md">
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>
-                Attendees - {attendeesClass?.title}
+                Register - {attendeesClass?.title}
               </DialogTitle>
             </DialogHeader>
             <div className="mt-2">
               <p className="text-sm text-muted-foreground mb-4">
-                {attendeesClass && format(new Date(attendeesClass.date), "EEEE, MMMM d, yyyy")} at {attendeesClass?.time}
+                {attendeesClass && format(parseISO(attendeesClass.date), "EEEE, MMMM d, yyyy")} at {attendeesClass?.time}
               </p>
-              {attendeesClass && getAttendeesForClass(attendeesClass.id).length === 0 ? (
+              {registerLoading ? (
+                <div className="space-y-2">
+                  <Skeleton className="h-14" />
+                  <Skeleton className="h-14" />
+                </div>
+              ) : registerBookings.length === 0 ? (
                 <div className="text-center py-8">
                   <Users className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
-                  <p className="text-muted-foreground">No confirmed bookings yet.</p>
+                  <p className="text-muted-foreground">No bookings yet.</p>
                 </div>
               ) : (
                 <div className="space-y-2 max-h-[300px] overflow-y-auto">
-                  {attendeesClass && getAttendeesForClass(attendeesClass.id).map((booking, index) => (
+                  {registerBookings.map((booking, index) => (
                     <div 
                       key={booking.id} 
                       className="flex items-center gap-3 p-3 rounded-lg bg-muted/50"
@@ -498,20 +690,161 @@ export default function AdminCalendar() {
                         <p className="font-medium text-foreground truncate">
                           {booking.member?.name || "Unknown"}
                         </p>
-                        {booking.member?.email && (
-                          <p className="text-xs text-muted-foreground truncate flex items-center gap-1">
-                            <Mail className="h-3 w-3" />
-                            {booking.member.email}
-                          </p>
-                        )}
+                        <div className="flex items-center gap-2 flex-wrap text-xs text-muted-foreground">
+                          {booking.status === "pending_cash" && (
+                            <span className="text-amber-700 dark:text-amber-300 font-medium">Cash due</span>
+                          )}
+                          {booking.checkedInAt && (
+                            <span>In at {zonedTime(new Date(booking.checkedInAt), clubTimezone)}</span>
+                          )}
+                          {booking.member?.emergencyContactPhone && (
+                            <span className="flex items-center gap-1">
+                              <Phone className="h-3 w-3" />
+                              {booking.member.emergencyContactName || "Emergency"}: {booking.member.emergencyContactPhone}
+                            </span>
+                          )}
+                          {!!booking.member?.formsMissing.length && (
+                            <span className="text-destructive font-medium">
+                              Unsigned: {booking.member.formsMissing.join(", ")}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Button
+                          size="sm"
+                          variant={booking.status === "attended" || booking.checkedInAt ? "default" : "outline"}
+                          className="h-8 px-2"
+                          onClick={() => attendanceMutation.mutate({ id: booking.id, status: "attended" })}
+                          disabled={attendanceMutation.isPending}
+                          title="Check in"
+                          data-testid={`button-attended-${booking.id}`}
+                        >
+                          <UserCheck className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant={booking.status === "no_show" ? "destructive" : "outline"}
+                          className="h-8 px-2"
+                          onClick={() => attendanceMutation.mutate({ id: booking.id, status: "no_show" })}
+                          disabled={attendanceMutation.isPending || booking.status === "pending" || booking.status === "pending_cash"}
+                          title={booking.status === "pending" || booking.status === "pending_cash" ? "Not paid - cancel the booking instead" : "No-show"}
+                          data-testid={`button-no-show-${booking.id}`}
+                        >
+                          <UserX className="h-3.5 w-3.5" />
+                        </Button>
                       </div>
                     </div>
                   ))}
                 </div>
               )}
+
+              <div className="mt-4 pt-4 border-t space-y-2">
+                <Label>Walk-in</Label>
+                <div className="flex gap-2">
+                  <Select value={walkInMemberId} onValueChange={setWalkInMemberId}>
+                    <SelectTrigger className="flex-1" data-testid="select-walk-in-member">
+                      <SelectValue placeholder="Choose a member" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {walkInCandidates.map((member) => (
+                        <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    onClick={() => attendeesClass && walkInMutation.mutate({ classId: attendeesClass.id, memberId: walkInMemberId })}
+                    disabled={!walkInMemberId || walkInMutation.isPending}
+                    data-testid="button-add-walk-in"
+                  >
+                    {walkInMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <><UserPlus className="h-4 w-4 mr-1" />Add</>}
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">Walk-ins are checked in straight away and recorded as paid in cash (or their free first session).</p>
+              </div>
+
+              {attendeesClassRules.length > 0 && (
+                <div className="mt-4 pt-4 border-t space-y-2" data-testid="section-eligibility-overrides">
+                  <Label>Allow despite class rules</Label>
+                  <p className="text-xs text-muted-foreground">This class is for: {attendeesClassRules.join(" · ")}</p>
+                  {overrides && overrides.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {overrides.map((override) => (
+                        <Badge key={override.id} variant="secondary" className="gap-1" data-testid={`badge-override-${override.memberId}`}>
+                          <ShieldCheck className="h-3 w-3" />
+                          {override.memberName}
+                          <button
+                            type="button"
+                            onClick={() => removeOverrideMutation.mutate(override.id)}
+                            disabled={removeOverrideMutation.isPending}
+                            aria-label={`Remove ${override.memberName}`}
+                            data-testid={`button-remove-override-${override.memberId}`}
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex gap-2">
+                    <Select value={overrideMemberId} onValueChange={setOverrideMemberId}>
+                      <SelectTrigger className="flex-1" data-testid="select-override-member">
+                        <SelectValue placeholder="Choose a member" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(members || []).filter(m => !overrides?.some(o => o.memberId === m.id)).map((member) => (
+                          <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      onClick={() => attendeesClass && allowMemberMutation.mutate({ classId: attendeesClass.id, memberId: overrideMemberId })}
+                      disabled={!overrideMemberId || allowMemberMutation.isPending}
+                      data-testid="button-allow-member"
+                    >
+                      {allowMemberMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <><ShieldCheck className="h-4 w-4 mr-1" />Allow</>}
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">Lets one member book this session even though they don't meet its rules.</p>
+                </div>
+              )}
+
+              {attendeesWaitlist && attendeesWaitlist.length > 0 && (
+                <div className="mt-4">
+                  <h4 className="text-sm font-semibold text-foreground mb-2">Waitlist</h4>
+                  <div className="space-y-2 max-h-[200px] overflow-y-auto">
+                    {attendeesWaitlist.map((entry, index) => (
+                      <div
+                        key={entry.id}
+                        className="flex items-center gap-3 p-3 rounded-lg border"
+                        data-testid={`waitlist-entry-${entry.id}`}
+                      >
+                        <div className="flex items-center justify-center w-8 h-8 rounded-full bg-muted text-muted-foreground font-semibold text-sm">
+                          {index + 1}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium text-foreground truncate">
+                            {entry.member?.name || "Unknown"}
+                          </p>
+                          {entry.status === "offered" && entry.offerExpiresAt && (
+                            <p className="text-xs text-muted-foreground">
+                              Offered until {format(parseISO(zonedDate(new Date(entry.offerExpiresAt), clubTimezone)), "EEE d MMM")}, {zonedTime(new Date(entry.offerExpiresAt), clubTimezone)}
+                            </p>
+                          )}
+                        </div>
+                        <Badge variant={entry.status === "offered" ? "default" : "secondary"} className="text-xs">
+                          {entry.status === "offered" ? "Offered" : "Waiting"}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
               <div className="mt-4 pt-4 border-t flex items-center justify-between">
-                <span className="text-sm text-muted-foreground">
-                  {attendeesClass && getAttendeesForClass(attendeesClass.id).length} attendees
+                <span className="text-sm text-muted-foreground" data-testid="text-register-summary">
+                  {attendedCount} of {registerBookings.length} checked in
+                  {noShowCount > 0 && `, ${noShowCount} no-show${noShowCount === 1 ? "" : "s"}`}
                 </span>
                 <Button variant="outline" onClick={() => setAttendeesClass(null)} data-testid="button-close-attendees">
                   Close
@@ -0,0 +1,378 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AdminLayout } from "@/components/layout/AdminLayout";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Banknote, AlertTriangle, RotateCcw, Loader2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format, parseISO, subDays } from "date-fns";
+import type { Booking, CashSession } from "@shared/schema";
+
+type CashSessionRow = CashSession & {
+  expectedAmount: string;
+  bookingCount: number;
+  difference: string | null;
+};
+
+interface TakingsSummary {
+  periodStart: string;
+  sessions: number;
+  openSessions: number;
+  expected: string;
+  counted: string;
+  difference: string;
+}
+
+interface TakingsReport {
+  period: "day" | "week";
+  summaries: TakingsSummary[];
+  totals: TakingsSummary;
+  discrepancies: CashSessionRow[];
+}
+
+type SessionBooking = Booking & { memberName: string };
+
+interface CountFormData {
+  countedAmount: string;
+  collectedBy: string;
+  notes: string;
+}
+
+const emptyCountForm: CountFormData = { countedAmount: "", collectedBy: "", notes: "" };
+
+// Query keys carry the date range, so refresh anything cash-related by prefix
+const invalidateCashQueries = () =>
+  queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/cash-") });
+
+export default function AdminCashTakings() {
+  const { toast } = useToast();
+  const [from, setFrom] = useState(format(subDays(new Date(), 6), "yyyy-MM-dd"));
+  const [to, setTo] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [period, setPeriod] = useState<"day" | "week">("day");
+  const [sessionToCount, setSessionToCount] = useState<CashSessionRow | null>(null);
+  const [countForm, setCountForm] = useState<CountFormData>(emptyCountForm);
+
+  // Cash bookings are confirmed from the Bookings page, so always refetch when this page opens
+  const { data: report, isLoading: reportLoading } = useQuery<TakingsReport>({
+    queryKey: [`/api/admin/cash-takings?from=${from}&to=${to}&period=${period}`],
+    staleTime: 0,
+  });
+
+  const { data: sessions, isLoading: sessionsLoading } = useQuery<CashSessionRow[]>({
+    queryKey: [`/api/admin/cash-sessions?from=${from}&to=${to}`],
+    staleTime: 0,
+  });
+
+  const { data: sessionBookings, isLoading: bookingsLoading } = useQuery<SessionBooking[]>({
+    queryKey: [`/api/admin/cash-sessions/${sessionToCount?.id}/bookings`],
+    enabled: !!sessionToCount,
+    staleTime: 0,
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      if (!sessionToCount) return;
+      await apiRequest("POST", `/api/admin/cash-sessions/${sessionToCount.id}/close`, {
+        countedAmount: countForm.countedAmount,
+        collectedBy: countForm.collectedBy,
+        notes: countForm.notes || null,
+      });
+    },
+    onSuccess: () => {
+      invalidateCashQueries();
+      toast({ title: "Cash counted", description: "The count has been recorded against this class." });
+      setSessionToCount(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to record count", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/admin/cash-sessions/${id}/reopen`);
+    },
+    onSuccess: () => {
+      invalidateCashQueries();
+      toast({ title: "Cash session reopened", description: "Late cash bookings can be confirmed into it, then count it again." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to reopen", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openCountDialog = (cashSession: CashSessionRow) => {
+    setSessionToCount(cashSession);
+    setCountForm({ ...emptyCountForm, countedAmount: cashSession.expectedAmount });
+  };
+
+  const formatPeriod = (periodStart: string) => period === "week"
+    ? `Week of ${format(parseISO(periodStart), "d MMM yyyy")}`
+    : format(parseISO(periodStart), "EEE d MMM yyyy");
+
+  return (
+    <AdminLayout title="Cash Takings">
+      <div className="mx-auto max-w-4xl space-y-4 sm:space-y-6">
+        <div>
+          <h2 className="text-xl sm:text-2xl font-bold text-foreground">Cash Takings</h2>
+          <p className="text-sm sm:text-base text-muted-foreground">
+            Confirming a cash booking adds it to its class's cash session. Count the tin after the class and record who collected it.
+          </p>
+        </div>
+
+        <Card className="p-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="takings-from">From</Label>
+              <Input id="takings-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} data-testid="input-takings-from" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="takings-to">To</Label>
+              <Input id="takings-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} data-testid="input-takings-to" />
+            </div>
+            <div className="space-y-2">
+              <Label>Summarise by</Label>
+              <Select value={period} onValueChange={(value) => setPeriod(value as "day" | "week")}>
+                <SelectTrigger data-testid="select-takings-period">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="day">Day</SelectItem>
+                  <SelectItem value="week">Week</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </Card>
+
+        {reportLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : report && (
+          <>
+            <div className="grid grid-cols-3 gap-3">
+              <Card className="p-3 text-center" data-testid="card-takings-expected">
+                <p className="text-xs text-muted-foreground">Expected</p>
+                <p className="text-lg font-bold text-foreground">£{report.totals.expected}</p>
+              </Card>
+              <Card className="p-3 text-center" data-testid="card-takings-counted">
+                <p className="text-xs text-muted-foreground">Counted</p>
+                <p className="text-lg font-bold text-foreground">£{report.totals.counted}</p>
+              </Card>
+              <Card className="p-3 text-center" data-testid="card-takings-difference">
+                <p className="text-xs text-muted-foreground">Over / short</p>
+                <p className={`text-lg font-bold ${differenceClass(report.totals.difference)}`}>{formatDifference(report.totals.difference)}</p>
+              </Card>
+            </div>
+
+            {report.summaries.length > 0 && (
+              <Card className="p-4">
+                <h3 className="font-semibold text-foreground mb-3">{period === "week" ? "Weekly" : "Daily"} takings</h3>
+                <div className="space-y-2">
+                  {report.summaries.map((summary) => (
+                    <div key={summary.periodStart} className="flex items-center justify-between gap-3 rounded-lg bg-muted/50 p-3 text-sm" data-testid={`row-takings-${summary.periodStart}`}>
+                      <div className="min-w-0">
+                        <p className="font-medium text-foreground">{formatPeriod(summary.periodStart)}</p>
+                        <p className="text-muted-foreground">
+                          {summary.sessions} {summary.sessions === 1 ? "class" : "classes"}
+                          {summary.openSessions > 0 && ` · ${summary.openSessions} not counted yet`}
+                        </p>
+                      </div>
+                      <div className="text-right shrink-0">
+                        <p className="text-foreground">£{summary.counted} of £{summary.expected}</p>
+                        <p className={differenceClass(summary.difference)}>{formatDifference(summary.difference)}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            )}
+
+            {report.discrepancies.length > 0 && (
+              <Card className="p-4 border-destructive/40" data-testid="card-cash-discrepancies">
+                <div className="flex items-center gap-2 mb-3">
+                  <AlertTriangle className="h-5 w-5 text-destructive" />
+                  <h3 className="font-semibold text-foreground">Counts that didn't match</h3>
+                </div>
+                <div className="space-y-2">
+                  {report.discrepancies.map((cashSession) => (
+                    <div key={cashSession.id} className="flex items-center justify-between gap-3 rounded-lg border p-3 text-sm" data-testid={`row-discrepancy-${cashSession.id}`}>
+                      <div className="min-w-0">
+                        <p className="font-medium text-foreground truncate">{cashSession.classTitle}</p>
+                        <p className="text-muted-foreground">
+                          {format(parseISO(cashSession.classDate), "d MMM yyyy")} {cashSession.classTime} · collected by {cashSession.collectedBy}
+                        </p>
+                        {cashSession.notes && <p className="text-muted-foreground italic">{cashSession.notes}</p>}
+                      </div>
+                      <div className="text-right shrink-0">
+                        <p className="text-foreground">£{cashSession.countedAmount} of £{cashSession.expectedAmount}</p>
+                        <p className={differenceClass(cashSession.difference!)}>{formatDifference(cashSession.difference!)}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            )}
+          </>
+        )}
+
+        <div>
+          <h3 className="font-semibold text-foreground mb-3">Cash sessions</h3>
+          {sessionsLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : !sessions || sessions.length === 0 ? (
+            <Card className="p-8 text-center">
+              <Banknote className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+              <p className="text-muted-foreground">No cash confirmed for classes in these dates.</p>
+            </Card>
+          ) : (
+            <div className="space-y-3">
+              {sessions.map((cashSession) => (
+                <Card key={cashSession.id} className="p-4" data-testid={`card-cash-session-${cashSession.id}`}>
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="font-medium text-foreground truncate">{cashSession.classTitle}</p>
+                        <Badge variant={cashSession.status === "closed" ? "secondary" : "outline"} className="text-xs">
+                          {cashSession.status === "closed" ? "Counted" : "Open"}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {format(parseISO(cashSession.classDate), "EEE d MMM yyyy")} {cashSession.classTime}
+                        {" · "}{cashSession.bookingCount} cash {cashSession.bookingCount === 1 ? "booking" : "bookings"}
+                        {cashSession.collectedBy && ` · collected by ${cashSession.collectedBy}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                      <div className="text-right text-sm">
+                        {cashSession.status === "closed" ? (
+                          <>
+                            <p className="text-foreground">£{cashSession.countedAmount} of £{cashSession.expectedAmount}</p>
+                            <p className={differenceClass(cashSession.difference || "0")}>{formatDifference(cashSession.difference || "0")}</p>
+                          </>
+                        ) : (
+                          <p className="text-foreground">£{cashSession.expectedAmount} expected</p>
+                        )}
+                      </div>
+                      {cashSession.status === "closed" ? (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => reopenMutation.mutate(cashSession.id)}
+                          disabled={reopenMutation.isPending}
+                          data-testid={`button-reopen-cash-session-${cashSession.id}`}
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      ) : (
+                        <Button size="sm" onClick={() => openCountDialog(cashSession)} data-testid={`button-count-cash-session-${cashSession.id}`}>
+                          Count
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={!!sessionToCount} onOpenChange={(open) => !open && setSessionToCount(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Count Cash</DialogTitle>
+            <DialogDescription>
+              {sessionToCount?.classTitle}
+              {sessionToCount && ` · ${format(parseISO(sessionToCount.classDate), "d MMM yyyy")} ${sessionToCount.classTime}`}
+              . £{sessionToCount?.expectedAmount} should be in the tin.
+            </DialogDescription>
+          </DialogHeader>
+
+          {bookingsLoading ? (
+            <Skeleton className="h-16 w-full" />
+          ) : sessionBookings && sessionBookings.length > 0 && (
+            <div className="space-y-1">
+              {sessionBookings.map((booking) => (
+                <div key={booking.id} className={`flex items-center justify-between text-sm ${booking.status === "cancelled" ? "text-muted-foreground line-through" : ""}`} data-testid={`row-cash-booking-${booking.id}`}>
+                  <span>{booking.memberName}</span>
+                  <span>£{booking.price}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              closeMutation.mutate();
+            }}
+          >
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="cash-counted">Counted (£)</Label>
+                <Input
+                  id="cash-counted"
+                  className="h-12 text-base"
+                  inputMode="decimal"
+                  value={countForm.countedAmount}
+                  onChange={(e) => setCountForm({ ...countForm, countedAmount: e.target.value })}
+                  data-testid="input-cash-counted"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cash-collected-by">Collected by</Label>
+                <Input
+                  id="cash-collected-by"
+                  className="h-12 text-base"
+                  value={countForm.collectedBy}
+                  onChange={(e) => setCountForm({ ...countForm, collectedBy: e.target.value })}
+                  placeholder="Coach's name"
+                  data-testid="input-cash-collected-by"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cash-notes">Notes</Label>
+              <Textarea
+                id="cash-notes"
+                value={countForm.notes}
+                onChange={(e) => setCountForm({ ...countForm, notes: e.target.value })}
+                placeholder="Anything that explains a difference"
+                data-testid="input-cash-notes"
+              />
+            </div>
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={!countForm.countedAmount || !countForm.collectedBy || closeMutation.isPending}
+              data-testid="button-save-cash-count"
+            >
+              {closeMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Record Count"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+}
+
+function formatDifference(difference: string): string {
+  const amount = parseFloat(difference);
+  if (amount === 0) return "Balanced";
+  return amount > 0 ? `£${amount.toFixed(2)} over` : `£${Math.abs(amount).toFixed(2)} short`;
+}
+
+function differenceClass(difference: string): string {
+  const amount = parseFloat(difference);
+  if (amount === 0) return "text-muted-foreground";
+  return amount > 0 ? "text-amber-600" : "text-destructive";
+}
@@ -0,0 +1,271 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AdminLayout } from "@/components/layout/AdminLayout";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CalendarOff, Plus, Trash2, Loader2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format, parseISO } from "date-fns";
+import type { Closure } from "@shared/schema";
+
+interface ClosureFormData {
+  startDate: string;
+  endDate: string;
+  reason: string;
+  cardPayments: string;
+}
+
+const emptyClosureForm: ClosureFormData = { startDate: "", endDate: "", reason: "", cardPayments: "refund" };
+
+const formatRange = (closure: Closure) => closure.startDate === closure.endDate
+  ? format(parseISO(closure.startDate), "EEE d MMM yyyy")
+  : `${format(parseISO(closure.startDate), "EEE d MMM")} - ${format(parseISO(closure.endDate), "EEE d MMM yyyy")}`;
+
+export default function AdminClosures() {
+  const { toast } = useToast();
+  const [closureDialogOpen, setClosureDialogOpen] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [closureForm, setClosureForm] = useState<ClosureFormData>(emptyClosureForm);
+  const [closureToDelete, setClosureToDelete] = useState<Closure | null>(null);
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const { data: closures, isLoading } = useQuery<Closure[]>({
+    queryKey: ["/api/admin/closures"],
+  });
+
+  const createClosureMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/closures", {
+        ...closureForm,
+        endDate: closureForm.endDate || closureForm.startDate,
+      });
+      return res.json() as Promise<{ message: string }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/closures"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/classes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/classes"] });
+      toast({ title: "Closure added", description: data.message });
+      setConfirmOpen(false);
+      setClosureDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to add closure", description: error.message, variant: "destructive" });
+      setConfirmOpen(false);
+    },
+  });
+
+  const deleteClosureMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/closures/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/closures"] });
+      toast({ title: "Closure removed", description: "New classes will be scheduled on these dates again." });
+      setClosureToDelete(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove closure", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openClosureDialog = () => {
+    setClosureForm(emptyClosureForm);
+    setClosureDialogOpen(true);
+  };
+
+  return (
+    <AdminLayout title="Closures">
+      <div className="mx-auto max-w-3xl space-y-4 sm:space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-foreground">Closures</h2>
+            <p className="text-sm sm:text-base text-muted-foreground">
+              Bank holidays and days the community centre is shut. No classes are scheduled on these dates.
+            </p>
+          </div>
+          <Button onClick={openClosureDialog} className="w-full sm:w-auto" data-testid="button-new-closure">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Closure
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : !closures || closures.length === 0 ? (
+          <Card className="p-8 text-center">
+            <CalendarOff className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+            <p className="text-muted-foreground">No closures yet.</p>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {closures.map((closure) => (
+              <Card key={closure.id} className={`p-4 ${closure.endDate < today ? "opacity-60" : ""}`} data-testid={`card-closure-${closure.id}`}>
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="font-medium text-foreground">{formatRange(closure)}</p>
+                      {closure.startDate <= today && today <= closure.endDate && (
+                        <Badge variant="secondary" className="text-xs">Closed now</Badge>
+                      )}
+                      {closure.endDate < today && <Badge variant="outline" className="text-xs">Past</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground truncate">{closure.reason}</p>
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => setClosureToDelete(closure)} data-testid={`button-delete-closure-${closure.id}`}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={closureDialogOpen} onOpenChange={setClosureDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Add Closure</DialogTitle>
+            <DialogDescription>
+              Classes already scheduled on these dates are cancelled. Everyone booked is emailed and gets back what they paid.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setConfirmOpen(true);
+            }}
+          >
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="closure-start">First day closed</Label>
+                <Input
+                  id="closure-start"
+                  type="date"
+                  className="h-12 text-base"
+                  value={closureForm.startDate}
+                  onChange={(e) => setClosureForm({ ...closureForm, startDate: e.target.value })}
+                  data-testid="input-closure-start"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="closure-end">Last day closed</Label>
+                <Input
+                  id="closure-end"
+                  type="date"
+                  className="h-12 text-base"
+                  min={closureForm.startDate || undefined}
+                  value={closureForm.endDate}
+                  onChange={(e) => setClosureForm({ ...closureForm, endDate: e.target.value })}
+                  placeholder="Same day"
+                  data-testid="input-closure-end"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="closure-reason">Reason</Label>
+              <Input
+                id="closure-reason"
+                className="h-12 text-base"
+                value={closureForm.reason}
+                onChange={(e) => setClosureForm({ ...closureForm, reason: e.target.value })}
+                placeholder="e.g. Christmas - community centre closed"
+                data-testid="input-closure-reason"
+              />
+              <p className="text-xs text-muted-foreground">Members see this in the cancellation email.</p>
+            </div>
+            <div className="space-y-2">
+              <Label>Members who paid by card</Label>
+              <Select value={closureForm.cardPayments} onValueChange={(cardPayments) => setClosureForm({ ...closureForm, cardPayments })}>
+                <SelectTrigger className="h-12" data-testid="select-closure-card-payments">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="refund">Refund to their card</SelectItem>
+                  <SelectItem value="credit">Give a session credit instead</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Credits, gift vouchers and free sessions are always given back. Cash is paid at the door, so there's nothing to return.
+              </p>
+            </div>
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={!closureForm.startDate || !closureForm.reason.trim()}
+              data-testid="button-save-closure"
+            >
+              Add Closure
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel Classes on These Dates?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Any classes still to run from {closureForm.startDate && format(parseISO(closureForm.startDate), "d MMM yyyy")}
+              {closureForm.endDate && closureForm.endDate !== closureForm.startDate && ` to ${format(parseISO(closureForm.endDate), "d MMM yyyy")}`} will be
+              cancelled and booked members emailed. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Go Back</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                createClosureMutation.mutate();
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-closure"
+            >
+              {createClosureMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Close and Cancel Classes"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!closureToDelete} onOpenChange={(open) => !open && setClosureToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove Closure</AlertDialogTitle>
+            <AlertDialogDescription>
+              Classes will be scheduled on these dates again. Classes this closure already cancelled stay cancelled.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => closureToDelete && deleteClosureMutation.mutate(closureToDelete.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-delete-closure"
+            >
+              {deleteClosureMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Remove Closure"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,411 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AdminLayout } from "@/components/layout/AdminLayout";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Trophy, Plus, Pencil, Trash2, Loader2, ChevronRight, Globe } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format, parseISO } from "date-fns";
+import { RecordSummary } from "@/components/FightRecord";
+import { boutMethodLabels, boutMethods, type Bout, type BoutMethod, type FightRecord } from "@shared/schema";
+
+interface BoxerRecord {
+  memberId: string;
+  memberName: string;
+  isCarded: boolean;
+  publicProfile: boolean;
+  record: FightRecord;
+  lastBoutDate: string | null;
+}
+
+interface BoutFormData {
+  memberId: string;
+  boutDate: string;
+  opponentName: string;
+  opponentClub: string;
+  showName: string;
+  weightClass: string;
+  result: string;
+  method: string;
+  notes: string;
+}
+
+const emptyBoutForm: BoutFormData = {
+  memberId: "", boutDate: "", opponentName: "", opponentClub: "", showName: "", weightClass: "", result: "win", method: "points", notes: "",
+};
+
+const resultLabels: Record<string, string> = { win: "Won", loss: "Lost", draw: "Drew" };
+
+export default function AdminFightRecords() {
+  const { toast } = useToast();
+  const [selectedBoxerId, setSelectedBoxerId] = useState<string | null>(null);
+  const [boutDialogOpen, setBoutDialogOpen] = useState(false);
+  const [editingBout, setEditingBout] = useState<Bout | null>(null);
+  const [boutForm, setBoutForm] = useState<BoutFormData>(emptyBoutForm);
+  const [boutToDelete, setBoutToDelete] = useState<Bout | null>(null);
+  const [chooseBoxer, setChooseBoxer] = useState(false);
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const { data: records, isLoading } = useQuery<BoxerRecord[]>({
+    queryKey: ["/api/admin/fight-records"],
+  });
+
+  // Read from the list so the record updates as bouts are added
+  const selectedBoxer = records?.find(r => r.memberId === selectedBoxerId) ?? null;
+
+  const { data: members } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ["/api/admin/members"],
+    enabled: chooseBoxer,
+  });
+
+  const { data: bouts, isLoading: boutsLoading } = useQuery<Bout[]>({
+    queryKey: ["/api/admin/members", selectedBoxer?.memberId, "bouts"],
+    enabled: !!selectedBoxer,
+  });
+
+  const invalidateRecords = (memberId: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/fight-records"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/members", memberId, "bouts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/members"] });
+  };
+
+  const saveBoutMutation = useMutation({
+    mutationFn: async () => {
+      const { memberId, ...data } = boutForm;
+      const res = editingBout
+        ? await apiRequest("PUT", `/api/admin/bouts/${editingBout.id}`, data)
+        : await apiRequest("POST", `/api/admin/members/${memberId}/bouts`, data);
+      return res.json() as Promise<Bout>;
+    },
+    onSuccess: (bout) => {
+      invalidateRecords(bout.memberId);
+      toast({ title: editingBout ? "Bout updated" : "Bout added", description: `${resultLabels[bout.result] ?? bout.result} vs ${bout.opponentName}` });
+      setBoutDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save bout", description: error.message.replace(/^\d+: /, ""), variant: "destructive" });
+    },
+  });
+
+  const deleteBoutMutation = useMutation({
+    mutationFn: async (bout: Bout) => {
+      await apiRequest("DELETE", `/api/admin/bouts/${bout.id}`);
+      return bout;
+    },
+    onSuccess: (bout) => {
+      invalidateRecords(bout.memberId);
+      toast({ title: "Bout removed" });
+      setBoutToDelete(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove bout", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openBoutDialog = (memberId: string, bout?: Bout) => {
+    setEditingBout(bout ?? null);
+    setChooseBoxer(!bout && !memberId);
+    setBoutForm(bout ? {
+      memberId: bout.memberId,
+      boutDate: bout.boutDate,
+      opponentName: bout.opponentName,
+      opponentClub: bout.opponentClub || "",
+      showName: bout.showName || "",
+      weightClass: bout.weightClass || "",
+      result: bout.result,
+      method: bout.method,
+      notes: bout.notes || "",
+    } : { ...emptyBoutForm, memberId });
+    setBoutDialogOpen(true);
+  };
+
+  return (
+    <AdminLayout title="Fight Records">
+      <div className="mx-auto max-w-3xl space-y-4 sm:space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-foreground">Fight Records</h2>
+            <p className="text-sm sm:text-base text-muted-foreground">
+              Bouts for our competitive boxers. They see their record on their dashboard, and can choose to make it public.
+            </p>
+          </div>
+          <Button onClick={() => openBoutDialog("")} className="w-full sm:w-auto" data-testid="button-new-bout">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Bout
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : !records || records.length === 0 ? (
+          <Card className="p-8 text-center">
+            <Trophy className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+            <p className="text-muted-foreground">No bouts recorded yet. Carded boxers show up here too.</p>
+          </Card>
+        ) : (
+          <div className="space-y-2">
+            {records.map((boxer) => (
+              <Card
+                key={boxer.memberId}
+                className="p-3 sm:p-4 cursor-pointer hover:border-primary/40 transition-colors"
+                onClick={() => setSelectedBoxerId(boxer.memberId)}
+                data-testid={`card-fight-record-${boxer.memberId}`}
+              >
+                <div className="flex items-center gap-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="font-medium text-foreground">{boxer.memberName}</p>
+                      {boxer.isCarded && <Badge variant="outline" className="text-xs">Carded</Badge>}
+                      {boxer.publicProfile && <Badge variant="secondary" className="text-xs">Public</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {boxer.record.bouts === 0
+                        ? "No bouts yet"
+                        : `${boxer.record.wins}W ${boxer.record.losses}L ${boxer.record.draws}D`}
+                      {boxer.lastBoutDate && ` · last boxed ${format(parseISO(boxer.lastBoutDate), "d MMM yyyy")}`}
+                    </p>
+                  </div>
+                  <ChevronRight className="h-4 w-4 text-muted-foreground shrink-0" />
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!selectedBoxer} onOpenChange={(open) => !open && setSelectedBoxerId(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedBoxer?.memberName}</DialogTitle>
+            <DialogDescription className="flex items-center gap-1">
+              {selectedBoxer?.publicProfile ? (
+                <>
+                  <Globe className="h-3.5 w-3.5" />
+                  Record is public
+                </>
+              ) : "Record is private"}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedBoxer && (
+            <div className="space-y-4">
+              <RecordSummary record={selectedBoxer.record} />
+              <Button variant="outline" className="w-full" onClick={() => openBoutDialog(selectedBoxer.memberId)} data-testid="button-add-bout-for-boxer">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Bout
+              </Button>
+              {boutsLoading ? (
+                <Skeleton className="h-16 w-full" />
+              ) : (
+                <div className="space-y-2">
+                  {bouts?.map((bout) => (
+                    <div key={bout.id} className="rounded-md border p-3" data-testid={`row-admin-bout-${bout.id}`}>
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="font-medium text-foreground">
+                            {resultLabels[bout.result] ?? bout.result} vs {bout.opponentName}
+                            {bout.opponentClub && <span className="font-normal text-muted-foreground"> ({bout.opponentClub})</span>}
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            {[
+                              format(parseISO(bout.boutDate), "d MMM yyyy"),
+                              bout.showName,
+                              bout.weightClass,
+                              boutMethodLabels[bout.method as BoutMethod] ?? bout.method,
+                            ].filter(Boolean).join(" · ")}
+                          </p>
+                          {bout.notes && <p className="mt-1 text-xs text-muted-foreground italic">{bout.notes}</p>}
+                        </div>
+                        <div className="flex shrink-0">
+                          <Button variant="ghost" size="icon" onClick={() => openBoutDialog(bout.memberId, bout)} data-testid={`button-edit-bout-${bout.id}`}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => setBoutToDelete(bout)} data-testid={`button-delete-bout-${bout.id}`}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={boutDialogOpen} onOpenChange={setBoutDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingBout ? "Edit Bout" : "Add Bout"}</DialogTitle>
+            <DialogDescription>Wins, losses and draws are worked out from the bouts entered here.</DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveBoutMutation.mutate();
+            }}
+          >
+            {chooseBoxer && (
+              <div className="space-y-2">
+                <Label>Boxer</Label>
+                <Select value={boutForm.memberId} onValueChange={(memberId) => setBoutForm({ ...boutForm, memberId })}>
+                  <SelectTrigger className="h-12" data-testid="select-bout-member">
+                    <SelectValue placeholder="Choose a member" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {members?.map((member) => (
+                      <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="bout-date">Date</Label>
+                <Input
+                  id="bout-date"
+                  type="date"
+                  className="h-12 text-base"
+                  max={today}
+                  value={boutForm.boutDate}
+                  onChange={(e) => setBoutForm({ ...boutForm, boutDate: e.target.value })}
+                  data-testid="input-bout-date"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bout-weight">Weight class</Label>
+                <Input
+                  id="bout-weight"
+                  className="h-12 text-base"
+                  value={boutForm.weightClass}
+                  onChange={(e) => setBoutForm({ ...boutForm, weightClass: e.target.value })}
+                  placeholder="e.g. 67kg"
+                  data-testid="input-bout-weight"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bout-opponent">Opponent</Label>
+              <Input
+                id="bout-opponent"
+                className="h-12 text-base"
+                value={boutForm.opponentName}
+                onChange={(e) => setBoutForm({ ...boutForm, opponentName: e.target.value })}
+                data-testid="input-bout-opponent"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bout-opponent-club">Opponent's club</Label>
+              <Input
+                id="bout-opponent-club"
+                className="h-12 text-base"
+                value={boutForm.opponentClub}
+                onChange={(e) => setBoutForm({ ...boutForm, opponentClub: e.target.value })}
+                data-testid="input-bout-opponent-club"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bout-show">Show</Label>
+              <Input
+                id="bout-show"
+                className="h-12 text-base"
+                value={boutForm.showName}
+                onChange={(e) => setBoutForm({ ...boutForm, showName: e.target.value })}
+                placeholder="e.g. Glossop Club Show"
+                data-testid="input-bout-show"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Result</Label>
+                <Select value={boutForm.result} onValueChange={(result) => setBoutForm({ ...boutForm, result })}>
+                  <SelectTrigger className="h-12" data-testid="select-bout-result">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="win">Won</SelectItem>
+                    <SelectItem value="loss">Lost</SelectItem>
+                    <SelectItem value="draw">Drew</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Method</Label>
+                <Select value={boutForm.method} onValueChange={(method) => setBoutForm({ ...boutForm, method })}>
+                  <SelectTrigger className="h-12" data-testid="select-bout-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {boutMethods.map((method) => (
+                      <SelectItem key={method} value={method}>{boutMethodLabels[method]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bout-notes">Coach's notes</Label>
+              <Textarea
+                id="bout-notes"
+                rows={3}
+                value={boutForm.notes}
+                onChange={(e) => setBoutForm({ ...boutForm, notes: e.target.value })}
+                data-testid="input-bout-notes"
+              />
+              <p className="text-xs text-muted-foreground">Only coaches see these - they're not shown to the boxer or on their public page.</p>
+            </div>
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={saveBoutMutation.isPending || !boutForm.memberId || !boutForm.boutDate || !boutForm.opponentName.trim()}
+              data-testid="button-save-bout"
+            >
+              {saveBoutMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : editingBout ? "Save Bout" : "Add Bout"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!boutToDelete} onOpenChange={(open) => !open && setBoutToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove Bout</AlertDialogTitle>
+            <AlertDialogDescription>
+              The bout against {boutToDelete?.opponentName} will be taken off the record.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => boutToDelete && deleteBoutMutation.mutate(boutToDelete)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-delete-bout"
+            >
+              {deleteBoutMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Remove Bout"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,298 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AdminLayout } from "@/components/layout/AdminLayout";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { FileSignature, Plus, Pencil, AlertTriangle, CheckCircle } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import type { ConsentDocument, DocumentAudience } from "@shared/schema";
+
+type DocumentWithCount = ConsentDocument & { signedCount: number };
+
+interface OutstandingRow {
+  id: string;
+  name: string;
+  contact: string | null;
+  missing: { id: string; title: string }[];
+  flagged: { documentId: string; title: string; questions: string[] }[];
+}
+
+interface DocumentFormData {
+  title: string;
+  body: string;
+  questions: string;
+  appliesTo: DocumentAudience;
+  allowDecline: boolean;
+  isActive: boolean;
+}
+
+const emptyDocumentForm: DocumentFormData = { title: "", body: "", questions: "", appliesTo: "everyone", allowDecline: false, isActive: true };
+
+const audienceLabels: Record<DocumentAudience, string> = {
+  everyone: "Everyone",
+  juniors: "Juniors (under 18)",
+  adults: "Adults (18 and over)",
+};
+
+export default function AdminForms() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<DocumentWithCount | null>(null);
+  const [documentForm, setDocumentForm] = useState<DocumentFormData>(emptyDocumentForm);
+
+  const { data: documents, isLoading } = useQuery<DocumentWithCount[]>({
+    queryKey: ["/api/admin/documents"],
+  });
+
+  const { data: outstanding, isLoading: outstandingLoading } = useQuery<OutstandingRow[]>({
+    queryKey: ["/api/admin/documents/outstanding"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        ...documentForm,
+        // One question per line - each is answered yes or no
+        questions: documentForm.questions.split("\n"),
+      };
+      const res = editing
+        ? await apiRequest("PUT", `/api/admin/documents/${editing.id}`, payload)
+        : await apiRequest("POST", "/api/admin/documents", payload);
+      return res.json() as Promise<{ message?: string }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/documents/outstanding"] });
+      toast({
+        title: editing ? "Form updated" : "Form added",
+        description: data.message ?? "Members will be asked to sign it before their next booking.",
+      });
+      setDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save form", description: error.message.replace(/^\d+: /, ""), variant: "destructive" });
+    },
+  });
+
+  const openDialog = (document?: DocumentWithCount) => {
+    setEditing(document ?? null);
+    setDocumentForm(document ? {
+      title: document.title,
+      body: document.body,
+      questions: document.questions.join("\n"),
+      appliesTo: (document.appliesTo as DocumentAudience) || "everyone",
+      allowDecline: document.allowDecline || false,
+      isActive: document.isActive ?? true,
+    } : emptyDocumentForm);
+    setDialogOpen(true);
+  };
+
+  return (
+    <AdminLayout title="Forms">
+      <div className="mx-auto max-w-3xl space-y-4 sm:space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-foreground">Forms</h2>
+            <p className="text-sm sm:text-base text-muted-foreground">
+              Waivers and consents members sign from their dashboard. Nobody can book until they've signed the current version of every form that applies to them.
+            </p>
+          </div>
+          <Button onClick={() => openDialog()} className="w-full sm:w-auto" data-testid="button-new-form">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Form
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : !documents || documents.length === 0 ? (
+          <Card className="p-8 text-center">
+            <FileSignature className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+            <p className="text-muted-foreground">No forms yet.</p>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {documents.map((document) => (
+              <Card key={document.id} className={`p-4 ${document.isActive ? "" : "opacity-60"}`} data-testid={`card-form-${document.id}`}>
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="font-medium text-foreground">{document.title}</p>
+                      <Badge variant="outline" className="text-xs">v{document.version}</Badge>
+                      <Badge variant="secondary" className="text-xs">{audienceLabels[document.appliesTo as DocumentAudience] ?? document.appliesTo}</Badge>
+                      {document.allowDecline && <Badge variant="secondary" className="text-xs">Optional</Badge>}
+                      {!document.isActive && <Badge variant="outline" className="text-xs">Retired</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {document.signedCount} signed this version
+                      {document.questions.length > 0 && ` · ${document.questions.length} questions`}
+                      {document.updatedAt && ` · updated ${format(new Date(document.updatedAt), "d MMM yyyy")}`}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => openDialog(document)} data-testid={`button-edit-form-${document.id}`}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Still to Sign</h3>
+          <p className="text-sm text-muted-foreground">
+            Members missing the current version of a form, and health questions answered "yes" for a coach to follow up.
+          </p>
+        </div>
+
+        {outstandingLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : !outstanding || outstanding.length === 0 ? (
+          <Card className="p-8 text-center">
+            <CheckCircle className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+            <p className="text-muted-foreground">Everyone is signed up to date.</p>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {outstanding.map((row) => (
+              <Card key={row.id} className="p-4" data-testid={`card-outstanding-${row.id}`}>
+                <p className="font-medium text-foreground">{row.name}</p>
+                {row.contact && <p className="text-sm text-muted-foreground">{row.contact}</p>}
+                {row.missing.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {row.missing.map((document) => (
+                      <Badge key={document.id} variant="destructive" className="text-xs">{document.title}</Badge>
+                    ))}
+                  </div>
+                )}
+                {row.flagged.map((flag) => (
+                  <div key={flag.documentId} className="mt-2 rounded-md bg-amber-50 dark:bg-amber-950 p-2 text-sm text-amber-800 dark:text-amber-200">
+                    <p className="flex items-center gap-1 font-medium">
+                      <AlertTriangle className="h-3.5 w-3.5" />
+                      Answered yes on the {flag.title}
+                    </p>
+                    <ul className="mt-1 list-disc pl-5">
+                      {flag.questions.map((question) => <li key={question}>{question}</li>)}
+                    </ul>
+                  </div>
+                ))}
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Form" : "Add Form"}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? "Changing the wording, questions or whether it can be declined makes a new version that everyone has to sign again."
+                : "Everyone it applies to will need to sign it before their next booking."}
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="form-title">Title</Label>
+              <Input
+                id="form-title"
+                className="h-12 text-base"
+                value={documentForm.title}
+                onChange={(e) => setDocumentForm({ ...documentForm, title: e.target.value })}
+                placeholder="e.g. Health Questionnaire (PAR-Q)"
+                data-testid="input-form-title"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="form-body">Wording</Label>
+              <Textarea
+                id="form-body"
+                rows={6}
+                value={documentForm.body}
+                onChange={(e) => setDocumentForm({ ...documentForm, body: e.target.value })}
+                data-testid="input-form-body"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="form-questions">Yes/no questions</Label>
+              <Textarea
+                id="form-questions"
+                rows={4}
+                value={documentForm.questions}
+                onChange={(e) => setDocumentForm({ ...documentForm, questions: e.target.value })}
+                placeholder="One per line - leave blank if there are none"
+                data-testid="input-form-questions"
+              />
+              <p className="text-xs text-muted-foreground">Any "yes" answer shows up under Still to Sign for a coach to follow up.</p>
+            </div>
+            <div className="space-y-2">
+              <Label>Who signs it</Label>
+              <Select value={documentForm.appliesTo} onValueChange={(appliesTo) => setDocumentForm({ ...documentForm, appliesTo: appliesTo as DocumentAudience })}>
+                <SelectTrigger className="h-12" data-testid="select-form-applies-to">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(audienceLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Guardians sign for their juniors.</p>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="form-allow-decline">Members can decline</Label>
+                <p className="text-xs text-muted-foreground">For consents like photography - answering either way lets them book.</p>
+              </div>
+              <Switch
+                id="form-allow-decline"
+                checked={documentForm.allowDecline}
+                onCheckedChange={(allowDecline) => setDocumentForm({ ...documentForm, allowDecline })}
+                data-testid="switch-form-allow-decline"
+              />
+            </div>
+            {editing && (
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="form-active">In use</Label>
+                  <p className="text-xs text-muted-foreground">Retired forms stop blocking bookings. Signatures are kept.</p>
+                </div>
+                <Switch
+                  id="form-active"
+                  checked={documentForm.isActive}
+                  onCheckedChange={(isActive) => setDocumentForm({ ...documentForm, isActive })}
+                  data-testid="switch-form-active"
+                />
+              </div>
+            )}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={saveMutation.isPending || !documentForm.title.trim() || !documentForm.body.trim()}
+              data-testid="button-save-form"
+            >
+              {editing ? "Save Form" : "Add Form"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AdminLayout } from "@/components/layout/AdminLayout";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Gift, Receipt, Ban, Loader2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format, parseISO } from "date-fns";
+import type { GiftVoucher, GiftVoucherLedgerEntry } from "@shared/schema";
+
+type HistoryRow = GiftVoucherLedgerEntry & {
+  memberName: string;
+  classTitle: string | null;
+  classDate: string | null;
+};
+
+export default function AdminGiftVouchers() {
+  const { toast } = useToast();
+  const [historyFor, setHistoryFor] = useState<GiftVoucher | null>(null);
+  const [voucherToVoid, setVoucherToVoid] = useState<GiftVoucher | null>(null);
+
+  const { data: vouchers, isLoading } = useQuery<GiftVoucher[]>({
+    queryKey: ["/api/admin/gift-vouchers"],
+  });
+
+  const { data: history, isLoading: historyLoading } = useQuery<HistoryRow[]>({
+    queryKey: [`/api/admin/gift-vouchers/${historyFor?.id}/history`],
+    enabled: !!historyFor,
+  });
+
+  const voidMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/admin/gift-vouchers/${id}/void`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/gift-vouchers"] });
+      toast({ title: "Voucher voided", description: "The code can no longer be used." });
+      setVoucherToVoid(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to void voucher", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // What the club still owes in sessions on live vouchers
+  const outstanding = vouchers
+    ?.filter(v => v.status !== "voided")
+    .reduce((sum, v) => sum + parseFloat(v.balance), 0) || 0;
+
+  return (
+    <AdminLayout title="Gift Vouchers">
+      <div className="mx-auto max-w-3xl space-y-4 sm:space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-foreground">Gift Vouchers</h2>
+            <p className="text-sm sm:text-base text-muted-foreground">
+              Bought by members from their dashboard. Voiding a voucher stops the code working - refund any balance from Square separately.
+            </p>
+          </div>
+          <Card className="p-3 text-center shrink-0" data-testid="card-voucher-outstanding">
+            <p className="text-xs text-muted-foreground">Unspent balance</p>
+            <p className="text-lg font-bold text-foreground">£{outstanding.toFixed(2)}</p>
+          </Card>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : !vouchers || vouchers.length === 0 ? (
+          <Card className="p-8 text-center">
+            <Gift className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+            <p className="text-muted-foreground">No gift vouchers sold yet.</p>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {vouchers.map((voucher) => (
+              <Card key={voucher.id} className={`p-4 ${voucher.status === "voided" ? "opacity-60" : ""}`} data-testid={`card-voucher-${voucher.id}`}>
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="font-mono font-medium text-foreground">{voucher.code}</p>
+                      <Badge variant="secondary" className="text-xs">£{voucher.balance} of £{voucher.amount}</Badge>
+                      {voucher.status === "voided" && <Badge variant="outline" className="text-xs">Voided</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground truncate">
+                      For {voucher.recipientName} ({voucher.recipientEmail}) · from {voucher.purchaserName}
+                      {voucher.createdAt && ` · ${format(new Date(voucher.createdAt), "d MMM yyyy")}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => setHistoryFor(voucher)} data-testid={`button-voucher-history-${voucher.id}`}>
+                      <Receipt className="h-4 w-4" />
+                    </Button>
+                    {voucher.status !== "voided" && (
+                      <Button variant="ghost" size="icon" onClick={() => setVoucherToVoid(voucher)} data-testid={`button-void-voucher-${voucher.id}`}>
+                        <Ban className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!historyFor} onOpenChange={(open) => !open && setHistoryFor(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{historyFor?.code} History</DialogTitle>
+            <DialogDescription>£{historyFor?.balance} left of £{historyFor?.amount}.</DialogDescription>
+          </DialogHeader>
+          {historyLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : !history || history.length === 0 ? (
+            <p className="text-center text-muted-foreground py-6">This voucher hasn't been used yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {history.map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between gap-3 rounded-lg border p-3" data-testid={`row-voucher-history-${entry.id}`}>
+                  <div className="min-w-0">
+                    <p className="font-medium text-foreground truncate">{entry.memberName}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {entry.reason === "cancellation" ? "Cancelled - " : ""}
+                      {entry.classTitle
+                        ? `${entry.classTitle}${entry.classDate ? ` · ${format(parseISO(entry.classDate), "d MMM yyyy")}` : ""}`
+                        : "Class removed"}
+                    </p>
+                  </div>
+                  <p className={`text-sm font-medium shrink-0 ${parseFloat(entry.change) > 0 ? "text-green-600" : ""}`}>
+                    {parseFloat(entry.change) > 0 ? "+" : "-"}£{entry.change.replace(/^-/, "")}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!voucherToVoid} onOpenChange={(open) => !open && setVoucherToVoid(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Void Gift Voucher</AlertDialogTitle>
+            <AlertDialogDescription>
+              {voucherToVoid?.code} has £{voucherToVoid?.balance} left. Once voided the code can't be used, and the balance isn't refunded automatically.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => voucherToVoid && voidMutation.mutate(voucherToVoid.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-void-voucher"
+            >
+              {voidMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Void Voucher"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AdminLayout>
+  );
+}
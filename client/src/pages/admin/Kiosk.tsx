@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AdminLayout } from "@/components/layout/AdminLayout";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Tablet, Plus, Trash2, Loader2, Copy } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+interface KioskDevice {
+  id: string;
+  name: string;
+  isActive: boolean;
+  lastSeenAt: string | null;
+  createdAt: string;
+}
+
+export default function AdminKiosk() {
+  const { toast } = useToast();
+  const [deviceName, setDeviceName] = useState("");
+  const [newToken, setNewToken] = useState<{ name: string; token: string } | null>(null);
+  const [deviceToRevoke, setDeviceToRevoke] = useState<KioskDevice | null>(null);
+
+  const { data: devices, isLoading } = useQuery<KioskDevice[]>({
+    queryKey: ["/api/admin/kiosk-devices"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", "/api/admin/kiosk-devices", { name });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/kiosk-devices"] });
+      setNewToken({ name: data.device.name, token: data.token });
+      setDeviceName("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to add device", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/kiosk-devices/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/kiosk-devices"] });
+      toast({ title: "Device revoked", description: "That tablet can no longer check members in." });
+      setDeviceToRevoke(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to revoke device", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const copyToken = async () => {
+    if (!newToken) return;
+    await navigator.clipboard.writeText(newToken.token);
+    toast({ title: "Copied", description: "Device code copied to clipboard." });
+  };
+
+  return (
+    <AdminLayout title="Kiosk">
+      <div className="mx-auto max-w-3xl space-y-4 sm:space-y-6">
+        <div>
+          <h2 className="text-xl sm:text-2xl font-bold text-foreground">Door Kiosk</h2>
+          <p className="text-sm sm:text-base text-muted-foreground">
+            Set up a tablet at the door so members can scan their membership card to check in. Open <span className="font-mono">/kiosk</span> on the tablet and enter its device code.
+          </p>
+        </div>
+
+        <Card className="p-4 sm:p-6">
+          <form
+            className="flex flex-col gap-3 sm:flex-row sm:items-end"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (deviceName.trim()) createMutation.mutate(deviceName.trim());
+            }}
+          >
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="device-name">New device name</Label>
+              <Input
+                id="device-name"
+                value={deviceName}
+                onChange={(e) => setDeviceName(e.target.value)}
+                placeholder="e.g. Front door tablet"
+                data-testid="input-device-name"
+              />
+            </div>
+            <Button type="submit" disabled={!deviceName.trim() || createMutation.isPending} data-testid="button-add-device">
+              {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <><Plus className="h-4 w-4 mr-1" />Add Device</>}
+            </Button>
+          </form>
+
+          {newToken && (
+            <div className="mt-4 rounded-lg border border-amber-300 bg-amber-50 dark:bg-amber-900/20 p-4" data-testid="panel-new-device-code">
+              <p className="text-sm font-medium text-amber-800 dark:text-amber-200">
+                Device code for {newToken.name} - this is only shown once
+              </p>
+              <div className="mt-2 flex items-center gap-2">
+                <code className="flex-1 break-all rounded bg-background px-3 py-2 font-mono text-sm">{newToken.token}</code>
+                <Button variant="outline" size="icon" onClick={copyToken} data-testid="button-copy-device-code">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </Card>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ) : !devices || devices.length === 0 ? (
+          <Card className="p-8 text-center">
+            <Tablet className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+            <p className="text-muted-foreground">No kiosk devices set up yet.</p>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {devices.map((device) => (
+              <Card key={device.id} className="p-4" data-testid={`card-device-${device.id}`}>
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Tablet className="h-5 w-5 text-primary shrink-0" />
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium text-foreground truncate">{device.name}</p>
+                        {!device.isActive && <Badge variant="outline" className="text-xs">Disabled</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {device.lastSeenAt
+                          ? `Last used ${format(new Date(device.lastSeenAt), "d MMM yyyy, HH:mm")}`
+                          : "Not used yet"}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDeviceToRevoke(device)}
+                    data-testid={`button-revoke-device-${device.id}`}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <AlertDialog open={!!deviceToRevoke} onOpenChange={(open) => !open && setDeviceToRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke Device</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deviceToRevoke?.name}" will be signed out and can no longer check members in.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deviceToRevoke && revokeMutation.mutate(deviceToRevoke.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-revoke"
+            >
+              {revokeMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Revoke"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AdminLayout>
+  );
+}
@@ -8,6 +8,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -25,24 +26,49 @@ import {
   DialogTitle,
   DialogFooter,
 } from "@/components/ui/dialog";
-import { format } from "date-fns";
-import { User, Mail, Phone, Calendar, AlertTriangle, Trash2, Pencil, Loader2, ChevronRight } from "lucide-react";
+import { format, parseISO, addDays } from "date-fns";
+import { User, Mail, Phone, Calendar, AlertTriangle, Trash2, Pencil, Loader2, ChevronRight, Ticket, Award } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { hasValidMedical, type CreditPack, type CreditLedgerEntry } from "@shared/schema";
 
 interface Member {
   id: string;
   name: string;
-  email: string;
+  email: string | null;
   phone?: string;
   age?: number;
   emergencyContactName?: string;
   emergencyContactPhone?: string;
   experienceLevel?: string;
   isAdmin?: boolean;
+  hasConcession?: boolean;
+  isCarded?: boolean;
+  // Competitive boxer profile - dates are yyyy-MM-dd
+  englandBoxingNumber?: string | null;
+  medicalExpiresOn?: string | null;
+  lastCompetedOn?: string | null;
+  // Juniors on a parent's account - no login of their own, and they share the guardian's contact details
+  guardianId?: string | null;
+  guardianName?: string | null;
+  guardianEmail?: string | null;
+  guardianConsentAt?: string | null;
   createdAt?: string;
 }
 
+// Reminders go out 30 days ahead, so flag the same window here
+function medicalStatus(member: Member): { label: string; variant: "destructive" | "outline" } | null {
+  if (!member.isCarded && !member.medicalExpiresOn) return null;
+  const today = format(new Date(), "yyyy-MM-dd");
+  if (!hasValidMedical({ medicalExpiresOn: member.medicalExpiresOn ?? null }, today)) {
+    return { label: member.medicalExpiresOn ? "Medical expired" : "No medical", variant: "destructive" };
+  }
+  if (member.medicalExpiresOn! <= format(addDays(new Date(), 30), "yyyy-MM-dd")) {
+    return { label: "Medical due", variant: "outline" };
+  }
+  return null;
+}
+
 export default function AdminMembers() {
   const { toast } = useToast();
   const [memberToDelete, setMemberToDelete] = useState<Member | null>(null);
@@ -112,12 +138,19 @@ export default function AdminMembers() {
     setMemberToEdit(member);
     setEditForm({
       name: member.name,
-      email: member.email,
-      phone: member.phone || "",
+      ...(member.guardianId ? {} : {
+        email: member.email,
+        phone: member.phone || "",
+        emergencyContactName: member.emergencyContactName || "",
+        emergencyContactPhone: member.emergencyContactPhone || "",
+      }),
       age: member.age,
-      emergencyContactName: member.emergencyContactName || "",
-      emergencyContactPhone: member.emergencyContactPhone || "",
       experienceLevel: member.experienceLevel || "beginner",
+      hasConcession: member.hasConcession || false,
+      isCarded: member.isCarded || false,
+      englandBoxingNumber: member.englandBoxingNumber || "",
+      medicalExpiresOn: member.medicalExpiresOn || "",
+      lastCompetedOn: member.lastCompetedOn || "",
     });
   };
 
@@ -164,11 +197,17 @@ export default function AdminMembers() {
                         {member.name}
                       </h3>
                       {member.isAdmin && <Badge variant="default" className="text-xs">Admin</Badge>}
+                      {member.guardianId && <Badge variant="outline" className="text-xs">Junior</Badge>}
+                      {medicalStatus(member) && (
+                        <Badge variant={medicalStatus(member)!.variant} className="text-xs">{medicalStatus(member)!.label}</Badge>
+                      )}
                       {member.experienceLevel && (
                         <Badge variant="secondary" className="text-xs">{member.experienceLevel}</Badge>
                       )}
                     </div>
-                    <p className="text-xs sm:text-sm text-muted-foreground truncate">{member.email}</p>
+                    <p className="text-xs sm:text-sm text-muted-foreground truncate">
+                      {member.guardianId ? `Guardian: ${member.guardianName || "Unknown"}` : member.email}
+                    </p>
                   </div>
                   <ChevronRight className="h-4 w-4 text-muted-foreground shrink-0" />
                 </div>
@@ -194,19 +233,40 @@ export default function AdminMembers() {
             <div className="space-y-4 py-2">
               <div className="flex flex-wrap gap-2">
                 {selectedMember.isAdmin && <Badge variant="default">Admin</Badge>}
+                {selectedMember.hasConcession && <Badge variant="outline">Concession</Badge>}
+                {selectedMember.isCarded && <Badge variant="outline">Carded</Badge>}
+                {selectedMember.guardianId && <Badge variant="outline">Junior</Badge>}
                 {selectedMember.experienceLevel && (
                   <Badge variant="secondary">{selectedMember.experienceLevel}</Badge>
                 )}
               </div>
 
               <div className="space-y-3">
-                <div className="flex items-start gap-3 p-3 rounded-lg bg-muted/50">
-                  <Mail className="h-4 w-4 mt-0.5 text-primary shrink-0" />
-                  <div className="min-w-0">
-                    <p className="text-xs text-muted-foreground">Email</p>
-                    <p className="text-sm font-medium break-all">{selectedMember.email}</p>
+                {selectedMember.guardianId ? (
+                  <div className="flex items-start gap-3 p-3 rounded-lg bg-muted/50">
+                    <Mail className="h-4 w-4 mt-0.5 text-primary shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-xs text-muted-foreground">Parent / Guardian</p>
+                      <p className="text-sm font-medium">{selectedMember.guardianName || "Unknown"}</p>
+                      {selectedMember.guardianEmail && (
+                        <p className="text-sm text-muted-foreground break-all">{selectedMember.guardianEmail}</p>
+                      )}
+                      {selectedMember.guardianConsentAt && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Consent given {format(new Date(selectedMember.guardianConsentAt), "d MMMM yyyy")}
+                        </p>
+                      )}
+                    </div>
                   </div>
-                </div>
+                ) : (
+                  <div className="flex items-start gap-3 p-3 rounded-lg bg-muted/50">
+                    <Mail className="h-4 w-4 mt-0.5 text-primary shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-xs text-muted-foreground">Email</p>
+                      <p className="text-sm font-medium break-all">{selectedMember.email}</p>
+                    </div>
+                  </div>
+                )}
 
                 {selectedMember.phone && (
                   <div className="flex items-start gap-3 p-3 rounded-lg bg-muted/50">
@@ -238,6 +298,29 @@ export default function AdminMembers() {
                   </div>
                 )}
 
+                {(selectedMember.isCarded || selectedMember.englandBoxingNumber || selectedMember.medicalExpiresOn) && (
+                  <div className="flex items-start gap-3 p-3 rounded-lg bg-muted/50">
+                    <Award className="h-4 w-4 mt-0.5 text-primary shrink-0" />
+                    <div className="min-w-0 space-y-1">
+                      <p className="text-xs text-muted-foreground">England Boxing</p>
+                      <p className="text-sm font-medium">{selectedMember.englandBoxingNumber || "No registration number"}</p>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="text-sm text-muted-foreground">
+                          Medical: {selectedMember.medicalExpiresOn ? `expires ${format(parseISO(selectedMember.medicalExpiresOn), "d MMMM yyyy")}` : "not on file"}
+                        </p>
+                        {medicalStatus(selectedMember) && (
+                          <Badge variant={medicalStatus(selectedMember)!.variant} className="text-xs">{medicalStatus(selectedMember)!.label}</Badge>
+                        )}
+                      </div>
+                      {selectedMember.lastCompetedOn && (
+                        <p className="text-sm text-muted-foreground">
+                          Last competed {format(parseISO(selectedMember.lastCompetedOn), "d MMMM yyyy")}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                )}
+
                 {(selectedMember.emergencyContactName || selectedMember.emergencyContactPhone) && (
                   <div className="flex items-start gap-3 p-3 rounded-lg bg-amber-50 dark:bg-amber-950/20 border border-amber-200 dark:border-amber-800">
                     <AlertTriangle className="h-4 w-4 mt-0.5 text-amber-600 shrink-0" />
@@ -253,6 +336,8 @@ export default function AdminMembers() {
                   </div>
                 )}
               </div>
+
+              <MemberCredits memberId={selectedMember.id} />
             </div>
           )}
           <DialogFooter className="flex-col sm:flex-row gap-2">
@@ -299,26 +384,30 @@ export default function AdminMembers() {
                 data-testid="input-edit-name"
               />
             </div>
-            <div className="space-y-2">
-              <Label htmlFor="edit-email">Email</Label>
-              <Input
-                id="edit-email"
-                type="email"
-                value={editForm.email || ""}
-                onChange={(e) => setEditForm({ ...editForm, email: e.target.value })}
-                data-testid="input-edit-email"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="edit-phone">Phone</Label>
-              <Input
-                id="edit-phone"
-                value={(editForm.phone as string) || ""}
-                onChange={(e) => setEditForm({ ...editForm, phone: e.target.value.replace(/[^0-9+\s\-\(\)]/g, "") })}
-                placeholder="07123 456789"
-                data-testid="input-edit-phone"
-              />
-            </div>
+            {!memberToEdit?.guardianId && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-email">Email</Label>
+                  <Input
+                    id="edit-email"
+                    type="email"
+                    value={editForm.email || ""}
+                    onChange={(e) => setEditForm({ ...editForm, email: e.target.value })}
+                    data-testid="input-edit-email"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-phone">Phone</Label>
+                  <Input
+                    id="edit-phone"
+                    value={(editForm.phone as string) || ""}
+                    onChange={(e) => setEditForm({ ...editForm, phone: e.target.value.replace(/[^0-9+\s\-\(\)]/g, "") })}
+                    placeholder="07123 456789"
+                    data-testid="input-edit-phone"
+                  />
+                </div>
+              </>
+            )}
             <div className="space-y-2">
               <Label htmlFor="edit-age">Age</Label>
               <Input
@@ -331,25 +420,29 @@ export default function AdminMembers() {
                 data-testid="input-edit-age"
               />
             </div>
-            <div className="space-y-2">
-              <Label htmlFor="edit-emergency-name">Emergency Contact Name</Label>
-              <Input
-                id="edit-emergency-name"
-                value={editForm.emergencyContactName || ""}
-                onChange={(e) => setEditForm({ ...editForm, emergencyContactName: e.target.value })}
-                data-testid="input-edit-emergency-name"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="edit-emergency-phone">Emergency Contact Phone</Label>
-              <Input
-                id="edit-emergency-phone"
-                value={editForm.emergencyContactPhone || ""}
-                onChange={(e) => setEditForm({ ...editForm, emergencyContactPhone: e.target.value.replace(/[^0-9+\s\-\(\)]/g, "") })}
-                placeholder="07123 456789"
-                data-testid="input-edit-emergency-phone"
-              />
-            </div>
+            {!memberToEdit?.guardianId && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-emergency-name">Emergency Contact Name</Label>
+                  <Input
+                    id="edit-emergency-name"
+                    value={editForm.emergencyContactName || ""}
+                    onChange={(e) => setEditForm({ ...editForm, emergencyContactName: e.target.value })}
+                    data-testid="input-edit-emergency-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-emergency-phone">Emergency Contact Phone</Label>
+                  <Input
+                    id="edit-emergency-phone"
+                    value={editForm.emergencyContactPhone || ""}
+                    onChange={(e) => setEditForm({ ...editForm, emergencyContactPhone: e.target.value.replace(/[^0-9+\s\-\(\)]/g, "") })}
+                    placeholder="07123 456789"
+                    data-testid="input-edit-emergency-phone"
+                  />
+                </div>
+              </>
+            )}
             <div className="space-y-2">
               <Label htmlFor="edit-experience">Experience Level</Label>
               <Select
@@ -366,6 +459,71 @@ export default function AdminMembers() {
                 </SelectContent>
               </Select>
             </div>
+            <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+              <div>
+                <Label htmlFor="edit-concession">Concession price</Label>
+                <p className="text-xs text-muted-foreground">Students and others on reduced rates. Juniors get it automatically.</p>
+              </div>
+              <Switch
+                id="edit-concession"
+                checked={!!editForm.hasConcession}
+                onCheckedChange={(checked) => setEditForm({ ...editForm, hasConcession: checked })}
+                data-testid="switch-edit-concession"
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+              <div>
+                <Label htmlFor="edit-carded">Carded boxer</Label>
+                <p className="text-xs text-muted-foreground">Holds a current competition card, so can book carded-only classes.</p>
+              </div>
+              <Switch
+                id="edit-carded"
+                checked={!!editForm.isCarded}
+                onCheckedChange={(checked) => setEditForm({ ...editForm, isCarded: checked })}
+                data-testid="switch-edit-carded"
+              />
+            </div>
+            {editForm.isCarded && (
+              <div className="space-y-3 rounded-lg border p-3">
+                <div>
+                  <p className="text-sm font-medium">Competition profile</p>
+                  <p className="text-xs text-muted-foreground">
+                    Classes that need an in-date medical check the expiry. We email the boxer and the club 30 days before it runs out.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-eb-number">England Boxing registration number</Label>
+                  <Input
+                    id="edit-eb-number"
+                    value={editForm.englandBoxingNumber || ""}
+                    onChange={(e) => setEditForm({ ...editForm, englandBoxingNumber: e.target.value })}
+                    data-testid="input-edit-eb-number"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="edit-medical-expires">Medical expires</Label>
+                    <Input
+                      id="edit-medical-expires"
+                      type="date"
+                      value={editForm.medicalExpiresOn || ""}
+                      onChange={(e) => setEditForm({ ...editForm, medicalExpiresOn: e.target.value })}
+                      data-testid="input-edit-medical-expires"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="edit-last-competed">Last competed</Label>
+                    <Input
+                      id="edit-last-competed"
+                      type="date"
+                      value={editForm.lastCompetedOn || ""}
+                      onChange={(e) => setEditForm({ ...editForm, lastCompetedOn: e.target.value })}
+                      data-testid="input-edit-last-competed"
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
           </div>
           <DialogFooter className="flex-col sm:flex-row gap-2">
             <Button variant="outline" onClick={() => { setMemberToEdit(null); setEditForm({}); }} className="w-full sm:w-auto" data-testid="button-cancel-edit">
@@ -413,3 +571,117 @@ export default function AdminMembers() {
     </AdminLayout>
   );
 }
+
+const ledgerReasonLabels: Record<string, string> = {
+  purchase: "Bought pack",
+  grant: "Granted",
+  adjustment: "Adjusted",
+  booking: "Booked class",
+  cancellation: "Cancelled class",
+};
+
+function MemberCredits({ memberId }: { memberId: string }) {
+  const { toast } = useToast();
+  const [credits, setCredits] = useState("");
+  const [validDays, setValidDays] = useState("");
+  const [note, setNote] = useState("");
+
+  const { data, isLoading } = useQuery<{ balance: number; packs: CreditPack[]; ledger: CreditLedgerEntry[] }>({
+    queryKey: ["/api/admin/members", memberId, "credits"],
+  });
+
+  const adjustMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/members/${memberId}/credits`, {
+        credits: parseInt(credits),
+        note: note || undefined,
+        validDays: validDays ? parseInt(validDays) : null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/members", memberId, "credits"] });
+      toast({ title: "Credits updated", description: "The member's balance has been changed." });
+      setCredits("");
+      setValidDays("");
+      setNote("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update credits", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const creditsValue = parseInt(credits);
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3" data-testid="panel-member-credits">
+      <div className="flex items-center justify-between">
+        <p className="flex items-center gap-2 text-sm font-medium">
+          <Ticket className="h-4 w-4 text-primary" />
+          Session Credits
+        </p>
+        {isLoading ? (
+          <Skeleton className="h-5 w-8" />
+        ) : (
+          <span className="text-lg font-bold" data-testid="text-member-credit-balance">{data?.balance ?? 0}</span>
+        )}
+      </div>
+
+      {data && data.ledger.length > 0 && (
+        <div className="max-h-32 space-y-1 overflow-y-auto text-xs">
+          {data.ledger.slice(0, 10).map((entry) => (
+            <div key={entry.id} className="flex justify-between gap-2 text-muted-foreground">
+              <span className="truncate">
+                {entry.createdAt && format(new Date(entry.createdAt), "d MMM")} · {ledgerReasonLabels[entry.reason] || entry.reason}
+                {entry.note && ` - ${entry.note}`}
+              </span>
+              <span className={entry.change > 0 ? "text-green-600" : ""}>{entry.change > 0 ? `+${entry.change}` : entry.change}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="credit-change" className="text-xs">Credits (+/-)</Label>
+          <Input
+            id="credit-change"
+            type="number"
+            value={credits}
+            onChange={(e) => setCredits(e.target.value)}
+            placeholder="e.g. 10 or -1"
+            data-testid="input-credit-change"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="credit-valid-days" className="text-xs">Valid for (days)</Label>
+          <Input
+            id="credit-valid-days"
+            type="number"
+            min={1}
+            value={validDays}
+            onChange={(e) => setValidDays(e.target.value)}
+            placeholder="No expiry"
+            disabled={!(creditsValue > 0)}
+            data-testid="input-credit-valid-days"
+          />
+        </div>
+      </div>
+      <Input
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Reason (optional)"
+        data-testid="input-credit-note"
+      />
+      <Button
+        size="sm"
+        className="w-full"
+        onClick={() => adjustMutation.mutate()}
+        disabled={!creditsValue || adjustMutation.isPending}
+        data-testid="button-adjust-credits"
+      >
+        {adjustMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : creditsValue < 0 ? "Remove Credits" : "Grant Credits"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,322 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AdminLayout } from "@/components/layout/AdminLayout";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Award, Plus, Pencil, Loader2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import type { MembershipPlan, Subscription } from "@shared/schema";
+
+type SubscriptionRow = Subscription & { planName: string; memberName: string; memberEmail: string | null };
+
+interface PlanFormData {
+  name: string;
+  description: string;
+  price: string;
+  interval: string;
+  includedSessions: string;
+  isActive: boolean;
+}
+
+const emptyPlanForm: PlanFormData = {
+  name: "",
+  description: "",
+  price: "",
+  interval: "month",
+  includedSessions: "",
+  isActive: true,
+};
+
+const statusStyles: Record<string, string> = {
+  active: "bg-green-600",
+  past_due: "bg-amber-500",
+  suspended: "bg-red-600",
+  cancelled: "bg-gray-500",
+};
+
+export default function AdminMemberships() {
+  const { toast } = useToast();
+  const [editingPlan, setEditingPlan] = useState<MembershipPlan | null>(null);
+  const [planDialogOpen, setPlanDialogOpen] = useState(false);
+  const [planForm, setPlanForm] = useState<PlanFormData>(emptyPlanForm);
+  const [subscriptionToCancel, setSubscriptionToCancel] = useState<SubscriptionRow | null>(null);
+
+  const { data: plans, isLoading: plansLoading } = useQuery<MembershipPlan[]>({
+    queryKey: ["/api/admin/membership-plans"],
+  });
+
+  const { data: subscriptions, isLoading: subscriptionsLoading } = useQuery<SubscriptionRow[]>({
+    queryKey: ["/api/admin/subscriptions"],
+  });
+
+  const savePlanMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: planForm.name,
+        description: planForm.description || null,
+        price: planForm.price,
+        interval: planForm.interval,
+        includedSessions: planForm.includedSessions ? parseInt(planForm.includedSessions) : null,
+        isActive: planForm.isActive,
+      };
+      return editingPlan
+        ? apiRequest("PUT", `/api/admin/membership-plans/${editingPlan.id}`, body)
+        : apiRequest("POST", "/api/admin/membership-plans", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/membership-plans"] });
+      toast({ title: editingPlan ? "Plan updated" : "Plan created", description: "Membership plans have been saved." });
+      setPlanDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save plan", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelSubscriptionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/admin/subscriptions/${id}/cancel`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/subscriptions"] });
+      toast({ title: "Subscription cancelled", description: "The member will not be charged again." });
+      setSubscriptionToCancel(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to cancel", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openPlanDialog = (plan: MembershipPlan | null) => {
+    setEditingPlan(plan);
+    setPlanForm(plan ? {
+      name: plan.name,
+      description: plan.description || "",
+      price: plan.price,
+      interval: plan.interval,
+      includedSessions: plan.includedSessions?.toString() || "",
+      isActive: plan.isActive !== false,
+    } : emptyPlanForm);
+    setPlanDialogOpen(true);
+  };
+
+  const liveSubscriptions = subscriptions?.filter(s => s.status !== "cancelled") || [];
+
+  return (
+    <AdminLayout title="Memberships">
+      <div className="mx-auto max-w-3xl space-y-4 sm:space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-foreground">Membership Plans</h2>
+            <p className="text-sm sm:text-base text-muted-foreground">
+              Members on a plan book without paying per session. Cards are charged automatically each period; failed payments get a week's grace before the plan is suspended.
+            </p>
+          </div>
+          <Button onClick={() => openPlanDialog(null)} className="w-full sm:w-auto" data-testid="button-new-plan">
+            <Plus className="h-4 w-4 mr-2" />
+            New Plan
+          </Button>
+        </div>
+
+        {plansLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : !plans || plans.length === 0 ? (
+          <Card className="p-8 text-center">
+            <Award className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+            <p className="text-muted-foreground">No membership plans yet.</p>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {plans.map((plan) => (
+              <Card key={plan.id} className={`p-4 ${plan.isActive ? "" : "opacity-60"}`} data-testid={`card-plan-${plan.id}`}>
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-foreground">{plan.name}</p>
+                      {!plan.isActive && <Badge variant="outline" className="text-xs">Not on sale</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      £{plan.price} per {plan.interval} · {plan.includedSessions ? `${plan.includedSessions} sessions` : "Unlimited sessions"}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => openPlanDialog(plan)} data-testid={`button-edit-plan-${plan.id}`}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <h3 className="text-lg font-semibold text-foreground mb-3">Subscribers ({liveSubscriptions.length})</h3>
+          {subscriptionsLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : liveSubscriptions.length === 0 ? (
+            <Card className="p-6 text-center text-muted-foreground">No members on a plan yet.</Card>
+          ) : (
+            <div className="space-y-3">
+              {liveSubscriptions.map((subscription) => (
+                <Card key={subscription.id} className="p-4" data-testid={`card-subscription-${subscription.id}`}>
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="font-medium text-foreground truncate">{subscription.memberName}</p>
+                        <Badge className={`text-xs ${statusStyles[subscription.status] || ""}`}>
+                          {subscription.status === "past_due" ? "payment due" : subscription.status}
+                        </Badge>
+                        {subscription.cancelAtPeriodEnd && <Badge variant="outline" className="text-xs">Ending</Badge>}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {subscription.planName} · {subscription.status === "suspended"
+                          ? "suspended"
+                          : `${subscription.cancelAtPeriodEnd ? "ends" : "renews"} ${format(new Date(subscription.currentPeriodEnd), "d MMM yyyy")}`}
+                        {(subscription.failedAttempts || 0) > 0 && ` · ${subscription.failedAttempts} failed payment${subscription.failedAttempts === 1 ? "" : "s"}`}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setSubscriptionToCancel(subscription)}
+                      data-testid={`button-cancel-subscription-${subscription.id}`}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={planDialogOpen} onOpenChange={setPlanDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingPlan ? "Edit Plan" : "New Plan"}</DialogTitle>
+            <DialogDescription>Price changes apply from each member's next renewal.</DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              savePlanMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="plan-name">Name</Label>
+              <Input
+                id="plan-name"
+                className="h-12 text-base"
+                value={planForm.name}
+                onChange={(e) => setPlanForm({ ...planForm, name: e.target.value })}
+                placeholder="e.g. Senior Squad Monthly"
+                data-testid="input-plan-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plan-description">Description (optional)</Label>
+              <Input
+                id="plan-description"
+                className="h-12 text-base"
+                value={planForm.description}
+                onChange={(e) => setPlanForm({ ...planForm, description: e.target.value })}
+                data-testid="input-plan-description"
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="plan-price">Price (£)</Label>
+                <Input
+                  id="plan-price"
+                  className="h-12 text-base"
+                  value={planForm.price}
+                  onChange={(e) => setPlanForm({ ...planForm, price: e.target.value })}
+                  placeholder="40.00"
+                  data-testid="input-plan-price"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Billed every</Label>
+                <Select value={planForm.interval} onValueChange={(interval) => setPlanForm({ ...planForm, interval })}>
+                  <SelectTrigger className="h-12" data-testid="select-plan-interval">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="month">Month</SelectItem>
+                    <SelectItem value="week">Week</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plan-sessions">Sessions</Label>
+                <Input
+                  id="plan-sessions"
+                  type="number"
+                  min={1}
+                  className="h-12 text-base"
+                  value={planForm.includedSessions}
+                  onChange={(e) => setPlanForm({ ...planForm, includedSessions: e.target.value })}
+                  placeholder="Unlimited"
+                  data-testid="input-plan-sessions"
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <Label htmlFor="plan-active">On sale to members</Label>
+              <Switch
+                id="plan-active"
+                checked={planForm.isActive}
+                onCheckedChange={(isActive) => setPlanForm({ ...planForm, isActive })}
+                data-testid="switch-plan-active"
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={!planForm.name || !planForm.price || savePlanMutation.isPending} data-testid="button-save-plan">
+              {savePlanMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save Plan"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!subscriptionToCancel} onOpenChange={(open) => !open && setSubscriptionToCancel(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel Subscription</AlertDialogTitle>
+            <AlertDialogDescription>
+              {subscriptionToCancel?.memberName}'s {subscriptionToCancel?.planName} plan will end now and they won't be charged again. No refund is issued.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => subscriptionToCancel && cancelSubscriptionMutation.mutate(subscriptionToCancel.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-cancel-subscription"
+            >
+              {cancelSubscriptionMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Cancel Subscription"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AdminLayout>
+  );
+}
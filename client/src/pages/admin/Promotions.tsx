@@ -0,0 +1,389 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AdminLayout } from "@/components/layout/AdminLayout";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Tag, Plus, Pencil, Loader2, Receipt } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format, parseISO } from "date-fns";
+import type { PromoCode, PromoRedemption } from "@shared/schema";
+
+type PromoCodeRow = PromoCode & { redemptions: number };
+
+type RedemptionRow = PromoRedemption & {
+  memberName: string;
+  classTitle: string | null;
+  classDate: string | null;
+  bookingStatus: string | null;
+  paidPrice: string | null;
+};
+
+const classTypes = [
+  "Boxing Fundamentals",
+  "Technique",
+  "Fitness Boxing",
+  "Sparring",
+  "Beginner",
+  "Intermediate",
+  "Advanced",
+];
+
+interface PromoFormData {
+  code: string;
+  description: string;
+  discountType: string;
+  discountValue: string;
+  classTypes: string[];
+  validFrom: string;
+  validUntil: string;
+  maxRedemptions: string;
+  maxPerMember: string;
+  isActive: boolean;
+}
+
+const emptyPromoForm: PromoFormData = {
+  code: "",
+  description: "",
+  discountType: "percent",
+  discountValue: "",
+  classTypes: [],
+  validFrom: "",
+  validUntil: "",
+  maxRedemptions: "",
+  maxPerMember: "1",
+  isActive: true,
+};
+
+const formatDiscount = (promo: PromoCode) =>
+  promo.discountType === "percent" ? `${parseFloat(promo.discountValue)}% off` : `£${promo.discountValue} off`;
+
+const formatValidity = (promo: PromoCode) => {
+  if (promo.validFrom && promo.validUntil) {
+    return `${format(new Date(promo.validFrom), "d MMM")} - ${format(new Date(promo.validUntil), "d MMM yyyy")}`;
+  }
+  if (promo.validUntil) return `until ${format(new Date(promo.validUntil), "d MMM yyyy")}`;
+  if (promo.validFrom) return `from ${format(new Date(promo.validFrom), "d MMM yyyy")}`;
+  return "no end date";
+};
+
+export default function AdminPromotions() {
+  const { toast } = useToast();
+  const [editingPromo, setEditingPromo] = useState<PromoCode | null>(null);
+  const [promoDialogOpen, setPromoDialogOpen] = useState(false);
+  const [promoForm, setPromoForm] = useState<PromoFormData>(emptyPromoForm);
+  const [redemptionsFor, setRedemptionsFor] = useState<PromoCodeRow | null>(null);
+
+  const { data: promos, isLoading } = useQuery<PromoCodeRow[]>({
+    queryKey: ["/api/admin/promo-codes"],
+  });
+
+  const { data: redemptions, isLoading: redemptionsLoading } = useQuery<RedemptionRow[]>({
+    queryKey: [`/api/admin/promo-codes/${redemptionsFor?.id}/redemptions`],
+    enabled: !!redemptionsFor,
+  });
+
+  const savePromoMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        code: promoForm.code,
+        description: promoForm.description || null,
+        discountType: promoForm.discountType,
+        discountValue: promoForm.discountValue,
+        classTypes: promoForm.classTypes.length > 0 ? promoForm.classTypes : null,
+        validFrom: promoForm.validFrom || null,
+        validUntil: promoForm.validUntil || null,
+        maxRedemptions: promoForm.maxRedemptions ? parseInt(promoForm.maxRedemptions) : null,
+        maxPerMember: promoForm.maxPerMember ? parseInt(promoForm.maxPerMember) : null,
+        isActive: promoForm.isActive,
+      };
+      return editingPromo
+        ? apiRequest("PUT", `/api/admin/promo-codes/${editingPromo.id}`, body)
+        : apiRequest("POST", "/api/admin/promo-codes", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/promo-codes"] });
+      toast({ title: editingPromo ? "Promo code updated" : "Promo code created", description: "Promo codes have been saved." });
+      setPromoDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save promo code", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openPromoDialog = (promo: PromoCode | null) => {
+    setEditingPromo(promo);
+    setPromoForm(promo ? {
+      code: promo.code,
+      description: promo.description || "",
+      discountType: promo.discountType,
+      discountValue: promo.discountValue,
+      classTypes: promo.classTypes || [],
+      validFrom: promo.validFrom ? format(new Date(promo.validFrom), "yyyy-MM-dd") : "",
+      validUntil: promo.validUntil ? format(new Date(promo.validUntil), "yyyy-MM-dd") : "",
+      maxRedemptions: promo.maxRedemptions?.toString() || "",
+      maxPerMember: promo.maxPerMember?.toString() || "",
+      isActive: promo.isActive !== false,
+    } : emptyPromoForm);
+    setPromoDialogOpen(true);
+  };
+
+  const toggleClassType = (type: string, checked: boolean) => {
+    setPromoForm({
+      ...promoForm,
+      classTypes: checked ? [...promoForm.classTypes, type] : promoForm.classTypes.filter(t => t !== type),
+    });
+  };
+
+  const totalDiscount = redemptions
+    ?.filter(r => r.bookingStatus !== "cancelled")
+    .reduce((sum, r) => sum + parseFloat(r.discountAmount), 0) || 0;
+
+  return (
+    <AdminLayout title="Promotions">
+      <div className="mx-auto max-w-3xl space-y-4 sm:space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-foreground">Promo Codes</h2>
+            <p className="text-sm sm:text-base text-muted-foreground">
+              Members enter these when paying for a session. Cancelled bookings give the use back to the member.
+            </p>
+          </div>
+          <Button onClick={() => openPromoDialog(null)} className="w-full sm:w-auto" data-testid="button-new-promo">
+            <Plus className="h-4 w-4 mr-2" />
+            New Code
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : !promos || promos.length === 0 ? (
+          <Card className="p-8 text-center">
+            <Tag className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+            <p className="text-muted-foreground">No promo codes yet.</p>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {promos.map((promo) => (
+              <Card key={promo.id} className={`p-4 ${promo.isActive ? "" : "opacity-60"}`} data-testid={`card-promo-${promo.id}`}>
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="font-mono font-medium text-foreground">{promo.code}</p>
+                      <Badge variant="secondary" className="text-xs">{formatDiscount(promo)}</Badge>
+                      {!promo.isActive && <Badge variant="outline" className="text-xs">Switched off</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {promo.redemptions}{promo.maxRedemptions ? ` / ${promo.maxRedemptions}` : ""} used · {formatValidity(promo)}
+                      {promo.classTypes && promo.classTypes.length > 0 && ` · ${promo.classTypes.join(", ")}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => setRedemptionsFor(promo)} data-testid={`button-redemptions-${promo.id}`}>
+                      <Receipt className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => openPromoDialog(promo)} data-testid={`button-edit-promo-${promo.id}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={promoDialogOpen} onOpenChange={setPromoDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingPromo ? "Edit Promo Code" : "New Promo Code"}</DialogTitle>
+            <DialogDescription>Changes don't affect bookings already made with the code.</DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              savePromoMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="promo-code">Code</Label>
+              <Input
+                id="promo-code"
+                className="h-12 text-base font-mono"
+                value={promoForm.code}
+                onChange={(e) => setPromoForm({ ...promoForm, code: e.target.value.toUpperCase() })}
+                placeholder="e.g. SUMMER25"
+                data-testid="input-promo-code"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-description">Description (optional)</Label>
+              <Input
+                id="promo-description"
+                className="h-12 text-base"
+                value={promoForm.description}
+                onChange={(e) => setPromoForm({ ...promoForm, description: e.target.value })}
+                placeholder="Shown to the member when they apply it"
+                data-testid="input-promo-description"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Discount</Label>
+                <Select value={promoForm.discountType} onValueChange={(discountType) => setPromoForm({ ...promoForm, discountType })}>
+                  <SelectTrigger className="h-12" data-testid="select-promo-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">Percentage</SelectItem>
+                    <SelectItem value="fixed">Fixed amount</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promo-value">{promoForm.discountType === "percent" ? "Percent off" : "Amount off (£)"}</Label>
+                <Input
+                  id="promo-value"
+                  className="h-12 text-base"
+                  value={promoForm.discountValue}
+                  onChange={(e) => setPromoForm({ ...promoForm, discountValue: e.target.value })}
+                  placeholder={promoForm.discountType === "percent" ? "25" : "2.00"}
+                  data-testid="input-promo-value"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Class types</Label>
+              <p className="text-xs text-muted-foreground">Leave all unticked to allow any class.</p>
+              <div className="grid grid-cols-2 gap-2">
+                {classTypes.map((type) => (
+                  <label key={type} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={promoForm.classTypes.includes(type)}
+                      onCheckedChange={(checked) => toggleClassType(type, checked === true)}
+                      data-testid={`checkbox-promo-type-${type.toLowerCase().replace(/\s+/g, "-")}`}
+                    />
+                    {type}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="promo-from">Valid from</Label>
+                <Input
+                  id="promo-from"
+                  type="date"
+                  className="h-12 text-base"
+                  value={promoForm.validFrom}
+                  onChange={(e) => setPromoForm({ ...promoForm, validFrom: e.target.value })}
+                  data-testid="input-promo-from"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promo-until">Valid until</Label>
+                <Input
+                  id="promo-until"
+                  type="date"
+                  className="h-12 text-base"
+                  value={promoForm.validUntil}
+                  onChange={(e) => setPromoForm({ ...promoForm, validUntil: e.target.value })}
+                  data-testid="input-promo-until"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="promo-max">Total uses</Label>
+                <Input
+                  id="promo-max"
+                  type="number"
+                  min={1}
+                  className="h-12 text-base"
+                  value={promoForm.maxRedemptions}
+                  onChange={(e) => setPromoForm({ ...promoForm, maxRedemptions: e.target.value })}
+                  placeholder="Unlimited"
+                  data-testid="input-promo-max"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promo-per-member">Uses per member</Label>
+                <Input
+                  id="promo-per-member"
+                  type="number"
+                  min={1}
+                  className="h-12 text-base"
+                  value={promoForm.maxPerMember}
+                  onChange={(e) => setPromoForm({ ...promoForm, maxPerMember: e.target.value })}
+                  placeholder="Unlimited"
+                  data-testid="input-promo-per-member"
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <Label htmlFor="promo-active">Members can use this code</Label>
+              <Switch
+                id="promo-active"
+                checked={promoForm.isActive}
+                onCheckedChange={(isActive) => setPromoForm({ ...promoForm, isActive })}
+                data-testid="switch-promo-active"
+              />
+            </div>
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={!promoForm.code || !promoForm.discountValue || savePromoMutation.isPending}
+              data-testid="button-save-promo"
+            >
+              {savePromoMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save Code"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!redemptionsFor} onOpenChange={(open) => !open && setRedemptionsFor(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{redemptionsFor?.code} Redemptions</DialogTitle>
+            <DialogDescription>
+              {redemptions ? `£${totalDiscount.toFixed(2)} discounted on bookings still live.` : "Loading..."}
+            </DialogDescription>
+          </DialogHeader>
+          {redemptionsLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : !redemptions || redemptions.length === 0 ? (
+            <p className="text-center text-muted-foreground py-6">Nobody has used this code yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {redemptions.map((redemption) => (
+                <div key={redemption.id} className="flex items-center justify-between gap-3 rounded-lg border p-3" data-testid={`row-redemption-${redemption.id}`}>
+                  <div className="min-w-0">
+                    <p className="font-medium text-foreground truncate">{redemption.memberName}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {redemption.classTitle
+                        ? `${redemption.classTitle}${redemption.classDate ? ` · ${format(parseISO(redemption.classDate), "d MMM yyyy")}` : ""}`
+                        : "Class removed"}
+                    </p>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <p className="text-sm font-medium">-£{redemption.discountAmount}</p>
+                    {redemption.bookingStatus === "cancelled" && <Badge variant="outline" className="text-xs">Cancelled</Badge>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -10,6 +10,7 @@ import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import {
   Form,
   FormControl,
@@ -43,9 +44,11 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Clock, Calendar, Plus, Trash2 } from "lucide-react";
+import { Clock, Calendar, Plus, Trash2, PoundSterling, Pencil, Loader2, CalendarClock } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { ClassRulesFields, classRulesForm, emptyClassRules, type ClassRulesForm } from "@/components/ClassRulesFields";
+import { describeEligibility, type PricingSettings, type ClassPackOffer, type BookingWindowSettings } from "@shared/schema";
 
 interface ClassTemplate {
   id: string;
@@ -54,7 +57,15 @@ interface ClassTemplate {
   title: string;
   classType: string;
   duration: number;
+  capacity: number | null;
+  price: string | null;
+  concessionPrice: string | null;
   description: string | null;
+  minAge: number | null;
+  maxAge: number | null;
+  minExperienceLevel: string | null;
+  requiresCarded: boolean | null;
+  requiresMedical: boolean | null;
   isActive: boolean;
 }
 
@@ -74,15 +85,30 @@ const formSchema = z.object({
   dayOfWeek: z.string().min(1, "Day is required"),
   time: z.string().min(1, "Time is required"),
   duration: z.string().min(1, "Duration is required"),
+  capacity: z.string().min(1, "Capacity is required"),
   classType: z.string().min(1, "Class type is required"),
+  price: z.string().regex(/^(\d+(\.\d{1,2})?)?$/, "Enter a price like 5.00"),
+  concessionPrice: z.string().regex(/^(\d+(\.\d{1,2})?)?$/, "Enter a price like 3.00"),
 });
 
 type FormValues = z.infer<typeof formSchema>;
 
+interface TemplateEditData extends ClassRulesForm {
+  title: string;
+  time: string;
+  duration: string;
+  capacity: string;
+  price: string;
+  concessionPrice: string;
+}
+
 export default function AdminSchedule() {
   const { toast } = useToast();
   const [createOpen, setCreateOpen] = useState(false);
   const [templateToDelete, setTemplateToDelete] = useState<ClassTemplate | null>(null);
+  const [templateToEdit, setTemplateToEdit] = useState<ClassTemplate | null>(null);
+  const [templateEdit, setTemplateEdit] = useState<TemplateEditData>({ title: "", time: "", duration: "", capacity: "", price: "", concessionPrice: "", ...emptyClassRules });
+  const [newRules, setNewRules] = useState<ClassRulesForm>(emptyClassRules);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -91,7 +117,10 @@ export default function AdminSchedule() {
       dayOfWeek: "",
       time: "",
       duration: "60",
+      capacity: "12",
       classType: "open",
+      price: "",
+      concessionPrice: "",
     },
   });
 
@@ -119,7 +148,11 @@ export default function AdminSchedule() {
         dayOfWeek: parseInt(data.dayOfWeek),
         time: data.time,
         duration: parseInt(data.duration),
+        capacity: parseInt(data.capacity),
         classType: data.classType,
+        price: data.price,
+        concessionPrice: data.concessionPrice,
+        ...newRules,
         isActive: true,
       });
     },
@@ -129,6 +162,7 @@ export default function AdminSchedule() {
       toast({ title: "Created", description: "New class added to schedule" });
       setCreateOpen(false);
       form.reset();
+      setNewRules(emptyClassRules);
     },
     onError: () => {
       toast({ title: "Error", description: "Failed to create class", variant: "destructive" });
@@ -137,12 +171,14 @@ export default function AdminSchedule() {
 
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
-      return apiRequest("DELETE", `/api/admin/class-templates/${id}`);
+      const res = await apiRequest("DELETE", `/api/admin/class-templates/${id}`);
+      return res.json() as Promise<{ message: string }>;
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/class-templates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/classes"] });
       queryClient.invalidateQueries({ queryKey: ["/api/classes"] });
-      toast({ title: "Deleted", description: "Class removed from schedule" });
+      toast({ title: "Deleted", description: data.message });
       setTemplateToDelete(null);
     },
     onError: () => {
@@ -150,6 +186,42 @@ export default function AdminSchedule() {
     }
   });
 
+  const editMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: TemplateEditData }) => {
+      const res = await apiRequest("PATCH", `/api/admin/class-templates/${id}`, {
+        ...data,
+        duration: parseInt(data.duration) || 60,
+        capacity: parseInt(data.capacity) || 12,
+      });
+      return res.json() as Promise<{ classesUpdated: number; membersNotified: number }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/class-templates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/classes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/classes"] });
+      let description = `${data.classesUpdated} upcoming session(s) updated.`;
+      if (data.membersNotified > 0) description += ` ${data.membersNotified} booked member(s) emailed about the change.`;
+      toast({ title: "Updated", description });
+      setTemplateToEdit(null);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to update session", variant: "destructive" });
+    }
+  });
+
+  const openEditDialog = (template: ClassTemplate) => {
+    setTemplateToEdit(template);
+    setTemplateEdit({
+      title: template.title,
+      time: template.time,
+      duration: String(template.duration || 60),
+      capacity: String(template.capacity ?? 12),
+      price: template.price || "",
+      concessionPrice: template.concessionPrice || "",
+      ...classRulesForm(template),
+    });
+  };
+
   const handleToggle = (id: string) => {
     toggleMutation.mutate(id);
   };
@@ -175,10 +247,30 @@ export default function AdminSchedule() {
           </Badge>
           <span className="font-medium text-sm">{template.time}</span>
           <span className="text-xs text-muted-foreground">{template.duration}min</span>
+          {template.capacity != null && (
+            <span className="text-xs text-muted-foreground">{template.capacity} places</span>
+          )}
+          <span className="text-xs text-muted-foreground" data-testid={`text-template-price-${template.id}`}>
+            {template.price ? `£${template.price}` : "Type price"}
+            {template.concessionPrice && ` / £${template.concessionPrice} conc.`}
+          </span>
         </div>
         <p className="font-medium text-foreground mt-1 truncate">{template.title}</p>
+        {describeEligibility(template).length > 0 && (
+          <p className="text-xs text-muted-foreground" data-testid={`text-template-rules-${template.id}`}>
+            {describeEligibility(template).join(" · ")}
+          </p>
+        )}
       </div>
       <div className="flex items-center gap-2">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => openEditDialog(template)}
+          data-testid={`edit-${template.id}`}
+        >
+          <Pencil className="h-4 w-4" />
+        </Button>
         <Button
           variant="ghost"
           size="icon"
@@ -204,7 +296,7 @@ export default function AdminSchedule() {
           <div>
             <h2 className="text-xl sm:text-2xl font-bold text-foreground">Weekly Schedule</h2>
             <p className="text-sm text-muted-foreground mt-1">
-              Create and manage recurring sessions. Classes generate 2 weeks ahead.
+              Create and manage recurring sessions. Classes generate as far ahead as the booking window below.
             </p>
           </div>
           <Dialog open={createOpen} onOpenChange={setCreateOpen}>
@@ -214,7 +306,7 @@ export default function AdminSchedule() {
                 New Class
               </Button>
             </DialogTrigger>
-            <DialogContent>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>Create New Class</DialogTitle>
                 <DialogDescription>
@@ -321,6 +413,48 @@ export default function AdminSchedule() {
                       )}
                     />
                   </div>
+                  <FormField
+                    control={form.control}
+                    name="capacity"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Capacity</FormLabel>
+                        <FormControl>
+                          <Input className="h-12 text-base" type="number" min={1} max={100} {...field} data-testid="input-capacity" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="price"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Price (£)</FormLabel>
+                          <FormControl>
+                            <Input className="h-12 text-base" placeholder="Type default" {...field} data-testid="input-price" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="concessionPrice"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Concession (£)</FormLabel>
+                          <FormControl>
+                            <Input className="h-12 text-base" placeholder="Type default" {...field} data-testid="input-concession-price" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <ClassRulesFields value={newRules} onChange={setNewRules} idPrefix="new-class" />
                   <Button type="submit" className="w-full" disabled={createMutation.isPending} data-testid="button-submit-class">
                     {createMutation.isPending ? "Creating..." : "Create Class"}
                   </Button>
@@ -370,25 +504,137 @@ export default function AdminSchedule() {
               </Card>
             )}
 
+            <PricingCard />
+
+            <BookingWindowCard />
+
             <Card className="p-4 bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800">
               <h4 className="font-medium text-sm text-blue-800 dark:text-blue-200">How it works</h4>
               <ul className="text-sm text-blue-700 dark:text-blue-300 mt-2 space-y-1">
-                <li>• New classes appear on the calendar 2 weeks ahead</li>
+                <li>• New classes appear on the calendar as far ahead as their class type's window, and members can book once bookings open</li>
                 <li>• Toggle off to pause a session (existing bookings not affected)</li>
-                <li>• Delete removes the template permanently</li>
+                <li>• When a class is full, members can join a waitlist and are emailed if a place frees up</li>
+                <li>• Sessions take the template's price, or the class type price if the template has none</li>
+                <li>• Age, experience and carded rules stop members booking classes they aren't ready for. Coaches can let a member on from the class register</li>
+                <li>• Editing a session changes every upcoming one, except any you've changed on their own in the calendar. Booked members are emailed</li>
+                <li>• Delete removes the template and cancels its upcoming sessions, refunding anyone booked</li>
               </ul>
             </Card>
           </>
         )}
       </div>
 
+      <Dialog open={!!templateToEdit} onOpenChange={(open) => !open && setTemplateToEdit(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Session</DialogTitle>
+            <DialogDescription>
+              Changes apply to every upcoming {templateToEdit && fullDayNames[templateToEdit.dayOfWeek]} session. Members booked on them are emailed.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (templateToEdit) editMutation.mutate({ id: templateToEdit.id, data: templateEdit });
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="template-title">Class Name</Label>
+              <Input
+                id="template-title"
+                className="h-12 text-base"
+                value={templateEdit.title}
+                onChange={(e) => setTemplateEdit({ ...templateEdit, title: e.target.value })}
+                data-testid="input-template-title"
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-time">Time</Label>
+                <Input
+                  id="template-time"
+                  type="time"
+                  className="h-12 text-base"
+                  value={templateEdit.time}
+                  onChange={(e) => setTemplateEdit({ ...templateEdit, time: e.target.value })}
+                  data-testid="input-template-time"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-duration">Minutes</Label>
+                <Input
+                  id="template-duration"
+                  type="number"
+                  min={15}
+                  className="h-12 text-base"
+                  value={templateEdit.duration}
+                  onChange={(e) => setTemplateEdit({ ...templateEdit, duration: e.target.value })}
+                  data-testid="input-template-duration"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-capacity">Places</Label>
+                <Input
+                  id="template-capacity"
+                  type="number"
+                  min={1}
+                  className="h-12 text-base"
+                  value={templateEdit.capacity}
+                  onChange={(e) => setTemplateEdit({ ...templateEdit, capacity: e.target.value })}
+                  data-testid="input-template-capacity"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">Leave prices blank to use the class type price.</p>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-price">Price (£)</Label>
+                <Input
+                  id="template-price"
+                  className="h-12 text-base"
+                  value={templateEdit.price}
+                  onChange={(e) => setTemplateEdit({ ...templateEdit, price: e.target.value })}
+                  placeholder="Type default"
+                  data-testid="input-template-price"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-concession-price">Concession (£)</Label>
+                <Input
+                  id="template-concession-price"
+                  className="h-12 text-base"
+                  value={templateEdit.concessionPrice}
+                  onChange={(e) => setTemplateEdit({ ...templateEdit, concessionPrice: e.target.value })}
+                  placeholder="Type default"
+                  data-testid="input-template-concession-price"
+                />
+              </div>
+            </div>
+            <ClassRulesFields
+              value={templateEdit}
+              onChange={(rules) => setTemplateEdit({ ...templateEdit, ...rules })}
+              idPrefix="template"
+            />
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={editMutation.isPending || !templateEdit.title.trim() || !templateEdit.time}
+              data-testid="button-save-template"
+            >
+              {editMutation.isPending ? "Saving..." : "Save Changes"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
       <AlertDialog open={!!templateToDelete} onOpenChange={(open) => !open && setTemplateToDelete(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Class Template</AlertDialogTitle>
             <AlertDialogDescription>
               Are you sure you want to delete <strong>{templateToDelete?.title}</strong>? 
-              This will stop future sessions from being created. Existing bookings will not be affected.
+              Its upcoming sessions are cancelled and anyone booked is emailed and refunded. Past sessions are kept.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -407,3 +653,322 @@ export default function AdminSchedule() {
     </AdminLayout>
   );
 }
+
+// Club-wide defaults: a price per class type, plus concession rates for juniors and flagged members
+function PricingCard() {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<PricingSettings | null>(null);
+
+  const { data: pricing, isLoading } = useQuery<PricingSettings>({
+    queryKey: ["/api/admin/pricing"],
+  });
+
+  useEffect(() => {
+    if (pricing) setSettings(pricing);
+  }, [pricing]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: PricingSettings) => {
+      return apiRequest("PUT", "/api/admin/pricing", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/pricing"] });
+      toast({ title: "Saved", description: "Pricing applies to sessions generated from now on" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const setTypePrice = (classType: string, field: "price" | "concessionPrice", value: string) => {
+    if (!settings) return;
+    const current = settings.classTypes[classType] || { price: "", concessionPrice: null };
+    setSettings({
+      ...settings,
+      classTypes: { ...settings.classTypes, [classType]: { ...current, [field]: value || (field === "price" ? "" : null) } },
+    });
+  };
+
+  const updatePack = (index: number, changes: Partial<ClassPackOffer>) => {
+    if (!settings) return;
+    setSettings({
+      ...settings,
+      packs: settings.packs.map((pack, i) => (i === index ? { ...pack, ...changes } : pack)),
+    });
+  };
+
+  const addPack = () => {
+    if (!settings) return;
+    setSettings({
+      ...settings,
+      packs: [...settings.packs, { id: crypto.randomUUID(), name: "10 Session Pack", credits: 10, price: "45.00", validDays: 90 }],
+    });
+  };
+
+  const removePack = (index: number) => {
+    if (!settings) return;
+    setSettings({ ...settings, packs: settings.packs.filter((_, i) => i !== index) });
+  };
+
+  const handleSave = () => {
+    if (!settings) return;
+    // Types without their own price fall back to the default
+    const classTypePrices = Object.fromEntries(
+      Object.entries(settings.classTypes).filter(([, prices]) => prices.price)
+    );
+    saveMutation.mutate({
+      ...settings,
+      defaultConcessionPrice: settings.defaultConcessionPrice || null,
+      classTypes: classTypePrices,
+    });
+  };
+
+  if (isLoading || !settings) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  return (
+    <Card className="p-4">
+      <h3 className="font-semibold text-foreground mb-1 flex items-center gap-2">
+        <PoundSterling className="h-4 w-4 text-primary" />
+        Pricing
+      </h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        Concession prices apply to members aged {settings.juniorMaxAge} or under and members marked as concession.
+      </p>
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="default-price">Default (£)</Label>
+          <Input
+            id="default-price"
+            value={settings.defaultPrice}
+            onChange={(e) => setSettings({ ...settings, defaultPrice: e.target.value })}
+            data-testid="input-default-price"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="default-concession-price">Concession (£)</Label>
+          <Input
+            id="default-concession-price"
+            value={settings.defaultConcessionPrice || ""}
+            onChange={(e) => setSettings({ ...settings, defaultConcessionPrice: e.target.value || null })}
+            placeholder="None"
+            data-testid="input-default-concession-price"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="junior-max-age">Junior up to age</Label>
+          <Input
+            id="junior-max-age"
+            type="number"
+            min={0}
+            max={25}
+            value={settings.juniorMaxAge}
+            onChange={(e) => setSettings({ ...settings, juniorMaxAge: parseInt(e.target.value) || 0 })}
+            data-testid="input-junior-max-age"
+          />
+        </div>
+      </div>
+
+      <div className="mt-4 space-y-2">
+        {classTypes.map((type) => (
+          <div key={type.value} className="grid grid-cols-3 gap-3 items-center">
+            <span className="text-sm font-medium">{type.label}</span>
+            <Input
+              value={settings.classTypes[type.value]?.price || ""}
+              onChange={(e) => setTypePrice(type.value, "price", e.target.value)}
+              placeholder={settings.defaultPrice}
+              data-testid={`input-type-price-${type.value}`}
+            />
+            <Input
+              value={settings.classTypes[type.value]?.concessionPrice || ""}
+              onChange={(e) => setTypePrice(type.value, "concessionPrice", e.target.value)}
+              placeholder={settings.defaultConcessionPrice || "None"}
+              data-testid={`input-type-concession-price-${type.value}`}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-6">
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-semibold text-foreground">Class Packs</h4>
+          <Button variant="outline" size="sm" onClick={addPack} data-testid="button-add-pack">
+            <Plus className="h-4 w-4 mr-1" />
+            Add Pack
+          </Button>
+        </div>
+        {settings.packs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No class packs on sale. Members pay per session.</p>
+        ) : (
+          <div className="space-y-3">
+            {settings.packs.map((pack, index) => (
+              <div key={pack.id} className="grid grid-cols-2 sm:grid-cols-5 gap-2 items-end" data-testid={`row-pack-${pack.id}`}>
+                <div className="col-span-2 space-y-1">
+                  <Label className="text-xs">Name</Label>
+                  <Input value={pack.name} onChange={(e) => updatePack(index, { name: e.target.value })} data-testid={`input-pack-name-${pack.id}`} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Sessions</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={pack.credits}
+                    onChange={(e) => updatePack(index, { credits: parseInt(e.target.value) || 1 })}
+                    data-testid={`input-pack-credits-${pack.id}`}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Price (£)</Label>
+                  <Input value={pack.price} onChange={(e) => updatePack(index, { price: e.target.value })} data-testid={`input-pack-price-${pack.id}`} />
+                </div>
+                <div className="flex items-end gap-1">
+                  <div className="flex-1 space-y-1">
+                    <Label className="text-xs">Valid (days)</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={pack.validDays ?? ""}
+                      onChange={(e) => updatePack(index, { validDays: e.target.value ? parseInt(e.target.value) : null })}
+                      placeholder="Never"
+                      data-testid={`input-pack-valid-days-${pack.id}`}
+                    />
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => removePack(index)} data-testid={`button-remove-pack-${pack.id}`}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Button className="mt-4 w-full" onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-pricing">
+        {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save Pricing"}
+      </Button>
+    </Card>
+  );
+}
+
+type ClassTypeWindow = BookingWindowSettings["classTypes"][string];
+
+// How far ahead sessions are generated and shown, and how many days before a session members can book it
+function BookingWindowCard() {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<BookingWindowSettings | null>(null);
+
+  const { data: bookingWindow, isLoading } = useQuery<BookingWindowSettings>({
+    queryKey: ["/api/admin/booking-window"],
+  });
+
+  useEffect(() => {
+    if (bookingWindow) setSettings(bookingWindow);
+  }, [bookingWindow]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: BookingWindowSettings) => {
+      return apiRequest("PUT", "/api/admin/booking-window", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/booking-window"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/classes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/classes"] });
+      toast({ title: "Saved", description: "Sessions have been generated for the new window" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const setTypeDays = (classType: string, field: keyof ClassTypeWindow, value: string) => {
+    if (!settings) return;
+    const current = settings.classTypes[classType] || {};
+    setSettings({
+      ...settings,
+      classTypes: { ...settings.classTypes, [classType]: { ...current, [field]: value === "" ? undefined : parseInt(value) || 0 } },
+    });
+  };
+
+  const handleSave = () => {
+    if (!settings) return;
+    // Types left blank fall back to the default
+    const classTypeWindows = Object.fromEntries(
+      Object.entries(settings.classTypes).filter(([, days]) => days.horizonDays !== undefined || days.bookingOpensDays !== undefined)
+    );
+    saveMutation.mutate({ ...settings, classTypes: classTypeWindows });
+  };
+
+  if (isLoading || !settings) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  return (
+    <Card className="p-4">
+      <h3 className="font-semibold text-foreground mb-1 flex items-center gap-2">
+        <CalendarClock className="h-4 w-4 text-primary" />
+        Booking Window
+      </h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        Sessions show on the timetable this many days ahead. Bookings open at midnight the set number of days before each session.
+      </p>
+      <div className="grid grid-cols-3 gap-3">
+        <span className="text-sm font-medium self-end pb-2">Default</span>
+        <div className="space-y-2">
+          <Label htmlFor="horizon-days">Show (days)</Label>
+          <Input
+            id="horizon-days"
+            type="number"
+            min={1}
+            max={365}
+            value={settings.horizonDays}
+            onChange={(e) => setSettings({ ...settings, horizonDays: parseInt(e.target.value) || 0 })}
+            data-testid="input-horizon-days"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="booking-opens-days">Bookable (days)</Label>
+          <Input
+            id="booking-opens-days"
+            type="number"
+            min={0}
+            max={365}
+            value={settings.bookingOpensDays}
+            onChange={(e) => setSettings({ ...settings, bookingOpensDays: parseInt(e.target.value) || 0 })}
+            data-testid="input-booking-opens-days"
+          />
+        </div>
+      </div>
+
+      <div className="mt-4 space-y-2">
+        {classTypes.map((type) => (
+          <div key={type.value} className="grid grid-cols-3 gap-3 items-center">
+            <span className="text-sm font-medium">{type.label}</span>
+            <Input
+              type="number"
+              min={1}
+              max={365}
+              value={settings.classTypes[type.value]?.horizonDays ?? ""}
+              onChange={(e) => setTypeDays(type.value, "horizonDays", e.target.value)}
+              placeholder={String(settings.horizonDays)}
+              data-testid={`input-type-horizon-days-${type.value}`}
+            />
+            <Input
+              type="number"
+              min={0}
+              max={365}
+              value={settings.classTypes[type.value]?.bookingOpensDays ?? ""}
+              onChange={(e) => setTypeDays(type.value, "bookingOpensDays", e.target.value)}
+              placeholder={String(settings.bookingOpensDays)}
+              data-testid={`input-type-booking-opens-days-${type.value}`}
+            />
+          </div>
+        ))}
+      </div>
+
+      <Button className="mt-4 w-full" onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-booking-window">
+        {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save Booking Window"}
+      </Button>
+    </Card>
+  );
+}
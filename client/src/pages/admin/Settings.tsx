@@ -12,6 +12,7 @@ import { useToast } from "@/hooks/use-toast";
 import { Save, Loader2, ChevronDown } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import type { SiteSettings } from "@shared/schema";
+import { DEFAULT_CLUB_TIMEZONE } from "@shared/clubTime";
 
 export default function AdminSettings() {
   const { toast } = useToast();
@@ -29,6 +30,7 @@ export default function AdminSettings() {
     phone: "",
     email: "",
     address: "",
+    timezone: DEFAULT_CLUB_TIMEZONE,
     socialLinks: {
       facebook: "",
       twitter: "",
@@ -70,10 +72,12 @@ export default function AdminSettings() {
         description: "Your site settings have been updated.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to save settings. Please try again.",
+        description: error.message.startsWith("400")
+          ? "That timezone isn't recognised. Use a name like Europe/London."
+          : "Failed to save settings. Please try again.",
         variant: "destructive",
       });
     },
@@ -152,6 +156,20 @@ export default function AdminSettings() {
                 data-testid="input-logo"
               />
             </div>
+            <div>
+              <Label htmlFor="timezone">Timezone</Label>
+              <Input
+                id="timezone"
+                className="h-12 text-base"
+                value={formData.timezone}
+                onChange={(e) => handleInputChange("timezone", e.target.value)}
+                placeholder={DEFAULT_CLUB_TIMEZONE}
+                data-testid="input-timezone"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Class times are on this clock, including when the clocks change for summer time.
+              </p>
+            </div>
           </div>
         </Card>
 
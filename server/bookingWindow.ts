@@ -0,0 +1,52 @@
+import { storage } from "./storage";
+import { clubToday, clubDateTime } from "./clubTime";
+import { addDaysToDate } from "@shared/clubTime";
+import {
+  bookingWindowSettingsSchema,
+  defaultBookingWindowSettings,
+  type BookingWindowSettings,
+  type BoxingClass,
+} from "@shared/schema";
+
+const BOOKING_WINDOW_CONTENT_KEY = "booking-window";
+
+export type PublicClass = BoxingClass & { bookingOpensAt: Date };
+
+export async function getBookingWindowSettings(): Promise<BookingWindowSettings> {
+  const content = await storage.getContent(BOOKING_WINDOW_CONTENT_KEY);
+  const parsed = bookingWindowSettingsSchema.safeParse(content?.content);
+  return parsed.success ? parsed.data : defaultBookingWindowSettings;
+}
+
+export async function saveBookingWindowSettings(settings: BookingWindowSettings): Promise<BookingWindowSettings> {
+  await storage.upsertContent(BOOKING_WINDOW_CONTENT_KEY, settings);
+  return settings;
+}
+
+// The class type's own window wins, then the club default
+export function getClassTypeWindow(settings: BookingWindowSettings, classType: string): { horizonDays: number; bookingOpensDays: number } {
+  const typeWindow = settings.classTypes[classType];
+  return {
+    horizonDays: typeWindow?.horizonDays ?? settings.horizonDays,
+    bookingOpensDays: typeWindow?.bookingOpensDays ?? settings.bookingOpensDays,
+  };
+}
+
+// Bookings open at the start of the club's day, so everyone gets the same go at a popular session
+export function getBookingOpensAt(boxingClass: BoxingClass, settings: BookingWindowSettings): Date {
+  const { bookingOpensDays } = getClassTypeWindow(settings, boxingClass.classType);
+  return clubDateTime(addDaysToDate(boxingClass.date, -bookingOpensDays), "00:00");
+}
+
+export function isBookingOpen(boxingClass: BoxingClass, settings: BookingWindowSettings, now = new Date()): boolean {
+  return getBookingOpensAt(boxingClass, settings) <= now;
+}
+
+// Sessions members can see, each class type as far ahead as its horizon
+export async function getPublicClasses(): Promise<PublicClass[]> {
+  const [settings, classes] = await Promise.all([getBookingWindowSettings(), storage.getUpcomingClasses()]);
+  const today = clubToday();
+  return classes
+    .filter(c => c.date <= addDaysToDate(today, getClassTypeWindow(settings, c.classType).horizonDays))
+    .map(c => ({ ...c, bookingOpensAt: getBookingOpensAt(c, settings) }));
+}
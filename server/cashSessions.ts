@@ -0,0 +1,165 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { format, parseISO, startOfWeek } from "date-fns";
+import { storage } from "./storage";
+import { isAdmin } from "./memberAuth";
+import { toPence } from "./pricing";
+import type { CashSession } from "@shared/schema";
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a date like 2027-01-31");
+
+const rangeSchema = z.object({
+  from: dateString.optional(),
+  to: dateString.optional(),
+});
+
+const takingsSchema = rangeSchema.extend({
+  period: z.enum(["day", "week"]).default("day"),
+});
+
+const closeSessionSchema = z.object({
+  countedAmount: z.string().regex(/^\d+(\.\d{1,2})?$/, "Enter the amount counted, like 35.50"),
+  collectedBy: z.string().trim().min(1, "Enter the coach who collected the cash").max(255),
+  notes: z.string().max(1000).nullable().optional(),
+});
+
+const formatPounds = (pence: number) => (pence / 100).toFixed(2);
+
+// Open sessions are still taking cash, so their expected total is worked out from the bookings each time
+async function withTotals(cashSession: CashSession) {
+  const expected = cashSession.status === "closed" && cashSession.expectedAmount != null
+    ? cashSession.expectedAmount
+    : await storage.getCashSessionExpected(cashSession.id);
+  const bookingCount = (await storage.getCashSessionBookings(cashSession.id))
+    .filter(b => b.status !== "cancelled").length;
+  return {
+    ...cashSession,
+    expectedAmount: expected,
+    bookingCount,
+    difference: cashSession.status === "closed" && cashSession.countedAmount != null
+      ? formatPounds(toPence(cashSession.countedAmount) - toPence(expected))
+      : null,
+  };
+}
+
+type CashSessionWithTotals = Awaited<ReturnType<typeof withTotals>>;
+
+function summarise(periodStart: string, sessions: CashSessionWithTotals[]) {
+  const closed = sessions.filter(s => s.status === "closed");
+  const expected = sessions.reduce((sum, s) => sum + toPence(s.expectedAmount), 0);
+  const counted = closed.reduce((sum, s) => sum + toPence(s.countedAmount || "0"), 0);
+  const closedExpected = closed.reduce((sum, s) => sum + toPence(s.expectedAmount), 0);
+  return {
+    periodStart,
+    sessions: sessions.length,
+    openSessions: sessions.length - closed.length,
+    expected: formatPounds(expected),
+    counted: formatPounds(counted),
+    difference: formatPounds(counted - closedExpected),
+  };
+}
+
+export function registerCashSessionRoutes(app: Express) {
+  // Admin: Cash sessions with what's expected, what was counted and any difference
+  app.get("/api/admin/cash-sessions", isAdmin, async (req, res) => {
+    try {
+      const parsed = rangeSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid date range" });
+      }
+      const sessions = await storage.getCashSessions(parsed.data.from, parsed.data.to);
+      res.json(await Promise.all(sessions.map(withTotals)));
+    } catch (error) {
+      console.error("Error fetching cash sessions:", error);
+      res.status(500).json({ message: "Failed to fetch cash sessions" });
+    }
+  });
+
+  // Admin: The cash bookings that make up a session's expected total
+  app.get("/api/admin/cash-sessions/:id/bookings", isAdmin, async (req, res) => {
+    try {
+      const cashSession = await storage.getCashSession(req.params.id);
+      if (!cashSession) {
+        return res.status(404).json({ message: "Cash session not found" });
+      }
+      const sessionBookings = await storage.getCashSessionBookings(cashSession.id);
+      res.json(await Promise.all(sessionBookings.map(async (booking) => {
+        const member = booking.memberId ? await storage.getMemberById(booking.memberId) : undefined;
+        return {
+          ...booking,
+          memberName: member?.name || booking.deletedMemberName || "Deleted Member",
+        };
+      })));
+    } catch (error) {
+      console.error("Error fetching cash session bookings:", error);
+      res.status(500).json({ message: "Failed to fetch cash session bookings" });
+    }
+  });
+
+  // Admin: Record the count and who collected the money
+  app.post("/api/admin/cash-sessions/:id/close", isAdmin, async (req, res) => {
+    try {
+      const parsed = closeSessionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid cash count" });
+      }
+      const cashSession = await storage.closeCashSession(req.params.id, {
+        countedAmount: parseFloat(parsed.data.countedAmount).toFixed(2),
+        collectedBy: parsed.data.collectedBy,
+        closedByMemberId: req.session.memberId!,
+        notes: parsed.data.notes?.trim() || null,
+      });
+      if (!cashSession) {
+        return res.status(409).json({ message: "This cash session isn't open" });
+      }
+      res.json(await withTotals(cashSession));
+    } catch (error) {
+      console.error("Error closing cash session:", error);
+      res.status(500).json({ message: "Failed to close cash session" });
+    }
+  });
+
+  // Admin: Reopen a counted session so late cash bookings can be added and it can be recounted
+  app.post("/api/admin/cash-sessions/:id/reopen", isAdmin, async (req, res) => {
+    try {
+      const cashSession = await storage.reopenCashSession(req.params.id);
+      if (!cashSession) {
+        return res.status(409).json({ message: "This cash session isn't closed" });
+      }
+      res.json(await withTotals(cashSession));
+    } catch (error) {
+      console.error("Error reopening cash session:", error);
+      res.status(500).json({ message: "Failed to reopen cash session" });
+    }
+  });
+
+  // Admin: Takings by day or week (weeks start on Monday), plus every count that didn't match
+  app.get("/api/admin/cash-takings", isAdmin, async (req, res) => {
+    try {
+      const parsed = takingsSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid date range" });
+      }
+      const { from, to, period } = parsed.data;
+      const sessions = await Promise.all((await storage.getCashSessions(from, to)).map(withTotals));
+
+      const byPeriod = new Map<string, CashSessionWithTotals[]>();
+      for (const cashSession of sessions) {
+        const periodStart = period === "week"
+          ? format(startOfWeek(parseISO(cashSession.classDate), { weekStartsOn: 1 }), "yyyy-MM-dd")
+          : cashSession.classDate;
+        byPeriod.set(periodStart, [...(byPeriod.get(periodStart) || []), cashSession]);
+      }
+
+      res.json({
+        period,
+        summaries: Array.from(byPeriod.entries()).map(([periodStart, periodSessions]) => summarise(periodStart, periodSessions)),
+        totals: summarise(from || "", sessions),
+        discrepancies: sessions.filter(s => s.difference != null && toPence(s.difference) !== 0),
+      });
+    } catch (error) {
+      console.error("Error fetching cash takings:", error);
+      res.status(500).json({ message: "Failed to fetch cash takings" });
+    }
+  });
+}
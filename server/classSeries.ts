@@ -0,0 +1,212 @@
+import { format, parseISO } from "date-fns";
+import { storage } from "./storage";
+import { sendClassChangedEmail, type ClassChange } from "./email";
+import { getMemberContact } from "./guardians";
+import { promoteFromWaitlist } from "./waitlist";
+import { getPricingSettings, getDefaultClassPrices } from "./pricing";
+import { getBookingWindowSettings, getClassTypeWindow } from "./bookingWindow";
+import { clubToday, getClassStart } from "./clubTime";
+import { isClosedOn, cancelClassWithNotice, emptyCancellations, type ClassCancellations } from "./closures";
+import { addDaysToDate, dayOfWeekOfDate } from "@shared/clubTime";
+import type { BoxingClass, ClassTemplate, InsertBoxingClass, InsertClassTemplate, PricingSettings, SeriesScope } from "@shared/schema";
+
+// What a template hands down to the sessions generated from it
+const seriesFields = [
+  "title", "description", "time", "duration", "capacity", "price", "concessionPrice",
+  "minAge", "maxAge", "minExperienceLevel", "requiresCarded", "requiresMedical",
+] as const;
+type SeriesField = typeof seriesFields[number];
+type SeriesValues = Pick<InsertBoxingClass, SeriesField>;
+
+// Changes booked members need to hear about - the rest don't affect when or what they turn up to
+const noticeFields: { field: "title" | "date" | "time" | "duration"; label: string }[] = [
+  { field: "title", label: "Class" },
+  { field: "date", label: "Date" },
+  { field: "time", label: "Time" },
+  { field: "duration", label: "Length" },
+];
+
+export interface SeriesEditResult {
+  classesUpdated: number;
+  membersNotified: number;
+}
+
+function seriesValues(template: ClassTemplate, pricing: PricingSettings): SeriesValues {
+  return {
+    title: template.title,
+    description: template.description || "",
+    time: template.time,
+    duration: template.duration || 60,
+    capacity: template.capacity ?? 12,
+    minAge: template.minAge,
+    maxAge: template.maxAge,
+    minExperienceLevel: template.minExperienceLevel,
+    requiresCarded: template.requiresCarded ?? false,
+    requiresMedical: template.requiresMedical ?? false,
+    ...getDefaultClassPrices(pricing, template.classType, template),
+  };
+}
+
+// Prices come back from Postgres as "5.00" but may be sent as "5"
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a == null || b == null || a === "" || b === "") return (a ?? "") === (b ?? "");
+  return String(a) === String(b) || (!isNaN(Number(a)) && Number(a) === Number(b));
+}
+
+function hasStarted(boxingClass: BoxingClass, now = new Date()): boolean {
+  return getClassStart(boxingClass) <= now;
+}
+
+export function classFromTemplate(template: ClassTemplate, date: string, pricing: PricingSettings): InsertBoxingClass {
+  return {
+    ...seriesValues(template, pricing),
+    classType: template.classType,
+    templateId: template.id,
+    date,
+    isActive: true,
+  };
+}
+
+let lastGeneration: Promise<void> = Promise.resolve();
+
+// Creates each template's sessions as far ahead as its class type's horizon. Runs one at a time:
+// two overlapping runs would both see a date as missing and create it twice.
+export function generateWeeklyClasses(): Promise<void> {
+  const run = lastGeneration.catch(() => undefined).then(createMissingClasses);
+  lastGeneration = run;
+  return run;
+}
+
+async function createMissingClasses() {
+  const templates = await storage.getActiveClassTemplates();
+  if (templates.length === 0) return;
+  const [pricing, bookingWindow] = await Promise.all([getPricingSettings(), getBookingWindowSettings()]);
+
+  // Dates are on the club's calendar, so a server in another timezone can't put classes on the wrong day
+  const today = clubToday();
+  const horizonOf = (classType: string) => addDaysToDate(today, getClassTypeWindow(bookingWindow, classType).horizonDays);
+  const lastDate = templates.map(t => horizonOf(t.classType)).reduce((last, date) => date > last ? date : last, today);
+  const closures = await storage.getClosuresBetween(today, lastDate);
+  // A one-off class an admin already put in the same slot stands in for the template's session
+  const oneOffClasses = (await storage.getActiveClassesBetween(today, lastDate)).filter(c => !c.templateId);
+
+  for (const template of templates) {
+    // Sessions are matched on their template rather than their time, so editing the time can't double them up.
+    // Ones an admin removed stay removed; ones a closure cancelled are filled again if the closure goes.
+    const generatedDates = new Set((await storage.getClassesByTemplate(template.id, today))
+      .filter(c => c.isActive || c.removedFromSeries)
+      .map(c => c.date));
+
+    let daysUntil = template.dayOfWeek - dayOfWeekOfDate(today);
+    if (daysUntil < 0) daysUntil += 7;
+
+    const horizon = horizonOf(template.classType);
+    for (let dateStr = addDaysToDate(today, daysUntil); dateStr <= horizon; dateStr = addDaysToDate(dateStr, 7)) {
+      if (generatedDates.has(dateStr) || isClosedOn(dateStr, closures)) continue;
+      if (oneOffClasses.some(c => c.date === dateStr && c.time === template.time)) continue;
+
+      await storage.createClass(classFromTemplate(template, dateStr, pricing));
+    }
+  }
+}
+
+// Emails everyone booked on a session that's still to come about what changed on it
+export async function notifyClassChanged(before: BoxingClass, after: BoxingClass): Promise<number> {
+  if (!after.isActive || hasStarted(after)) return 0;
+
+  const changes: ClassChange[] = noticeFields
+    .filter(({ field }) => !sameValue(before[field], after[field]))
+    .map(({ field, label }) => {
+      const show = (c: BoxingClass) => field === "date" ? format(parseISO(c.date), "EEEE, MMMM d, yyyy")
+        : field === "duration" ? `${c.duration || 60} minutes`
+        : String(c[field]);
+      return { label, from: show(before), to: show(after) };
+    });
+  if (changes.length === 0) return 0;
+
+  let notified = 0;
+  for (const booking of await storage.getBookingsByClass(after.id)) {
+    if (booking.status === "cancelled" || !booking.memberId) continue;
+    const member = await storage.getMemberById(booking.memberId);
+    const contact = member ? await getMemberContact(member) : null;
+    if (!contact) continue;
+    sendClassChangedEmail({
+      ...contact,
+      sessionTitle: after.title,
+      sessionDate: format(parseISO(after.date), "EEEE, MMMM d, yyyy"),
+      sessionTime: after.time,
+      changes,
+    }).catch(err => console.error("Email send error:", err));
+    notified++;
+  }
+  return notified;
+}
+
+// Saves a template and carries the change on to its sessions from `fromDate` that haven't started.
+// A session that was changed on its own keeps that change: only fields still matching the old template follow it.
+export async function editSeries(template: ClassTemplate, changes: Partial<InsertClassTemplate>, fromDate: string): Promise<SeriesEditResult & { template: ClassTemplate }> {
+  const updatedTemplate = await storage.updateClassTemplate(template.id, changes);
+  if (!updatedTemplate) return { template, classesUpdated: 0, membersNotified: 0 };
+
+  const pricing = await getPricingSettings();
+  const before = seriesValues(template, pricing);
+  const after = seriesValues(updatedTemplate, pricing);
+  const changedFields = seriesFields.filter(field => !sameValue(before[field], after[field]));
+  const result = { template: updatedTemplate, classesUpdated: 0, membersNotified: 0 };
+  if (changedFields.length === 0) return result;
+
+  const today = clubToday();
+  for (const occurrence of await storage.getClassesByTemplate(template.id, fromDate > today ? fromDate : today)) {
+    if (!occurrence.isActive || hasStarted(occurrence)) continue;
+    const fields = changedFields.filter(field => sameValue(occurrence[field], before[field]));
+    if (fields.length === 0) continue;
+
+    const updated = await storage.updateClass(occurrence.id, Object.fromEntries(fields.map(field => [field, after[field]])));
+    if (!updated) continue;
+    result.classesUpdated++;
+    result.membersNotified += await notifyClassChanged(occurrence, updated);
+    if (fields.includes("capacity")) {
+      promoteFromWaitlist(updated.id).catch(err => console.error("[Waitlist] Promotion failed:", err));
+    }
+  }
+  return result;
+}
+
+// Edits a session from the calendar. For a generated session, "future" and "series" also change its template
+// and the sessions generated from it; fields the template doesn't hold (date, type, active) stay on this session.
+export async function editClass(id: string, changes: Partial<InsertBoxingClass>, scope: SeriesScope): Promise<(SeriesEditResult & { boxingClass: BoxingClass }) | undefined> {
+  const existing = await storage.getClass(id);
+  if (!existing) return undefined;
+
+  const updated = await storage.updateClass(id, changes);
+  if (!updated) return undefined;
+  const result = { boxingClass: updated, classesUpdated: 1, membersNotified: await notifyClassChanged(existing, updated) };
+  // Extra places may have opened up if capacity was raised
+  promoteFromWaitlist(updated.id).catch(err => console.error("[Waitlist] Promotion failed:", err));
+
+  const template = scope !== "occurrence" && existing.templateId ? await storage.getClassTemplate(existing.templateId) : undefined;
+  if (!template) return result;
+
+  // Only what the admin actually changed goes to the template - the rest of the form is just this session's values
+  const seriesChanges = Object.fromEntries(seriesFields
+    .filter(field => changes[field] !== undefined && !sameValue(changes[field], existing[field]))
+    .map(field => [field, changes[field]])) as Partial<InsertClassTemplate>;
+  if (Object.keys(seriesChanges).length === 0) return result;
+
+  const series = await editSeries(template, seriesChanges, scope === "future" ? existing.date : clubToday());
+  result.classesUpdated += series.classesUpdated;
+  result.membersNotified += series.membersNotified;
+  return result;
+}
+
+// Takes a template off the timetable. Its sessions still to come are cancelled and booked members get their money
+// back; past sessions stay for the records.
+export async function removeSeries(template: ClassTemplate): Promise<ClassCancellations> {
+  const totals = emptyCancellations();
+  for (const occurrence of await storage.getClassesByTemplate(template.id, clubToday())) {
+    if (!occurrence.isActive || hasStarted(occurrence)) continue;
+    await cancelClassWithNotice(occurrence, `${template.title} has been taken off the weekly timetable`, "refund", totals);
+  }
+  await storage.deleteClassTemplate(template.id);
+  return totals;
+}
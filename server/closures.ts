@@ -0,0 +1,156 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { format, parseISO } from "date-fns";
+import { storage } from "./storage";
+import { isAdmin } from "./memberAuth";
+import { refundBooking, type RefundResult } from "./refunds";
+import { sendClassCancelledEmail } from "./email";
+import { getMemberContact } from "./guardians";
+import { clubToday } from "./clubTime";
+import type { BoxingClass, Closure } from "@shared/schema";
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a date like 2027-01-31");
+
+const closureSchema = z.object({
+  startDate: dateString,
+  endDate: dateString,
+  reason: z.string().trim().min(1, "Give a reason members will see, like \"Bank holiday\"").max(255),
+  // Card payers get their money back, or a session credit if the club would rather keep it
+  cardPayments: z.enum(["refund", "credit"]).default("refund"),
+}).refine(data => data.endDate >= data.startDate, { message: "The closure can't end before it starts" });
+
+export type CardPaymentHandling = z.infer<typeof closureSchema>["cardPayments"];
+
+export interface ClassCancellations {
+  classesCancelled: number;
+  bookingsCancelled: number;
+  refunded: number;
+  refundsFailed: number;
+  creditsGiven: number;
+}
+
+export function isClosedOn(date: string, closures: Closure[]): Closure | undefined {
+  return closures.find(closure => closure.startDate <= date && date <= closure.endDate);
+}
+
+export function emptyCancellations(): ClassCancellations {
+  return { classesCancelled: 0, bookingsCancelled: 0, refunded: 0, refundsFailed: 0, creditsGiven: 0 };
+}
+
+// Cancels every live booking on the class, puts back whatever was spent on it and tells the member why
+export async function cancelClassWithNotice(boxingClass: BoxingClass, reason: string, cardPayments: CardPaymentHandling, totals: ClassCancellations) {
+  const classBookings = (await storage.getBookingsByClass(boxingClass.id)).filter(b => b.status !== "cancelled");
+
+  for (const booking of classBookings) {
+    const voucherSpend = (await storage.getGiftVoucherLedgerByBooking(booking.id)).some(e => e.reason === "booking");
+    await storage.cancelBooking(booking.id);
+    totals.bookingsCancelled++;
+
+    const paidByCard = booking.paymentMethod === "card" && !!booking.squarePaymentId
+      && !booking.isFreeSession && parseFloat(booking.price || "0") > 0;
+    let refund: RefundResult = { status: null };
+    let creditGiven = false;
+    if (paidByCard && cardPayments === "credit" && booking.memberId) {
+      await storage.addCreditPack({
+        memberId: booking.memberId,
+        source: "grant",
+        name: "Cancelled class credit",
+        creditsTotal: 1,
+        creditsRemaining: 1,
+        price: "0.00",
+        expiresAt: null,
+      }, `${boxingClass.title} on ${boxingClass.date} cancelled: ${reason}`);
+      creditGiven = true;
+      totals.creditsGiven++;
+    } else if (paidByCard) {
+      refund = await refundBooking(booking, { reason: `Class cancelled by Mill Town ABC: ${reason}` });
+      if (refund.status === "refunded") totals.refunded++;
+      if (refund.status === "failed") totals.refundsFailed++;
+    }
+
+    if (booking.isFreeSession && booking.memberId) {
+      await storage.updateMember(booking.memberId, { hasUsedFreeSession: false });
+    }
+
+    const member = booking.memberId ? await storage.getMemberById(booking.memberId) : undefined;
+    const contact = member ? await getMemberContact(member) : null;
+    if (!contact) continue;
+    sendClassCancelledEmail({
+      ...contact,
+      sessionTitle: boxingClass.title,
+      sessionDate: format(parseISO(boxingClass.date), "EEEE, MMMM d, yyyy"),
+      sessionTime: boxingClass.time,
+      reason,
+      refundStatus: refund.status === "refunded" || refund.status === "failed" ? refund.status : null,
+      refundAmount: refund.amount,
+      creditGiven,
+      creditReturned: booking.paymentMethod === "credit",
+      voucherRestored: voucherSpend,
+      freeSessionRestored: !!booking.isFreeSession,
+    }).catch(err => console.error("Email send error:", err));
+  }
+
+  // Nobody should be offered a place on a class that isn't running
+  for (const entry of await storage.getWaitlistByClass(boxingClass.id)) {
+    if (entry.status === "waiting" || entry.status === "offered") {
+      await storage.updateWaitlistEntry(entry.id, { status: "cancelled" });
+    }
+  }
+
+  await storage.updateClass(boxingClass.id, { isActive: false });
+  totals.classesCancelled++;
+}
+
+export function registerClosureRoutes(app: Express) {
+  // Admin: All closures, newest first
+  app.get("/api/admin/closures", isAdmin, async (_req, res) => {
+    try {
+      res.json(await storage.getAllClosures());
+    } catch (error) {
+      console.error("Error fetching closures:", error);
+      res.status(500).json({ message: "Failed to fetch closures" });
+    }
+  });
+
+  // Admin: Close the club for a date range - classes still to come in it are cancelled
+  app.post("/api/admin/closures", isAdmin, async (req, res) => {
+    try {
+      const parsed = closureSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid closure" });
+      }
+      const { startDate, endDate, reason, cardPayments } = parsed.data;
+
+      const closure = await storage.createClosure({ startDate, endDate, reason });
+      const totals = emptyCancellations();
+      // A closure entered after the fact mustn't undo classes that already ran
+      const today = clubToday();
+      for (const boxingClass of await storage.getActiveClassesBetween(startDate > today ? startDate : today, endDate)) {
+        await cancelClassWithNotice(boxingClass, reason, cardPayments, totals);
+      }
+
+      let message = `Closure added. ${totals.classesCancelled} class(es) and ${totals.bookingsCancelled} booking(s) cancelled`;
+      if (totals.refunded > 0) message += `, ${totals.refunded} refunded`;
+      if (totals.creditsGiven > 0) message += `, ${totals.creditsGiven} given a session credit`;
+      if (totals.refundsFailed > 0) message += `. ${totals.refundsFailed} refund(s) failed and need retrying from the bookings list`;
+      res.status(201).json({ closure, ...totals, message });
+    } catch (error) {
+      console.error("Error creating closure:", error);
+      res.status(500).json({ message: "Failed to create closure" });
+    }
+  });
+
+  // Admin: Remove a closure. Classes it cancelled stay cancelled; the generator fills the dates again from now on.
+  app.delete("/api/admin/closures/:id", isAdmin, async (req, res) => {
+    try {
+      const deleted = await storage.deleteClosure(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Closure not found" });
+      }
+      res.json({ message: "Closure removed" });
+    } catch (error) {
+      console.error("Error deleting closure:", error);
+      res.status(500).json({ message: "Failed to delete closure" });
+    }
+  });
+}
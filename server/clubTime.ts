@@ -0,0 +1,36 @@
+import { DEFAULT_CLUB_TIMEZONE, isValidTimezone, zonedDate, zonedTime, zonedDateTime } from "@shared/clubTime";
+import type { BoxingClass } from "@shared/schema";
+
+// Set from the admin settings at startup and whenever they're saved. Kept here rather than read
+// through storage so storage itself can work out class start times.
+let clubTimezone = DEFAULT_CLUB_TIMEZONE;
+
+export function getClubTimezone(): string {
+  return clubTimezone;
+}
+
+export function setClubTimezone(timeZone: string | undefined) {
+  clubTimezone = timeZone && isValidTimezone(timeZone) ? timeZone : DEFAULT_CLUB_TIMEZONE;
+}
+
+// Today's date (yyyy-MM-dd) at the club, whatever timezone the server runs in
+export function clubToday(now: Date = new Date()): string {
+  return zonedDate(now, clubTimezone);
+}
+
+// The time (HH:mm) on the club's clock
+export function clubTimeNow(now: Date = new Date()): string {
+  return zonedTime(now, clubTimezone);
+}
+
+export function clubDateOf(instant: Date): string {
+  return zonedDate(instant, clubTimezone);
+}
+
+export function clubDateTime(date: string, time: string): Date {
+  return zonedDateTime(date, time, clubTimezone);
+}
+
+export function getClassStart(boxingClass: Pick<BoxingClass, "date" | "time" | "startsAt">): Date {
+  return boxingClass.startsAt ? new Date(boxingClass.startsAt) : clubDateTime(boxingClass.date, boxingClass.time);
+}
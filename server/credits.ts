@@ -0,0 +1,166 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { isAdmin, isMemberAuthenticated } from "./memberAuth";
+import { paymentProvider } from "./paymentProvider";
+import { getPricingSettings, toPence } from "./pricing";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export async function getMemberCredits(memberId: string) {
+  const [balance, packs, ledger] = await Promise.all([
+    storage.getCreditBalance(memberId),
+    storage.getCreditPacksByMember(memberId),
+    storage.getCreditLedgerByMember(memberId),
+  ]);
+  return { balance, packs, ledger };
+}
+
+const adjustCreditsSchema = z.object({
+  credits: z.number().int().min(-100).max(100).refine(n => n !== 0, "Enter a number of credits"),
+  note: z.string().max(500).optional(),
+  validDays: z.number().int().min(1).max(730).nullable().optional(),
+});
+
+export function registerCreditRoutes(app: Express) {
+  // Public: class packs on sale
+  app.get("/api/class-packs", async (_req, res) => {
+    try {
+      const pricing = await getPricingSettings();
+      res.json(pricing.packs);
+    } catch (error) {
+      console.error("Error fetching class packs:", error);
+      res.status(500).json({ message: "Failed to fetch class packs" });
+    }
+  });
+
+  // Member: credit balance, packs and history
+  app.get("/api/members/me/credits", isMemberAuthenticated, async (req, res) => {
+    try {
+      res.json(await getMemberCredits(req.session.memberId!));
+    } catch (error) {
+      console.error("Error fetching credits:", error);
+      res.status(500).json({ message: "Failed to fetch credits" });
+    }
+  });
+
+  // Member: buy a class pack by card
+  app.post("/api/members/me/credit-packs", isMemberAuthenticated, async (req, res) => {
+    try {
+      const { packId, paymentToken, verificationToken } = req.body;
+      const memberId = req.session.memberId!;
+
+      const pricing = await getPricingSettings();
+      const offer = pricing.packs.find(p => p.id === packId);
+      if (!offer) {
+        return res.status(404).json({ message: "That class pack is no longer available" });
+      }
+      if (!paymentToken) {
+        return res.status(400).json({ message: "Payment required. Please complete the payment form." });
+      }
+      if (!paymentProvider.isConfigured()) {
+        return res.status(503).json({ message: "Payment processing not configured. Please contact the club." });
+      }
+
+      const amount = toPence(offer.price);
+      console.log(`[Payment] Processing class pack payment of ${amount}p for member ${memberId}`);
+      const paymentResult = await paymentProvider.createPayment({
+        sourceId: paymentToken,
+        verificationToken: verificationToken || undefined,
+        amount,
+        currency: "GBP",
+        note: `Mill Town ABC - ${offer.name}`,
+      });
+      if (!paymentResult.success) {
+        console.error(`[Payment] Failed:`, paymentResult.error);
+        return res.status(400).json({ message: "Payment failed. Please check your card details and try again." });
+      }
+
+      let pack;
+      try {
+        pack = await storage.addCreditPack({
+          memberId,
+          source: "purchase",
+          name: offer.name,
+          creditsTotal: offer.credits,
+          creditsRemaining: offer.credits,
+          price: offer.price,
+          squarePaymentId: paymentResult.paymentId || null,
+          expiresAt: offer.validDays ? new Date(Date.now() + offer.validDays * DAY_MS) : null,
+        });
+      } catch (error) {
+        // The card was charged but the credits weren't added - hand the money straight back
+        console.error("Error adding class pack:", error);
+        const refund = paymentResult.paymentId
+          ? await paymentProvider.refundPayment({ paymentId: paymentResult.paymentId, amount, reason: "Class pack could not be added" })
+          : { success: false, error: "No payment ID" };
+        if (!refund.success) {
+          console.error(`[Payment] Could not refund ${paymentResult.paymentId} after class pack failed for member ${memberId}:`, refund.error);
+          return res.status(500).json({ message: "Failed to add your class pack. Please contact the club and we'll refund your payment." });
+        }
+        return res.status(500).json({ message: "Failed to add your class pack. You haven't been charged - please try again." });
+      }
+
+      res.status(201).json({
+        pack,
+        balance: await storage.getCreditBalance(memberId),
+        message: `${offer.name} added - you have ${offer.credits} more session credits.`,
+      });
+    } catch (error) {
+      console.error("Error buying class pack:", error);
+      res.status(500).json({ message: "Failed to buy class pack" });
+    }
+  });
+
+  // Admin: a member's credits and history
+  app.get("/api/admin/members/:id/credits", isAdmin, async (req, res) => {
+    try {
+      const member = await storage.getMemberById(req.params.id);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      res.json(await getMemberCredits(member.id));
+    } catch (error) {
+      console.error("Error fetching member credits:", error);
+      res.status(500).json({ message: "Failed to fetch credits" });
+    }
+  });
+
+  // Admin: grant credits (positive) or take them away (negative)
+  app.post("/api/admin/members/:id/credits", isAdmin, async (req, res) => {
+    try {
+      const parsed = adjustCreditsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid credit adjustment" });
+      }
+      const { credits, note, validDays } = parsed.data;
+
+      const member = await storage.getMemberById(req.params.id);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      if (credits > 0) {
+        await storage.addCreditPack({
+          memberId: member.id,
+          source: "grant",
+          name: "Granted by club",
+          creditsTotal: credits,
+          creditsRemaining: credits,
+          price: "0.00",
+          expiresAt: validDays ? new Date(Date.now() + validDays * DAY_MS) : null,
+        }, note);
+      } else {
+        const deducted = await storage.deductCredits(member.id, -credits, note);
+        if (deducted === 0) {
+          return res.status(400).json({ message: "This member has no credits to remove" });
+        }
+      }
+
+      res.json(await getMemberCredits(member.id));
+    } catch (error) {
+      console.error("Error adjusting credits:", error);
+      res.status(500).json({ message: "Failed to adjust credits" });
+    }
+  });
+}
@@ -66,8 +66,20 @@ export async function initializeDatabase() {
       "email_verification_token" varchar(255),
       "password_reset_token" varchar(255),
       "password_reset_expires" timestamp,
+      "has_concession" boolean DEFAULT false,
       "created_at" timestamp DEFAULT now()
     )`,
+    `ALTER TABLE "members" ADD COLUMN IF NOT EXISTS "has_concession" boolean DEFAULT false`,
+    `ALTER TABLE "members" ADD COLUMN IF NOT EXISTS "is_carded" boolean DEFAULT false`,
+    `ALTER TABLE "members" ALTER COLUMN "email" DROP NOT NULL`,
+    `ALTER TABLE "members" ALTER COLUMN "password_hash" DROP NOT NULL`,
+    `ALTER TABLE "members" ADD COLUMN IF NOT EXISTS "guardian_id" varchar REFERENCES "members"("id") ON DELETE SET NULL`,
+    `ALTER TABLE "members" ADD COLUMN IF NOT EXISTS "guardian_consent_at" timestamp`,
+    `ALTER TABLE "members" ADD COLUMN IF NOT EXISTS "england_boxing_number" varchar(50)`,
+    `ALTER TABLE "members" ADD COLUMN IF NOT EXISTS "medical_expires_on" varchar(10)`,
+    `ALTER TABLE "members" ADD COLUMN IF NOT EXISTS "last_competed_on" varchar(10)`,
+    `ALTER TABLE "members" ADD COLUMN IF NOT EXISTS "medical_reminder_sent_for" varchar(10)`,
+    `ALTER TABLE "members" ADD COLUMN IF NOT EXISTS "public_profile" boolean DEFAULT false`,
     `CREATE TABLE IF NOT EXISTS "class_templates" (
       "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
       "day_of_week" integer NOT NULL,
@@ -75,10 +87,21 @@ export async function initializeDatabase() {
       "title" varchar(255) NOT NULL,
       "class_type" varchar(100) NOT NULL,
       "duration" integer DEFAULT 60,
+      "capacity" integer DEFAULT 12,
+      "price" decimal(10,2),
+      "concession_price" decimal(10,2),
       "description" text,
       "is_active" boolean DEFAULT true,
       "created_at" timestamp DEFAULT now()
     )`,
+    `ALTER TABLE "class_templates" ADD COLUMN IF NOT EXISTS "capacity" integer DEFAULT 12`,
+    `ALTER TABLE "class_templates" ADD COLUMN IF NOT EXISTS "price" decimal(10,2)`,
+    `ALTER TABLE "class_templates" ADD COLUMN IF NOT EXISTS "concession_price" decimal(10,2)`,
+    `ALTER TABLE "class_templates" ADD COLUMN IF NOT EXISTS "min_age" integer`,
+    `ALTER TABLE "class_templates" ADD COLUMN IF NOT EXISTS "max_age" integer`,
+    `ALTER TABLE "class_templates" ADD COLUMN IF NOT EXISTS "min_experience_level" varchar(50)`,
+    `ALTER TABLE "class_templates" ADD COLUMN IF NOT EXISTS "requires_carded" boolean DEFAULT false`,
+    `ALTER TABLE "class_templates" ADD COLUMN IF NOT EXISTS "requires_medical" boolean DEFAULT false`,
     `CREATE TABLE IF NOT EXISTS "boxing_classes" (
       "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
       "title" varchar(255) NOT NULL,
@@ -89,10 +112,32 @@ export async function initializeDatabase() {
       "duration" integer DEFAULT 60,
       "capacity" integer DEFAULT 12,
       "booked_count" integer DEFAULT 0,
-      "price" decimal(10,2) DEFAULT 15.00,
+      "price" decimal(10,2) DEFAULT 5.00,
+      "concession_price" decimal(10,2),
       "is_active" boolean DEFAULT true,
       "created_at" timestamp DEFAULT now()
     )`,
+    `ALTER TABLE "boxing_classes" ALTER COLUMN "price" SET DEFAULT 5.00`,
+    `ALTER TABLE "boxing_classes" ADD COLUMN IF NOT EXISTS "concession_price" decimal(10,2)`,
+    `ALTER TABLE "boxing_classes" ADD COLUMN IF NOT EXISTS "starts_at" timestamptz`,
+    `ALTER TABLE "boxing_classes" ADD COLUMN IF NOT EXISTS "min_age" integer`,
+    `ALTER TABLE "boxing_classes" ADD COLUMN IF NOT EXISTS "max_age" integer`,
+    `ALTER TABLE "boxing_classes" ADD COLUMN IF NOT EXISTS "min_experience_level" varchar(50)`,
+    `ALTER TABLE "boxing_classes" ADD COLUMN IF NOT EXISTS "requires_carded" boolean DEFAULT false`,
+    `ALTER TABLE "boxing_classes" ADD COLUMN IF NOT EXISTS "requires_medical" boolean DEFAULT false`,
+    // Link classes generated before templates were tracked to the template with the same day, time and type.
+    // Only when the column is first added - after that a null template_id means an admin split the class off.
+    `DO $$ BEGIN
+      IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns WHERE table_name = 'boxing_classes' AND column_name = 'template_id'
+      ) THEN
+        ALTER TABLE "boxing_classes" ADD COLUMN "template_id" varchar REFERENCES "class_templates"("id") ON DELETE SET NULL;
+        UPDATE "boxing_classes" c SET "template_id" = t."id" FROM "class_templates" t
+          WHERE c."template_id" IS NULL AND c."class_type" = t."class_type" AND c."time" = t."time"
+            AND EXTRACT(DOW FROM c."date"::date) = t."day_of_week";
+      END IF;
+    END $$`,
+    `ALTER TABLE "boxing_classes" ADD COLUMN IF NOT EXISTS "removed_from_series" boolean DEFAULT false`,
     `CREATE TABLE IF NOT EXISTS "bookings" (
       "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
       "member_id" varchar REFERENCES "members"("id"),
@@ -103,15 +148,341 @@ export async function initializeDatabase() {
       "is_free_session" boolean DEFAULT false,
       "price" decimal(10,2) DEFAULT 5.00,
       "booked_at" timestamp DEFAULT now(),
+      "checked_in_at" timestamp,
+      "refund_status" varchar(20),
+      "refund_amount" decimal(10,2),
+      "square_refund_id" varchar(255),
+      "refunded_at" timestamp,
       "member_deleted" boolean DEFAULT false,
       "deleted_member_name" varchar(100)
     )`,
+    `ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "checked_in_at" timestamp`,
+    `ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "refund_status" varchar(20)`,
+    `ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "refund_amount" decimal(10,2)`,
+    `ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "square_refund_id" varchar(255)`,
+    `ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "refunded_at" timestamp`,
+    `CREATE TABLE IF NOT EXISTS "waitlist_entries" (
+      "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      "class_id" varchar NOT NULL REFERENCES "boxing_classes"("id"),
+      "member_id" varchar NOT NULL REFERENCES "members"("id"),
+      "status" varchar(20) DEFAULT 'waiting',
+      "offered_at" timestamp,
+      "offer_expires_at" timestamp,
+      "created_at" timestamp DEFAULT now()
+    )`,
+    // Cancel any later duplicate live waitlist entries so the unique index below can be built
+    `UPDATE "waitlist_entries" w SET "status" = 'cancelled'
+      WHERE w."status" IN ('waiting', 'offered')
+      AND EXISTS (
+        SELECT 1 FROM "waitlist_entries" o
+        WHERE o."member_id" = w."member_id" AND o."class_id" = w."class_id"
+        AND o."status" IN ('waiting', 'offered') AND (o."created_at", o."id") < (w."created_at", w."id")
+      )`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS "waitlist_entries_class_member_live_idx"
+      ON "waitlist_entries" ("class_id", "member_id") WHERE "status" IN ('waiting', 'offered')`,
+    `CREATE TABLE IF NOT EXISTS "kiosk_devices" (
+      "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      "name" varchar(100) NOT NULL,
+      "token_hash" varchar(64) NOT NULL UNIQUE,
+      "is_active" boolean DEFAULT true,
+      "last_seen_at" timestamp,
+      "created_at" timestamp DEFAULT now()
+    )`,
+    `CREATE TABLE IF NOT EXISTS "credit_packs" (
+      "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      "member_id" varchar REFERENCES "members"("id"),
+      "source" varchar(20) NOT NULL,
+      "name" varchar(100) NOT NULL,
+      "credits_total" integer NOT NULL,
+      "credits_remaining" integer NOT NULL,
+      "price" decimal(10,2) DEFAULT 0.00,
+      "square_payment_id" varchar(255),
+      "expires_at" timestamp,
+      "created_at" timestamp DEFAULT now()
+    )`,
+    `CREATE TABLE IF NOT EXISTS "credit_ledger" (
+      "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      "member_id" varchar REFERENCES "members"("id"),
+      "pack_id" varchar REFERENCES "credit_packs"("id"),
+      "booking_id" varchar REFERENCES "bookings"("id"),
+      "change" integer NOT NULL,
+      "reason" varchar(20) NOT NULL,
+      "note" text,
+      "created_at" timestamp DEFAULT now()
+    )`,
+    `CREATE TABLE IF NOT EXISTS "membership_plans" (
+      "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      "name" varchar(100) NOT NULL,
+      "description" text,
+      "price" decimal(10,2) NOT NULL,
+      "interval" varchar(10) NOT NULL DEFAULT 'month',
+      "included_sessions" integer,
+      "is_active" boolean DEFAULT true,
+      "created_at" timestamp DEFAULT now()
+    )`,
+    `CREATE TABLE IF NOT EXISTS "subscriptions" (
+      "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      "member_id" varchar REFERENCES "members"("id"),
+      "plan_id" varchar NOT NULL REFERENCES "membership_plans"("id"),
+      "status" varchar(20) NOT NULL DEFAULT 'active',
+      "square_card_id" varchar(255),
+      "card_brand" varchar(50),
+      "card_last4" varchar(4),
+      "current_period_start" timestamp NOT NULL,
+      "current_period_end" timestamp NOT NULL,
+      "next_billing_attempt_at" timestamp,
+      "failed_attempts" integer DEFAULT 0,
+      "grace_ends_at" timestamp,
+      "cancel_at_period_end" boolean DEFAULT false,
+      "cancelled_at" timestamp,
+      "created_at" timestamp DEFAULT now()
+    )`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS "subscriptions_member_live_idx"
+      ON "subscriptions" ("member_id") WHERE "status" <> 'cancelled'`,
+    `CREATE TABLE IF NOT EXISTS "subscription_payments" (
+      "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      "subscription_id" varchar NOT NULL REFERENCES "subscriptions"("id"),
+      "amount" decimal(10,2) NOT NULL,
+      "status" varchar(20) NOT NULL,
+      "square_payment_id" varchar(255),
+      "error" text,
+      "period_start" timestamp,
+      "period_end" timestamp,
+      "created_at" timestamp DEFAULT now()
+    )`,
+    `CREATE TABLE IF NOT EXISTS "square_webhook_events" (
+      "id" varchar(255) PRIMARY KEY,
+      "type" varchar(100) NOT NULL,
+      "received_at" timestamp DEFAULT now()
+    )`,
+    `CREATE TABLE IF NOT EXISTS "payment_issues" (
+      "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      "square_payment_id" varchar(255) NOT NULL,
+      "booking_id" varchar REFERENCES "bookings"("id"),
+      "kind" varchar(30) NOT NULL,
+      "detail" text NOT NULL,
+      "status" varchar(20) DEFAULT 'open',
+      "created_at" timestamp DEFAULT now(),
+      "resolved_at" timestamp
+    )`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS "payment_issues_open_idx"
+      ON "payment_issues" ("square_payment_id", "kind") WHERE "status" = 'open'`,
+    `CREATE TABLE IF NOT EXISTS "promo_codes" (
+      "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      "code" varchar(40) NOT NULL UNIQUE,
+      "description" text,
+      "discount_type" varchar(10) NOT NULL,
+      "discount_value" decimal(10,2) NOT NULL,
+      "class_types" jsonb,
+      "valid_from" timestamp,
+      "valid_until" timestamp,
+      "max_redemptions" integer,
+      "max_per_member" integer DEFAULT 1,
+      "is_active" boolean DEFAULT true,
+      "created_at" timestamp DEFAULT now()
+    )`,
+    `CREATE TABLE IF NOT EXISTS "promo_redemptions" (
+      "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      "promo_code_id" varchar NOT NULL REFERENCES "promo_codes"("id"),
+      "member_id" varchar REFERENCES "members"("id"),
+      "booking_id" varchar REFERENCES "bookings"("id"),
+      "original_price" decimal(10,2) NOT NULL,
+      "discount_amount" decimal(10,2) NOT NULL,
+      "created_at" timestamp DEFAULT now()
+    )`,
+    `ALTER TABLE "promo_redemptions" ADD COLUMN IF NOT EXISTS "cancelled_at" timestamp`,
+    `UPDATE "promo_redemptions" r SET "cancelled_at" = now()
+      FROM "bookings" b
+      WHERE r."cancelled_at" IS NULL AND r."booking_id" = b."id" AND b."status" = 'cancelled'`,
+    `CREATE TABLE IF NOT EXISTS "gift_vouchers" (
+      "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      "code" varchar(20) NOT NULL UNIQUE,
+      "amount" decimal(10,2) NOT NULL,
+      "balance" decimal(10,2) NOT NULL,
+      "purchaser_member_id" varchar REFERENCES "members"("id"),
+      "purchaser_name" varchar(255) NOT NULL,
+      "recipient_name" varchar(255) NOT NULL,
+      "recipient_email" varchar(255) NOT NULL,
+      "message" text,
+      "square_payment_id" varchar(255),
+      "status" varchar(20) DEFAULT 'active',
+      "voided_at" timestamp,
+      "created_at" timestamp DEFAULT now()
+    )`,
+    `CREATE TABLE IF NOT EXISTS "gift_voucher_ledger" (
+      "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      "voucher_id" varchar NOT NULL REFERENCES "gift_vouchers"("id"),
+      "member_id" varchar REFERENCES "members"("id"),
+      "booking_id" varchar REFERENCES "bookings"("id"),
+      "change" decimal(10,2) NOT NULL,
+      "reason" varchar(30) NOT NULL,
+      "created_at" timestamp DEFAULT now()
+    )`,
+    // Cancel newer duplicate live bookings, keeping the oldest, so the unique index below can be built.
+    // Each cancelled duplicate gets back what it was paid with, the same as a member cancelling it:
+    // its credit, voucher money and promo use. Card payments are left as a failed refund so they
+    // show up on the admin bookings page to be refunded from there.
+    `DO $$
+    DECLARE
+      dup RECORD;
+      spend RECORD;
+    BEGIN
+      FOR dup IN
+        SELECT b.* FROM "bookings" b
+        WHERE b."status" <> 'cancelled' AND b."member_id" IS NOT NULL
+        AND EXISTS (
+          SELECT 1 FROM "bookings" o
+          WHERE o."member_id" = b."member_id" AND o."class_id" = b."class_id"
+          AND o."status" <> 'cancelled' AND (o."booked_at", o."id") < (b."booked_at", b."id")
+        )
+      LOOP
+        UPDATE "bookings" SET "status" = 'cancelled',
+          "refund_status" = CASE
+            WHEN dup."payment_method" = 'card' AND dup."square_payment_id" IS NOT NULL
+              AND NOT coalesce(dup."is_free_session", false) AND coalesce(dup."price", 0) > 0
+              AND dup."refund_status" IS NULL THEN 'failed'
+            ELSE "refund_status" END
+          WHERE "id" = dup."id";
+
+        IF dup."payment_method" = 'credit' THEN
+          FOR spend IN SELECT * FROM "credit_ledger"
+            WHERE "booking_id" = dup."id" AND "reason" = 'booking' AND "pack_id" IS NOT NULL
+          LOOP
+            UPDATE "credit_packs" SET "credits_remaining" = "credits_remaining" + 1 WHERE "id" = spend."pack_id";
+            INSERT INTO "credit_ledger" ("member_id", "pack_id", "booking_id", "change", "reason")
+              VALUES (dup."member_id", spend."pack_id", dup."id", 1, 'cancellation');
+          END LOOP;
+        END IF;
+
+        UPDATE "promo_redemptions" SET "cancelled_at" = now()
+          WHERE "booking_id" = dup."id" AND "cancelled_at" IS NULL;
+
+        FOR spend IN SELECT * FROM "gift_voucher_ledger" WHERE "booking_id" = dup."id" AND "reason" = 'booking'
+        LOOP
+          UPDATE "gift_vouchers" SET "balance" = "balance" + abs(spend."change") WHERE "id" = spend."voucher_id";
+          INSERT INTO "gift_voucher_ledger" ("voucher_id", "member_id", "booking_id", "change", "reason")
+            VALUES (spend."voucher_id", dup."member_id", dup."id", abs(spend."change"), 'cancellation');
+        END LOOP;
+
+        RAISE NOTICE 'Cancelled duplicate booking % for member % on class %', dup."id", dup."member_id", dup."class_id";
+      END LOOP;
+    END $$`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS "bookings_member_class_live_idx"
+      ON "bookings" ("member_id", "class_id") WHERE "status" <> 'cancelled'`,
+    // booked_count is derived from bookings - resync it in case it drifted
+    `UPDATE "boxing_classes" c SET "booked_count" = (
+        SELECT count(*) FROM "bookings" b WHERE b."class_id" = c."id" AND b."status" <> 'cancelled'
+      )`,
+    `CREATE TABLE IF NOT EXISTS "saved_cards" (
+      "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      "member_id" varchar NOT NULL REFERENCES "members"("id"),
+      "square_card_id" varchar(255) NOT NULL UNIQUE,
+      "card_brand" varchar(30),
+      "last4" varchar(4),
+      "exp_month" integer,
+      "exp_year" integer,
+      "created_at" timestamp DEFAULT now()
+    )`,
+    `CREATE TABLE IF NOT EXISTS "cash_sessions" (
+      "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      "class_id" varchar UNIQUE REFERENCES "boxing_classes"("id"),
+      "class_title" varchar(255) NOT NULL,
+      "class_date" varchar(10) NOT NULL,
+      "class_time" varchar(10) NOT NULL,
+      "status" varchar(20) DEFAULT 'open',
+      "expected_amount" decimal(10,2),
+      "counted_amount" decimal(10,2),
+      "collected_by" varchar(255),
+      "closed_by_member_id" varchar REFERENCES "members"("id"),
+      "notes" text,
+      "opened_at" timestamp DEFAULT now(),
+      "closed_at" timestamp
+    )`,
+    `ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "cash_session_id" varchar REFERENCES "cash_sessions"("id")`,
+    `CREATE TABLE IF NOT EXISTS "closures" (
+      "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      "start_date" varchar(10) NOT NULL,
+      "end_date" varchar(10) NOT NULL,
+      "reason" varchar(255) NOT NULL,
+      "created_at" timestamp DEFAULT now()
+    )`,
+    `CREATE TABLE IF NOT EXISTS "receipts" (
+      "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      "receipt_number" integer NOT NULL UNIQUE,
+      "kind" varchar(20) NOT NULL,
+      "source_id" varchar NOT NULL,
+      "member_id" varchar REFERENCES "members"("id"),
+      "member_name" varchar(255) NOT NULL,
+      "member_email" varchar(255),
+      "description" text NOT NULL,
+      "class_date" varchar(10),
+      "class_time" varchar(10),
+      "amount" decimal(10,2) NOT NULL,
+      "payment_method" varchar(30) NOT NULL,
+      "payment_reference" varchar(255),
+      "paid_at" timestamp,
+      "issued_at" timestamp DEFAULT now()
+    )`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS "receipts_source_idx"
+      ON "receipts" ("kind", "source_id")`,
+    `CREATE TABLE IF NOT EXISTS "eligibility_overrides" (
+      "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      "class_id" varchar NOT NULL REFERENCES "boxing_classes"("id") ON DELETE CASCADE,
+      "member_id" varchar NOT NULL REFERENCES "members"("id") ON DELETE CASCADE,
+      "granted_by" varchar REFERENCES "members"("id") ON DELETE SET NULL,
+      "created_at" timestamp DEFAULT now()
+    )`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS "eligibility_overrides_class_member_idx"
+      ON "eligibility_overrides" ("class_id", "member_id")`,
+    `CREATE TABLE IF NOT EXISTS "consent_documents" (
+      "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      "title" varchar(255) NOT NULL,
+      "body" text NOT NULL,
+      "questions" jsonb NOT NULL DEFAULT '[]'::jsonb,
+      "applies_to" varchar(20) NOT NULL DEFAULT 'everyone',
+      "allow_decline" boolean DEFAULT false,
+      "version" integer NOT NULL DEFAULT 1,
+      "is_active" boolean DEFAULT true,
+      "updated_at" timestamp DEFAULT now(),
+      "created_at" timestamp DEFAULT now()
+    )`,
+    `CREATE TABLE IF NOT EXISTS "document_signatures" (
+      "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      "document_id" varchar NOT NULL REFERENCES "consent_documents"("id"),
+      "member_id" varchar NOT NULL REFERENCES "members"("id") ON DELETE CASCADE,
+      "version" integer NOT NULL,
+      "agreed" boolean NOT NULL DEFAULT true,
+      "answers" jsonb,
+      "signature_name" varchar(255) NOT NULL,
+      "signed_by" varchar REFERENCES "members"("id") ON DELETE SET NULL,
+      "signed_at" timestamp DEFAULT now()
+    )`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS "document_signatures_document_member_version_idx"
+      ON "document_signatures" ("document_id", "member_id", "version")`,
+    `CREATE TABLE IF NOT EXISTS "bouts" (
+      "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+      "member_id" varchar NOT NULL REFERENCES "members"("id") ON DELETE CASCADE,
+      "bout_date" varchar(10) NOT NULL,
+      "opponent_name" varchar(255) NOT NULL,
+      "opponent_club" varchar(255),
+      "show_name" varchar(255),
+      "weight_class" varchar(50),
+      "result" varchar(10) NOT NULL,
+      "method" varchar(20) NOT NULL,
+      "notes" text,
+      "created_at" timestamp DEFAULT now()
+    )`,
+    `CREATE INDEX IF NOT EXISTS "bouts_member_id_idx" ON "bouts" ("member_id")`,
     `CREATE TABLE IF NOT EXISTS "site_content" (
       "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
       "key" varchar(100) NOT NULL UNIQUE,
       "content" jsonb NOT NULL,
       "updated_at" timestamp DEFAULT now()
     )`,
+    // Classes from before starts_at existed get it from their date and time on the club's clock
+    `UPDATE "boxing_classes" SET "starts_at" = ("date" || ' ' || "time")::timestamp AT TIME ZONE COALESCE(
+        NULLIF((SELECT "content"->>'timezone' FROM "site_content" WHERE "key" = 'settings'), ''), 'Europe/London')
+      WHERE "starts_at" IS NULL`,
     `CREATE TABLE IF NOT EXISTS "blog_posts" (
       "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
       "title" varchar(255) NOT NULL,
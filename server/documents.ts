@@ -0,0 +1,285 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { isAdmin, isMemberAuthenticated } from "./memberAuth";
+import { getActingMember } from "./guardians";
+import { documentAppliesTo, documentAudiences, type ConsentDocument, type DocumentSignature, type Member } from "@shared/schema";
+
+// Seeded on first run so booking is covered from the start - admins can reword them from the Forms page
+const defaultDocuments = [
+  {
+    title: "Health Questionnaire (PAR-Q)",
+    body: "Boxing is a demanding contact sport. Please answer these questions honestly so our coaches can keep you safe. If anything changes, tell a coach before your next session. If you answer yes to any question, you can still train, but a coach will talk to you first and may ask you to check with your GP.",
+    questions: [
+      "Has a doctor ever said you have a heart condition or high blood pressure?",
+      "Do you get pains in your chest at rest, during daily activities or when you exercise?",
+      "Do you lose your balance because of dizziness, or have you lost consciousness in the last 12 months?",
+      "Have you ever had a head injury or concussion?",
+      "Do you have a bone, joint or soft tissue problem that could be made worse by exercise?",
+      "Are you taking any medication for a chronic condition?",
+      "Is there any other reason you shouldn't take part in physical activity?",
+    ],
+    appliesTo: "everyone",
+    allowDecline: false,
+  },
+  {
+    title: "Parental Consent",
+    body: "I am the parent or guardian of this boxer. I give my consent for them to take part in boxing training at Mill Town ABC, including pad work, bag work, fitness and supervised technical sparring with protective equipment. I understand boxing carries a risk of injury. I agree that coaches may arrange first aid or emergency treatment if they can't reach me.",
+    questions: [],
+    appliesTo: "juniors",
+    allowDecline: false,
+  },
+  {
+    title: "Photography Consent",
+    body: "We sometimes take photos and videos in the gym and at shows for our website and social media. We never publish a junior's full name with their picture. Saying no won't affect your training - we'll just keep you out of anything we share.",
+    questions: [],
+    appliesTo: "everyone",
+    allowDecline: true,
+  },
+];
+
+export async function seedConsentDocuments() {
+  const existing = await storage.getAllConsentDocuments();
+  if (existing.length > 0) return;
+  for (const document of defaultDocuments) {
+    await storage.createConsentDocument(document);
+  }
+  console.log("[Forms] Seeded default consent forms");
+}
+
+const documentSchema = z.object({
+  title: z.string().trim().min(2, "Title is required").max(255, "Title must be under 255 characters"),
+  body: z.string().trim().min(10, "Please enter what the form says"),
+  questions: z.array(z.string().trim()).default([]).transform(questions => questions.filter(q => q !== "")),
+  appliesTo: z.enum(documentAudiences).default("everyone"),
+  allowDecline: z.boolean().default(false),
+  isActive: z.boolean().optional(),
+});
+
+// What members are agreeing to - changing any of it means they have to sign again
+const wordingFields = ["title", "body", "questions", "allowDecline"] as const;
+
+const signatureSchema = z.object({
+  version: z.number().int(),
+  signatureName: z.string().trim().min(2, "Please type your full name to sign").max(255, "Name must be under 255 characters"),
+  agreed: z.boolean().default(true),
+  answers: z.array(z.boolean()).default([]),
+  forMemberId: z.string().optional(),
+});
+
+// Active forms the member still has to sign the current version of
+export async function getOutstandingDocuments(member: Member): Promise<ConsentDocument[]> {
+  const [documents, signatures] = await Promise.all([
+    storage.getActiveConsentDocuments(),
+    storage.getSignaturesByMember(member.id),
+  ]);
+  return documents.filter(document => documentAppliesTo(document, member)
+    && !signatures.some(s => s.documentId === document.id && s.version === document.version));
+}
+
+// Why booking is blocked, or null if the member is all signed up
+export async function getDocumentsBlock(member: Member): Promise<{ message: string; outstandingDocuments: string[] } | null> {
+  const outstanding = await getOutstandingDocuments(member);
+  if (outstanding.length === 0) return null;
+  const titles = outstanding.map(d => d.title);
+  const forWho = member.guardianId ? ` for ${member.name}` : "";
+  return {
+    message: `Please sign the ${titles.join(", ")}${forWho} on your dashboard before booking`,
+    outstandingDocuments: titles,
+  };
+}
+
+// Questions answered "yes" on a signature - coaches follow these up before the boxer trains
+function flaggedQuestions(document: ConsentDocument, signature: DocumentSignature): string[] {
+  return (signature.answers || []).flatMap((answer, i) => answer && document.questions[i] ? [document.questions[i]] : []);
+}
+
+function toMemberForm(document: ConsentDocument, signatures: DocumentSignature[]) {
+  const latest = signatures.find(s => s.documentId === document.id);
+  return {
+    id: document.id,
+    title: document.title,
+    body: document.body,
+    questions: document.questions,
+    allowDecline: document.allowDecline || false,
+    version: document.version,
+    signature: latest ? {
+      version: latest.version,
+      agreed: latest.agreed,
+      signatureName: latest.signatureName,
+      signedAt: latest.signedAt,
+    } : null,
+    outstanding: latest?.version !== document.version,
+  };
+}
+
+export function registerDocumentRoutes(app: Express) {
+  // Member: Forms for the member and each of their juniors, with what's still to sign
+  app.get("/api/members/me/documents", isMemberAuthenticated, async (req, res) => {
+    try {
+      const member = await storage.getMemberById(req.session.memberId!);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      const documents = await storage.getActiveConsentDocuments();
+      const boxers = [member, ...await storage.getDependants(member.id)];
+
+      res.json(await Promise.all(boxers.map(async (boxer) => {
+        const signatures = await storage.getSignaturesByMember(boxer.id);
+        return {
+          memberId: boxer.id,
+          memberName: boxer.name,
+          forms: documents.filter(d => documentAppliesTo(d, boxer)).map(d => toMemberForm(d, signatures)),
+        };
+      })));
+    } catch (error) {
+      console.error("Error fetching member documents:", error);
+      res.status(500).json({ message: "Failed to fetch forms" });
+    }
+  });
+
+  // Member: Sign the current version of a form, for themselves or one of their juniors
+  app.post("/api/members/me/documents/:id/sign", isMemberAuthenticated, async (req, res) => {
+    try {
+      const parsed = signatureSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid signature" });
+      }
+      const { version, signatureName, agreed, answers, forMemberId } = parsed.data;
+
+      const member = await getActingMember(req.session.memberId!, forMemberId);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      const document = await storage.getConsentDocument(req.params.id);
+      if (!document || !document.isActive || !documentAppliesTo(document, member)) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+      if (version !== document.version) {
+        return res.status(409).json({ message: "This form has been updated since you opened it. Please read it again before signing." });
+      }
+      if (!agreed && !document.allowDecline) {
+        return res.status(400).json({ message: "You need to agree to this form to train with the club" });
+      }
+      if (answers.length !== document.questions.length) {
+        return res.status(400).json({ message: "Please answer every question" });
+      }
+
+      const signature = await storage.createDocumentSignature({
+        documentId: document.id,
+        memberId: member.id,
+        version: document.version,
+        agreed,
+        answers: document.questions.length > 0 ? answers : null,
+        signatureName,
+        signedBy: req.session.memberId!,
+      });
+      console.log(`[Forms] "${document.title}" v${document.version} signed for member ${member.id} by ${req.session.memberId}`);
+      res.status(201).json(signature);
+    } catch (error) {
+      console.error("Error signing document:", error);
+      res.status(500).json({ message: "Failed to sign form" });
+    }
+  });
+
+  // Admin: Every form, retired ones included, with how many have signed the current version
+  app.get("/api/admin/documents", isAdmin, async (_req, res) => {
+    try {
+      const [documents, signatures] = await Promise.all([
+        storage.getAllConsentDocuments(),
+        storage.getCurrentDocumentSignatures(),
+      ]);
+      res.json(documents.map(document => ({
+        ...document,
+        signedCount: signatures.filter(s => s.documentId === document.id).length,
+      })));
+    } catch (error) {
+      console.error("Error fetching documents:", error);
+      res.status(500).json({ message: "Failed to fetch forms" });
+    }
+  });
+
+  // Admin: Add a form - everyone it applies to must sign it before they can book
+  app.post("/api/admin/documents", isAdmin, async (req, res) => {
+    try {
+      const parsed = documentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid form" });
+      }
+      const document = await storage.createConsentDocument({ ...parsed.data, version: 1 });
+      res.status(201).json(document);
+    } catch (error) {
+      console.error("Error creating document:", error);
+      res.status(500).json({ message: "Failed to create form" });
+    }
+  });
+
+  // Admin: Edit a form. Rewording it makes a new version that everyone has to sign again;
+  // changing who it applies to or retiring it doesn't.
+  app.put("/api/admin/documents/:id", isAdmin, async (req, res) => {
+    try {
+      const existing = await storage.getConsentDocument(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+      const parsed = documentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid form" });
+      }
+
+      const reworded = wordingFields.some(field =>
+        JSON.stringify(parsed.data[field]) !== JSON.stringify(existing[field] ?? false));
+      const version = reworded ? existing.version + 1 : existing.version;
+      const document = await storage.updateConsentDocument(existing.id, { ...parsed.data, version });
+      if (reworded) {
+        console.log(`[Forms] "${existing.title}" updated to v${version} - members must sign again`);
+      }
+      res.json({
+        document,
+        message: reworded
+          ? `Saved as version ${version}. Members will be asked to sign it again before their next booking.`
+          : "Form saved",
+      });
+    } catch (error) {
+      console.error("Error updating document:", error);
+      res.status(500).json({ message: "Failed to update form" });
+    }
+  });
+
+  // Admin: Who still has forms to sign, and health questions answered "yes" for coaches to follow up
+  app.get("/api/admin/documents/outstanding", isAdmin, async (_req, res) => {
+    try {
+      const [documents, members, signatures] = await Promise.all([
+        storage.getActiveConsentDocuments(),
+        storage.getAllMembers(),
+        storage.getCurrentDocumentSignatures(),
+      ]);
+      const byId = new Map(members.map(m => [m.id, m]));
+
+      const rows = members.map(member => {
+        const signed = signatures.filter(s => s.memberId === member.id);
+        const guardian = member.guardianId ? byId.get(member.guardianId) : undefined;
+        return {
+          id: member.id,
+          name: member.name,
+          contact: guardian ? `Guardian: ${guardian.name}` : member.email,
+          missing: documents
+            .filter(d => documentAppliesTo(d, member) && !signed.some(s => s.documentId === d.id))
+            .map(d => ({ id: d.id, title: d.title })),
+          flagged: signed.flatMap(signature => {
+            const document = documents.find(d => d.id === signature.documentId);
+            const questions = document ? flaggedQuestions(document, signature) : [];
+            return document && questions.length > 0 ? [{ documentId: document.id, title: document.title, questions }] : [];
+          }),
+        };
+      }).filter(row => row.missing.length > 0 || row.flagged.length > 0);
+
+      rows.sort((a, b) => a.name.localeCompare(b.name));
+      res.json(rows);
+    } catch (error) {
+      console.error("Error fetching outstanding documents:", error);
+      res.status(500).json({ message: "Failed to fetch outstanding forms" });
+    }
+  });
+}
@@ -0,0 +1,112 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { isAdmin, isMemberAuthenticated } from "./memberAuth";
+import { getPublicClasses } from "./bookingWindow";
+import { experienceLevels, getEligibilityIssues, type BoxingClass, type Member } from "@shared/schema";
+
+// Blank form fields clear a rule
+const blankAsNull = (value: unknown) => (value === "" ? null : value);
+const ruleAge = z.preprocess(blankAsNull, z.coerce.number().int().min(0).max(100).nullable());
+
+// Rules sent with a template or class. Fields left out are left as they are.
+export const eligibilityRulesSchema = z.object({
+  minAge: ruleAge.optional(),
+  maxAge: ruleAge.optional(),
+  minExperienceLevel: z.preprocess(blankAsNull, z.enum(experienceLevels).nullable()).optional(),
+  requiresCarded: z.boolean().optional(),
+  requiresMedical: z.boolean().optional(),
+}).refine(rules => rules.minAge == null || rules.maxAge == null || rules.minAge <= rules.maxAge, {
+  message: "The minimum age can't be above the maximum",
+});
+
+// Why the member can't book the class - empty when they meet its rules or a coach has let them on anyway
+export async function getBookingIneligibility(member: Member, boxingClass: BoxingClass): Promise<string[]> {
+  const issues = getEligibilityIssues(boxingClass, member, boxingClass.date);
+  if (issues.length === 0) return issues;
+  return (await storage.getEligibilityOverride(boxingClass.id, member.id)) ? [] : issues;
+}
+
+// Upcoming classes the member can't book, keyed by class, with the reasons
+export async function getUpcomingIneligibility(member: Member): Promise<Record<string, string[]>> {
+  const overrides = new Set((await storage.getEligibilityOverridesByMember(member.id)).map(o => o.classId));
+  const ineligible: Record<string, string[]> = {};
+  for (const boxingClass of await getPublicClasses()) {
+    const issues = getEligibilityIssues(boxingClass, member, boxingClass.date);
+    if (issues.length > 0 && !overrides.has(boxingClass.id)) ineligible[boxingClass.id] = issues;
+  }
+  return ineligible;
+}
+
+export function registerEligibilityRoutes(app: Express) {
+  // Member: Upcoming classes the member can't book, with the reasons
+  app.get("/api/members/me/class-eligibility", isMemberAuthenticated, async (req, res) => {
+    try {
+      const member = await storage.getMemberById(req.session.memberId!);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      res.json(await getUpcomingIneligibility(member));
+    } catch (error) {
+      console.error("Error fetching class eligibility:", error);
+      res.status(500).json({ message: "Failed to fetch class eligibility" });
+    }
+  });
+
+  // Admin: Members let onto a class despite its rules
+  app.get("/api/admin/classes/:id/eligibility-overrides", isAdmin, async (req, res) => {
+    try {
+      const overrides = await storage.getEligibilityOverridesByClass(req.params.id);
+      const withNames = await Promise.all(overrides.map(async (override) => {
+        const member = await storage.getMemberById(override.memberId);
+        return { ...override, memberName: member?.name || "Unknown" };
+      }));
+      res.json(withNames);
+    } catch (error) {
+      console.error("Error fetching eligibility overrides:", error);
+      res.status(500).json({ message: "Failed to fetch overrides" });
+    }
+  });
+
+  // Admin: Let a member book this one class even though they don't meet its rules
+  app.post("/api/admin/classes/:id/eligibility-overrides", isAdmin, async (req, res) => {
+    try {
+      const { memberId } = req.body;
+      if (!memberId) {
+        return res.status(400).json({ message: "Member is required" });
+      }
+      const [boxingClass, member] = await Promise.all([storage.getClass(req.params.id), storage.getMemberById(memberId)]);
+      if (!boxingClass) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      const override = await storage.createEligibilityOverride({
+        classId: boxingClass.id,
+        memberId: member.id,
+        grantedBy: req.session.memberId || null,
+      });
+      console.log(`[Eligibility] Member ${member.id} allowed onto class ${boxingClass.id} by ${req.session.memberId}`);
+      res.status(201).json({ ...override, memberName: member.name });
+    } catch (error) {
+      console.error("Error creating eligibility override:", error);
+      res.status(500).json({ message: "Failed to allow member" });
+    }
+  });
+
+  // Admin: Withdraw an override - bookings already made stand
+  app.delete("/api/admin/eligibility-overrides/:id", isAdmin, async (req, res) => {
+    try {
+      const deleted = await storage.deleteEligibilityOverride(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Override not found" });
+      }
+      res.json({ message: "Override removed" });
+    } catch (error) {
+      console.error("Error deleting eligibility override:", error);
+      res.status(500).json({ message: "Failed to remove override" });
+    }
+  });
+}
@@ -165,6 +165,11 @@ function statusBadge(text: string, color: string, bgColor: string): string {
   return `<span style="display: inline-block; font-family: 'Inter', sans-serif; font-size: 11px; font-weight: 700; color: ${color}; background-color: ${bgColor}; padding: 4px 12px; border-radius: 20px; letter-spacing: 1px; text-transform: uppercase;">${text}</span>`;
 }
 
+// Names the junior the place is for - their emails go to the guardian
+function boxerRows(boxerName?: string): { label: string; value: string }[] {
+  return boxerName ? [{ label: 'Boxer', value: boxerName }] : [];
+}
+
 function alertBox(message: string, type: 'info' | 'warning' | 'success'): string {
   const colors = {
     info: { bg: '#1e293b', border: '#3b82f6', icon: 'ℹ️', text: '#93c5fd' },
@@ -181,15 +186,28 @@ function alertBox(message: string, type: 'info' | 'warning' | 'success'): string
   </table>`;
 }
 
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+}
+
 interface BookingEmailData {
   memberName: string;
   memberEmail: string;
+  // Set when the email goes to a guardian about their junior's place
+  boxerName?: string;
   sessionTitle: string;
   sessionDate: string;
   sessionTime: string;
   isFreeSession: boolean;
-  paymentType: 'card' | 'cash' | 'free';
+  paymentType: 'card' | 'cash' | 'free' | 'credit' | 'subscription' | 'promo' | 'voucher';
   price: string;
+  creditsLeft?: number;
+  promoCode?: string;
+  promoDiscount?: string;
+  giftVoucherCode?: string;
+  giftVoucherAmount?: string;
+  receipt?: EmailAttachment;
 }
 
 export async function sendBookingConfirmationEmail(data: BookingEmailData): Promise<boolean> {
@@ -220,6 +238,44 @@ export async function sendBookingConfirmationEmail(data: BookingEmailData): Prom
       `<strong>Pay cash on arrival.</strong><br>Please bring £${data.price} in cash to pay when you arrive. Exact change appreciated!`,
       'warning'
     );
+  } else if (data.paymentType === 'credit') {
+    priceDisplay = statusBadge('1 CREDIT', '#ffffff', '#22c55e');
+    subjectEmoji = '';
+    paymentSection = alertBox(
+      `<strong>Paid with a session credit.</strong><br>You have ${data.creditsLeft ?? 0} credit${data.creditsLeft === 1 ? '' : 's'} left.`,
+      'success'
+    );
+  } else if (data.paymentType === 'subscription') {
+    priceDisplay = statusBadge('MEMBERSHIP', '#ffffff', '#22c55e');
+    subjectEmoji = '';
+    paymentSection = alertBox(
+      '<strong>Included in your membership.</strong><br>Nothing to pay — just turn up and train!',
+      'success'
+    );
+  } else if (data.paymentType === 'promo') {
+    priceDisplay = statusBadge('PROMO', '#ffffff', '#22c55e');
+    subjectEmoji = '';
+    paymentSection = alertBox(
+      `<strong>Covered by promo code ${data.promoCode}.</strong><br>Nothing to pay — just turn up and train!`,
+      'success'
+    );
+  } else if (data.paymentType === 'voucher') {
+    priceDisplay = statusBadge('GIFT VOUCHER', '#ffffff', '#22c55e');
+    subjectEmoji = '';
+    paymentSection = alertBox(
+      `<strong>Paid with gift voucher ${data.giftVoucherCode}.</strong><br>£${data.giftVoucherAmount} came off the voucher — nothing else to pay!`,
+      'success'
+    );
+  }
+
+  if (data.promoCode && data.promoDiscount && data.paymentType !== 'promo') {
+    paymentSection += alertBox(`Promo code <strong>${data.promoCode}</strong> saved you £${data.promoDiscount}.`, 'info');
+  }
+  if (data.giftVoucherCode && data.giftVoucherAmount && data.paymentType !== 'voucher') {
+    paymentSection += alertBox(`£${data.giftVoucherAmount} was paid from gift voucher <strong>${data.giftVoucherCode}</strong>.`, 'info');
+  }
+  if (data.receipt) {
+    paymentSection += alertBox(`Your receipt is attached. You can download it again from your dashboard at any time.`, 'info');
   }
 
   const bodyContent = `
@@ -228,6 +284,7 @@ export async function sendBookingConfirmationEmail(data: BookingEmailData): Prom
       
       ${infoCard('Session Details', [
         { label: 'Class', value: data.sessionTitle },
+        ...boxerRows(data.boxerName),
         { label: 'Date', value: data.sessionDate },
         { label: 'Time', value: data.sessionTime },
         { label: 'Price', value: priceDisplay },
@@ -277,6 +334,7 @@ export async function sendBookingConfirmationEmail(data: BookingEmailData): Prom
       to: data.memberEmail,
       subject: `${subjectEmoji}Booking Confirmed - ${data.sessionTitle} on ${data.sessionDate}`,
       html: htmlContent,
+      attachments: data.receipt ? [data.receipt] : undefined,
     });
     
     console.log("[Email] Confirmation email sent successfully to:", data.memberEmail, "Result:", JSON.stringify(result));
@@ -290,10 +348,13 @@ export async function sendBookingConfirmationEmail(data: BookingEmailData): Prom
 interface CancellationEmailData {
   memberName: string;
   memberEmail: string;
+  boxerName?: string;
   sessionTitle: string;
   sessionDate: string;
   sessionTime: string;
   freeSessionRestored: boolean;
+  refundStatus?: 'refunded' | 'failed' | 'not_eligible' | null;
+  refundAmount?: string;
 }
 
 export async function sendCancellationEmail(data: CancellationEmailData): Promise<boolean> {
@@ -305,6 +366,16 @@ export async function sendCancellationEmail(data: CancellationEmailData): Promis
       '<strong>Good news!</strong> Your free first session has been restored. You can use it on your next booking.',
       'success'
     );
+  } else if (data.refundStatus === 'refunded') {
+    extraInfo = alertBox(
+      `<strong>Refund issued:</strong> £${data.refundAmount} has been refunded to your card. It usually takes 5-10 working days to appear on your statement.`,
+      'success'
+    );
+  } else if (data.refundStatus === 'not_eligible') {
+    extraInfo = alertBox(
+      '<strong>No refund:</strong> This booking was cancelled less than 1 hour before the session, so the payment is non-refundable.',
+      'warning'
+    );
   } else {
     extraInfo = alertBox(
       '<strong>Refunds:</strong> If you paid by card and are eligible for a refund, please contact us at <a href="mailto:Milltownabc@gmail.com" style="color: #93c5fd;">Milltownabc@gmail.com</a> or speak to a coach at the gym.',
@@ -318,6 +389,7 @@ export async function sendCancellationEmail(data: CancellationEmailData): Promis
       
       ${infoCard('Cancelled Session', [
         { label: 'Class', value: data.sessionTitle },
+        ...boxerRows(data.boxerName),
         { label: 'Date', value: data.sessionDate },
         { label: 'Time', value: data.sessionTime },
         { label: 'Status', value: statusBadge('Cancelled', '#ffffff', '#6b7280') },
@@ -354,6 +426,451 @@ export async function sendCancellationEmail(data: CancellationEmailData): Promis
   }
 }
 
+interface ClassCancelledEmailData {
+  memberName: string;
+  memberEmail: string;
+  boxerName?: string;
+  sessionTitle: string;
+  sessionDate: string;
+  sessionTime: string;
+  reason: string;
+  // What happened to what they paid - card refund, a session credit instead, or money put back where it came from
+  refundStatus?: 'refunded' | 'failed' | null;
+  refundAmount?: string;
+  creditGiven: boolean;
+  creditReturned: boolean;
+  voucherRestored: boolean;
+  freeSessionRestored: boolean;
+}
+
+export async function sendClassCancelledEmail(data: ClassCancelledEmailData): Promise<boolean> {
+  console.log("[Email] Attempting to send class cancelled email to:", data.memberEmail);
+
+  let paymentInfo = '';
+  if (data.refundStatus === 'refunded') {
+    paymentInfo += alertBox(
+      `<strong>Refund issued:</strong> £${data.refundAmount} has been refunded to your card. It usually takes 5-10 working days to appear on your statement.`,
+      'success'
+    );
+  } else if (data.refundStatus === 'failed') {
+    paymentInfo += alertBox(
+      '<strong>Refund on its way:</strong> We couldn\'t refund your card automatically, so a coach will sort it out for you. Reply to this email if you have any questions.',
+      'warning'
+    );
+  }
+  if (data.creditGiven) {
+    paymentInfo += alertBox('<strong>Session credit added:</strong> We\'ve added a free session credit to your account. Use it on any class.', 'success');
+  }
+  if (data.creditReturned) {
+    paymentInfo += alertBox('<strong>Credit returned:</strong> The session credit you used is back in your account.', 'success');
+  }
+  if (data.voucherRestored) {
+    paymentInfo += alertBox('<strong>Gift voucher topped back up:</strong> What you spent from your voucher is back on it.', 'success');
+  }
+  if (data.freeSessionRestored) {
+    paymentInfo += alertBox('<strong>Free session restored:</strong> You can still use your free first session on your next booking.', 'success');
+  }
+
+  const bodyContent = `
+      <span style="font-family: 'Inter', sans-serif; font-size: 24px; font-weight: 800; color: #ffffff; display: block; margin-bottom: 8px;">Class Cancelled</span>
+      <span style="font-family: 'Inter', sans-serif; font-size: 14px; color: #888888; display: block; margin-bottom: 24px;">Hi ${data.memberName}, sorry - this session won't be going ahead.</span>
+      
+      ${infoCard('Cancelled Session', [
+        { label: 'Class', value: data.sessionTitle },
+        ...boxerRows(data.boxerName),
+        { label: 'Date', value: data.sessionDate },
+        { label: 'Time', value: data.sessionTime },
+        { label: 'Reason', value: data.reason },
+        { label: 'Status', value: statusBadge('Cancelled', '#ffffff', '#6b7280') },
+      ])}
+      
+      ${paymentInfo}
+
+      <span style="font-family: 'Inter', sans-serif; font-size: 15px; color: #888888; display: block; margin-top: 24px;">Visit our website to book another session.</span>
+      <span style="font-family: 'Inter', sans-serif; font-size: 15px; color: #888888; display: block; margin-top: 8px;">See you soon!</span>
+  `;
+
+  const htmlContent = emailLayout(
+    'Class Cancelled - Mill Town ABC',
+    `${data.sessionTitle} on ${data.sessionDate} is cancelled: ${data.reason}.`,
+    bodyContent
+  );
+
+  try {
+    const { client, fromEmail } = await getResendClient();
+    
+    const result = await client.emails.send({
+      from: fromEmail,
+      replyTo: 'Milltownabc@gmail.com',
+      to: data.memberEmail,
+      subject: `Class Cancelled - ${data.sessionTitle} on ${data.sessionDate}`,
+      html: htmlContent,
+    });
+    
+    console.log("[Email] Class cancelled email sent successfully to:", data.memberEmail, "Result:", JSON.stringify(result));
+    return true;
+  } catch (error: any) {
+    console.error("[Email] Failed to send class cancelled email:", error?.message || error);
+    return false;
+  }
+}
+
+export interface ClassChange {
+  label: string;
+  from: string;
+  to: string;
+}
+
+interface ClassChangedEmailData {
+  memberName: string;
+  memberEmail: string;
+  boxerName?: string;
+  sessionTitle: string;
+  sessionDate: string;
+  sessionTime: string;
+  changes: ClassChange[];
+}
+
+export async function sendClassChangedEmail(data: ClassChangedEmailData): Promise<boolean> {
+  console.log("[Email] Attempting to send class changed email to:", data.memberEmail);
+
+  const bodyContent = `
+      <span style="font-family: 'Inter', sans-serif; font-size: 24px; font-weight: 800; color: #ffffff; display: block; margin-bottom: 8px;">Class Changed</span>
+      <span style="font-family: 'Inter', sans-serif; font-size: 14px; color: #888888; display: block; margin-bottom: 24px;">Hi ${data.memberName}, a session you're booked on has changed. Your place is still booked.</span>
+      
+      ${infoCard('What\'s Changed', data.changes.map(change => ({
+        label: change.label,
+        value: `${change.to} <span style="color: #888888;">(was ${change.from})</span>`,
+      })))}
+
+      ${infoCard('Your Session', [
+        { label: 'Class', value: data.sessionTitle },
+        ...boxerRows(data.boxerName),
+        { label: 'Date', value: data.sessionDate },
+        { label: 'Time', value: data.sessionTime },
+        { label: 'Status', value: statusBadge('Booked', '#ffffff', '#22c55e') },
+      ])}
+
+      <span style="font-family: 'Inter', sans-serif; font-size: 15px; color: #888888; display: block; margin-top: 24px;">If the new arrangements don't suit you, you can cancel from your dashboard.</span>
+      <span style="font-family: 'Inter', sans-serif; font-size: 15px; color: #888888; display: block; margin-top: 8px;">See you soon!</span>
+  `;
+
+  const htmlContent = emailLayout(
+    'Class Changed - Mill Town ABC',
+    `${data.sessionTitle} on ${data.sessionDate} has changed.`,
+    bodyContent
+  );
+
+  try {
+    const { client, fromEmail } = await getResendClient();
+    
+    const result = await client.emails.send({
+      from: fromEmail,
+      replyTo: 'Milltownabc@gmail.com',
+      to: data.memberEmail,
+      subject: `Class Changed - ${data.sessionTitle} on ${data.sessionDate}`,
+      html: htmlContent,
+    });
+    
+    console.log("[Email] Class changed email sent successfully to:", data.memberEmail, "Result:", JSON.stringify(result));
+    return true;
+  } catch (error: any) {
+    console.error("[Email] Failed to send class changed email:", error?.message || error);
+    return false;
+  }
+}
+
+interface WaitlistOfferEmailData {
+  memberName: string;
+  memberEmail: string;
+  boxerName?: string;
+  sessionTitle: string;
+  sessionDate: string;
+  sessionTime: string;
+  claimBy: string;
+  bookingUrl: string;
+}
+
+export async function sendWaitlistOfferEmail(data: WaitlistOfferEmailData): Promise<boolean> {
+  console.log("[Email] Attempting to send waitlist offer email to:", data.memberEmail);
+
+  const bodyContent = `
+      <span style="font-family: 'Inter', sans-serif; font-size: 24px; font-weight: 800; color: #ffffff; display: block; margin-bottom: 8px;">A Place Has Opened Up</span>
+      <span style="font-family: 'Inter', sans-serif; font-size: 14px; color: #888888; display: block; margin-bottom: 24px;">Hi ${data.memberName}, someone has cancelled and you're next on the waitlist!</span>
+      
+      ${infoCard('Session Details', [
+        { label: 'Class', value: data.sessionTitle },
+        ...boxerRows(data.boxerName),
+        { label: 'Date', value: data.sessionDate },
+        { label: 'Time', value: data.sessionTime },
+        { label: 'Status', value: statusBadge('Place Held', '#1a1a1a', '#f59e0b') },
+      ])}
+
+      ${alertBox(
+        `<strong>We're holding this place until ${data.claimBy}.</strong><br>Book (and pay, for paid sessions) before then to secure it. After that the place goes to the next person on the list.`,
+        'warning'
+      )}
+
+      ${ctaButton('Claim My Place', data.bookingUrl)}
+
+      <span style="font-family: 'Inter', sans-serif; font-size: 15px; color: #888888; display: block; margin-top: 24px;">Can't make it any more? No need to do anything — the offer will simply expire.</span>
+  `;
+
+  const htmlContent = emailLayout(
+    'Waitlist Place Available - Mill Town ABC',
+    `A place has opened up in ${data.sessionTitle} on ${data.sessionDate}.`,
+    bodyContent
+  );
+
+  try {
+    const { client, fromEmail } = await getResendClient();
+    
+    const result = await client.emails.send({
+      from: fromEmail,
+      replyTo: 'Milltownabc@gmail.com',
+      to: data.memberEmail,
+      subject: `Place Available - ${data.sessionTitle} on ${data.sessionDate}`,
+      html: htmlContent,
+    });
+    
+    console.log("[Email] Waitlist offer email sent successfully to:", data.memberEmail, "Result:", JSON.stringify(result));
+    return true;
+  } catch (error: any) {
+    console.error("[Email] Failed to send waitlist offer email:", error?.message || error);
+    return false;
+  }
+}
+
+interface SubscriptionPaymentFailedEmailData {
+  memberName: string;
+  memberEmail: string;
+  planName: string;
+  amount: string;
+  graceEndsOn: string;
+  manageUrl: string;
+}
+
+export async function sendSubscriptionPaymentFailedEmail(data: SubscriptionPaymentFailedEmailData): Promise<boolean> {
+  console.log("[Email] Attempting to send subscription payment failed email to:", data.memberEmail);
+
+  const bodyContent = `
+      <span style="font-family: 'Inter', sans-serif; font-size: 24px; font-weight: 800; color: #ffffff; display: block; margin-bottom: 8px;">Membership Payment Failed</span>
+      <span style="font-family: 'Inter', sans-serif; font-size: 14px; color: #888888; display: block; margin-bottom: 24px;">Hi ${data.memberName}, we couldn't take your membership payment.</span>
+      
+      ${infoCard('Membership', [
+        { label: 'Plan', value: data.planName },
+        { label: 'Amount', value: `£${data.amount}` },
+        { label: 'Status', value: statusBadge('Payment Due', '#1a1a1a', '#f59e0b') },
+      ])}
+
+      ${alertBox(
+        `<strong>You can keep training until ${data.graceEndsOn}.</strong><br>We'll try your card again each day. If payment still hasn't gone through by then, your membership will be suspended.`,
+        'warning'
+      )}
+
+      ${ctaButton('Update My Card', data.manageUrl)}
+  `;
+
+  const htmlContent = emailLayout(
+    'Membership Payment Failed - Mill Town ABC',
+    `We couldn't take your ${data.planName} payment.`,
+    bodyContent
+  );
+
+  try {
+    const { client, fromEmail } = await getResendClient();
+    
+    const result = await client.emails.send({
+      from: fromEmail,
+      replyTo: 'Milltownabc@gmail.com',
+      to: data.memberEmail,
+      subject: `Membership Payment Failed - ${data.planName}`,
+      html: htmlContent,
+    });
+    
+    console.log("[Email] Subscription payment failed email sent successfully to:", data.memberEmail, "Result:", JSON.stringify(result));
+    return true;
+  } catch (error: any) {
+    console.error("[Email] Failed to send subscription payment failed email:", error?.message || error);
+    return false;
+  }
+}
+
+interface SubscriptionSuspendedEmailData {
+  memberName: string;
+  memberEmail: string;
+  planName: string;
+  manageUrl: string;
+}
+
+export async function sendSubscriptionSuspendedEmail(data: SubscriptionSuspendedEmailData): Promise<boolean> {
+  console.log("[Email] Attempting to send subscription suspended email to:", data.memberEmail);
+
+  const bodyContent = `
+      <span style="font-family: 'Inter', sans-serif; font-size: 24px; font-weight: 800; color: #ffffff; display: block; margin-bottom: 8px;">Membership Suspended</span>
+      <span style="font-family: 'Inter', sans-serif; font-size: 14px; color: #888888; display: block; margin-bottom: 24px;">Hi ${data.memberName}, your ${data.planName} membership has been suspended because we couldn't take payment.</span>
+
+      ${alertBox(
+        `<strong>Bookings on your plan are paused.</strong><br>Add a new card to restart your membership straight away, or pay per session in the meantime.`,
+        'warning'
+      )}
+
+      ${ctaButton('Restart My Membership', data.manageUrl)}
+  `;
+
+  const htmlContent = emailLayout(
+    'Membership Suspended - Mill Town ABC',
+    `Your ${data.planName} membership has been suspended.`,
+    bodyContent
+  );
+
+  try {
+    const { client, fromEmail } = await getResendClient();
+    
+    const result = await client.emails.send({
+      from: fromEmail,
+      replyTo: 'Milltownabc@gmail.com',
+      to: data.memberEmail,
+      subject: `Membership Suspended - ${data.planName}`,
+      html: htmlContent,
+    });
+    
+    console.log("[Email] Subscription suspended email sent successfully to:", data.memberEmail, "Result:", JSON.stringify(result));
+    return true;
+  } catch (error: any) {
+    console.error("[Email] Failed to send subscription suspended email:", error?.message || error);
+    return false;
+  }
+}
+
+interface MedicalExpiryEmailData {
+  recipientName: string;
+  recipientEmail: string;
+  boxerName: string;
+  registrationNumber?: string | null;
+  expiresOn: string;
+  // The coach's copy names the boxer; the boxer's (or their guardian's) tells them what to do
+  forCoach: boolean;
+}
+
+export async function sendMedicalExpiryEmail(data: MedicalExpiryEmailData): Promise<boolean> {
+  console.log("[Email] Attempting to send medical expiry email to:", data.recipientEmail);
+
+  const intro = data.forCoach
+    ? `Hi ${data.recipientName}, ${data.boxerName}'s England Boxing medical expires in the next 30 days.`
+    : `Hi ${data.recipientName}, ${data.boxerName === data.recipientName ? "your" : `${data.boxerName}'s`} England Boxing medical expires soon.`;
+
+  const bodyContent = `
+      <span style="font-family: 'Inter', sans-serif; font-size: 24px; font-weight: 800; color: #ffffff; display: block; margin-bottom: 8px;">Medical Expiring Soon</span>
+      <span style="font-family: 'Inter', sans-serif; font-size: 14px; color: #888888; display: block; margin-bottom: 24px;">${intro}</span>
+
+      ${infoCard('Carded Boxer', [
+        { label: 'Boxer', value: data.boxerName },
+        ...(data.registrationNumber ? [{ label: 'England Boxing No.', value: data.registrationNumber }] : []),
+        { label: 'Medical Expires', value: data.expiresOn },
+        { label: 'Status', value: statusBadge('Renewal Due', '#1a1a1a', '#f59e0b') },
+      ])}
+
+      ${alertBox(
+        data.forCoach
+          ? `<strong>Once it expires they can't book senior classes.</strong><br>Update the expiry date on their profile when the new medical comes through.`
+          : `<strong>Book a medical before ${data.expiresOn} to keep boxing.</strong><br>Senior classes need an in-date medical. Let a coach know once it's renewed and we'll update your profile.`,
+        'warning'
+      )}
+  `;
+
+  const htmlContent = emailLayout(
+    'Medical Expiring Soon - Mill Town ABC',
+    `${data.boxerName}'s England Boxing medical expires on ${data.expiresOn}.`,
+    bodyContent
+  );
+
+  try {
+    const { client, fromEmail } = await getResendClient();
+    
+    const result = await client.emails.send({
+      from: fromEmail,
+      replyTo: 'Milltownabc@gmail.com',
+      to: data.recipientEmail,
+      subject: `Medical Expiring - ${data.boxerName} (${data.expiresOn})`,
+      html: htmlContent,
+    });
+    
+    console.log("[Email] Medical expiry email sent successfully to:", data.recipientEmail, "Result:", JSON.stringify(result));
+    return true;
+  } catch (error: any) {
+    console.error("[Email] Failed to send medical expiry email:", error?.message || error);
+    return false;
+  }
+}
+
+interface GiftVoucherEmailData {
+  recipientName: string;
+  recipientEmail: string;
+  purchaserName: string;
+  amount: string;
+  code: string;
+  message?: string | null;
+  bookingUrl: string;
+}
+
+// The purchaser writes the message, so it's escaped before going into someone else's inbox
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export async function sendGiftVoucherEmail(data: GiftVoucherEmailData): Promise<boolean> {
+  console.log("[Email] Attempting to send gift voucher email to:", data.recipientEmail);
+
+  const purchaserName = escapeHtml(data.purchaserName);
+  const bodyContent = `
+      <span style="font-family: 'Inter', sans-serif; font-size: 24px; font-weight: 800; color: #ffffff; display: block; margin-bottom: 8px;">You've Been Given a Gift Voucher</span>
+      <span style="font-family: 'Inter', sans-serif; font-size: 14px; color: #888888; display: block; margin-bottom: 24px;">Hi ${escapeHtml(data.recipientName)}, ${purchaserName} has bought you boxing sessions at Mill Town ABC!</span>
+
+      ${infoCard('Your Voucher', [
+        { label: 'Value', value: `£${data.amount}` },
+        { label: 'Code', value: statusBadge(data.code, '#1a1a1a', '#f59e0b') },
+      ])}
+
+      ${data.message ? alertBox(`<strong>A message from ${purchaserName}:</strong><br>${escapeHtml(data.message).replace(/\n/g, '<br>')}`, 'info') : ''}
+
+      ${alertBox(
+        '<strong>How to use it:</strong><br>Create an account, pick a session and enter the code when you pay. The value comes off the price and anything left stays on the code for next time.',
+        'success'
+      )}
+
+      ${ctaButton('Book a Session', data.bookingUrl)}
+  `;
+
+  const htmlContent = emailLayout(
+    'Gift Voucher - Mill Town ABC',
+    `${data.purchaserName} has sent you a £${data.amount} Mill Town ABC gift voucher.`,
+    bodyContent
+  );
+
+  try {
+    const { client, fromEmail } = await getResendClient();
+
+    const result = await client.emails.send({
+      from: fromEmail,
+      replyTo: 'Milltownabc@gmail.com',
+      to: data.recipientEmail,
+      subject: `Your £${data.amount} Mill Town ABC Gift Voucher`,
+      html: htmlContent,
+    });
+
+    console.log("[Email] Gift voucher email sent successfully to:", data.recipientEmail, "Result:", JSON.stringify(result));
+    return true;
+  } catch (error: any) {
+    console.error("[Email] Failed to send gift voucher email:", error?.message || error);
+    return false;
+  }
+}
+
 interface PasswordResetEmailData {
   memberName: string;
   memberEmail: string;
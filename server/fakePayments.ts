@@ -0,0 +1,145 @@
+import fs from "fs";
+import type {
+  PaymentProvider, CreatePaymentParams, PaymentResult, RefundPaymentParams, RefundResult,
+  CustomerResult, SavedCardResult, PaymentSummary,
+} from "./paymentProvider";
+
+// The fake card form sends one of these tokens instead of a Square nonce - the token decides the outcome
+const FAKE_CARD_TOKENS = {
+  approve: "fake:approve",
+  decline: "fake:decline",
+  verify: "fake:verify", // only approved when the buyer-verification token comes with it
+} as const;
+const FAKE_VERIFICATION_TOKEN = "fake:verified";
+
+interface FakePayment {
+  id: string;
+  amount: number;
+  refundedAmount: number;
+  createdAt: Date;
+  note: string;
+}
+
+// IDs count up from 1, so the same sequence of calls always produces the same results. The ledger is
+// kept in a local file so IDs carry on across restarts instead of repeating ones already stored against
+// bookings, and saved cards keep working. Delete the file to start again.
+const LEDGER_FILE = process.env.FAKE_PAYMENTS_FILE || "./.fake-payments.json";
+
+interface FakeLedger {
+  counters: { payment: number; refund: number; customer: number; card: number };
+  payments: Record<string, FakePayment>;
+  cards: Record<string, { customerId: string; last4: string }>;
+}
+
+let loadedLedger: FakeLedger | null = null;
+
+function ledger(): FakeLedger {
+  if (!loadedLedger) {
+    loadedLedger = fs.existsSync(LEDGER_FILE)
+      ? JSON.parse(fs.readFileSync(LEDGER_FILE, "utf8"), (key, value) => key === "createdAt" ? new Date(value) : value)
+      : { counters: { payment: 0, refund: 0, customer: 0, card: 0 }, payments: {}, cards: {} };
+  }
+  return loadedLedger!;
+}
+
+function saveLedger() {
+  fs.writeFileSync(LEDGER_FILE, JSON.stringify(ledger(), null, 2));
+}
+
+function nextId(kind: keyof FakeLedger["counters"]): string {
+  const { counters } = ledger();
+  counters[kind] += 1;
+  saveLedger();
+  return `fake-${kind}-${counters[kind]}`;
+}
+
+// Saved cards always approve; tokens approve, decline or demand verification as named
+function checkSource(sourceId: string, verificationToken?: string): string | null {
+  if (ledger().cards[sourceId] || sourceId === FAKE_CARD_TOKENS.approve) return null;
+  if (sourceId === FAKE_CARD_TOKENS.decline) return "Card declined";
+  if (sourceId === FAKE_CARD_TOKENS.verify) {
+    return verificationToken === FAKE_VERIFICATION_TOKEN ? null : "Card requires buyer verification";
+  }
+  return "Unknown test card";
+}
+
+async function createPayment(params: CreatePaymentParams): Promise<PaymentResult> {
+  const error = checkSource(params.sourceId, params.verificationToken);
+  if (error) {
+    console.log(`[FakePayments] Declined ${params.amount}p: ${error}`);
+    return { success: false, error };
+  }
+
+  const payment: FakePayment = {
+    id: nextId("payment"),
+    amount: params.amount,
+    refundedAmount: 0,
+    createdAt: new Date(),
+    note: params.note || `Mill Town ABC - Class Booking ${params.bookingId || ""}`,
+  };
+  ledger().payments[payment.id] = payment;
+  saveLedger();
+  console.log(`[FakePayments] Approved ${params.amount}p as ${payment.id}`);
+  return { success: true, paymentId: payment.id, status: "COMPLETED" };
+}
+
+async function refundPayment(params: RefundPaymentParams): Promise<RefundResult> {
+  const payment = ledger().payments[params.paymentId];
+  if (!payment) {
+    return { success: false, error: "Payment not found" };
+  }
+  if (payment.refundedAmount + params.amount > payment.amount) {
+    return { success: false, error: "Refund exceeds the amount paid" };
+  }
+
+  payment.refundedAmount += params.amount;
+  saveLedger();
+  return { success: true, refundId: nextId("refund"), status: "COMPLETED" };
+}
+
+async function createCustomer(_email: string, _name: string, _phone?: string): Promise<CustomerResult> {
+  return { success: true, customerId: nextId("customer") };
+}
+
+async function saveCardOnFile(customerId: string, sourceId: string, verificationToken?: string): Promise<SavedCardResult> {
+  const error = checkSource(sourceId, verificationToken);
+  if (error) {
+    return { success: false, error };
+  }
+
+  const cardId = nextId("card");
+  const last4 = String(1000 + ledger().counters.card).slice(-4);
+  ledger().cards[cardId] = { customerId, last4 };
+  saveLedger();
+  return { success: true, cardId, cardBrand: "VISA", last4, expMonth: 12, expYear: new Date().getFullYear() + 3 };
+}
+
+async function disableCard(cardId: string): Promise<{ success: boolean; error?: string }> {
+  delete ledger().cards[cardId];
+  saveLedger();
+  return { success: true };
+}
+
+async function listPayments(beginTime: Date, endTime: Date): Promise<PaymentSummary[]> {
+  return Object.values(ledger().payments)
+    .filter(p => p.createdAt >= beginTime && p.createdAt <= endTime)
+    .map(p => ({
+      id: p.id,
+      status: "COMPLETED",
+      amount: p.amount,
+      refundedAmount: p.refundedAmount,
+      createdAt: p.createdAt.toISOString(),
+      note: p.note,
+    }));
+}
+
+export const fakePaymentProvider: PaymentProvider = {
+  name: "fake",
+  isConfigured: () => true,
+  createPayment,
+  refundPayment,
+  createCustomer,
+  saveCardOnFile,
+  disableCard,
+  listPayments,
+};
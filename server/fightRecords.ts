@@ -0,0 +1,239 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { isAdmin, isMemberAuthenticated } from "./memberAuth";
+import { getActingMember } from "./guardians";
+import { clubToday } from "./clubTime";
+import { boutMethods, boutResults, summariseRecord, type Bout, type Member } from "@shared/schema";
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a date like 2027-01-31");
+
+// Blank form fields are stored as null
+const blankAsNull = (value: unknown) => (typeof value === "string" && value.trim() === "" ? null : value);
+const optionalText = (max: number) => z.preprocess(blankAsNull, z.string().trim().max(max).nullable()).optional();
+
+const boutSchema = z.object({
+  boutDate: dateString,
+  opponentName: z.string().trim().min(2, "Opponent name is required").max(255, "Opponent name must be under 255 characters"),
+  opponentClub: optionalText(255),
+  showName: optionalText(255),
+  weightClass: optionalText(50),
+  result: z.enum(boutResults, { errorMap: () => ({ message: "Result must be a win, loss or draw" }) }),
+  method: z.enum(boutMethods, { errorMap: () => ({ message: "Please choose how the bout was decided" }) }),
+  notes: optionalText(2000),
+});
+
+// What members and the public see of a bout - coaches' notes stay in the admin screens
+function toPublicBout(bout: Bout) {
+  return {
+    id: bout.id,
+    boutDate: bout.boutDate,
+    opponentName: bout.opponentName,
+    opponentClub: bout.opponentClub,
+    showName: bout.showName,
+    weightClass: bout.weightClass,
+    result: bout.result,
+    method: bout.method,
+  };
+}
+
+// Juniors are shown by first name and surname initial, in line with our photography consent
+function publicBoxerName(member: Member): string {
+  const isJunior = !!member.guardianId || (member.age != null && member.age < 18);
+  if (!isJunior) return member.name;
+  const [first, ...rest] = member.name.trim().split(/\s+/);
+  const surname = rest[rest.length - 1];
+  return surname ? `${first} ${surname.charAt(0)}.` : first;
+}
+
+// Keep the competition profile's last competed date in step with the record - it's the latest bout left on it
+async function syncLastCompeted(memberId: string) {
+  const memberBouts = await storage.getBoutsByMember(memberId);
+  const latest = memberBouts.reduce<string | null>((max, b) => (!max || b.boutDate > max ? b.boutDate : max), null);
+  await storage.updateMember(memberId, { lastCompetedOn: latest });
+}
+
+export function registerFightRecordRoutes(app: Express) {
+  // Public: Boxers who've opted in to a public fight record, linked from the blog
+  app.get("/api/boxers", async (_req, res) => {
+    try {
+      const members = await storage.getPublicProfileMembers();
+      const boxers = await Promise.all(members.map(async (member) => {
+        const memberBouts = await storage.getBoutsByMember(member.id);
+        return {
+          id: member.id,
+          name: publicBoxerName(member),
+          record: summariseRecord(memberBouts),
+          lastBoutDate: memberBouts[0]?.boutDate ?? null,
+        };
+      }));
+      res.json(boxers.filter(b => b.record.bouts > 0));
+    } catch (error) {
+      console.error("Error fetching public boxers:", error);
+      res.status(500).json({ message: "Failed to fetch boxers" });
+    }
+  });
+
+  // Public: One boxer's fight record - only if they've opted in
+  app.get("/api/boxers/:id", async (req, res) => {
+    try {
+      const member = await storage.getMemberById(req.params.id);
+      if (!member?.publicProfile) {
+        return res.status(404).json({ message: "Boxer not found" });
+      }
+      const memberBouts = await storage.getBoutsByMember(member.id);
+      res.json({
+        id: member.id,
+        name: publicBoxerName(member),
+        record: summariseRecord(memberBouts),
+        bouts: memberBouts.map(toPublicBout),
+      });
+    } catch (error) {
+      console.error("Error fetching boxer profile:", error);
+      res.status(500).json({ message: "Failed to fetch boxer" });
+    }
+  });
+
+  // Member: Fight records for the member and their juniors - read-only, coaches enter the bouts
+  app.get("/api/members/me/fight-record", isMemberAuthenticated, async (req, res) => {
+    try {
+      const member = await storage.getMemberById(req.session.memberId!);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      const boxers = [member, ...await storage.getDependants(member.id)];
+      const records = await Promise.all(boxers.map(async (boxer) => {
+        const memberBouts = await storage.getBoutsByMember(boxer.id);
+        return {
+          memberId: boxer.id,
+          memberName: boxer.name,
+          publicProfile: boxer.publicProfile || false,
+          record: summariseRecord(memberBouts),
+          bouts: memberBouts.map(toPublicBout),
+        };
+      }));
+      res.json(records.filter(r => r.record.bouts > 0));
+    } catch (error) {
+      console.error("Error fetching fight record:", error);
+      res.status(500).json({ message: "Failed to fetch fight record" });
+    }
+  });
+
+  // Member: Opt in or out of the public profile page - guardians decide for their juniors
+  app.patch("/api/members/me/fight-record/public", isMemberAuthenticated, async (req, res) => {
+    try {
+      const parsed = z.object({ publicProfile: z.boolean(), forMemberId: z.string().optional() }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Please choose whether to show the record publicly" });
+      }
+      const member = await getActingMember(req.session.memberId!, parsed.data.forMemberId);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      await storage.updateMember(member.id, { publicProfile: parsed.data.publicProfile });
+      console.log(`[Fight Record] Member ${member.id} public profile ${parsed.data.publicProfile ? "on" : "off"}, set by ${req.session.memberId}`);
+      res.json({ memberId: member.id, publicProfile: parsed.data.publicProfile });
+    } catch (error) {
+      console.error("Error updating public profile:", error);
+      res.status(500).json({ message: "Failed to update profile" });
+    }
+  });
+
+  // Admin: Everyone with a record, plus carded boxers who haven't boxed yet
+  app.get("/api/admin/fight-records", isAdmin, async (_req, res) => {
+    try {
+      const [members, allBouts] = await Promise.all([storage.getAllMembers(), storage.getAllBouts()]);
+      const records = members
+        .map(member => {
+          const memberBouts = allBouts.filter(b => b.memberId === member.id);
+          return {
+            memberId: member.id,
+            memberName: member.name,
+            isCarded: member.isCarded || false,
+            publicProfile: member.publicProfile || false,
+            record: summariseRecord(memberBouts),
+            lastBoutDate: memberBouts[0]?.boutDate ?? null,
+          };
+        })
+        .filter(r => r.isCarded || r.record.bouts > 0);
+      records.sort((a, b) => a.memberName.localeCompare(b.memberName));
+      res.json(records);
+    } catch (error) {
+      console.error("Error fetching fight records:", error);
+      res.status(500).json({ message: "Failed to fetch fight records" });
+    }
+  });
+
+  // Admin: A boxer's bouts, notes included
+  app.get("/api/admin/members/:id/bouts", isAdmin, async (req, res) => {
+    try {
+      res.json(await storage.getBoutsByMember(req.params.id));
+    } catch (error) {
+      console.error("Error fetching bouts:", error);
+      res.status(500).json({ message: "Failed to fetch bouts" });
+    }
+  });
+
+  // Admin: Add a bout to a boxer's record
+  app.post("/api/admin/members/:id/bouts", isAdmin, async (req, res) => {
+    try {
+      const member = await storage.getMemberById(req.params.id);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      const parsed = boutSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid bout" });
+      }
+      if (parsed.data.boutDate > clubToday()) {
+        return res.status(400).json({ message: "Bouts can only be added once they've happened" });
+      }
+
+      const bout = await storage.createBout({ ...parsed.data, memberId: member.id });
+      await syncLastCompeted(member.id);
+      res.status(201).json(bout);
+    } catch (error) {
+      console.error("Error creating bout:", error);
+      res.status(500).json({ message: "Failed to add bout" });
+    }
+  });
+
+  // Admin: Correct a bout
+  app.put("/api/admin/bouts/:id", isAdmin, async (req, res) => {
+    try {
+      const existing = await storage.getBout(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Bout not found" });
+      }
+      const parsed = boutSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid bout" });
+      }
+      if (parsed.data.boutDate > clubToday()) {
+        return res.status(400).json({ message: "Bouts can only be added once they've happened" });
+      }
+
+      const bout = await storage.updateBout(existing.id, parsed.data);
+      await syncLastCompeted(existing.memberId);
+      res.json(bout);
+    } catch (error) {
+      console.error("Error updating bout:", error);
+      res.status(500).json({ message: "Failed to update bout" });
+    }
+  });
+
+  // Admin: Remove a bout entered by mistake
+  app.delete("/api/admin/bouts/:id", isAdmin, async (req, res) => {
+    try {
+      const existing = await storage.getBout(req.params.id);
+      if (!existing || !await storage.deleteBout(existing.id)) {
+        return res.status(404).json({ message: "Bout not found" });
+      }
+      await syncLastCompeted(existing.memberId);
+      res.json({ message: "Bout removed" });
+    } catch (error) {
+      console.error("Error deleting bout:", error);
+      res.status(500).json({ message: "Failed to remove bout" });
+    }
+  });
+}
@@ -0,0 +1,192 @@
+import type { Express } from "express";
+import { randomInt } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import { isAdmin, isMemberAuthenticated } from "./memberAuth";
+import { paymentProvider } from "./paymentProvider";
+import { sendGiftVoucherEmail } from "./email";
+import { toPence } from "./pricing";
+import type { GiftVoucher } from "@shared/schema";
+
+const SITE_URL = process.env.SITE_URL || "https://milltownabc.co.uk";
+
+// No 0/O or 1/I so codes survive being read out over the phone
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+function generateVoucherCode(): string {
+  const chunk = () => Array.from({ length: 4 }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join("");
+  return `MTG-${chunk()}-${chunk()}`;
+}
+
+export type GiftVoucherCheck =
+  | { valid: true; voucher: GiftVoucher }
+  | { valid: false; message: string };
+
+export async function checkGiftVoucher(code: string): Promise<GiftVoucherCheck> {
+  const voucher = await storage.getGiftVoucherByCode(code);
+  if (!voucher || voucher.status === "voided") {
+    return { valid: false, message: "That gift voucher code isn't valid" };
+  }
+  if (toPence(voucher.balance) <= 0) {
+    return { valid: false, message: "That gift voucher has been fully used" };
+  }
+  return { valid: true, voucher };
+}
+
+const buyVoucherSchema = z.object({
+  amount: z.string().regex(/^\d+(\.\d{1,2})?$/, "Enter an amount like 25")
+    .refine(a => parseFloat(a) >= 5 && parseFloat(a) <= 200, "Vouchers can be from £5 to £200"),
+  recipientName: z.string().trim().min(1, "Enter who the voucher is for").max(255),
+  recipientEmail: z.string().trim().email("Enter the recipient's email address"),
+  message: z.string().max(500).nullable().optional(),
+  paymentToken: z.string().min(1, "Payment required. Please complete the payment form."),
+  verificationToken: z.string().optional(),
+});
+
+export function registerGiftVoucherRoutes(app: Express) {
+  // Member: buy a gift voucher and email it to the recipient
+  app.post("/api/gift-vouchers", isMemberAuthenticated, async (req, res) => {
+    try {
+      const parsed = buyVoucherSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid gift voucher" });
+      }
+      const { recipientName, recipientEmail, message, paymentToken, verificationToken } = parsed.data;
+      const amount = parseFloat(parsed.data.amount).toFixed(2);
+
+      const member = await storage.getMemberById(req.session.memberId!);
+      if (!member) {
+        return res.status(401).json({ message: "Member not found" });
+      }
+      if (!paymentProvider.isConfigured()) {
+        return res.status(503).json({ message: "Payment processing not configured. Please contact the club." });
+      }
+
+      console.log(`[Payment] Processing gift voucher payment of ${toPence(amount)}p for member ${member.id}`);
+      const paymentResult = await paymentProvider.createPayment({
+        sourceId: paymentToken,
+        verificationToken: verificationToken || undefined,
+        amount: toPence(amount),
+        currency: "GBP",
+        note: `Mill Town ABC - £${amount} Gift Voucher`,
+      });
+      if (!paymentResult.success) {
+        console.error(`[Payment] Failed:`, paymentResult.error);
+        return res.status(400).json({ message: "Payment failed. Please check your card details and try again." });
+      }
+
+      // Codes are random, so a clash is rare - just roll again
+      let voucher: GiftVoucher | undefined;
+      for (let attempt = 0; !voucher; attempt++) {
+        try {
+          voucher = await storage.createGiftVoucher({
+            code: generateVoucherCode(),
+            amount,
+            balance: amount,
+            purchaserMemberId: member.id,
+            purchaserName: member.name,
+            recipientName,
+            recipientEmail,
+            message: message?.trim() || null,
+            squarePaymentId: paymentResult.paymentId || null,
+          });
+        } catch (error: any) {
+          if (error?.code !== "23505" || attempt >= 4) throw error;
+        }
+      }
+
+      sendGiftVoucherEmail({
+        recipientName,
+        recipientEmail,
+        purchaserName: member.name,
+        amount,
+        code: voucher.code,
+        message: voucher.message,
+        bookingUrl: `${SITE_URL}/sessions`,
+      }).catch(err => console.error("Email send error:", err));
+
+      res.status(201).json({
+        voucher,
+        message: `Your £${amount} voucher is on its way to ${recipientEmail}.`,
+      });
+    } catch (error) {
+      console.error("Error buying gift voucher:", error);
+      res.status(500).json({ message: "Failed to buy gift voucher" });
+    }
+  });
+
+  // Member: vouchers they've bought for other people
+  app.get("/api/members/me/gift-vouchers", isMemberAuthenticated, async (req, res) => {
+    try {
+      res.json(await storage.getGiftVouchersByPurchaser(req.session.memberId!));
+    } catch (error) {
+      console.error("Error fetching gift vouchers:", error);
+      res.status(500).json({ message: "Failed to fetch gift vouchers" });
+    }
+  });
+
+  // Member: check a voucher code's balance before paying
+  app.post("/api/gift-vouchers/check", isMemberAuthenticated, async (req, res) => {
+    try {
+      const { code } = req.body;
+      if (!code || typeof code !== "string") {
+        return res.status(400).json({ message: "Enter a gift voucher code" });
+      }
+      const result = await checkGiftVoucher(code);
+      if (!result.valid) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json({ code: result.voucher.code, balance: result.voucher.balance });
+    } catch (error) {
+      console.error("Error checking gift voucher:", error);
+      res.status(500).json({ message: "Failed to check gift voucher" });
+    }
+  });
+
+  // Admin: All vouchers with their balances
+  app.get("/api/admin/gift-vouchers", isAdmin, async (_req, res) => {
+    try {
+      res.json(await storage.getAllGiftVouchers());
+    } catch (error) {
+      console.error("Error fetching gift vouchers:", error);
+      res.status(500).json({ message: "Failed to fetch gift vouchers" });
+    }
+  });
+
+  // Admin: Where a voucher's balance has gone
+  app.get("/api/admin/gift-vouchers/:id/history", isAdmin, async (req, res) => {
+    try {
+      const entries = await storage.getGiftVoucherLedger(req.params.id);
+      res.json(await Promise.all(entries.map(async (entry) => {
+        const booking = entry.bookingId ? await storage.getBooking(entry.bookingId) : undefined;
+        const [member, boxingClass] = await Promise.all([
+          entry.memberId ? storage.getMemberById(entry.memberId) : undefined,
+          booking ? storage.getClass(booking.classId) : undefined,
+        ]);
+        return {
+          ...entry,
+          memberName: member?.name || booking?.deletedMemberName || "Deleted Member",
+          classTitle: boxingClass?.title || null,
+          classDate: boxingClass?.date || null,
+        };
+      })));
+    } catch (error) {
+      console.error("Error fetching gift voucher history:", error);
+      res.status(500).json({ message: "Failed to fetch voucher history" });
+    }
+  });
+
+  // Admin: Void a voucher so the code can't be used again
+  app.post("/api/admin/gift-vouchers/:id/void", isAdmin, async (req, res) => {
+    try {
+      const voucher = await storage.voidGiftVoucher(req.params.id);
+      if (!voucher) {
+        return res.status(404).json({ message: "Gift voucher not found" });
+      }
+      res.json(voucher);
+    } catch (error) {
+      console.error("Error voiding gift voucher:", error);
+      res.status(500).json({ message: "Failed to void gift voucher" });
+    }
+  });
+}
@@ -0,0 +1,186 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { isMemberAuthenticated } from "./memberAuth";
+import { getUpcomingIneligibility } from "./eligibility";
+import { getPricingSettings, isConcessionMember } from "./pricing";
+import { generateMemberCardQr } from "./memberCard";
+import { experienceLevels, type Member } from "@shared/schema";
+
+// Juniors over this age get an account of their own
+const MAX_DEPENDANT_AGE = 17;
+
+const dependantSchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters").max(100, "Name must be under 100 characters"),
+  age: z.number().int().min(1, "Please enter a valid age").max(MAX_DEPENDANT_AGE, "Boxers aged 18 and over need their own account"),
+  experienceLevel: z.enum(experienceLevels).default("beginner"),
+});
+
+const newDependantSchema = dependantSchema.extend({
+  consent: z.literal(true, { errorMap: () => ({ message: "Please give your consent for them to train with the club" }) }),
+});
+
+// Who booking emails are addressed to. A junior's go to their guardian, with the junior named in them.
+export interface MemberContact {
+  memberName: string;
+  memberEmail: string;
+  boxerName?: string;
+}
+
+export async function getMemberContact(member: Member): Promise<MemberContact | null> {
+  if (!member.guardianId) {
+    return member.email ? { memberName: member.name, memberEmail: member.email } : null;
+  }
+  const guardian = await storage.getMemberById(member.guardianId);
+  if (!guardian?.email) return null;
+  return { memberName: guardian.name, memberEmail: guardian.email, boxerName: member.name };
+}
+
+// Juniors don't have their own emergency contact - the guardian's stands for them
+export async function getEmergencyContact(member: Member): Promise<Pick<Member, "emergencyContactName" | "emergencyContactPhone">> {
+  const guardian = member.guardianId ? await storage.getMemberById(member.guardianId) : undefined;
+  const source = guardian ?? member;
+  return { emergencyContactName: source.emergencyContactName, emergencyContactPhone: source.emergencyContactPhone };
+}
+
+// The member a request acts for: the logged-in member, or one of their juniors when `forMemberId` names them.
+// Undefined if the junior isn't theirs.
+export async function getActingMember(sessionMemberId: string, forMemberId: unknown): Promise<Member | undefined> {
+  if (typeof forMemberId !== "string" || forMemberId === "" || forMemberId === sessionMemberId) {
+    return storage.getMemberById(sessionMemberId);
+  }
+  const dependant = await storage.getMemberById(forMemberId);
+  return dependant?.guardianId === sessionMemberId ? dependant : undefined;
+}
+
+// A member can manage their own bookings and their juniors'
+export function canManageMember(sessionMemberId: string, member: Pick<Member, "id" | "guardianId">): boolean {
+  return member.id === sessionMemberId || member.guardianId === sessionMemberId;
+}
+
+async function toDependantResponse(dependant: Member) {
+  return {
+    id: dependant.id,
+    name: dependant.name,
+    age: dependant.age,
+    experienceLevel: dependant.experienceLevel,
+    hasUsedFreeSession: dependant.hasUsedFreeSession || false,
+    isConcession: isConcessionMember(dependant, await getPricingSettings()),
+    isCarded: dependant.isCarded || false,
+    guardianConsentAt: dependant.guardianConsentAt,
+    createdAt: dependant.createdAt,
+  };
+}
+
+export function registerGuardianRoutes(app: Express) {
+  // Member: The juniors this member looks after
+  app.get("/api/members/me/dependants", isMemberAuthenticated, async (req, res) => {
+    try {
+      const dependants = await storage.getDependants(req.session.memberId!);
+      res.json(await Promise.all(dependants.map(toDependantResponse)));
+    } catch (error) {
+      console.error("Get dependants error:", error);
+      res.status(500).json({ message: "Failed to get juniors" });
+    }
+  });
+
+  // Member: Add a junior - they train under this login, with the guardian's consent and emergency contact
+  app.post("/api/members/me/dependants", isMemberAuthenticated, async (req, res) => {
+    try {
+      const guardian = await storage.getMemberById(req.session.memberId!);
+      if (!guardian) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (guardian.guardianId) {
+        return res.status(403).json({ message: "Juniors can't add juniors of their own" });
+      }
+
+      const parsed = newDependantSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid details" });
+      }
+
+      const { name, age, experienceLevel } = parsed.data;
+      const dependant = await storage.createMember({
+        name,
+        age,
+        experienceLevel,
+        guardianId: guardian.id,
+        guardianConsentAt: new Date(),
+      });
+      console.log(`[Guardian] Member ${guardian.id} added junior ${dependant.id}`);
+      res.status(201).json(await toDependantResponse(dependant));
+    } catch (error) {
+      console.error("Add dependant error:", error);
+      res.status(500).json({ message: "Failed to add junior" });
+    }
+  });
+
+  // Member: Update a junior's details
+  app.patch("/api/members/me/dependants/:id", isMemberAuthenticated, async (req, res) => {
+    try {
+      const dependant = await storage.getMemberById(req.params.id);
+      if (!dependant || dependant.guardianId !== req.session.memberId) {
+        return res.status(404).json({ message: "Junior not found" });
+      }
+
+      const parsed = dependantSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid details" });
+      }
+
+      const updated = await storage.updateMember(dependant.id, parsed.data);
+      res.json(await toDependantResponse(updated ?? dependant));
+    } catch (error) {
+      console.error("Update dependant error:", error);
+      res.status(500).json({ message: "Failed to update junior" });
+    }
+  });
+
+  // Member: Remove a junior - paid bookings are kept for the records, like any deleted account
+  app.delete("/api/members/me/dependants/:id", isMemberAuthenticated, async (req, res) => {
+    try {
+      const dependant = await storage.getMemberById(req.params.id);
+      if (!dependant || dependant.guardianId !== req.session.memberId) {
+        return res.status(404).json({ message: "Junior not found" });
+      }
+      await storage.deleteMember(dependant.id);
+      res.json({ message: `${dependant.name} has been removed from your account` });
+    } catch (error) {
+      console.error("Delete dependant error:", error);
+      res.status(500).json({ message: "Failed to remove junior" });
+    }
+  });
+
+  // Member: Upcoming classes a junior can't book, with the reasons
+  app.get("/api/members/me/dependants/:id/class-eligibility", isMemberAuthenticated, async (req, res) => {
+    try {
+      const dependant = await storage.getMemberById(req.params.id);
+      if (!dependant || dependant.guardianId !== req.session.memberId) {
+        return res.status(404).json({ message: "Junior not found" });
+      }
+      res.json(await getUpcomingIneligibility(dependant));
+    } catch (error) {
+      console.error("Get dependant eligibility error:", error);
+      res.status(500).json({ message: "Failed to fetch class eligibility" });
+    }
+  });
+
+  // Member: A junior's membership card, for the guardian to show at the door kiosk
+  app.get("/api/members/me/dependants/:id/card", isMemberAuthenticated, async (req, res) => {
+    try {
+      const dependant = await storage.getMemberById(req.params.id);
+      if (!dependant || dependant.guardianId !== req.session.memberId) {
+        return res.status(404).json({ message: "Junior not found" });
+      }
+      res.json({
+        name: dependant.name,
+        memberSince: dependant.createdAt,
+        qrCode: await generateMemberCardQr(dependant.id),
+      });
+    } catch (error) {
+      console.error("Get dependant card error:", error);
+      res.status(500).json({ message: "Failed to get membership card" });
+    }
+  });
+}
@@ -0,0 +1,274 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import { isAdmin } from "./memberAuth";
+import { verifyMemberCard } from "./memberCard";
+import { getPlacesLeft, claimWaitlistEntry } from "./waitlist";
+import { getMemberClassPrice } from "./pricing";
+import { getSubscriptionCover } from "./subscriptions";
+import { getBookingIneligibility } from "./eligibility";
+import { getOutstandingDocuments } from "./documents";
+import { clubToday, getClassStart } from "./clubTime";
+import type { Booking, BoxingClass, KioskDevice, Member } from "@shared/schema";
+
+const CHECK_IN_OPENS_MS = 60 * 60 * 1000; // members can scan in up to an hour before class
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function getClassEnd(boxingClass: BoxingClass): Date {
+  return new Date(getClassStart(boxingClass).getTime() + (boxingClass.duration || 60) * 60 * 1000);
+}
+
+// Kiosk tablets send their device token on every request instead of holding a login session
+export async function isKioskDevice(req: Request, res: Response, next: NextFunction) {
+  const token = req.get("X-Kiosk-Token");
+  if (!token) {
+    return res.status(401).json({ message: "Kiosk device not signed in" });
+  }
+
+  try {
+    const device = await storage.getKioskDeviceByTokenHash(hashToken(token));
+    if (!device || !device.isActive) {
+      return res.status(401).json({ message: "This kiosk device is not authorised" });
+    }
+
+    storage.updateKioskDevice(device.id, { lastSeenAt: new Date() })
+      .catch(err => console.error("[Kiosk] Failed to update last seen:", err));
+    res.locals.kioskDevice = device;
+  } catch (error) {
+    console.error("Kiosk device check error:", error);
+    return res.status(500).json({ message: "Failed to check kiosk device" });
+  }
+  return next();
+}
+
+async function getMemberFromCard(code: unknown): Promise<Member | undefined> {
+  if (typeof code !== "string") return undefined;
+  const memberId = verifyMemberCard(code);
+  return memberId ? storage.getMemberById(memberId) : undefined;
+}
+
+// Pick the member's booking for whichever of today's classes is starting or running now
+async function findTodaysBooking(memberId: string): Promise<{ booking: Booking; boxingClass: BoxingClass } | null> {
+  const now = new Date();
+  const today = clubToday(now);
+  const memberBookings = await storage.getBookingsByMember(memberId);
+
+  let next: { booking: Booking; boxingClass: BoxingClass } | null = null;
+  for (const booking of memberBookings) {
+    if (booking.status === "cancelled") continue;
+    const boxingClass = await storage.getClass(booking.classId);
+    if (!boxingClass || boxingClass.date !== today || getClassEnd(boxingClass) < now) continue;
+
+    if (getClassStart(boxingClass).getTime() - CHECK_IN_OPENS_MS <= now.getTime()) {
+      return { booking, boxingClass };
+    }
+    if (!next || getClassStart(boxingClass) < getClassStart(next.boxingClass)) {
+      next = { booking, boxingClass };
+    }
+  }
+  return next;
+}
+
+function kioskDeviceSummary(device: KioskDevice) {
+  return {
+    id: device.id,
+    name: device.name,
+    isActive: device.isActive,
+    lastSeenAt: device.lastSeenAt,
+    createdAt: device.createdAt,
+  };
+}
+
+export function registerKioskRoutes(app: Express) {
+  // Kiosk: confirm a device token before the tablet stores it
+  app.post("/api/kiosk/login", async (req, res) => {
+    try {
+      const { token } = req.body;
+      if (!token || typeof token !== "string") {
+        return res.status(400).json({ message: "Device code is required" });
+      }
+
+      const device = await storage.getKioskDeviceByTokenHash(hashToken(token.trim()));
+      if (!device || !device.isActive) {
+        return res.status(401).json({ message: "Device code not recognised" });
+      }
+
+      await storage.updateKioskDevice(device.id, { lastSeenAt: new Date() });
+      res.json({ device: { id: device.id, name: device.name } });
+    } catch (error) {
+      console.error("Kiosk login error:", error);
+      res.status(500).json({ message: "Failed to sign in device" });
+    }
+  });
+
+  // Kiosk: scan a membership card and check the member in
+  app.post("/api/kiosk/scan", isKioskDevice, async (req, res) => {
+    try {
+      const member = await getMemberFromCard(req.body.code);
+      if (!member) {
+        return res.status(400).json({ message: "Card not recognised. Please see a coach." });
+      }
+
+      const found = await findTodaysBooking(member.id);
+      if (found) {
+        const { booking, boxingClass } = found;
+        const classInfo = { id: boxingClass.id, title: boxingClass.title, time: boxingClass.time };
+
+        if (booking.checkedInAt) {
+          return res.json({ result: "already_checked_in", member: { name: member.name }, class: classInfo });
+        }
+
+        // Unpaid bookings are checked in but stay pending until the coach takes payment
+        const paymentDue = booking.status === "pending" || booking.status === "pending_cash";
+        await storage.updateBooking(booking.id, {
+          status: paymentDue ? booking.status : "attended",
+          checkedInAt: new Date(),
+        });
+        console.log(`[Kiosk] ${res.locals.kioskDevice.name}: checked in member ${member.id} for class ${boxingClass.id}`);
+
+        return res.json({
+          result: "checked_in",
+          member: { name: member.name },
+          class: classInfo,
+          paymentDue,
+          price: booking.price,
+        });
+      }
+
+      // No booking today - offer the classes they could still walk in to
+      const now = new Date();
+      const todaysClasses = await storage.getClassesByDate(clubToday(now));
+      const walkInClasses = await Promise.all(
+        todaysClasses
+          .filter(c => getClassEnd(c) > now)
+          .map(async (c) => ({
+            id: c.id,
+            title: c.title,
+            time: c.time,
+            placesLeft: await getPlacesLeft(c, member.id),
+            eligible: (await getBookingIneligibility(member, c)).length === 0,
+          }))
+      );
+
+      res.json({
+        result: "no_booking",
+        member: { name: member.name },
+        classes: walkInClasses
+          .filter(c => c.eligible && (c.placesLeft === null || c.placesLeft > 0))
+          .map(({ eligible, ...c }) => c),
+      });
+    } catch (error) {
+      console.error("Kiosk scan error:", error);
+      res.status(500).json({ message: "Failed to check in" });
+    }
+  });
+
+  // Kiosk: book a walk-in onto one of today's classes, paying cash at the door
+  app.post("/api/kiosk/walk-in", isKioskDevice, async (req, res) => {
+    try {
+      const member = await getMemberFromCard(req.body.code);
+      if (!member) {
+        return res.status(400).json({ message: "Card not recognised. Please see a coach." });
+      }
+
+      const boxingClass = await storage.getClass(req.body.classId);
+      const now = new Date();
+      if (!boxingClass || !boxingClass.isActive || boxingClass.date !== clubToday(now) || getClassEnd(boxingClass) < now) {
+        return res.status(400).json({ message: "That class isn't available for walk-ins" });
+      }
+      if ((await getBookingIneligibility(member, boxingClass)).length > 0) {
+        return res.status(403).json({ message: "This class isn't open to you. Please see a coach." });
+      }
+      const outstanding = await getOutstandingDocuments(member);
+      if (outstanding.length > 0) {
+        return res.status(403).json({ message: `Please sign the ${outstanding.map(d => d.title).join(", ")} before training. Please see a coach.` });
+      }
+
+      const onPlan = !!(await getSubscriptionCover(member.id))?.covers;
+      const isFreeSession = !onPlan && !member.hasUsedFreeSession;
+      const paymentDue = !onPlan && !isFreeSession;
+      const { price } = await getMemberClassPrice(boxingClass, member);
+      const result = await storage.createBooking({
+        memberId: member.id,
+        classId: boxingClass.id,
+        status: paymentDue ? "pending_cash" : "attended",
+        checkedInAt: now,
+        isFreeSession,
+        price: paymentDue ? price : "0.00",
+        paymentMethod: onPlan ? "subscription" : "cash",
+      });
+
+      if (!result.success) {
+        if (result.reason === "already_booked") {
+          return res.status(400).json({ message: "You're already booked on this class" });
+        }
+        if (result.reason === "class_full") {
+          return res.status(409).json({ message: "Sorry, this class is full. Please see a coach." });
+        }
+        return res.status(404).json({ message: "Class not found" });
+      }
+
+      if (isFreeSession) {
+        await storage.updateMember(member.id, { hasUsedFreeSession: true });
+      }
+      await claimWaitlistEntry(boxingClass.id, member.id);
+      console.log(`[Kiosk] ${res.locals.kioskDevice.name}: walk-in for member ${member.id} on class ${boxingClass.id}`);
+
+      res.status(201).json({
+        result: "checked_in",
+        member: { name: member.name },
+        class: { id: boxingClass.id, title: boxingClass.title, time: boxingClass.time },
+        paymentDue,
+        price: result.booking.price,
+      });
+    } catch (error) {
+      console.error("Kiosk walk-in error:", error);
+      res.status(500).json({ message: "Failed to book walk-in" });
+    }
+  });
+
+  // Admin: List kiosk devices
+  app.get("/api/admin/kiosk-devices", isAdmin, async (_req, res) => {
+    try {
+      const devices = await storage.getAllKioskDevices();
+      res.json(devices.map(kioskDeviceSummary));
+    } catch (error) {
+      console.error("Error fetching kiosk devices:", error);
+      res.status(500).json({ message: "Failed to fetch kiosk devices" });
+    }
+  });
+
+  // Admin: Register a kiosk device - the token is only ever shown in this response
+  app.post("/api/admin/kiosk-devices", isAdmin, async (req, res) => {
+    try {
+      const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+      if (!name) {
+        return res.status(400).json({ message: "Device name is required" });
+      }
+
+      const token = randomBytes(16).toString("hex");
+      const device = await storage.createKioskDevice({ name, tokenHash: hashToken(token) });
+      res.status(201).json({ device: kioskDeviceSummary(device), token });
+    } catch (error) {
+      console.error("Error creating kiosk device:", error);
+      res.status(500).json({ message: "Failed to create kiosk device" });
+    }
+  });
+
+  // Admin: Revoke a kiosk device
+  app.delete("/api/admin/kiosk-devices/:id", isAdmin, async (req, res) => {
+    try {
+      const deleted = await storage.deleteKioskDevice(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      res.json({ message: "Device revoked" });
+    } catch (error) {
+      console.error("Error deleting kiosk device:", error);
+      res.status(500).json({ message: "Failed to revoke device" });
+    }
+  });
+}
@@ -0,0 +1,65 @@
+import { format, parseISO } from "date-fns";
+import { storage } from "./storage";
+import { sendMedicalExpiryEmail } from "./email";
+import { getMemberContact } from "./guardians";
+import { clubToday } from "./clubTime";
+import { addDaysToDate } from "@shared/clubTime";
+import { siteSettingsSchema } from "@shared/schema";
+
+const REMINDER_DAYS = 30; // England Boxing medicals take a few weeks to book, so warn a month out
+const COACH_EMAIL = "Milltownabc@gmail.com";
+
+// The club inbox from the admin settings, where coaches pick up medical reminders
+async function coachEmail(): Promise<string> {
+  const saved = await storage.getContent("settings");
+  const parsed = siteSettingsSchema.safeParse(saved?.content);
+  return (parsed.success && parsed.data.email) || COACH_EMAIL;
+}
+
+// Emails the boxer (or their guardian) and the coach once per expiry date, 30 days before it
+export async function sendMedicalExpiryReminders(now: Date = new Date()): Promise<number> {
+  try {
+    const today = clubToday(now);
+    const remindFrom = addDaysToDate(today, REMINDER_DAYS);
+    const due = (await storage.getAllMembers()).filter(m =>
+      m.medicalExpiresOn
+      && m.medicalExpiresOn >= today
+      && m.medicalExpiresOn <= remindFrom
+      && m.medicalReminderSentFor !== m.medicalExpiresOn);
+    if (due.length === 0) return 0;
+
+    const coach = await coachEmail();
+    let sent = 0;
+    for (const member of due) {
+      const expiresOn = format(parseISO(member.medicalExpiresOn!), "EEEE d MMMM yyyy");
+      const contact = await getMemberContact(member);
+      // Left unmarked if the boxer's email fails, so the next run tries again
+      if (contact && !await sendMedicalExpiryEmail({
+        recipientName: contact.memberName,
+        recipientEmail: contact.memberEmail,
+        boxerName: member.name,
+        registrationNumber: member.englandBoxingNumber,
+        expiresOn,
+        forCoach: false,
+      })) {
+        console.error(`[Medicals] Expiry reminder for member ${member.id} failed to send, will retry`);
+        continue;
+      }
+      await sendMedicalExpiryEmail({
+        recipientName: "Coach",
+        recipientEmail: coach,
+        boxerName: member.name,
+        registrationNumber: member.englandBoxingNumber,
+        expiresOn,
+        forCoach: true,
+      });
+      await storage.updateMember(member.id, { medicalReminderSentFor: member.medicalExpiresOn });
+      console.log(`[Medicals] Sent expiry reminder for member ${member.id} (expires ${member.medicalExpiresOn})`);
+      sent++;
+    }
+    return sent;
+  } catch (error) {
+    console.error("[Medicals] Error sending medical expiry reminders:", error);
+    return 0;
+  }
+}
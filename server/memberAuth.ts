@@ -4,7 +4,20 @@ import { randomUUID } from "crypto";
 import { storage } from "./storage";
 import { z } from "zod";
 import { verifyHCaptcha, checkSignupRateLimit, logSuspiciousActivity } from "./antiSpam";
-import { sendVerificationEmail, sendPasswordResetEmail } from "./email";
+import { sendVerificationEmail, sendPasswordResetEmail, sendCancellationEmail } from "./email";
+import { promoteFromWaitlist } from "./waitlist";
+import { refundBooking, isWithinRefundCutoff } from "./refunds";
+import { getClassStart } from "./clubTime";
+import { editClass } from "./classSeries";
+import { cancelClassWithNotice, emptyCancellations } from "./closures";
+import { getPublicClasses } from "./bookingWindow";
+import { eligibilityRulesSchema } from "./eligibility";
+import { canManageMember, getMemberContact } from "./guardians";
+import { ensureSquareCustomer } from "./savedCards";
+import { paymentProvider } from "./paymentProvider";
+import { generateMemberCardQr } from "./memberCard";
+import { getPricingSettings, getDefaultClassPrices, isConcessionMember } from "./pricing";
+import { isPaidBooking, seriesScopes, type SeriesScope } from "@shared/schema";
 
 const SALT_ROUNDS = 12;
 
@@ -151,6 +164,11 @@ export function registerMemberRoutes(app: Express) {
         emailVerified: false 
       });
 
+      // Set up their Square customer now so saving a card at first payment is one step
+      if (paymentProvider.isConfigured()) {
+        ensureSquareCustomer(member).catch(err => console.error("Square customer error:", err));
+      }
+
       // Send verification email if SMTP is configured
       const protocol = req.protocol;
       const host = req.get('host');
@@ -184,8 +202,9 @@ export function registerMemberRoutes(app: Express) {
 
       const { email, password } = result.data;
 
+      // Juniors on a guardian's account have no password, so can't log in themselves
       const member = await storage.getMemberByEmail(email);
-      if (!member) {
+      if (!member?.passwordHash) {
         return res.status(401).json({ message: "Invalid email or password" });
       }
 
@@ -239,7 +258,7 @@ export function registerMemberRoutes(app: Express) {
         return res.status(404).json({ message: "Member not found" });
       }
 
-      const validPassword = await bcrypt.compare(password, member.passwordHash);
+      const validPassword = !!member.passwordHash && await bcrypt.compare(password, member.passwordHash);
       if (!validPassword) {
         return res.status(401).json({ message: "Incorrect password" });
       }
@@ -274,7 +293,7 @@ export function registerMemberRoutes(app: Express) {
       }
 
       const member = await storage.getMemberByEmail(email);
-      if (!member) {
+      if (!member?.email) {
         // Don't reveal if email exists for security
         return res.json({ message: "If this email is registered, a verification link has been sent." });
       }
@@ -341,7 +360,7 @@ export function registerMemberRoutes(app: Express) {
       }
 
       const member = await storage.getMemberByEmail(normalizedEmail);
-      if (!member) {
+      if (!member?.email) {
         return res.json({ message: "If this email is registered, a password reset link has been sent." });
       }
 
@@ -432,6 +451,7 @@ export function registerMemberRoutes(app: Express) {
         experienceLevel: member.experienceLevel,
         isAdmin: member.isAdmin || false,
         hasUsedFreeSession: member.hasUsedFreeSession || false,
+        isConcession: isConcessionMember(member, await getPricingSettings()),
       });
     } catch (error) {
       console.error("Get member error:", error);
@@ -439,6 +459,25 @@ export function registerMemberRoutes(app: Express) {
     }
   });
 
+  // Get the member's signed QR membership card for the door kiosk
+  app.get("/api/members/me/card", isMemberAuthenticated, async (req, res) => {
+    try {
+      const member = await storage.getMemberById(req.session.memberId!);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      const qrCode = await generateMemberCardQr(member.id);
+      res.json({
+        name: member.name,
+        memberSince: member.createdAt,
+        qrCode,
+      });
+    } catch (error) {
+      console.error("Get member card error:", error);
+      res.status(500).json({ message: "Failed to get membership card" });
+    }
+  });
+
   // Update member profile
   app.patch("/api/members/me", isMemberAuthenticated, async (req, res) => {
     try {
@@ -472,11 +511,10 @@ export function registerMemberRoutes(app: Express) {
     }
   });
 
-  // Get upcoming classes
+  // Get upcoming classes, each type as far ahead as its booking window shows
   app.get("/api/classes", async (_req, res) => {
     try {
-      const classes = await storage.getUpcomingClasses();
-      res.json(classes);
+      res.json(await getPublicClasses());
     } catch (error) {
       console.error("Get classes error:", error);
       res.status(500).json({ message: "Failed to get classes" });
@@ -499,18 +537,23 @@ export function registerMemberRoutes(app: Express) {
 
   // NOTE: Booking route is now in routes.ts with anti-spam protection (hCaptcha + rate limiting)
 
-  // Get member's bookings
+  // Get member's bookings, along with their juniors' - each named so the dashboard can say who it's for
   app.get("/api/members/me/bookings", isMemberAuthenticated, async (req, res) => {
     try {
-      const bookings = await storage.getBookingsByMember(req.session.memberId!);
+      const member = await storage.getMemberById(req.session.memberId!);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      const boxers = [member, ...await storage.getDependants(member.id)];
       
       // Get class details for each booking
-      const bookingsWithDetails = await Promise.all(
-        bookings.map(async (booking) => {
+      const bookingsWithDetails = (await Promise.all(boxers.map(async (boxer) => {
+        const bookings = await storage.getBookingsByMember(boxer.id);
+        return Promise.all(bookings.map(async (booking) => {
           const boxingClass = await storage.getClass(booking.classId);
-          return { ...booking, class: boxingClass };
-        })
-      );
+          return { ...booking, class: boxingClass, memberName: boxer.name };
+        }));
+      }))).flat().sort((a, b) => (b.bookedAt?.getTime() ?? 0) - (a.bookedAt?.getTime() ?? 0));
       
       res.json(bookingsWithDetails);
     } catch (error) {
@@ -526,7 +569,8 @@ export function registerMemberRoutes(app: Express) {
       if (!booking) {
         return res.status(404).json({ message: "Booking not found" });
       }
-      if (booking.memberId !== req.session.memberId) {
+      const bookedMember = booking.memberId ? await storage.getMemberById(booking.memberId) : undefined;
+      if (!bookedMember || !canManageMember(req.session.memberId!, bookedMember)) {
         return res.status(403).json({ message: "Not authorized" });
       }
 
@@ -534,31 +578,55 @@ export function registerMemberRoutes(app: Express) {
       const boxingClass = await storage.getClass(booking.classId);
       
       // Calculate if cancellation is within 1 hour of class start
-      let isWithinOneHour = false;
-      if (boxingClass) {
-        const classDateTime = new Date(`${boxingClass.date}T${boxingClass.time}:00`);
-        const now = new Date();
-        const oneHourBefore = new Date(classDateTime.getTime() - 60 * 60 * 1000);
-        isWithinOneHour = now >= oneHourBefore;
-      }
+      const isWithinOneHour = boxingClass ? isWithinRefundCutoff(boxingClass) : false;
 
       await storage.cancelBooking(req.params.id);
-      await storage.decrementBookedCount(booking.classId);
+      promoteFromWaitlist(booking.classId).catch(err => console.error("[Waitlist] Promotion failed:", err));
+
+      // Card payments are refunded unless the member cancelled inside the last hour
+      const refund = booking.status !== "cancelled"
+        ? await refundBooking(booking, { withinCutoff: isWithinOneHour, reason: "Booking cancelled by member" })
+        : { status: null };
 
       // If this was a free session, only restore eligibility if cancelled more than 1 hour before
       let freeSessionRestored = false;
       if (booking.isFreeSession) {
         if (!isWithinOneHour) {
-          await storage.updateMember(req.session.memberId!, { hasUsedFreeSession: false });
+          await storage.updateMember(bookedMember.id, { hasUsedFreeSession: false });
           freeSessionRestored = true;
         }
         // If within 1 hour, the free session is forfeited
       }
 
+      // Send cancellation confirmation email
+      const contact = await getMemberContact(bookedMember);
+      if (contact && boxingClass) {
+        const sessionDate = new Date(boxingClass.date + 'T00:00:00');
+        const formattedDate = sessionDate.toLocaleDateString('en-GB', {
+          weekday: 'long',
+          day: 'numeric',
+          month: 'long',
+          year: 'numeric'
+        });
+
+        sendCancellationEmail({
+          ...contact,
+          sessionTitle: boxingClass.title,
+          sessionDate: formattedDate,
+          sessionTime: boxingClass.time,
+          freeSessionRestored,
+          refundStatus: refund.status,
+          refundAmount: refund.amount,
+        }).catch(err => console.error("[Email] Failed to send cancellation email:", err));
+      }
+
       res.json({ 
         message: "Booking cancelled",
         freeSessionRestored,
-        freeSessionForfeited: booking.isFreeSession && !freeSessionRestored
+        freeSessionForfeited: booking.isFreeSession && !freeSessionRestored,
+        creditReturned: booking.paymentMethod === "credit" && booking.status !== "cancelled",
+        refundStatus: refund.status,
+        refundAmount: refund.amount,
       });
     } catch (error) {
       console.error("Cancel booking error:", error);
@@ -569,21 +637,29 @@ export function registerMemberRoutes(app: Express) {
   // Admin: Create a new class (requires admin auth)
   app.post("/api/admin/classes", isAdmin, async (req, res) => {
     try {
-      const { title, description, classType, date, time, duration, capacity, price, isActive } = req.body;
+      const { title, description, classType, date, time, duration, capacity, price, concessionPrice, isActive } = req.body;
       
       if (!title || !classType || !date || !time) {
         return res.status(400).json({ message: "Missing required fields" });
       }
 
+      const rules = eligibilityRulesSchema.safeParse(req.body);
+      if (!rules.success) {
+        return res.status(400).json({ message: rules.error.errors[0]?.message || "Invalid class rules" });
+      }
+
+      const defaults = getDefaultClassPrices(await getPricingSettings(), classType);
       const boxingClass = await storage.createClass({
+        ...rules.data,
         title,
         description,
         classType,
         date,
         time,
         duration: duration || 60,
-        capacity: 9999,
-        price: price || "15.00",
+        capacity: capacity ? parseInt(capacity) : 12,
+        price: price || defaults.price,
+        concessionPrice: concessionPrice || defaults.concessionPrice,
         isActive: isActive !== false,
       });
 
@@ -594,13 +670,19 @@ export function registerMemberRoutes(app: Express) {
     }
   });
 
-  // Admin: Update a class
+  // Admin: Update a class, or with `scope` the rest of its series too
   app.put("/api/admin/classes/:id", isAdmin, async (req, res) => {
     try {
       const { id } = req.params;
-      const { title, description, classType, date, time, duration, capacity, price, isActive } = req.body;
-      
-      const boxingClass = await storage.updateClass(id, {
+      const { title, description, classType, date, time, duration, capacity, price, concessionPrice, isActive } = req.body;
+      const scope: SeriesScope = seriesScopes.includes(req.body.scope) ? req.body.scope : "occurrence";
+      const rules = eligibilityRulesSchema.safeParse(req.body);
+      if (!rules.success) {
+        return res.status(400).json({ message: rules.error.errors[0]?.message || "Invalid class rules" });
+      }
+
+      const result = await editClass(id, {
+        ...rules.data,
         title,
         description,
         classType,
@@ -608,27 +690,52 @@ export function registerMemberRoutes(app: Express) {
         time,
         duration,
         capacity,
-        price,
+        price: price || undefined,
+        concessionPrice: concessionPrice === "" ? null : concessionPrice,
         isActive,
-      });
+      }, scope);
 
-      if (!boxingClass) {
+      if (!result) {
         return res.status(404).json({ message: "Class not found" });
       }
 
-      res.json(boxingClass);
+      res.json({ ...result.boxingClass, classesUpdated: result.classesUpdated, membersNotified: result.membersNotified });
     } catch (error) {
       console.error("Update class error:", error);
       res.status(500).json({ message: "Failed to update class" });
     }
   });
 
-  // Admin: Delete a class
+  // Admin: Delete a class. Once anyone has booked it the bookings are kept - an upcoming class is cancelled instead,
+  // with its members refunded and told, and a past one stays for the records. Sessions from a weekly series are
+  // kept as removed rather than deleted, so the generator doesn't put them straight back.
   app.delete("/api/admin/classes/:id", isAdmin, async (req, res) => {
     try {
-      const { id } = req.params;
-      await storage.deleteClass(id);
-      res.json({ message: "Class deleted" });
+      const boxingClass = await storage.getClass(req.params.id);
+      if (!boxingClass) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+
+      const classBookings = await storage.getBookingsByClass(boxingClass.id);
+      if (classBookings.length === 0) {
+        if (boxingClass.templateId) {
+          await storage.updateClass(boxingClass.id, { isActive: false, removedFromSeries: true });
+        } else {
+          await storage.deleteClass(boxingClass.id);
+        }
+        return res.json({ message: "Class deleted" });
+      }
+      if (getClassStart(boxingClass) <= new Date()) {
+        return res.status(409).json({ message: "This class has bookings and has already run, so it's kept for the records" });
+      }
+
+      const totals = emptyCancellations();
+      await cancelClassWithNotice(boxingClass, "The session has been removed from the timetable", "refund", totals);
+      if (boxingClass.templateId) {
+        await storage.updateClass(boxingClass.id, { removedFromSeries: true });
+      }
+      console.log(`[Classes] Class ${boxingClass.id} cancelled instead of deleted: ${totals.bookingsCancelled} booking(s), ${totals.refunded} refunded`);
+      res.json({ ...totals, message: `Class cancelled. ${totals.bookingsCancelled} booking(s) cancelled and members notified` });
     } catch (error) {
       console.error("Delete class error:", error);
       res.status(500).json({ message: "Failed to delete class" });
@@ -657,12 +764,12 @@ export function registerMemberRoutes(app: Express) {
       const now = new Date();
       const weekFromNow = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
       const classesThisWeek = classes.filter(c => {
-        const classDate = new Date(c.date);
-        return classDate >= now && classDate <= weekFromNow;
+        const classStart = getClassStart(c);
+        return classStart >= now && classStart <= weekFromNow;
       });
       
       // Active bookings
-      const activeBookings = bookings.filter(b => b.status === 'confirmed');
+      const activeBookings = bookings.filter(b => isPaidBooking(b));
       
       res.json({
         totalClasses: classes.length,
@@ -680,18 +787,32 @@ export function registerMemberRoutes(app: Express) {
   app.get("/api/admin/members", isAdmin, async (_req, res) => {
     try {
       const members = await storage.getAllMembers();
-      res.json(members.map(m => ({
-        id: m.id,
-        name: m.name,
-        email: m.email,
-        phone: m.phone,
-        age: m.age,
-        emergencyContactName: m.emergencyContactName,
-        emergencyContactPhone: m.emergencyContactPhone,
-        experienceLevel: m.experienceLevel,
-        isAdmin: m.isAdmin,
-        createdAt: m.createdAt,
-      })));
+      const byId = new Map(members.map(m => [m.id, m]));
+      res.json(members.map(m => {
+        // Juniors share their guardian's contact details
+        const guardian = m.guardianId ? byId.get(m.guardianId) : undefined;
+        return {
+          id: m.id,
+          name: m.name,
+          email: m.email,
+          phone: m.phone,
+          age: m.age,
+          emergencyContactName: (guardian ?? m).emergencyContactName,
+          emergencyContactPhone: (guardian ?? m).emergencyContactPhone,
+          experienceLevel: m.experienceLevel,
+          hasConcession: m.hasConcession,
+          isCarded: m.isCarded,
+          englandBoxingNumber: m.englandBoxingNumber,
+          medicalExpiresOn: m.medicalExpiresOn,
+          lastCompetedOn: m.lastCompetedOn,
+          isAdmin: m.isAdmin,
+          guardianId: m.guardianId,
+          guardianName: guardian?.name ?? null,
+          guardianEmail: guardian?.email ?? null,
+          guardianConsentAt: m.guardianConsentAt,
+          createdAt: m.createdAt,
+        };
+      }));
     } catch (error) {
       console.error("Get members error:", error);
       res.status(500).json({ message: "Failed to get members" });
@@ -707,6 +828,10 @@ export function registerMemberRoutes(app: Express) {
         return res.status(404).json({ message: "Member not found" });
       }
 
+      // Blank fields clear that part of the competitive boxer profile
+      const blankAsNull = (value: unknown) => (value === "" ? null : value);
+      const profileDate = z.preprocess(blankAsNull, z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a date like 2027-01-31").nullable()).optional();
+
       const adminUpdateSchema = z.object({
         name: z.string().trim().min(2).max(100).optional(),
         email: z.string().trim().toLowerCase().email("Invalid email").optional(),
@@ -715,6 +840,11 @@ export function registerMemberRoutes(app: Express) {
         emergencyContactName: z.string().trim().min(2).max(100).optional(),
         emergencyContactPhone: z.string().min(1).optional(),
         experienceLevel: z.enum(["beginner", "intermediate", "advanced"]).optional(),
+        hasConcession: z.boolean().optional(),
+        isCarded: z.boolean().optional(),
+        englandBoxingNumber: z.preprocess(blankAsNull, z.string().trim().max(50, "Registration number must be under 50 characters").nullable()).optional(),
+        medicalExpiresOn: profileDate,
+        lastCompetedOn: profileDate,
       });
 
       const parsed = adminUpdateSchema.safeParse(req.body);
@@ -771,6 +901,11 @@ export function registerMemberRoutes(app: Express) {
         emergencyContactName: updated.emergencyContactName,
         emergencyContactPhone: updated.emergencyContactPhone,
         experienceLevel: updated.experienceLevel,
+        hasConcession: updated.hasConcession,
+        isCarded: updated.isCarded,
+        englandBoxingNumber: updated.englandBoxingNumber,
+        medicalExpiresOn: updated.medicalExpiresOn,
+        lastCompetedOn: updated.lastCompetedOn,
         isAdmin: updated.isAdmin,
         createdAt: updated.createdAt,
       });
@@ -824,6 +959,7 @@ export function registerMemberRoutes(app: Express) {
           date: classMap.get(b.classId)!.date,
           time: classMap.get(b.classId)!.time,
           classType: classMap.get(b.classId)!.classType,
+          duration: classMap.get(b.classId)!.duration,
         } : undefined,
         member: b.memberId ? memberMap.get(b.memberId) : undefined,
       }));
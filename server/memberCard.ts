@@ -0,0 +1,39 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import QRCode from "qrcode";
+
+const CARD_PREFIX = "MTABC1";
+
+function getCardSecret(): string {
+  const secret = process.env.MEMBER_CARD_SECRET || process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("MEMBER_CARD_SECRET or SESSION_SECRET must be set to sign member cards");
+  }
+  return "dev-only-member-card-secret";
+}
+
+function signPayload(payload: string): string {
+  return createHmac("sha256", getCardSecret()).update(payload).digest("base64url");
+}
+
+// Card code format: MTABC1.<memberId>.<signature> - the signature stops anyone forging a card from a member ID
+export function signMemberCard(memberId: string): string {
+  const payload = `${CARD_PREFIX}.${memberId}`;
+  return `${payload}.${signPayload(payload)}`;
+}
+
+// Returns the member ID for a genuine card code, or null if it has been tampered with
+export function verifyMemberCard(code: string): string | null {
+  const parts = code.trim().split(".");
+  if (parts.length !== 3 || parts[0] !== CARD_PREFIX || !parts[1]) return null;
+
+  const expected = Buffer.from(signPayload(`${parts[0]}.${parts[1]}`));
+  const given = Buffer.from(parts[2]);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+
+  return parts[1];
+}
+
+export async function generateMemberCardQr(memberId: string): Promise<string> {
+  return QRCode.toDataURL(signMemberCard(memberId), { margin: 1, width: 320 });
+}
@@ -0,0 +1,92 @@
+import { squarePaymentProvider } from "./square";
+import { fakePaymentProvider } from "./fakePayments";
+
+export interface CreatePaymentParams {
+  sourceId: string;
+  verificationToken?: string;
+  amount: number;
+  currency?: string;
+  customerId?: string;
+  note?: string;
+  bookingId?: string;
+}
+
+export interface PaymentResult {
+  success: boolean;
+  paymentId?: string;
+  status?: string;
+  receiptUrl?: string;
+  error?: string;
+}
+
+export interface RefundPaymentParams {
+  paymentId: string;
+  amount: number;
+  currency?: string;
+  reason?: string;
+}
+
+export interface RefundResult {
+  success: boolean;
+  refundId?: string;
+  status?: string;
+  error?: string;
+}
+
+export interface CustomerResult {
+  success: boolean;
+  customerId?: string;
+  error?: string;
+}
+
+export interface SavedCardResult {
+  success: boolean;
+  cardId?: string;
+  cardBrand?: string;
+  last4?: string;
+  expMonth?: number;
+  expYear?: number;
+  error?: string;
+}
+
+export interface PaymentSummary {
+  id: string;
+  status: string;
+  amount: number;
+  refundedAmount: number;
+  createdAt: string;
+  note: string;
+}
+
+// Everything the app needs from a card processor. Amounts are always in pence, and
+// payment statuses use Square's vocabulary (COMPLETED, APPROVED, FAILED...) whichever provider is live.
+export interface PaymentProvider {
+  name: "square" | "fake";
+  isConfigured(): boolean;
+  createPayment(params: CreatePaymentParams): Promise<PaymentResult>;
+  refundPayment(params: RefundPaymentParams): Promise<RefundResult>;
+  createCustomer(email: string, name: string, phone?: string): Promise<CustomerResult>;
+  saveCardOnFile(customerId: string, sourceId: string, verificationToken?: string): Promise<SavedCardResult>;
+  disableCard(cardId: string): Promise<{ success: boolean; error?: string }>;
+  listPayments(beginTime: Date, endTime: Date): Promise<PaymentSummary[]>;
+}
+
+// PAYMENT_PROVIDER=fake runs every payment through a local test processor, so bookings,
+// packs and memberships can be tried out without Square credentials or a network connection
+function selectPaymentProvider(): PaymentProvider {
+  const configured = (process.env.PAYMENT_PROVIDER || "square").trim().toLowerCase();
+
+  if (configured === "fake") {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("PAYMENT_PROVIDER=fake cannot be used in production");
+    }
+    console.log("[Payments] Using the fake payment provider - no real money will move");
+    return fakePaymentProvider;
+  }
+  if (configured !== "square") {
+    throw new Error(`Unknown PAYMENT_PROVIDER "${configured}" - expected "square" or "fake"`);
+  }
+  return squarePaymentProvider;
+}
+
+export const paymentProvider = selectPaymentProvider();
@@ -0,0 +1,55 @@
+import { storage } from "./storage";
+import {
+  pricingSettingsSchema,
+  defaultPricingSettings,
+  resolveClassPrice,
+  type PricingSettings,
+  type BoxingClass,
+  type ClassTemplate,
+  type Member,
+} from "@shared/schema";
+
+const PRICING_CONTENT_KEY = "pricing";
+
+export async function getPricingSettings(): Promise<PricingSettings> {
+  const content = await storage.getContent(PRICING_CONTENT_KEY);
+  const parsed = pricingSettingsSchema.safeParse(content?.content);
+  return parsed.success ? parsed.data : defaultPricingSettings;
+}
+
+export async function savePricingSettings(settings: PricingSettings): Promise<PricingSettings> {
+  await storage.upsertContent(PRICING_CONTENT_KEY, settings);
+  return settings;
+}
+
+// Prices for a new class: the template's own prices win, then the class type default, then the club default
+export function getDefaultClassPrices(
+  settings: PricingSettings,
+  classType: string,
+  template?: Pick<ClassTemplate, "price" | "concessionPrice">
+): { price: string; concessionPrice: string | null } {
+  const typeDefaults = settings.classTypes[classType];
+  return {
+    price: template?.price || typeDefaults?.price || settings.defaultPrice,
+    concessionPrice: template?.concessionPrice || typeDefaults?.concessionPrice || settings.defaultConcessionPrice,
+  };
+}
+
+// Juniors qualify by age; students and other concessions are flagged on the member by an admin
+export function isConcessionMember(member: Pick<Member, "age" | "hasConcession">, settings: PricingSettings): boolean {
+  if (member.hasConcession) return true;
+  return member.age != null && member.age <= settings.juniorMaxAge;
+}
+
+export async function getMemberClassPrice(
+  boxingClass: BoxingClass,
+  member: Pick<Member, "age" | "hasConcession">
+): Promise<{ price: string; isConcession: boolean }> {
+  const settings = await getPricingSettings();
+  const isConcession = isConcessionMember(member, settings);
+  return { price: resolveClassPrice(boxingClass, isConcession), isConcession };
+}
+
+export function toPence(price: string): number {
+  return Math.round(parseFloat(price) * 100);
+}
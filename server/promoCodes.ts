@@ -0,0 +1,196 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { isAdmin, isMemberAuthenticated } from "./memberAuth";
+import { getActingMember } from "./guardians";
+import { getMemberClassPrice, toPence } from "./pricing";
+import { clubDateTime } from "./clubTime";
+import type { BoxingClass, PromoCode } from "@shared/schema";
+
+export type PromoCheck =
+  | { valid: true; promo: PromoCode; originalPrice: string; discountAmount: string; price: string }
+  | { valid: false; message: string };
+export type ValidPromoCode = Extract<PromoCheck, { valid: true }>;
+
+function applyDiscount(promo: PromoCode, price: string): { discountAmount: string; price: string } {
+  const pence = toPence(price);
+  const discount = promo.discountType === "percent"
+    ? Math.round(pence * parseFloat(promo.discountValue) / 100)
+    : Math.min(pence, toPence(promo.discountValue));
+  return {
+    discountAmount: (discount / 100).toFixed(2),
+    price: ((pence - discount) / 100).toFixed(2),
+  };
+}
+
+// Works out what a code takes off this member's price for this class. Usage limits are
+// re-checked inside the booking transaction, so this is the early answer for the member.
+export async function checkPromoCode(code: string, boxingClass: BoxingClass, memberId: string, price: string): Promise<PromoCheck> {
+  const promo = await storage.getPromoCodeByCode(code);
+  const now = new Date();
+  if (!promo || !promo.isActive) {
+    return { valid: false, message: "That promo code isn't valid" };
+  }
+  if ((promo.validFrom && promo.validFrom > now) || (promo.validUntil && promo.validUntil < now)) {
+    return { valid: false, message: "That promo code has expired or isn't active yet" };
+  }
+  if (promo.classTypes && promo.classTypes.length > 0 && !promo.classTypes.includes(boxingClass.classType)) {
+    return { valid: false, message: `That code can't be used on ${boxingClass.classType} classes` };
+  }
+  if (promo.maxRedemptions != null && await storage.countPromoRedemptions(promo.id) >= promo.maxRedemptions) {
+    return { valid: false, message: "That promo code has been fully used" };
+  }
+  if (promo.maxPerMember != null && await storage.countPromoRedemptions(promo.id, memberId) >= promo.maxPerMember) {
+    return { valid: false, message: "You've already used this promo code" };
+  }
+  if (toPence(price) === 0) {
+    return { valid: false, message: "This session is already free" };
+  }
+
+  return { valid: true, promo, originalPrice: price, ...applyDiscount(promo, price) };
+}
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a date like 2027-01-31");
+
+const promoCodeSchema = z.object({
+  code: z.string().trim().min(3, "Codes need at least 3 characters").max(40)
+    .regex(/^[A-Za-z0-9_-]+$/, "Codes can only use letters, numbers, - and _"),
+  description: z.string().max(500).nullable().optional(),
+  discountType: z.enum(["percent", "fixed"]),
+  discountValue: z.string().regex(/^\d+(\.\d{1,2})?$/, "Enter an amount like 2.50 or a percentage like 20"),
+  classTypes: z.array(z.string().min(1)).nullable().optional(),
+  validFrom: dateString.nullable().optional(),
+  validUntil: dateString.nullable().optional(),
+  maxRedemptions: z.number().int().min(1).nullable().optional(),
+  maxPerMember: z.number().int().min(1).nullable().optional(),
+  isActive: z.boolean().optional(),
+}).refine(d => d.discountType !== "percent" || parseFloat(d.discountValue) <= 100, {
+  message: "A percentage discount can't be more than 100",
+}).refine(d => parseFloat(d.discountValue) > 0, {
+  message: "The discount must be more than zero",
+});
+
+// Codes run from the start of their first day to the end of their last, on the club's clock
+function toPromoCodeValues(data: z.infer<typeof promoCodeSchema>) {
+  return {
+    ...data,
+    classTypes: data.classTypes && data.classTypes.length > 0 ? data.classTypes : null,
+    validFrom: data.validFrom ? clubDateTime(data.validFrom, "00:00:00") : null,
+    validUntil: data.validUntil ? clubDateTime(data.validUntil, "23:59:59") : null,
+  };
+}
+
+export function registerPromoCodeRoutes(app: Express) {
+  // Member: check a code against a class before paying
+  app.post("/api/promo-codes/check", isMemberAuthenticated, async (req, res) => {
+    try {
+      const { code, classId, forMemberId } = req.body;
+      if (!code || typeof code !== "string") {
+        return res.status(400).json({ message: "Enter a promo code" });
+      }
+
+      // Limits and prices are the boxer's, so a guardian checking for a junior checks against the junior
+      const [member, boxingClass] = await Promise.all([
+        getActingMember(req.session.memberId!, forMemberId),
+        storage.getClass(classId),
+      ]);
+      if (!member || !boxingClass) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+
+      const { price } = await getMemberClassPrice(boxingClass, member);
+      const result = await checkPromoCode(code, boxingClass, member.id, price);
+      if (!result.valid) {
+        return res.status(400).json({ message: result.message });
+      }
+
+      res.json({
+        code: result.promo.code,
+        description: result.promo.description,
+        originalPrice: result.originalPrice,
+        discountAmount: result.discountAmount,
+        price: result.price,
+      });
+    } catch (error) {
+      console.error("Error checking promo code:", error);
+      res.status(500).json({ message: "Failed to check promo code" });
+    }
+  });
+
+  // Admin: All promo codes with how often each has been used
+  app.get("/api/admin/promo-codes", isAdmin, async (_req, res) => {
+    try {
+      const promos = await storage.getAllPromoCodes();
+      res.json(await Promise.all(promos.map(async (promo) => ({
+        ...promo,
+        redemptions: await storage.countPromoRedemptions(promo.id),
+      }))));
+    } catch (error) {
+      console.error("Error fetching promo codes:", error);
+      res.status(500).json({ message: "Failed to fetch promo codes" });
+    }
+  });
+
+  // Admin: Create a promo code
+  app.post("/api/admin/promo-codes", isAdmin, async (req, res) => {
+    try {
+      const parsed = promoCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid promo code" });
+      }
+      res.status(201).json(await storage.createPromoCode(toPromoCodeValues(parsed.data)));
+    } catch (error: any) {
+      if (error?.code === "23505") {
+        return res.status(400).json({ message: "A promo code with that name already exists" });
+      }
+      console.error("Error creating promo code:", error);
+      res.status(500).json({ message: "Failed to create promo code" });
+    }
+  });
+
+  // Admin: Update a promo code
+  app.put("/api/admin/promo-codes/:id", isAdmin, async (req, res) => {
+    try {
+      const parsed = promoCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid promo code" });
+      }
+      const promo = await storage.updatePromoCode(req.params.id, toPromoCodeValues(parsed.data));
+      if (!promo) {
+        return res.status(404).json({ message: "Promo code not found" });
+      }
+      res.json(promo);
+    } catch (error: any) {
+      if (error?.code === "23505") {
+        return res.status(400).json({ message: "A promo code with that name already exists" });
+      }
+      console.error("Error updating promo code:", error);
+      res.status(500).json({ message: "Failed to update promo code" });
+    }
+  });
+
+  // Admin: Who used a code, on what, and how much it saved them
+  app.get("/api/admin/promo-codes/:id/redemptions", isAdmin, async (req, res) => {
+    try {
+      const redemptions = await storage.getPromoRedemptions(req.params.id);
+      res.json(await Promise.all(redemptions.map(async (redemption) => {
+        const booking = redemption.bookingId ? await storage.getBooking(redemption.bookingId) : undefined;
+        const [member, boxingClass] = await Promise.all([
+          redemption.memberId ? storage.getMemberById(redemption.memberId) : undefined,
+          booking ? storage.getClass(booking.classId) : undefined,
+        ]);
+        return {
+          ...redemption,
+          memberName: member?.name || booking?.deletedMemberName || "Deleted Member",
+          classTitle: boxingClass?.title || null,
+          classDate: boxingClass?.date || null,
+          bookingStatus: booking?.status || null,
+          paidPrice: booking?.price || null,
+        };
+      })));
+    } catch (error) {
+      console.error("Error fetching promo redemptions:", error);
+      res.status(500).json({ message: "Failed to fetch redemptions" });
+    }
+  });
+}
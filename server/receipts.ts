@@ -0,0 +1,231 @@
+import type { Express } from "express";
+import PDFDocument from "pdfkit";
+import { format, parseISO } from "date-fns";
+import { storage } from "./storage";
+import { isMemberAuthenticated } from "./memberAuth";
+import type { EmailAttachment } from "./email";
+import {
+  isPaidBooking, siteSettingsSchema, formatReceiptNumber, receiptKinds,
+  type Booking, type BoxingClass, type Member, type InsertReceipt, type Receipt, type ReceiptKind, type SiteSettings,
+} from "@shared/schema";
+
+const paymentMethodLabels: Record<string, string> = {
+  card: "Card",
+  cash: "Cash",
+  credit: "Class Pack Credit",
+  subscription: "Membership",
+  promo: "Promo Code",
+  voucher: "Gift Voucher",
+};
+
+// Cancelled card bookings were still paid for - any refund is a separate transaction
+function isReceiptableBooking(booking: Booking): boolean {
+  return isPaidBooking(booking) || (booking.status === "cancelled" && !!booking.squarePaymentId);
+}
+
+// The receipt goes to whoever paid - for a junior that's their guardian, with the junior named on the line
+function bookingReceiptDetails(payer: Member, boxer: Member, booking: Booking, boxingClass: BoxingClass | undefined): InsertReceipt {
+  const isCash = booking.paymentMethod === "cash";
+  const title = boxingClass?.title || "Boxing class";
+  return {
+    kind: "booking",
+    sourceId: booking.id,
+    memberId: payer.id,
+    memberName: payer.name,
+    memberEmail: payer.email,
+    description: boxer.id === payer.id ? title : `${title} for ${boxer.name}`,
+    classDate: boxingClass?.date || null,
+    classTime: boxingClass?.time || null,
+    amount: booking.isFreeSession ? "0.00" : booking.price || "0.00",
+    paymentMethod: booking.isFreeSession ? "Free First Session" : paymentMethodLabels[booking.paymentMethod || "card"] || "Card",
+    paymentReference: booking.squarePaymentId || `TXN-${booking.id.slice(0, 8).toUpperCase()}`,
+    // Cash is handed over at the class
+    paidAt: isCash && boxingClass ? parseISO(boxingClass.date) : booking.bookedAt,
+  };
+}
+
+// Everything the member has paid for that can have a receipt, newest first - their juniors' bookings included,
+// since guardians book and pay for those
+async function memberReceiptDetails(member: Member, dependants: Member[]): Promise<InsertReceipt[]> {
+  const [boxerBookings, packs, payments, vouchers] = await Promise.all([
+    Promise.all([member, ...dependants].map(async (boxer) =>
+      (await storage.getBookingsByMember(boxer.id)).map(booking => ({ boxer, booking })))),
+    storage.getCreditPacksByMember(member.id),
+    storage.getPaidSubscriptionPaymentsByMember(member.id),
+    storage.getGiftVouchersByPurchaser(member.id),
+  ]);
+  const base = { memberId: member.id, memberName: member.name, memberEmail: member.email, classDate: null, classTime: null };
+
+  const details: InsertReceipt[] = [
+    ...await Promise.all(boxerBookings.flat().filter(({ booking }) => isReceiptableBooking(booking)).map(async ({ boxer, booking }) =>
+      bookingReceiptDetails(member, boxer, booking, await storage.getClass(booking.classId)))),
+    ...packs.filter(pack => pack.source === "purchase").map((pack): InsertReceipt => ({
+      ...base,
+      kind: "credit_pack",
+      sourceId: pack.id,
+      description: `${pack.name} (${pack.creditsTotal} session credits)`,
+      amount: pack.price || "0.00",
+      paymentMethod: "Card",
+      paymentReference: pack.squarePaymentId,
+      paidAt: pack.createdAt,
+    })),
+    ...payments.map((payment): InsertReceipt => ({
+      ...base,
+      kind: "subscription",
+      sourceId: payment.id,
+      description: payment.periodStart && payment.periodEnd
+        ? `${payment.planName} membership, ${format(payment.periodStart, "d MMM yyyy")} to ${format(payment.periodEnd, "d MMM yyyy")}`
+        : `${payment.planName} membership`,
+      amount: payment.amount,
+      paymentMethod: "Card",
+      paymentReference: payment.squarePaymentId,
+      paidAt: payment.createdAt,
+    })),
+    ...vouchers.map((voucher): InsertReceipt => ({
+      ...base,
+      kind: "gift_voucher",
+      sourceId: voucher.id,
+      description: `Gift voucher for ${voucher.recipientName}`,
+      amount: voucher.amount,
+      paymentMethod: "Card",
+      paymentReference: voucher.squarePaymentId,
+      paidAt: voucher.createdAt,
+    })),
+  ];
+  return details.sort((a, b) => (b.paidAt?.getTime() || 0) - (a.paidAt?.getTime() || 0));
+}
+
+// Club details come from the admin settings page, so they're read fresh for each receipt
+async function clubDetails(): Promise<SiteSettings> {
+  const saved = await storage.getContent("settings");
+  const parsed = siteSettingsSchema.safeParse(saved?.content);
+  return parsed.success ? parsed.data : { businessName: "Mill Town ABC" };
+}
+
+function renderReceiptPdf(receipt: Receipt, club: SiteSettings): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const receiptNumber = formatReceiptNumber(receipt.receiptNumber);
+    const doc = new PDFDocument({ size: "A4", margin: 50, info: { Title: `Receipt ${receiptNumber}`, Author: club.businessName } });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const row = (label: string, value: string) => {
+      doc.font("Helvetica-Bold").text(`${label}: `, { continued: true }).font("Helvetica").text(value);
+    };
+
+    doc.fontSize(20).font("Helvetica-Bold").fillColor("#C8102E").text(club.businessName);
+    doc.fontSize(10).font("Helvetica").fillColor("#555555");
+    for (const line of [club.address, club.phone, club.email]) {
+      if (line) doc.text(line);
+    }
+
+    doc.moveDown(2).fillColor("#000000").fontSize(16).font("Helvetica-Bold").text("RECEIPT");
+    doc.moveDown(0.5).fontSize(11);
+    row("Receipt number", receiptNumber);
+    row("Issued", format(receipt.issuedAt || new Date(), "d MMMM yyyy"));
+
+    doc.moveDown();
+    row("Received from", receipt.memberName);
+    if (receipt.memberEmail) row("Email", receipt.memberEmail);
+
+    doc.moveDown();
+    row("For", receipt.description);
+    if (receipt.classDate) {
+      row("Class", `${format(parseISO(receipt.classDate), "EEEE d MMMM yyyy")}${receipt.classTime ? ` at ${receipt.classTime}` : ""}`);
+    }
+    row("Payment method", receipt.paymentMethod);
+    if (receipt.paymentReference) row("Reference", receipt.paymentReference);
+    if (receipt.paidAt) row("Date paid", format(receipt.paidAt, "d MMMM yyyy"));
+
+    doc.moveDown(1.5).fontSize(16).font("Helvetica-Bold").text(`Total paid: £${receipt.amount}`);
+
+    doc.moveDown(3).fontSize(9).font("Helvetica").fillColor("#555555")
+      .text("VAT not charged - the club is not VAT registered.")
+      .text("Please keep this receipt for your records.");
+    doc.end();
+  });
+}
+
+async function receiptPdfAttachment(receipt: Receipt): Promise<EmailAttachment> {
+  return {
+    filename: `${formatReceiptNumber(receipt.receiptNumber)}.pdf`,
+    content: await renderReceiptPdf(receipt, await clubDetails()),
+  };
+}
+
+// Issues the receipt for a booking so it can go out with the confirmation email.
+// Cash bookings aren't paid until the class, so there's nothing to attach for them yet.
+export async function bookingReceiptAttachment(member: Member, booking: Booking, boxingClass: BoxingClass): Promise<EmailAttachment | undefined> {
+  if (!isReceiptableBooking(booking)) return undefined;
+  try {
+    const guardian = member.guardianId ? await storage.getMemberById(member.guardianId) : undefined;
+    return await receiptPdfAttachment(await storage.issueReceipt(bookingReceiptDetails(guardian || member, member, booking, boxingClass)));
+  } catch (error) {
+    console.error(`[Receipts] Could not issue receipt for booking ${booking.id}:`, error);
+    return undefined;
+  }
+}
+
+export function registerReceiptRoutes(app: Express) {
+  // Member: bookings and payments they can download a receipt for
+  app.get("/api/members/me/receipts", isMemberAuthenticated, async (req, res) => {
+    try {
+      const member = await storage.getMemberById(req.session.memberId!);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      const dependants = await storage.getDependants(member.id);
+      const [details, issued] = await Promise.all([
+        memberReceiptDetails(member, dependants),
+        Promise.all([member, ...dependants].map(boxer => storage.getReceiptsByMember(boxer.id))),
+      ]);
+      const issuedNumbers = new Map(issued.flat().map(receipt => [`${receipt.kind}:${receipt.sourceId}`, receipt.receiptNumber]));
+
+      res.json(details.map(detail => {
+        const receiptNumber = issuedNumbers.get(`${detail.kind}:${detail.sourceId}`);
+        return {
+          kind: detail.kind,
+          sourceId: detail.sourceId,
+          description: detail.description,
+          classDate: detail.classDate,
+          amount: detail.amount,
+          paymentMethod: detail.paymentMethod,
+          paidAt: detail.paidAt,
+          receiptNumber: receiptNumber ? formatReceiptNumber(receiptNumber) : null,
+        };
+      }));
+    } catch (error) {
+      console.error("Error fetching receipts:", error);
+      res.status(500).json({ message: "Failed to fetch receipts" });
+    }
+  });
+
+  // Member: download a receipt - it's numbered the first time it's asked for
+  app.get("/api/members/me/receipts/:kind/:sourceId/pdf", isMemberAuthenticated, async (req, res) => {
+    try {
+      const kind = req.params.kind as ReceiptKind;
+      if (!receiptKinds.includes(kind)) {
+        return res.status(404).json({ message: "Receipt not found" });
+      }
+      const member = await storage.getMemberById(req.session.memberId!);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      const detail = (await memberReceiptDetails(member, await storage.getDependants(member.id)))
+        .find(d => d.kind === kind && d.sourceId === req.params.sourceId);
+      if (!detail) {
+        return res.status(404).json({ message: "Receipt not found" });
+      }
+
+      const attachment = await receiptPdfAttachment(await storage.issueReceipt(detail));
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${attachment.filename}"`);
+      res.send(attachment.content);
+    } catch (error) {
+      console.error("Error generating receipt:", error);
+      res.status(500).json({ message: "Failed to generate receipt" });
+    }
+  });
+}
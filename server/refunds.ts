@@ -0,0 +1,75 @@
+import { storage } from "./storage";
+import { paymentProvider } from "./paymentProvider";
+import { toPence } from "./pricing";
+import { getClassStart } from "./clubTime";
+import type { Booking, BoxingClass } from "@shared/schema";
+
+// Members who cancel inside this window before the class keep their place's money with the club
+export const REFUND_CUTOFF_MS = 60 * 60 * 1000;
+
+export function isWithinRefundCutoff(boxingClass: BoxingClass, now = new Date()): boolean {
+  return now.getTime() >= getClassStart(boxingClass).getTime() - REFUND_CUTOFF_MS;
+}
+
+export interface RefundResult {
+  status: "refunded" | "failed" | "not_eligible" | null;
+  amount?: string;
+}
+
+function isRefundable(booking: Booking): boolean {
+  return booking.paymentMethod === "card"
+    && !!booking.squarePaymentId
+    && !booking.isFreeSession
+    && parseFloat(booking.price || "0") > 0;
+}
+
+// Refunds a card booking back to the original payment. Bookings paid any other way
+// (cash, credits, memberships, free sessions) have nothing to refund and return a null status.
+// Pass `withinCutoff` for member cancellations so late ones are recorded as not eligible.
+export async function refundBooking(booking: Booking, options: { withinCutoff?: boolean; reason?: string } = {}): Promise<RefundResult> {
+  if (!isRefundable(booking)) {
+    return { status: null };
+  }
+  if (booking.refundStatus === "refunded") {
+    return { status: "refunded", amount: booking.refundAmount || undefined };
+  }
+
+  if (options.withinCutoff) {
+    await storage.updateBooking(booking.id, { refundStatus: "not_eligible" });
+    return { status: "not_eligible" };
+  }
+
+  const claimed = await storage.claimBookingRefund(booking.id);
+  if (!claimed) {
+    // Another request is already refunding this payment
+    return { status: null };
+  }
+
+  if (!paymentProvider.isConfigured()) {
+    console.error(`[Refund] Payments not configured - booking ${booking.id} needs a manual refund`);
+    await storage.updateBooking(booking.id, { refundStatus: "failed" });
+    return { status: "failed" };
+  }
+
+  const amount = claimed.price!;
+  const result = await paymentProvider.refundPayment({
+    paymentId: claimed.squarePaymentId!,
+    amount: toPence(amount),
+    reason: options.reason,
+  });
+
+  if (!result.success) {
+    console.error(`[Refund] Failed for booking ${booking.id}:`, result.error);
+    await storage.updateBooking(booking.id, { refundStatus: "failed" });
+    return { status: "failed" };
+  }
+
+  await storage.updateBooking(booking.id, {
+    refundStatus: "refunded",
+    refundAmount: amount,
+    squareRefundId: result.refundId || null,
+    refundedAt: new Date(),
+  });
+  console.log(`[Refund] Refunded £${amount} for booking ${booking.id} (refund ${result.refundId})`);
+  return { status: "refunded", amount };
+}
@@ -0,0 +1,261 @@
+import type { Express, Response } from "express";
+import { z } from "zod";
+import { format, parseISO, startOfWeek, startOfMonth, subMonths, endOfMonth } from "date-fns";
+import { storage, type FinanceTransaction, type IncomeSummary } from "./storage";
+import { isAdmin } from "./memberAuth";
+import { toPence } from "./pricing";
+import { clubToday } from "./clubTime";
+
+const BUSINESS_NAME = "Mill Town ABC";
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a date like 2027-01-31");
+
+const reportQuerySchema = z.object({
+  period: z.enum(["today", "week", "month", "lastmonth", "year", "all"]).default("all"),
+  from: dateString.optional(),
+  to: dateString.optional(),
+});
+
+type ReportPeriod = z.infer<typeof reportQuerySchema>["period"];
+
+// Nominal codes from the standard UK chart of accounts most bookkeeping packages start with
+const ACCOUNTS = {
+  square: { code: "1210", name: "Square Clearing" },
+  cash: { code: "1230", name: "Cash in Hand" },
+  voucherLiability: { code: "2110", name: "Gift Vouchers Outstanding" },
+  sessions: { code: "4000", name: "Class Income" },
+  packs: { code: "4010", name: "Class Pack Income" },
+  memberships: { code: "4020", name: "Membership Income" },
+} as const;
+
+type Account = typeof ACCOUNTS[keyof typeof ACCOUNTS];
+
+const paymentMethodLabels: Record<string, string> = {
+  card: "Card",
+  cash: "Cash",
+  credit: "Class Pack Credit",
+  subscription: "Membership",
+  promo: "Promo Code",
+  voucher: "Gift Voucher",
+};
+
+// UK tax years run from 6 April
+function taxYearStart(now: Date): Date {
+  const start = new Date(now.getFullYear(), 3, 6);
+  return now < start ? new Date(now.getFullYear() - 1, 3, 6) : start;
+}
+
+// `now` is midnight of today on the club's calendar, so periods line up with the club's days
+function periodRange(period: ReportPeriod, now = parseISO(clubToday())): { from?: string; to?: string } {
+  const day = (date: Date) => format(date, "yyyy-MM-dd");
+  switch (period) {
+    case "today": return { from: day(now), to: day(now) };
+    case "week": return { from: day(startOfWeek(now, { weekStartsOn: 1 })), to: day(now) };
+    case "month": return { from: day(startOfMonth(now)), to: day(now) };
+    case "lastmonth": {
+      const lastMonth = subMonths(now, 1);
+      return { from: day(startOfMonth(lastMonth)), to: day(endOfMonth(lastMonth)) };
+    }
+    case "year": return { from: day(taxYearStart(now)), to: day(now) };
+    default: return {};
+  }
+}
+
+// An explicit from/to wins over the named period
+function resolveRange(query: unknown): { from?: string; to?: string; period: ReportPeriod } | { error: string } {
+  const parsed = reportQuerySchema.safeParse(query);
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0]?.message || "Invalid report period" };
+  }
+  const { period, from, to } = parsed.data;
+  return from || to ? { from, to, period } : { ...periodRange(period), period };
+}
+
+// Everything paid in, less refunds. Voucher spends aren't counted - that money came in when the voucher was sold.
+function takings(summary: IncomeSummary): string {
+  const pence = toPence(summary.card.amount) + toPence(summary.cash.amount) + toPence(summary.packSales.amount)
+    + toPence(summary.membershipPayments.amount) + toPence(summary.voucherSales.amount) - toPence(summary.refunded.amount);
+  return (pence / 100).toFixed(2);
+}
+
+function reference(transaction: FinanceTransaction): string {
+  return `TXN-${transaction.id.slice(0, 8).toUpperCase()}`;
+}
+
+function paymentLabel(transaction: FinanceTransaction): string {
+  if (transaction.isFreeSession) return "Free First Session";
+  return paymentMethodLabels[transaction.paymentMethod || "card"] || "Card";
+}
+
+function csvCell(value: string | number): string {
+  let text = String(value);
+  // Spreadsheets run cells starting with these as formulas, so names can't be trusted there
+  if (/^[=+\-@]/.test(text) && isNaN(Number(text))) text = `'${text}`;
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+function sendCsv(res: Response, filename: string, rows: (string | number)[][]) {
+  res.setHeader("Content-Type", "text/csv; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.send(rows.map(row => row.map(csvCell).join(",")).join("\r\n"));
+}
+
+const ukDate = (date: string | Date) => format(typeof date === "string" ? parseISO(date) : date, "dd/MM/yyyy");
+
+// Balanced journal lines for one transaction - each pair debits one account and credits another
+function journalLines(transaction: FinanceTransaction): (string | number)[][] {
+  const lines: (string | number)[][] = [];
+  const ref = reference(transaction);
+  const post = (date: string | Date, debit: Account, credit: Account, amount: string, description: string) => {
+    if (toPence(amount) <= 0) return;
+    lines.push([ukDate(date), ref, debit.code, debit.name, description, amount, ""]);
+    lines.push([ukDate(date), ref, credit.code, credit.name, description, "", amount]);
+  };
+  const description = `${transaction.description}${transaction.memberName ? ` - ${transaction.memberName}` : ""}`;
+
+  switch (transaction.source) {
+    case "booking": {
+      const bank = transaction.paymentMethod === "cash" ? ACCOUNTS.cash : ACCOUNTS.square;
+      post(transaction.date, bank, ACCOUNTS.sessions, transaction.amount, description);
+      post(transaction.date, ACCOUNTS.voucherLiability, ACCOUNTS.sessions, transaction.voucherAmount, `${description} (gift voucher)`);
+      post(transaction.refundedAt || transaction.date, ACCOUNTS.sessions, ACCOUNTS.square, transaction.refundAmount, `Refund: ${description}`);
+      break;
+    }
+    case "credit_pack":
+      post(transaction.date, ACCOUNTS.square, ACCOUNTS.packs, transaction.amount, description);
+      break;
+    case "subscription":
+      post(transaction.date, ACCOUNTS.square, ACCOUNTS.memberships, transaction.amount, description);
+      break;
+    case "gift_voucher":
+      post(transaction.date, ACCOUNTS.square, ACCOUNTS.voucherLiability, transaction.amount, description);
+      break;
+  }
+  return lines;
+}
+
+function periodLabel(from?: string, to?: string): string {
+  if (!from && !to) return "All Time";
+  return `${from ? ukDate(from) : "Start"} to ${to ? ukDate(to) : "Today"}`;
+}
+
+export function registerReportRoutes(app: Express) {
+  // Admin: Takings for today, this week, this month and this tax year
+  app.get("/api/admin/reports/overview", isAdmin, async (_req, res) => {
+    try {
+      const periods = ["today", "week", "month", "year", "all"] as const;
+      const summaries = await Promise.all(periods.map(async (period) => {
+        const { from, to } = periodRange(period);
+        return [period, { from: from || null, to: to || null, takings: takings(await storage.getIncomeSummary(from, to)) }] as const;
+      }));
+      res.json(Object.fromEntries(summaries));
+    } catch (error) {
+      console.error("Error fetching finance overview:", error);
+      res.status(500).json({ message: "Failed to fetch finance overview" });
+    }
+  });
+
+  // Admin: Income split by how it was paid, for a period
+  app.get("/api/admin/reports/income", isAdmin, async (req, res) => {
+    try {
+      const range = resolveRange(req.query);
+      if ("error" in range) {
+        return res.status(400).json({ message: range.error });
+      }
+      const summary = await storage.getIncomeSummary(range.from, range.to);
+      res.json({ from: range.from || null, to: range.to || null, ...summary, takings: takings(summary) });
+    } catch (error) {
+      console.error("Error fetching income summary:", error);
+      res.status(500).json({ message: "Failed to fetch income summary" });
+    }
+  });
+
+  // Admin: Every transaction in a period
+  app.get("/api/admin/reports/transactions", isAdmin, async (req, res) => {
+    try {
+      const range = resolveRange(req.query);
+      if ("error" in range) {
+        return res.status(400).json({ message: range.error });
+      }
+      res.json(await storage.getFinanceTransactions(range.from, range.to));
+    } catch (error) {
+      console.error("Error fetching transactions:", error);
+      res.status(500).json({ message: "Failed to fetch transactions" });
+    }
+  });
+
+  // Admin: Transactions as a spreadsheet, with a summary underneath
+  app.get("/api/admin/reports/transactions.csv", isAdmin, async (req, res) => {
+    try {
+      const range = resolveRange(req.query);
+      if ("error" in range) {
+        return res.status(400).json({ message: range.error });
+      }
+      const [transactions, summary] = await Promise.all([
+        storage.getFinanceTransactions(range.from, range.to),
+        storage.getIncomeSummary(range.from, range.to),
+      ]);
+
+      sendCsv(res, `milltown-boxing-finance-${clubToday()}.csv`, [
+        ["Date", "Reference", "Member", "Description", "Payment Method", "Status", "Amount Received (GBP)", "Gift Voucher Spent (GBP)", "Refunded (GBP)", "Refund Date", "VAT Amount"],
+        ...transactions.map(t => [
+          ukDate(t.date),
+          reference(t),
+          t.memberName || "(Account Deleted)",
+          `${t.description}${t.isFreeSession ? " (FREE)" : ""}`,
+          paymentLabel(t),
+          t.status || "",
+          t.amount,
+          t.voucherAmount,
+          t.refundAmount,
+          t.refundedAt ? ukDate(t.refundedAt) : "",
+          "0.00",
+        ]),
+        [],
+        ["FINANCIAL SUMMARY"],
+        ["Business Name", BUSINESS_NAME],
+        ["Report Period", periodLabel(range.from, range.to)],
+        ["Generated", format(new Date(), "dd/MM/yyyy HH:mm:ss")],
+        [],
+        ["Card Sessions", summary.card.count, summary.card.amount],
+        ["Cash Sessions", summary.cash.count, summary.cash.amount],
+        ["Class Pack Sales", summary.packSales.count, summary.packSales.amount],
+        ["Membership Payments", summary.membershipPayments.count, summary.membershipPayments.amount],
+        ["Gift Voucher Sales", summary.voucherSales.count, summary.voucherSales.amount],
+        ["Refunds", summary.refunded.count, `-${summary.refunded.amount}`],
+        ["Total Takings", "", takings(summary)],
+        [],
+        ["Sessions Paid by Gift Voucher", summary.voucher.count, summary.voucher.amount],
+        ["Free First Sessions (Promotional Value)", summary.free.count, summary.free.amount],
+        ["VAT (Not Registered)", "", "0.00"],
+        [],
+        ["Note: Session income is dated by the class, sales by the day they were made"],
+        ["Note: Gift voucher spends were paid for when the voucher was sold, so they aren't counted in takings again"],
+        ["Note: VAT not charged - turnover below £90,000 threshold"],
+        ["Records retained for HMRC compliance (6 years minimum)"],
+      ]);
+    } catch (error) {
+      console.error("Error exporting transactions:", error);
+      res.status(500).json({ message: "Failed to export transactions" });
+    }
+  });
+
+  // Admin: Double-entry journal for importing into the accountant's bookkeeping software
+  app.get("/api/admin/reports/journal.csv", isAdmin, async (req, res) => {
+    try {
+      const range = resolveRange(req.query);
+      if ("error" in range) {
+        return res.status(400).json({ message: range.error });
+      }
+      const transactions = await storage.getFinanceTransactions(range.from, range.to);
+
+      sendCsv(res, `milltown-boxing-journal-${clubToday()}.csv`, [
+        ["Date", "Reference", "Account Code", "Account Name", "Description", "Debit", "Credit"],
+        ...transactions.slice().reverse().flatMap(journalLines),
+      ]);
+    } catch (error) {
+      console.error("Error exporting journal:", error);
+      res.status(500).json({ message: "Failed to export journal" });
+    }
+  });
+}
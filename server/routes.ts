@@ -2,10 +2,34 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated, registerAuthRoutes } from "./auth_setup";
-import { registerMemberRoutes, isAdmin } from "./memberAuth";
-import { sendBookingConfirmationEmail, sendVerificationEmail, sendCancellationEmail } from "./email";
+import { registerMemberRoutes, isAdmin, isMemberAuthenticated } from "./memberAuth";
+import { registerKioskRoutes } from "./kiosk";
+import { registerCreditRoutes } from "./credits";
+import { registerSubscriptionRoutes, getSubscriptionCover } from "./subscriptions";
+import { registerSquareWebhookRoutes } from "./squareWebhooks";
+import { registerPromoCodeRoutes, checkPromoCode, type ValidPromoCode } from "./promoCodes";
+import { registerGiftVoucherRoutes, checkGiftVoucher } from "./giftVouchers";
+import { registerSavedCardRoutes, saveMemberCard, getChargeableCard } from "./savedCards";
+import { registerCashSessionRoutes } from "./cashSessions";
+import { registerReportRoutes } from "./reports";
+import { registerReceiptRoutes, bookingReceiptAttachment } from "./receipts";
+import { registerClosureRoutes } from "./closures";
+import { registerEligibilityRoutes, getBookingIneligibility, eligibilityRulesSchema } from "./eligibility";
+import { registerGuardianRoutes, getActingMember, getMemberContact, getEmergencyContact, canManageMember } from "./guardians";
+import { registerDocumentRoutes, getDocumentsBlock, getOutstandingDocuments, seedConsentDocuments } from "./documents";
+import { registerFightRecordRoutes } from "./fightRecords";
+import { generateWeeklyClasses, editSeries, removeSeries } from "./classSeries";
+import { sendBookingConfirmationEmail, sendVerificationEmail } from "./email";
 import { checkBookingRateLimit, verifyHCaptcha, logSuspiciousActivity, getSuspiciousActivityLog } from "./antiSpam";
-import { createPayment, isSquareConfigured, getSquareApplicationId, getSquareLocationId } from "./square";
+import { getSquareApplicationId, getSquareLocationId, isSquareSandbox } from "./square";
+import { paymentProvider } from "./paymentProvider";
+import { getPlacesLeft, promoteFromWaitlist, claimWaitlistEntry } from "./waitlist";
+import { refundBooking } from "./refunds";
+import { clubToday, setClubTimezone, getClubTimezone, clubDateOf } from "./clubTime";
+import { isPaidBooking, pricingSettingsSchema, bookingWindowSettingsSchema, siteSettingsSchema } from "@shared/schema";
+import { isValidTimezone } from "@shared/clubTime";
+import { getPricingSettings, savePricingSettings, getMemberClassPrice, toPence } from "./pricing";
+import { getBookingWindowSettings, saveBookingWindowSettings, getBookingOpensAt, isBookingOpen } from "./bookingWindow";
 
 function getClientIP(req: any): string {
   const forwarded = req.headers["x-forwarded-for"];
@@ -105,6 +129,21 @@ export async function registerRoutes(
   await setupAuth(app);
   registerAuthRoutes(app);
   registerMemberRoutes(app);
+  registerKioskRoutes(app);
+  registerCreditRoutes(app);
+  registerSubscriptionRoutes(app);
+  registerSquareWebhookRoutes(app);
+  registerPromoCodeRoutes(app);
+  registerGiftVoucherRoutes(app);
+  registerSavedCardRoutes(app);
+  registerCashSessionRoutes(app);
+  registerReportRoutes(app);
+  registerReceiptRoutes(app);
+  registerClosureRoutes(app);
+  registerEligibilityRoutes(app);
+  registerGuardianRoutes(app);
+  registerDocumentRoutes(app);
+  registerFightRecordRoutes(app);
 
   app.get("/api/content/:key", async (req, res) => {
     try {
@@ -124,6 +163,10 @@ export async function registerRoutes(
     try {
       const { key } = req.params;
       let { content } = req.body;
+
+      if (key === "settings" && content?.timezone && !isValidTimezone(content.timezone)) {
+        return res.status(400).json({ message: "Unknown timezone - use a name like Europe/London" });
+      }
       
       if (typeof content === "object") {
         Object.keys(content).forEach((k) => {
@@ -134,6 +177,14 @@ export async function registerRoutes(
       }
       
       const result = await storage.upsertContent(key, content);
+      if (key === "settings") {
+        const previousTimezone = getClubTimezone();
+        setClubTimezone(content?.timezone);
+        if (getClubTimezone() !== previousTimezone) {
+          const moved = await storage.recalculateClassStartTimes(getClubTimezone(), clubToday());
+          console.log(`[Schedule] Club timezone now ${getClubTimezone()}, updated start times of ${moved} class(es)`);
+        }
+      }
       res.json({ success: true, content: result.content });
     } catch (error) {
       console.error("Error updating content:", error);
@@ -414,7 +465,7 @@ export async function registerRoutes(
   // Default class templates - seeded into database on first run
   const defaultTemplates = [
     { dayOfWeek: 1, time: "17:30", title: "Beginners Class", classType: "beginners", duration: 60, description: "Perfect for those new to boxing. Learn fundamentals, technique, and fitness." },
-    { dayOfWeek: 1, time: "18:45", title: "Senior & Carded Boxers", classType: "senior", duration: 135, description: "Advanced training for experienced and carded boxers." },
+    { dayOfWeek: 1, time: "18:45", title: "Senior & Carded Boxers", classType: "senior", duration: 135, description: "Advanced training for experienced and carded boxers.", minAge: 16, minExperienceLevel: "intermediate", requiresMedical: true },
     { dayOfWeek: 3, time: "17:30", title: "Open Class Training", classType: "open", duration: 60, description: "Open training session for all experience levels." },
     { dayOfWeek: 6, time: "10:00", title: "Open Class Training", classType: "open", duration: 60, description: "Weekend open training session for all experience levels." },
   ];
@@ -430,61 +481,6 @@ export async function registerRoutes(
     }
   }
 
-  // Generate classes for the next N weeks (default: 2 weeks to reduce clutter)
-  async function generateWeeklyClasses(weeksAhead: number = 2) {
-    const templates = await storage.getActiveClassTemplates();
-    if (templates.length === 0) return;
-    
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    for (let week = 0; week < weeksAhead; week++) {
-      for (const template of templates) {
-        const classDate = new Date(today);
-        // Find the next occurrence of this day of week
-        const currentDay = classDate.getDay();
-        let daysUntil = template.dayOfWeek - currentDay;
-        if (daysUntil < 0) daysUntil += 7;
-        classDate.setDate(classDate.getDate() + daysUntil + (week * 7));
-        
-        const dateStr = classDate.toISOString().split('T')[0];
-        
-        // Check if class already exists for this date and time
-        const existingClasses = await storage.getUpcomingClasses();
-        const exists = existingClasses.some(c => c.date === dateStr && c.time === template.time);
-        
-        if (!exists) {
-          await storage.createClass({
-            title: template.title,
-            description: template.description || "",
-            classType: template.classType,
-            date: dateStr,
-            time: template.time,
-            duration: template.duration || 60,
-            capacity: 9999,
-            price: "5.00",
-            isActive: true,
-          });
-        }
-      }
-    }
-  }
-
-  // Cleanup: Remove incorrect 17:45 Senior classes (should be 18:45)
-  async function cleanupIncorrectClasses() {
-    try {
-      const allClasses = await storage.getUpcomingClasses();
-      for (const cls of allClasses) {
-        if (cls.classType === 'senior' && cls.time === '17:45') {
-          await storage.deleteClass(cls.id);
-          console.log(`[Cleanup] Removed incorrect 17:45 Senior class on ${cls.date}`);
-        }
-      }
-    } catch (error) {
-      console.error('[Cleanup] Error cleaning up classes:', error);
-    }
-  }
-
   async function grantAdminAccess() {
     const adminEmails = ["milltownabc@gmail.com", "a3dtraitor@gmail.com", "mark.w.maintenance@gmail.com", "alexcleggy@gmail.com"];
     for (const email of adminEmails) {
@@ -496,26 +492,20 @@ export async function registerRoutes(
     }
   }
 
-  // Generate classes on server start (seed templates, cleanup, then generate 2 weeks)
-  seedClassTemplates()
-    .then(() => cleanupIncorrectClasses())
-    .then(() => generateWeeklyClasses(2))
+  async function loadClubTimezone() {
+    const saved = await storage.getContent("settings");
+    const parsed = siteSettingsSchema.safeParse(saved?.content);
+    setClubTimezone(parsed.success ? parsed.data.timezone : undefined);
+  }
+
+  // Generate classes on server start (club timezone first, seed templates and forms, then generate the timetable)
+  loadClubTimezone()
+    .then(() => seedClassTemplates())
+    .then(() => seedConsentDocuments())
+    .then(() => generateWeeklyClasses())
     .then(() => grantAdminAccess())
     .catch(console.error);
 
-  // Get all upcoming classes
-  app.get("/api/classes", async (_req, res) => {
-    try {
-      // Regenerate classes to ensure we always have 2 weeks ahead
-      await generateWeeklyClasses(2);
-      const classes = await storage.getUpcomingClasses();
-      res.json(classes);
-    } catch (error) {
-      console.error("Error fetching classes:", error);
-      res.status(500).json({ message: "Failed to fetch classes" });
-    }
-  });
-
   // Admin: Get class templates
   app.get("/api/admin/class-templates", isAdmin, async (_req, res) => {
     try {
@@ -544,17 +534,26 @@ export async function registerRoutes(
     }
   });
 
-  // Admin: Update class template
+  // Admin: Update class template - the whole series, so its upcoming sessions change too and booked members are emailed
   app.patch("/api/admin/class-templates/:id", isAdmin, async (req, res) => {
     try {
-      const { title, time, duration, description, isActive } = req.body;
-      const updated = await storage.updateClassTemplate(req.params.id, {
-        title, time, duration, description, isActive
-      });
-      if (!updated) {
+      const template = await storage.getClassTemplate(req.params.id);
+      if (!template) {
         return res.status(404).json({ message: "Template not found" });
       }
-      res.json(updated);
+      const rules = eligibilityRulesSchema.safeParse(req.body);
+      if (!rules.success) {
+        return res.status(400).json({ message: rules.error.errors[0]?.message || "Invalid class rules" });
+      }
+      const { title, time, duration, capacity, price, concessionPrice, description, isActive } = req.body;
+      const result = await editSeries(template, {
+        title, time, duration, capacity, description, isActive,
+        ...rules.data,
+        // Empty string clears the override so the class type default applies
+        price: price === "" ? null : price,
+        concessionPrice: concessionPrice === "" ? null : concessionPrice,
+      }, clubToday());
+      res.json(result);
     } catch (error) {
       console.error("Error updating template:", error);
       res.status(500).json({ message: "Failed to update template" });
@@ -564,24 +563,33 @@ export async function registerRoutes(
   // Admin: Create class template
   app.post("/api/admin/class-templates", isAdmin, async (req, res) => {
     try {
-      const { dayOfWeek, time, title, classType, duration, description, isActive } = req.body;
+      const { dayOfWeek, time, title, classType, duration, capacity, price, concessionPrice, description, isActive } = req.body;
       
       if (dayOfWeek === undefined || !time || !title || !classType || !duration) {
         return res.status(400).json({ message: "Missing required fields" });
       }
+
+      const rules = eligibilityRulesSchema.safeParse(req.body);
+      if (!rules.success) {
+        return res.status(400).json({ message: rules.error.errors[0]?.message || "Invalid class rules" });
+      }
       
       const template = await storage.createClassTemplate({
+        ...rules.data,
         dayOfWeek: parseInt(dayOfWeek),
         time,
         title,
         classType,
         duration: parseInt(duration),
+        capacity: capacity ? parseInt(capacity) : 12,
+        price: price || null,
+        concessionPrice: concessionPrice || null,
         description: description || null,
         isActive: isActive !== false
       });
       
       // Generate classes for this new template
-      await generateWeeklyClasses(2);
+      await generateWeeklyClasses();
       
       res.status(201).json(template);
     } catch (error) {
@@ -590,109 +598,21 @@ export async function registerRoutes(
     }
   });
 
-  // Admin: Delete class template
+  // Admin: Delete class template - its sessions still to come are cancelled and booked members refunded
   app.delete("/api/admin/class-templates/:id", isAdmin, async (req, res) => {
     try {
-      const deleted = await storage.deleteClassTemplate(req.params.id);
-      if (!deleted) {
+      const template = await storage.getClassTemplate(req.params.id);
+      if (!template) {
         return res.status(404).json({ message: "Template not found" });
       }
-      res.json({ message: "Template deleted successfully" });
+      const totals = await removeSeries(template);
+      res.json({ ...totals, message: `Template deleted. ${totals.classesCancelled} upcoming class(es) and ${totals.bookingsCancelled} booking(s) cancelled` });
     } catch (error) {
       console.error("Error deleting template:", error);
       res.status(500).json({ message: "Failed to delete template" });
     }
   });
 
-  // Admin: Get all classes (including inactive)
-  app.get("/api/admin/classes", isAdmin, async (_req, res) => {
-    try {
-      const classes = await storage.getAllClasses();
-      res.json(classes);
-    } catch (error) {
-      console.error("Error fetching admin classes:", error);
-      res.status(500).json({ message: "Failed to fetch classes" });
-    }
-  });
-
-  // Admin: Create individual class
-  app.post("/api/admin/classes", isAdmin, async (req, res) => {
-    try {
-      const { title, description, classType, date, time, duration, capacity, price, isActive } = req.body;
-      if (!title || !date || !time) {
-        return res.status(400).json({ message: "Missing required fields" });
-      }
-      const boxingClass = await storage.createClass({
-        title,
-        description: description || "",
-        classType: classType || "open",
-        date,
-        time,
-        duration: duration || 60,
-        capacity: 9999,
-        price: price || "5.00",
-        isActive: isActive !== false
-      });
-      res.status(201).json(boxingClass);
-    } catch (error) {
-      console.error("Error creating class:", error);
-      res.status(500).json({ message: "Failed to create class" });
-    }
-  });
-
-  // Admin: Update individual class
-  app.put("/api/admin/classes/:id", isAdmin, async (req, res) => {
-    try {
-      const { title, description, classType, date, time, duration, capacity, price, isActive } = req.body;
-      const updated = await storage.updateClass(req.params.id, {
-        title,
-        description,
-        classType,
-        date,
-        time,
-        duration,
-        capacity,
-        price,
-        isActive
-      });
-      if (!updated) {
-        return res.status(404).json({ message: "Class not found" });
-      }
-      res.json(updated);
-    } catch (error) {
-      console.error("Error updating class:", error);
-      res.status(500).json({ message: "Failed to update class" });
-    }
-  });
-
-  // Admin: Delete individual class
-  app.delete("/api/admin/classes/:id", isAdmin, async (req, res) => {
-    try {
-      const deleted = await storage.deleteClass(req.params.id);
-      if (!deleted) {
-        return res.status(404).json({ message: "Class not found" });
-      }
-      res.json({ message: "Class deleted successfully" });
-    } catch (error) {
-      console.error("Error deleting class:", error);
-      res.status(500).json({ message: "Failed to delete class" });
-    }
-  });
-
-  // Get single class
-  app.get("/api/classes/:id", async (req, res) => {
-    try {
-      const boxingClass = await storage.getClass(req.params.id);
-      if (!boxingClass) {
-        return res.status(404).json({ message: "Class not found" });
-      }
-      res.json(boxingClass);
-    } catch (error) {
-      console.error("Error fetching class:", error);
-      res.status(500).json({ message: "Failed to fetch class" });
-    }
-  });
-
   // Book a class (requires member authentication)
   app.post("/api/classes/:id/book", async (req, res) => {
     try {
@@ -707,10 +627,11 @@ export async function registerRoutes(
       }
       
       // Verify hCaptcha if provided and configured
-      const { hcaptchaToken, paymentToken, verificationToken, paymentMethod } = req.body;
+      const { hcaptchaToken, paymentToken, savedCardId, saveCard, verificationToken, paymentMethod, promoCode, giftVoucherCode, forMemberId } = req.body;
       const isCashPayment = paymentMethod === "cash";
+      const isCardPayment = !!paymentToken || !!savedCardId;
       // Only require captcha for free sessions (paid sessions go through payment instead)
-      if (!paymentToken && !isCashPayment) {
+      if (!isCardPayment && !isCashPayment) {
         if (hcaptchaToken) {
           const captchaValid = await verifyHCaptcha(hcaptchaToken);
           if (!captchaValid) {
@@ -724,18 +645,26 @@ export async function registerRoutes(
       }
       
       // Check if member is logged in via session
-      const memberId = (req.session as any)?.memberId;
-      if (!memberId) {
+      const sessionMemberId = (req.session as any)?.memberId;
+      if (!sessionMemberId) {
         return res.status(401).json({ message: "Please log in to book a class" });
       }
 
-      const member = await storage.getMemberById(memberId);
-      if (!member) {
+      const payer = await storage.getMemberById(sessionMemberId);
+      if (!payer) {
         return res.status(401).json({ message: "Member not found" });
       }
 
+      // Guardians book for their juniors: the place, free session, credits and plan are the junior's,
+      // while card payments come from the guardian
+      const member = await getActingMember(payer.id, forMemberId);
+      if (!member) {
+        return res.status(404).json({ message: "Junior not found" });
+      }
+      const memberId = member.id;
+
       // Check email verification (optional - only enforce if SMTP is configured)
-      if (process.env.SMTP_USER && process.env.SMTP_PASS && !member.emailVerified) {
+      if (process.env.SMTP_USER && process.env.SMTP_PASS && !payer.emailVerified) {
         return res.status(403).json({ 
           message: "Please verify your email address before booking. Check your inbox for the verification link." 
         });
@@ -750,6 +679,31 @@ export async function registerRoutes(
         return res.status(400).json({ message: "This class is not available for booking" });
       }
 
+      const bookingWindow = await getBookingWindowSettings();
+      if (!isBookingOpen(boxingClass, bookingWindow)) {
+        const opensOn = format(parseISO(clubDateOf(getBookingOpensAt(boxingClass, bookingWindow))), "EEEE d MMMM");
+        return res.status(400).json({ message: `Booking for this class opens on ${opensOn}` });
+      }
+
+      const ineligibility = await getBookingIneligibility(member, boxingClass);
+      if (ineligibility.length > 0) {
+        return res.status(403).json({ message: ineligibility.join(". "), reasons: ineligibility });
+      }
+
+      const documentsBlock = await getDocumentsBlock(member);
+      if (documentsBlock) {
+        return res.status(403).json(documentsBlock);
+      }
+
+      // Early check so we don't take payment for a full class - the booking transaction re-checks atomically
+      const placesLeft = await getPlacesLeft(boxingClass, memberId);
+      if (placesLeft !== null && placesLeft <= 0) {
+        return res.status(409).json({
+          message: "This class is full. Join the waitlist and we'll email you if a place opens up.",
+          classFull: true,
+        });
+      }
+
       // Check if already booked
       const existingBookings = await storage.getBookingsByMember(memberId);
       const alreadyBooked = existingBookings.some(b => b.classId === req.params.id && b.status !== "cancelled");
@@ -758,7 +712,7 @@ export async function registerRoutes(
       }
 
       // Check max 3 future bookings per user
-      const today = new Date().toISOString().split('T')[0];
+      const today = clubToday();
       const futureBookings = existingBookings.filter(b => {
         if (b.status === "cancelled") return false;
         const bookingClass = boxingClass; // We already have current class
@@ -788,7 +742,7 @@ export async function registerRoutes(
       // Safety guard: If hasUsedFreeSession is false but they have prior confirmed bookings,
       // treat them as having used their free session (backfill protection)
       if (isFreeSession) {
-        const confirmedBookings = existingBookings.filter(b => b.status === "confirmed");
+        const confirmedBookings = existingBookings.filter(b => isPaidBooking(b));
         if (confirmedBookings.length > 0) {
           isFreeSession = false;
           // Also update the flag for future checks
@@ -796,22 +750,80 @@ export async function registerRoutes(
         }
       }
       
-      const price = isFreeSession ? "0.00" : "5.00";
+      // A promo code or gift voucher means the member chose to pay for this session, so it isn't taken from a plan or pack
+      const usePromo = typeof promoCode === "string" && promoCode.trim() !== "" && !isFreeSession;
+      const useVoucher = typeof giftVoucherCode === "string" && giftVoucherCode.trim() !== "" && !isFreeSession;
+
+      // Members on a plan with sessions left are already paid up - and keep their free trial for later
+      const subscriptionCover = await getSubscriptionCover(memberId);
+      const useSubscription = !!subscriptionCover?.covers && !isCardPayment && !isCashPayment && !usePromo && !useVoucher;
+      if (useSubscription) {
+        isFreeSession = false;
+      }
+
+      // Price comes from the class (concession rate for juniors/students) - never from the client
+      const memberPrice = await getMemberClassPrice(boxingClass, member);
+      let price = isFreeSession ? "0.00" : memberPrice.price;
+
+      let promo: ValidPromoCode | null = null;
+      if (usePromo) {
+        const promoCheck = await checkPromoCode(promoCode, boxingClass, memberId, price);
+        if (!promoCheck.valid) {
+          return res.status(400).json({ message: promoCheck.message });
+        }
+        promo = promoCheck;
+        price = promoCheck.price;
+      }
 
-      // For paid sessions, process payment first if paymentToken is provided (or skip for cash)
+      // Gift vouchers pay for whatever's left after any promo discount
+      let giftVoucher: { voucherId: string; code: string; amount: string } | null = null;
+      if (useVoucher && toPence(price) > 0) {
+        const voucherCheck = await checkGiftVoucher(giftVoucherCode);
+        if (!voucherCheck.valid) {
+          return res.status(400).json({ message: voucherCheck.message });
+        }
+        const covered = Math.min(toPence(voucherCheck.voucher.balance), toPence(price));
+        giftVoucher = { voucherId: voucherCheck.voucher.id, code: voucherCheck.voucher.code, amount: (covered / 100).toFixed(2) };
+        price = ((toPence(price) - covered) / 100).toFixed(2);
+      }
+      const amount = toPence(price);
+
+      // Members with a class pack spend a credit unless they chose to pay by card or cash
+      const useCredit = !isFreeSession && !useSubscription && !usePromo && !useVoucher && !isCardPayment && !isCashPayment && amount > 0
+        && (await storage.getCreditBalance(memberId)) > 0;
+
+      // For paid sessions, process payment first if a card is provided (or skip for cash)
       let paymentResult = null;
-      if (!isFreeSession && !isCashPayment) {
-        if (!paymentToken) {
+      if (!isFreeSession && !isCashPayment && !useCredit && !useSubscription && amount > 0) {
+        if (!isCardPayment) {
           return res.status(400).json({ 
             message: "Payment required for this session. Please complete the payment form." 
           });
         }
+
+        // Saved cards are charged on file. A new card the member wants kept is saved first, then charged the same way.
+        let sourceId: string = paymentToken;
+        let customerId: string | undefined;
+        if (savedCardId) {
+          const card = await getChargeableCard(payer.id, savedCardId);
+          if (!card || !payer.squareCustomerId) {
+            return res.status(400).json({ message: "That saved card can't be used any more. Please pay with a new card." });
+          }
+          sourceId = card.squareCardId;
+          customerId = payer.squareCustomerId;
+        } else if (saveCard) {
+          const saved = await saveMemberCard(payer, paymentToken, verificationToken || undefined);
+          if (saved) {
+            sourceId = saved.card.squareCardId;
+            customerId = saved.customerId;
+          }
+        }
         
         // Process Square payment
-        const amount = 500; // £5.00 in pence
-        console.log(`[Payment] Processing Square payment for member ${memberId}, class ${req.params.id}`);
-        paymentResult = await createPayment({
-          sourceId: paymentToken,
+        console.log(`[Payment] Processing Square payment of ${amount}p for member ${memberId}, class ${req.params.id}`);
+        paymentResult = await paymentProvider.createPayment({
+          sourceId,
+          customerId,
           verificationToken: verificationToken || undefined,
           amount,
           currency: "GBP",
@@ -827,51 +839,122 @@ export async function registerRoutes(
         console.log(`[Payment] Success! Payment ID: ${paymentResult.paymentId}`);
       }
 
-      // Create booking - confirmed if free or card payment succeeded, pending if cash
-      const bookingStatus = isCashPayment ? "pending_cash" : "confirmed";
-      const booking = await storage.createBooking({
+      // Create booking - confirmed if free or card payment completed, pending_cash if cash.
+      // Card payments Square hasn't completed yet stay pending until the payment webhook confirms them.
+      // Capacity, duplicates and bookedCount are all handled inside one transaction.
+      const paymentProcessing = !!paymentResult && paymentResult.status !== "COMPLETED";
+      const discountCoversAll = (!!promo || !!giftVoucher) && amount === 0;
+      const bookingStatus = isCashPayment && !discountCoversAll ? "pending_cash" : paymentProcessing ? "pending" : "confirmed";
+      const bookingPaymentMethod = discountCoversAll ? (giftVoucher ? "voucher" : "promo")
+        : isCashPayment ? "cash" : useSubscription ? "subscription" : useCredit ? "credit" : "card";
+      const bookingResult = await storage.createBooking({
         memberId,
         classId: req.params.id,
         status: bookingStatus,
         isFreeSession,
-        price,
+        // Packs and plans are paid for up front, so these bookings take no money themselves
+        price: useCredit || useSubscription ? "0.00" : price,
         squarePaymentId: paymentResult?.paymentId || null,
-        paymentMethod: isCashPayment ? "cash" : "card",
+        paymentMethod: bookingPaymentMethod,
+      }, {
+        useCredit,
+        promo: promo ? { promoCodeId: promo.promo.id, originalPrice: promo.originalPrice, discountAmount: promo.discountAmount } : undefined,
+        giftVoucher: giftVoucher ? { voucherId: giftVoucher.voucherId, amount: giftVoucher.amount } : undefined,
       });
 
+      if (!bookingResult.success) {
+        // The card went through but the place didn't - hand the money straight back
+        let refundFailed = false;
+        if (paymentResult?.paymentId) {
+          const refund = await paymentProvider.refundPayment({ paymentId: paymentResult.paymentId, amount, reason: "Booking could not be completed" });
+          if (!refund.success) {
+            console.error(`[Payment] Could not refund ${paymentResult.paymentId} after booking rejected (${bookingResult.reason}) for member ${memberId}, class ${req.params.id}:`, refund.error);
+            refundFailed = true;
+          } else {
+            console.log(`[Payment] Refunded ${paymentResult.paymentId} after booking rejected (${bookingResult.reason})`);
+          }
+        }
+        const charged = paymentResult?.paymentId
+          ? refundFailed ? " Please contact the club and we'll refund your payment." : " You haven't been charged."
+          : "";
+
+        if (bookingResult.reason === "promo_unavailable" || bookingResult.reason === "voucher_unavailable") {
+          const problem = bookingResult.reason === "promo_unavailable"
+            ? "That promo code has just been used up."
+            : "That gift voucher no longer has enough balance.";
+          return res.status(400).json({ message: refundFailed ? `${problem}${charged}` : `${problem} You haven't been charged - please try again.` });
+        }
+        if (bookingResult.reason === "already_booked") {
+          return res.status(400).json({ message: `You have already booked this class.${charged}` });
+        }
+        if (bookingResult.reason === "no_credit") {
+          return res.status(400).json({ message: "You have no session credits left. Please pay for this session." });
+        }
+        if (bookingResult.reason === "class_full") {
+          return res.status(409).json({
+            message: paymentResult?.paymentId
+              ? `Sorry, the last place was just taken.${charged} Join the waitlist and we'll email you if a place opens up.`
+              : "This class is full. Join the waitlist and we'll email you if a place opens up.",
+            classFull: true,
+          });
+        }
+        return res.status(404).json({ message: `Class not found.${charged}` });
+      }
+      const booking = bookingResult.booking;
+
       // Mark member as having used free session
       if (isFreeSession) {
         await storage.updateMember(memberId, { hasUsedFreeSession: true });
       }
 
-      await storage.incrementBookedCount(req.params.id);
+      await claimWaitlistEntry(req.params.id, memberId);
 
       // Send confirmation email
       const sessionDate = format(parseISO(boxingClass.date), "EEEE, MMMM d, yyyy");
       const sessionTime = boxingClass.time;
+      const creditsLeft = useCredit ? await storage.getCreditBalance(memberId) : undefined;
+      const contact = await getMemberContact(member);
       
-      sendBookingConfirmationEmail({
-        memberName: member.name,
-        memberEmail: member.email,
-        sessionTitle: boxingClass.title,
-        sessionDate,
-        sessionTime,
-        isFreeSession,
-        paymentType: isFreeSession ? 'free' : (isCashPayment ? 'cash' : 'card'),
-        price,
-      }).catch(err => console.error("Email send error:", err));
+      if (contact) {
+        bookingReceiptAttachment(member, booking, boxingClass).then(receipt => sendBookingConfirmationEmail({
+          ...contact,
+          sessionTitle: boxingClass.title,
+          sessionDate,
+          sessionTime,
+          isFreeSession,
+          paymentType: isFreeSession ? 'free' : bookingPaymentMethod,
+          price,
+          creditsLeft,
+          promoCode: promo?.promo.code,
+          promoDiscount: promo?.discountAmount,
+          giftVoucherCode: giftVoucher?.code,
+          giftVoucherAmount: giftVoucher?.amount,
+          receipt,
+        })).catch(err => console.error("Email send error:", err));
+      }
 
       res.json({ 
         booking, 
         isFreeSession,
-        price,
+        price: booking.price,
         paymentId: paymentResult?.paymentId || null,
-        paymentMethod: isCashPayment ? "cash" : "card",
+        paymentMethod: bookingPaymentMethod,
+        creditsLeft,
         message: isFreeSession 
           ? "Your first session is FREE! A confirmation email has been sent." 
+          : discountCoversAll
+            ? giftVoucher
+              ? `Booked with your gift voucher - £${giftVoucher.amount} used.`
+              : `Booked with promo code ${promo!.promo.code} - nothing to pay!`
           : isCashPayment
-            ? "Booking confirmed! Please pay £5 cash at reception before your session."
-            : "Payment successful! Your booking is confirmed."
+            ? `Booking confirmed! Please pay £${price} cash at reception before your session.`
+            : useSubscription
+              ? `Booked on your ${subscriptionCover!.plan.name} membership.`
+              : useCredit
+                ? `Booked with a session credit. You have ${creditsLeft} left.`
+                : paymentProcessing
+                  ? "Your payment is processing. We'll confirm your booking as soon as Square completes it."
+                  : "Payment successful! Your booking is confirmed."
       });
     } catch (error) {
       console.error("Error booking class:", error);
@@ -879,89 +962,155 @@ export async function registerRoutes(
     }
   });
 
-  // Cancel booking
-  app.delete("/api/bookings/:id", async (req, res) => {
+  // Join the waitlist for a full class
+  app.post("/api/classes/:id/waitlist", isMemberAuthenticated, async (req, res) => {
     try {
-      const memberId = (req.session as any)?.memberId;
-      if (!memberId) {
-        return res.status(401).json({ message: "Please log in" });
+      const boxingClass = await storage.getClass(req.params.id);
+      if (!boxingClass) {
+        return res.status(404).json({ message: "Class not found" });
       }
 
-      const booking = await storage.getBooking(req.params.id);
-      if (!booking) {
-        return res.status(404).json({ message: "Booking not found" });
+      if (!boxingClass.isActive) {
+        return res.status(400).json({ message: "This class is not available for booking" });
       }
 
-      if (booking.memberId !== memberId) {
-        return res.status(403).json({ message: "Not authorized" });
+      const bookingWindow = await getBookingWindowSettings();
+      if (!isBookingOpen(boxingClass, bookingWindow)) {
+        const opensOn = format(parseISO(clubDateOf(getBookingOpensAt(boxingClass, bookingWindow))), "EEEE d MMMM");
+        return res.status(400).json({ message: `Booking for this class opens on ${opensOn}` });
       }
 
-      // Get the class to check the start time
-      const boxingClass = await storage.getClass(booking.classId);
-      
-      // Calculate if cancellation is within 1 hour of class start
-      let isWithinOneHour = false;
-      if (boxingClass) {
-        const classDateTime = new Date(`${boxingClass.date}T${boxingClass.time}:00`);
-        const now = new Date();
-        const oneHourBefore = new Date(classDateTime.getTime() - 60 * 60 * 1000);
-        isWithinOneHour = now >= oneHourBefore;
+      // Guardians can put their juniors on the waitlist too
+      const member = await getActingMember(req.session.memberId!, req.body?.forMemberId);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      const memberId = member.id;
+      const ineligibility = await getBookingIneligibility(member, boxingClass);
+      if (ineligibility.length > 0) {
+        return res.status(403).json({ message: ineligibility.join(". "), reasons: ineligibility });
       }
 
-      await storage.cancelBooking(req.params.id);
-      await storage.decrementBookedCount(booking.classId);
+      const documentsBlock = await getDocumentsBlock(member);
+      if (documentsBlock) {
+        return res.status(403).json(documentsBlock);
+      }
 
-      let freeSessionRestored = false;
-      if (booking.isFreeSession) {
-        await storage.updateMember(memberId, { hasUsedFreeSession: false });
-        freeSessionRestored = true;
+      const placesLeft = await getPlacesLeft(boxingClass, memberId);
+      if (placesLeft === null || placesLeft > 0) {
+        return res.status(400).json({ message: "This class still has places available - you can book it now" });
       }
 
-      // Send cancellation confirmation email
-      const member = await storage.getMemberById(memberId);
-      if (member && boxingClass) {
-        const sessionDate = new Date(boxingClass.date + 'T00:00:00');
-        const formattedDate = sessionDate.toLocaleDateString('en-GB', {
-          weekday: 'long',
-          day: 'numeric',
-          month: 'long',
-          year: 'numeric'
-        });
+      const existingBookings = await storage.getBookingsByMember(memberId);
+      if (existingBookings.some(b => b.classId === req.params.id && b.status !== "cancelled")) {
+        return res.status(400).json({ message: "You have already booked this class" });
+      }
 
-        sendCancellationEmail({
-          memberName: member.name,
-          memberEmail: member.email,
-          sessionTitle: boxingClass.title,
-          sessionDate: formattedDate,
-          sessionTime: boxingClass.time,
-          freeSessionRestored
-        }).catch(err => console.error("[Email] Failed to send cancellation email:", err));
+      const existingEntry = await storage.getActiveWaitlistEntry(req.params.id, memberId);
+      if (existingEntry) {
+        return res.status(400).json({ message: "You are already on the waitlist for this class" });
       }
 
-      res.json({ 
-        message: "Booking cancelled",
-        freeSessionRestored,
-        freeSessionForfeited: booking.isFreeSession && !freeSessionRestored
+      let entry;
+      try {
+        entry = await storage.createWaitlistEntry({
+          classId: req.params.id,
+          memberId,
+          status: "waiting",
+        });
+      } catch (error: any) {
+        // Two joins at once - the unique index lets only one through
+        if (error?.code === "23505") {
+          return res.status(400).json({ message: "You are already on the waitlist for this class" });
+        }
+        throw error;
+      }
+
+      const waitlist = await storage.getWaitlistByClass(req.params.id);
+      const position = waitlist.filter(e => e.status === "waiting").findIndex(e => e.id === entry.id) + 1;
+
+      res.status(201).json({
+        entry,
+        position,
+        message: `You're number ${position} on the waitlist. We'll email you if a place opens up.`,
       });
     } catch (error) {
-      console.error("Error cancelling booking:", error);
-      res.status(500).json({ message: "Failed to cancel booking" });
+      console.error("Error joining waitlist:", error);
+      res.status(500).json({ message: "Failed to join waitlist" });
     }
   });
 
-  // Get member's bookings
-  app.get("/api/members/me/bookings", async (req, res) => {
+  // Leave the waitlist (also declines any place currently being held)
+  app.delete("/api/classes/:id/waitlist", isMemberAuthenticated, async (req, res) => {
     try {
-      const memberId = (req.session as any)?.memberId;
-      if (!memberId) {
-        return res.status(401).json({ message: "Please log in" });
+      const member = await getActingMember(req.session.memberId!, req.body?.forMemberId);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      const entry = await storage.getActiveWaitlistEntry(req.params.id, member.id);
+      if (!entry) {
+        return res.status(404).json({ message: "You are not on the waitlist for this class" });
       }
 
-      const bookings = await storage.getBookingsByMember(memberId);
-      res.json(bookings);
+      await storage.updateWaitlistEntry(entry.id, { status: "cancelled" });
+      if (entry.status === "offered") {
+        promoteFromWaitlist(entry.classId).catch(err => console.error("[Waitlist] Promotion failed:", err));
+      }
+
+      res.json({ message: "You have left the waitlist" });
+    } catch (error) {
+      console.error("Error leaving waitlist:", error);
+      res.status(500).json({ message: "Failed to leave waitlist" });
+    }
+  });
+
+  // Get member's active waitlist entries with class details and queue position - their juniors' included
+  app.get("/api/members/me/waitlist", isMemberAuthenticated, async (req, res) => {
+    try {
+      const memberId = req.session.memberId!;
+      const dependants = await storage.getDependants(memberId);
+      const entries = (await Promise.all([memberId, ...dependants.map(d => d.id)].map(id => storage.getWaitlistByMember(id)))).flat();
+      const activeEntries = entries.filter(e => e.status === "waiting" || e.status === "offered");
+
+      const entriesWithDetails = await Promise.all(
+        activeEntries.map(async (entry) => {
+          const boxingClass = await storage.getClass(entry.classId);
+          const classWaitlist = await storage.getWaitlistByClass(entry.classId);
+          const position = entry.status === "waiting"
+            ? classWaitlist.filter(e => e.status === "waiting").findIndex(e => e.id === entry.id) + 1
+            : null;
+          return { ...entry, class: boxingClass, position };
+        })
+      );
+
+      res.json(entriesWithDetails);
+    } catch (error) {
+      console.error("Error fetching waitlist:", error);
+      res.status(500).json({ message: "Failed to fetch waitlist" });
+    }
+  });
+
+  // Admin: Get the waitlist for a class
+  app.get("/api/admin/classes/:id/waitlist", isAdmin, async (req, res) => {
+    try {
+      const waitlist = await storage.getWaitlistByClass(req.params.id);
+      const activeEntries = waitlist.filter(e => e.status === "waiting" || e.status === "offered");
+
+      const entriesWithDetails = await Promise.all(
+        activeEntries.map(async (entry) => {
+          const member = await storage.getMemberById(entry.memberId);
+          return {
+            ...entry,
+            member: member ? { name: member.name, email: member.email } : null,
+          };
+        })
+      );
+
+      res.json(entriesWithDetails);
     } catch (error) {
-      console.error("Error fetching bookings:", error);
-      res.status(500).json({ message: "Failed to fetch bookings" });
+      console.error("Error fetching class waitlist:", error);
+      res.status(500).json({ message: "Failed to fetch waitlist" });
     }
   });
 
@@ -996,15 +1145,17 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Booking not found" });
       }
 
-      if (booking.memberId !== memberId) {
+      const bookedMember = booking.memberId ? await storage.getMemberById(booking.memberId) : undefined;
+      if (!bookedMember || !canManageMember(memberId, bookedMember)) {
         return res.status(403).json({ message: "Not authorized" });
       }
 
-      if (booking.status === "confirmed") {
-        return res.status(400).json({ message: "Booking already confirmed" });
+      // Only bookings still waiting on money can be paid here - a card payment already processing is left to Square
+      if ((booking.status !== "pending" && booking.status !== "pending_cash") || booking.squarePaymentId) {
+        return res.status(400).json({ message: booking.status === "cancelled" ? "This booking has been cancelled" : "This booking doesn't need paying" });
       }
 
-      if (!isSquareConfigured()) {
+      if (!paymentProvider.isConfigured()) {
         return res.status(503).json({ 
           message: "Payment processing not configured. Please contact the gym to pay in person.",
           sandboxMode: true 
@@ -1013,7 +1164,7 @@ export async function registerRoutes(
 
       const amount = Math.round(parseFloat(booking.price || "5.00") * 100); // Convert to pence
       
-      const paymentResult = await createPayment({
+      const paymentResult = await paymentProvider.createPayment({
         sourceId,
         verificationToken: verificationToken || undefined,
         amount,
@@ -1023,26 +1174,27 @@ export async function registerRoutes(
       });
 
       if (paymentResult.success) {
-        await storage.updateBooking(bookingId, { 
-          status: "confirmed",
+        const confirmed = await storage.updateBooking(bookingId, { 
+          status: booking.checkedInAt ? "attended" : "confirmed",
+          paymentMethod: "card",
           squarePaymentId: paymentResult.paymentId,
         });
 
-        const member = await storage.getMemberById(memberId);
         const boxingClass = await storage.getClass(booking.classId);
+        const contact = await getMemberContact(bookedMember);
         
-        if (member && boxingClass) {
+        if (contact && boxingClass && confirmed) {
           const sessionDate = format(parseISO(boxingClass.date), "EEEE, MMMM d, yyyy");
-          sendBookingConfirmationEmail({
-            memberName: member.name,
-            memberEmail: member.email,
+          bookingReceiptAttachment(bookedMember, confirmed, boxingClass).then(receipt => sendBookingConfirmationEmail({
+            ...contact,
             sessionTitle: boxingClass.title,
             sessionDate,
             sessionTime: boxingClass.time,
             isFreeSession: false,
             paymentType: 'card',
             price: booking.price || "5.00",
-          }).catch(err => console.error("Email send error:", err));
+            receipt,
+          })).catch(err => console.error("Email send error:", err));
         }
 
         return res.json({ 
@@ -1064,14 +1216,20 @@ export async function registerRoutes(
 
   // Get Square configuration for frontend
   app.get("/api/square/config", async (req, res) => {
+    // The fake provider takes payments from its own test form, so the browser never loads Square
+    if (paymentProvider.name === "fake") {
+      return res.json({ provider: "fake", isConfigured: true, applicationId: "", locationId: "", sandboxMode: false });
+    }
+
     const applicationId = getSquareApplicationId();
     const locationId = getSquareLocationId();
-    const isSandbox = applicationId.startsWith("sandbox-");
-    console.log(`[Square Config] AppID prefix: ${applicationId.substring(0, 12)}..., sandbox: ${isSandbox}, configured: ${isSquareConfigured()}`);
+    const isSandbox = isSquareSandbox();
+    console.log(`[Square Config] AppID prefix: ${applicationId.substring(0, 12)}..., sandbox: ${isSandbox}, configured: ${paymentProvider.isConfigured()}`);
     res.json({
+      provider: "square",
       applicationId,
       locationId,
-      isConfigured: isSquareConfigured(),
+      isConfigured: paymentProvider.isConfigured(),
       sandboxMode: isSandbox,
     });
   });
@@ -1102,37 +1260,6 @@ export async function registerRoutes(
     }
   });
 
-  // Admin: Get all bookings with member/class details and payment info
-  app.get("/api/admin/bookings", isAdmin, async (req, res) => {
-    try {
-      const allBookings = await storage.getAllBookings();
-      
-      // Get member and class details for each booking
-      const bookingsWithDetails = await Promise.all(
-        allBookings.map(async (booking) => {
-          const member = booking.memberId ? await storage.getMemberById(booking.memberId) : null;
-          const boxingClass = await storage.getClass(booking.classId);
-          return {
-            ...booking,
-            member: member ? { name: member.name, email: member.email } : null,
-            class: boxingClass ? { 
-              title: boxingClass.title, 
-              date: boxingClass.date, 
-              time: boxingClass.time,
-              classType: boxingClass.classType,
-              duration: boxingClass.duration
-            } : null,
-          };
-        })
-      );
-
-      res.json(bookingsWithDetails);
-    } catch (error) {
-      console.error("Error fetching all bookings:", error);
-      res.status(500).json({ message: "Failed to fetch bookings" });
-    }
-  });
-
   // Admin: Get all pending bookings
   app.get("/api/admin/pending-bookings", isAdmin, async (req, res) => {
     try {
@@ -1170,7 +1297,21 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Booking not found" });
       }
 
-      await storage.updateBooking(req.params.id, { status: "confirmed" });
+      // Cash goes against the class's cash session so the tin can be reconciled later
+      if (booking.status === "pending_cash") {
+        const result = await storage.confirmCashBooking(booking.id);
+        if (!result.success) {
+          if (result.reason === "session_closed") {
+            return res.status(409).json({ message: "The cash for this class has already been counted. Reopen its cash session to add this booking." });
+          }
+          return result.reason === "not_pending"
+            ? res.status(400).json({ message: "This booking is no longer waiting for cash" })
+            : res.status(404).json({ message: "Booking not found" });
+        }
+        return res.json({ message: "Booking confirmed successfully", cashSessionId: result.cashSession.id });
+      }
+
+      await storage.updateBooking(req.params.id, { status: booking.checkedInAt ? "attended" : "confirmed" });
       
       res.json({ message: "Booking confirmed successfully" });
     } catch (error) {
@@ -1179,6 +1320,184 @@ export async function registerRoutes(
     }
   });
 
+  // Admin: Get pricing defaults (per class type and concessions)
+  app.get("/api/admin/pricing", isAdmin, async (_req, res) => {
+    try {
+      res.json(await getPricingSettings());
+    } catch (error) {
+      console.error("Error fetching pricing:", error);
+      res.status(500).json({ message: "Failed to fetch pricing" });
+    }
+  });
+
+  // Admin: Update pricing defaults - applies to classes generated from now on
+  app.put("/api/admin/pricing", isAdmin, async (req, res) => {
+    try {
+      const parsed = pricingSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid pricing" });
+      }
+      res.json(await savePricingSettings(parsed.data));
+    } catch (error) {
+      console.error("Error updating pricing:", error);
+      res.status(500).json({ message: "Failed to update pricing" });
+    }
+  });
+
+  // Admin: How far ahead sessions are generated and when bookings open, per class type
+  app.get("/api/admin/booking-window", isAdmin, async (_req, res) => {
+    try {
+      res.json(await getBookingWindowSettings());
+    } catch (error) {
+      console.error("Error fetching booking window:", error);
+      res.status(500).json({ message: "Failed to fetch booking window" });
+    }
+  });
+
+  // Admin: Update the booking window - sessions for a longer horizon are generated straight away
+  app.put("/api/admin/booking-window", isAdmin, async (req, res) => {
+    try {
+      const parsed = bookingWindowSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid booking window" });
+      }
+      const settings = await saveBookingWindowSettings(parsed.data);
+      await generateWeeklyClasses();
+      res.json(settings);
+    } catch (error) {
+      console.error("Error updating booking window:", error);
+      res.status(500).json({ message: "Failed to update booking window" });
+    }
+  });
+
+  // Admin: Class register - every live booking with contact details for the coach
+  app.get("/api/admin/classes/:id/register", isAdmin, async (req, res) => {
+    try {
+      const boxingClass = await storage.getClass(req.params.id);
+      if (!boxingClass) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+
+      const classBookings = await storage.getBookingsByClass(req.params.id);
+      const liveBookings = classBookings.filter(b => b.status !== "cancelled");
+
+      const register = await Promise.all(
+        liveBookings.map(async (booking) => {
+          const member = booking.memberId ? await storage.getMemberById(booking.memberId) : null;
+          return {
+            ...booking,
+            member: member ? {
+              name: member.name,
+              email: member.email,
+              phone: member.phone,
+              age: member.age,
+              ...await getEmergencyContact(member),
+              formsMissing: (await getOutstandingDocuments(member)).map(d => d.title),
+            } : null,
+          };
+        })
+      );
+
+      register.sort((a, b) => (a.member?.name || "").localeCompare(b.member?.name || ""));
+      res.json({ class: boxingClass, bookings: register });
+    } catch (error) {
+      console.error("Error fetching class register:", error);
+      res.status(500).json({ message: "Failed to fetch register" });
+    }
+  });
+
+  // Admin: Mark a booking as attended or a no-show
+  app.patch("/api/admin/bookings/:id/attendance", isAdmin, async (req, res) => {
+    try {
+      const { status } = req.body;
+      if (status !== "attended" && status !== "no_show") {
+        return res.status(400).json({ message: "Status must be attended or no_show" });
+      }
+
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      if (booking.status === "cancelled") {
+        return res.status(400).json({ message: "Cannot check in a cancelled booking" });
+      }
+
+      // Unpaid bookings are checked in but keep their payment status until the money is confirmed
+      const paymentDue = booking.status === "pending" || booking.status === "pending_cash";
+      if (paymentDue && status === "no_show") {
+        return res.status(400).json({ message: "This booking hasn't been paid. Cancel it instead of marking a no-show." });
+      }
+
+      const updated = await storage.updateBooking(req.params.id, {
+        status: paymentDue ? booking.status : status,
+        checkedInAt: status === "attended" ? (booking.checkedInAt || new Date()) : null,
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error recording attendance:", error);
+      res.status(500).json({ message: "Failed to record attendance" });
+    }
+  });
+
+  // Admin: Walk-in - book a member onto the class and check them in on the spot
+  app.post("/api/admin/classes/:id/walk-in", isAdmin, async (req, res) => {
+    try {
+      const { memberId } = req.body;
+      if (!memberId) {
+        return res.status(400).json({ message: "Member is required" });
+      }
+
+      const member = await storage.getMemberById(memberId);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      const boxingClass = await storage.getClass(req.params.id);
+      if (!boxingClass) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+
+      // The coach can still add them - allowing the member on the class first is the record that they chose to
+      const ineligibility = await getBookingIneligibility(member, boxingClass);
+      if (ineligibility.length > 0) {
+        return res.status(403).json({ message: `${member.name} can't join this class: ${ineligibility.join(". ")}. Allow them on the class first to add them.`, reasons: ineligibility });
+      }
+
+      const isFreeSession = !member.hasUsedFreeSession;
+      const { price } = await getMemberClassPrice(boxingClass, member);
+
+      // The coach is in the room, so walk-ins aren't held to the online capacity limit.
+      // Cash stays due until it's confirmed into the class's cash session.
+      const result = await storage.createBooking({
+        memberId,
+        classId: req.params.id,
+        status: isFreeSession ? "attended" : "pending_cash",
+        checkedInAt: new Date(),
+        isFreeSession,
+        price: isFreeSession ? "0.00" : price,
+        paymentMethod: "cash",
+      }, { skipCapacityCheck: true });
+
+      if (!result.success) {
+        if (result.reason === "already_booked") {
+          return res.status(400).json({ message: "This member is already booked on this class" });
+        }
+        return res.status(404).json({ message: "Class not found" });
+      }
+
+      if (isFreeSession) {
+        await storage.updateMember(memberId, { hasUsedFreeSession: true });
+      }
+      await claimWaitlistEntry(req.params.id, memberId);
+
+      res.status(201).json(result.booking);
+    } catch (error) {
+      console.error("Error creating walk-in booking:", error);
+      res.status(500).json({ message: "Failed to add walk-in" });
+    }
+  });
+
   // Admin: Cancel a booking
   app.delete("/api/admin/bookings/:id", isAdmin, async (req, res) => {
     try {
@@ -1188,15 +1507,56 @@ export async function registerRoutes(
       }
 
       await storage.cancelBooking(req.params.id);
-      await storage.decrementBookedCount(booking.classId);
-      
-      res.json({ message: "Booking cancelled successfully" });
+      promoteFromWaitlist(booking.classId).catch(err => console.error("[Waitlist] Promotion failed:", err));
+
+      // The club is cancelling, so card payments are always refunded in full
+      const refund = booking.status !== "cancelled"
+        ? await refundBooking(booking, { reason: "Booking cancelled by Mill Town ABC" })
+        : { status: null };
+
+      res.json({
+        message: refund.status === "refunded"
+          ? `Booking cancelled and £${refund.amount} refunded`
+          : refund.status === "failed"
+            ? "Booking cancelled, but the refund failed. Please retry it from the bookings list."
+            : "Booking cancelled successfully",
+        refundStatus: refund.status,
+      });
     } catch (error) {
       console.error("Error cancelling booking:", error);
       res.status(500).json({ message: "Failed to cancel booking" });
     }
   });
 
+  // Admin: Refund a cancelled card booking - retries failed refunds and can override the late-cancellation policy
+  app.post("/api/admin/bookings/:id/refund", isAdmin, async (req, res) => {
+    try {
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      if (booking.status !== "cancelled") {
+        return res.status(400).json({ message: "Cancel the booking before refunding it" });
+      }
+      if (booking.refundStatus === "refunded") {
+        return res.status(400).json({ message: "This booking has already been refunded" });
+      }
+
+      const refund = await refundBooking(booking, { reason: "Refund issued by Mill Town ABC" });
+      if (refund.status === null) {
+        return res.status(400).json({ message: "There is no card payment to refund for this booking" });
+      }
+      if (refund.status === "failed") {
+        return res.status(502).json({ message: "Square could not process the refund. Please try again or refund from the Square dashboard." });
+      }
+
+      res.json({ message: `£${refund.amount} refunded`, refundStatus: refund.status });
+    } catch (error) {
+      console.error("Error refunding booking:", error);
+      res.status(500).json({ message: "Failed to refund booking" });
+    }
+  });
+
   // ===== SEO ROUTES =====
 
   // robots.txt
@@ -1209,6 +1569,7 @@ Disallow: /admin
 Disallow: /admin/*
 Disallow: /api/
 Disallow: /dashboard
+Disallow: /kiosk
 
 Sitemap: ${domain}/sitemap.xml`
     );
@@ -1278,16 +1639,30 @@ ${staticPages
       }
 
       let cancelled = 0;
+      let refunded = 0;
+      let refundsFailed = 0;
+      const affectedClassIds = new Set<string>();
       for (const bookingId of bookingIds) {
         const booking = await storage.getBooking(bookingId);
         if (booking && booking.status !== "cancelled") {
           await storage.cancelBooking(bookingId);
-          await storage.decrementBookedCount(booking.classId);
+          affectedClassIds.add(booking.classId);
           cancelled++;
+
+          const refund = await refundBooking(booking, { reason: "Booking cancelled by Mill Town ABC" });
+          if (refund.status === "refunded") refunded++;
+          if (refund.status === "failed") refundsFailed++;
         }
       }
 
-      res.json({ message: `${cancelled} booking(s) cancelled successfully` });
+      for (const classId of Array.from(affectedClassIds)) {
+        promoteFromWaitlist(classId).catch(err => console.error("[Waitlist] Promotion failed:", err));
+      }
+
+      let message = `${cancelled} booking(s) cancelled successfully`;
+      if (refunded > 0) message += `, ${refunded} refunded`;
+      if (refundsFailed > 0) message += `. ${refundsFailed} refund(s) failed and need retrying`;
+      res.json({ message, refunded, refundsFailed });
     } catch (error) {
       console.error("Error bulk cancelling bookings:", error);
       res.status(500).json({ message: "Failed to cancel bookings" });
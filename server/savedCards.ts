@@ -0,0 +1,82 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { isMemberAuthenticated } from "./memberAuth";
+import { paymentProvider } from "./paymentProvider";
+import { isCardExpired, type Member, type SavedCard } from "@shared/schema";
+
+// Members get a Square customer when they register; anyone who signed up before then gets one on first use
+export async function ensureSquareCustomer(member: Member): Promise<string | null> {
+  if (member.squareCustomerId) return member.squareCustomerId;
+  // Juniors' sessions are paid for on their guardian's cards
+  if (!member.email) return null;
+
+  const result = await paymentProvider.createCustomer(member.email, member.name, member.phone || undefined);
+  if (!result.success || !result.customerId) {
+    console.error(`[Cards] Could not create Square customer for member ${member.id}:`, result.error);
+    return null;
+  }
+  await storage.updateMember(member.id, { squareCustomerId: result.customerId });
+  return result.customerId;
+}
+
+// Keeps a freshly tokenised card on the member's Square customer. Returns null if Square won't store it.
+export async function saveMemberCard(member: Member, sourceId: string, verificationToken?: string): Promise<{ card: SavedCard; customerId: string } | null> {
+  const customerId = await ensureSquareCustomer(member);
+  if (!customerId) return null;
+
+  const card = await paymentProvider.saveCardOnFile(customerId, sourceId, verificationToken);
+  if (!card.success || !card.cardId) {
+    console.error(`[Cards] Could not save card for member ${member.id}:`, card.error);
+    return null;
+  }
+
+  const saved = await storage.createSavedCard({
+    memberId: member.id,
+    squareCardId: card.cardId,
+    cardBrand: card.cardBrand || null,
+    last4: card.last4 || null,
+    expMonth: card.expMonth ?? null,
+    expYear: card.expYear ?? null,
+  });
+  return { card: saved, customerId };
+}
+
+// A saved card the member can charge - expired cards are left out so they aren't offered at checkout
+export async function getChargeableCard(memberId: string, savedCardId: string, now = new Date()): Promise<SavedCard | undefined> {
+  const card = await storage.getSavedCard(savedCardId);
+  if (!card || card.memberId !== memberId) return undefined;
+  if (isCardExpired(card, now)) return undefined;
+  return card;
+}
+
+export function registerSavedCardRoutes(app: Express) {
+  // Member: cards saved for quicker booking
+  app.get("/api/members/me/cards", isMemberAuthenticated, async (req, res) => {
+    try {
+      res.json(await storage.getSavedCardsByMember(req.session.memberId!));
+    } catch (error) {
+      console.error("Error fetching saved cards:", error);
+      res.status(500).json({ message: "Failed to fetch saved cards" });
+    }
+  });
+
+  // Member: remove a saved card from their account and from Square
+  app.delete("/api/members/me/cards/:id", isMemberAuthenticated, async (req, res) => {
+    try {
+      const card = await storage.getSavedCard(req.params.id);
+      if (!card || card.memberId !== req.session.memberId) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+
+      const result = await paymentProvider.disableCard(card.squareCardId);
+      if (!result.success) {
+        return res.status(502).json({ message: "We couldn't remove that card just now. Please try again." });
+      }
+      await storage.deleteSavedCard(card.id);
+      res.json({ message: "Card removed" });
+    } catch (error) {
+      console.error("Error removing saved card:", error);
+      res.status(500).json({ message: "Failed to remove card" });
+    }
+  });
+}
@@ -1,7 +1,15 @@
 import { storage } from "./storage";
+import { promoteFromWaitlist, expireWaitlistOffers } from "./waitlist";
+import { renewSubscriptions } from "./subscriptions";
+import { reconcileSquarePayments } from "./squareWebhooks";
+import { generateWeeklyClasses } from "./classSeries";
+import { sendMedicalExpiryReminders } from "./medicals";
+import { clubToday, clubTimeNow } from "./clubTime";
 
 const TWENTY_FOUR_HOURS_MS = 24 * 60 * 60 * 1000;
 const CHECK_INTERVAL_MS = 60 * 60 * 1000; // Check every hour
+const WAITLIST_CHECK_INTERVAL_MS = 5 * 60 * 1000; // Waitlist offers are time-limited, so check every 5 minutes
+const RECONCILE_HOUR = 3; // Square reconciliation runs overnight, in the first hourly check after 3am club time
 
 export async function cancelStaleBookings(): Promise<number> {
   try {
@@ -12,6 +20,8 @@ export async function cancelStaleBookings(): Promise<number> {
     for (const booking of allBookings) {
       if (booking.status !== "pending") continue;
       if (!booking.bookedAt) continue; // Skip if no bookedAt timestamp
+      // Card payments Square is still processing are settled by its webhook, one way or the other
+      if (booking.squarePaymentId) continue;
       
       const bookedAt = new Date(booking.bookedAt);
       const timeSinceBooking = now.getTime() - bookedAt.getTime();
@@ -19,7 +29,7 @@ export async function cancelStaleBookings(): Promise<number> {
       // Cancel if pending for more than 24 hours
       if (timeSinceBooking > TWENTY_FOUR_HOURS_MS) {
         await storage.cancelBooking(booking.id);
-        await storage.decrementBookedCount(booking.classId);
+        await promoteFromWaitlist(booking.classId);
         cancelledCount++;
         console.log(`[Scheduler] Auto-cancelled stale booking ${booking.id} (pending for ${Math.round(timeSinceBooking / 1000 / 60 / 60)}h)`);
       }
@@ -36,7 +46,35 @@ export async function cancelStaleBookings(): Promise<number> {
   }
 }
 
+let lastReconciledOn: string | null = null;
+
+export async function runNightlyReconciliation(): Promise<void> {
+  const now = new Date();
+  const today = clubToday(now);
+  if (parseInt(clubTimeNow(now), 10) < RECONCILE_HOUR || lastReconciledOn === today) return;
+
+  lastReconciledOn = today;
+  try {
+    await reconcileSquarePayments(now);
+  } catch (error) {
+    console.error("[Scheduler] Error reconciling Square payments:", error);
+  }
+}
+
+export async function runClassGenerator(): Promise<void> {
+  try {
+    await generateWeeklyClasses();
+  } catch (error) {
+    console.error("[Scheduler] Error generating classes:", error);
+  }
+}
+
 let schedulerInterval: NodeJS.Timeout | null = null;
+let waitlistInterval: NodeJS.Timeout | null = null;
+let subscriptionInterval: NodeJS.Timeout | null = null;
+let reconciliationInterval: NodeJS.Timeout | null = null;
+let classGeneratorInterval: NodeJS.Timeout | null = null;
+let medicalReminderInterval: NodeJS.Timeout | null = null;
 
 export function startBookingScheduler(): void {
   if (schedulerInterval) {
@@ -51,12 +89,48 @@ export function startBookingScheduler(): void {
   
   // Then run every hour
   schedulerInterval = setInterval(cancelStaleBookings, CHECK_INTERVAL_MS);
+
+  expireWaitlistOffers();
+  waitlistInterval = setInterval(expireWaitlistOffers, WAITLIST_CHECK_INTERVAL_MS);
+
+  // Renewals and grace-period suspensions run on the same hourly cadence
+  renewSubscriptions();
+  subscriptionInterval = setInterval(renewSubscriptions, CHECK_INTERVAL_MS);
+
+  reconciliationInterval = setInterval(runNightlyReconciliation, CHECK_INTERVAL_MS);
+
+  // Startup already generated the timetable; keep it topped up as the horizon moves day by day
+  classGeneratorInterval = setInterval(runClassGenerator, CHECK_INTERVAL_MS);
+
+  // Each medical is only reminded about once, so the hourly check just picks up new ones
+  sendMedicalExpiryReminders();
+  medicalReminderInterval = setInterval(sendMedicalExpiryReminders, CHECK_INTERVAL_MS);
 }
 
 export function stopBookingScheduler(): void {
   if (schedulerInterval) {
     clearInterval(schedulerInterval);
     schedulerInterval = null;
+    if (waitlistInterval) {
+      clearInterval(waitlistInterval);
+      waitlistInterval = null;
+    }
+    if (subscriptionInterval) {
+      clearInterval(subscriptionInterval);
+      subscriptionInterval = null;
+    }
+    if (reconciliationInterval) {
+      clearInterval(reconciliationInterval);
+      reconciliationInterval = null;
+    }
+    if (classGeneratorInterval) {
+      clearInterval(classGeneratorInterval);
+      classGeneratorInterval = null;
+    }
+    if (medicalReminderInterval) {
+      clearInterval(medicalReminderInterval);
+      medicalReminderInterval = null;
+    }
     console.log("[Scheduler] Stopped");
   }
 }
@@ -1,5 +1,9 @@
 import { SquareClient, SquareEnvironment } from "square";
 import crypto from "crypto";
+import type {
+  PaymentProvider, CreatePaymentParams, PaymentResult, RefundPaymentParams, RefundResult,
+  CustomerResult, SavedCardResult, PaymentSummary,
+} from "./paymentProvider";
 
 // TODO: Replace sandbox keys with live keys for production
 // Get Square sandbox keys from: squareup.com/gb/en → Developer Dashboard → Sandbox environment
@@ -7,24 +11,22 @@ import crypto from "crypto";
 // Detect sandbox mode by checking if Application ID starts with "sandbox-"
 const isSandboxMode = (process.env.SQUARE_APPLICATION_ID || "").trim().startsWith("sandbox-");
 
-const squareClient = new SquareClient({
-  token: (process.env.SQUARE_ACCESS_TOKEN || "").trim(),
-  environment: isSandboxMode 
-    ? SquareEnvironment.Sandbox 
-    : SquareEnvironment.Production,
-});
-
-export interface CreatePaymentParams {
-  sourceId: string;
-  verificationToken?: string;
-  amount: number;
-  currency?: string;
-  customerId?: string;
-  note?: string;
-  bookingId?: string;
+let squareClient: SquareClient | null = null;
+
+// Built on first use, so importing this module never needs Square credentials
+function getSquareClient(): SquareClient {
+  if (!squareClient) {
+    squareClient = new SquareClient({
+      token: (process.env.SQUARE_ACCESS_TOKEN || "").trim(),
+      environment: isSandboxMode 
+        ? SquareEnvironment.Sandbox 
+        : SquareEnvironment.Production,
+    });
+  }
+  return squareClient;
 }
 
-export async function createPayment(params: CreatePaymentParams) {
+async function createPayment(params: CreatePaymentParams): Promise<PaymentResult> {
   const { sourceId, verificationToken, amount, currency = "GBP", customerId, note, bookingId } = params;
   
   try {
@@ -45,7 +47,7 @@ export async function createPayment(params: CreatePaymentParams) {
       paymentRequest.verificationToken = verificationToken;
     }
 
-    const response = await squareClient.payments.create(paymentRequest);
+    const response = await getSquareClient().payments.create(paymentRequest);
 
     if (response.payment) {
       return {
@@ -69,9 +71,9 @@ export async function createPayment(params: CreatePaymentParams) {
   }
 }
 
-export async function createCustomer(email: string, name: string, phone?: string) {
+async function createCustomer(email: string, name: string, phone?: string): Promise<CustomerResult> {
   try {
-    const response = await squareClient.customers.create({
+    const response = await getSquareClient().customers.create({
       idempotencyKey: crypto.randomUUID(),
       emailAddress: email,
       givenName: name.split(" ")[0],
@@ -99,6 +101,113 @@ export async function createCustomer(email: string, name: string, phone?: string
   }
 }
 
+// Stores a card on the member's Square customer so we can charge it again for renewals
+async function saveCardOnFile(customerId: string, sourceId: string, verificationToken?: string): Promise<SavedCardResult> {
+  try {
+    const response = await getSquareClient().cards.create({
+      idempotencyKey: crypto.randomUUID(),
+      sourceId,
+      verificationToken,
+      card: { customerId },
+    });
+
+    if (response.card?.id) {
+      return {
+        success: true,
+        cardId: response.card.id,
+        cardBrand: response.card.cardBrand as string | undefined,
+        last4: response.card.last4,
+        expMonth: response.card.expMonth != null ? Number(response.card.expMonth) : undefined,
+        expYear: response.card.expYear != null ? Number(response.card.expYear) : undefined,
+      };
+    }
+
+    return {
+      success: false,
+      error: "Card could not be saved",
+    };
+  } catch (error: any) {
+    console.error("Square card error:", error);
+    return {
+      success: false,
+      error: error.message || "Card could not be saved",
+    };
+  }
+}
+
+// Square keeps disabled cards for its records but they can never be charged again
+async function disableCard(cardId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    await getSquareClient().cards.disable({ cardId });
+    return { success: true };
+  } catch (error: any) {
+    console.error("Square disable card error:", error);
+    return {
+      success: false,
+      error: error.message || "Card could not be removed",
+    };
+  }
+}
+
+async function refundPayment(params: RefundPaymentParams): Promise<RefundResult> {
+  const { paymentId, amount, currency = "GBP", reason } = params;
+
+  try {
+    const response = await getSquareClient().refunds.refundPayment({
+      idempotencyKey: crypto.randomUUID(),
+      paymentId,
+      amountMoney: {
+        amount: BigInt(amount),
+        currency: currency as "GBP" | "USD" | "EUR",
+      },
+      reason: reason || "Mill Town ABC - Booking cancelled",
+    });
+
+    if (response.refund && response.refund.status !== "REJECTED" && response.refund.status !== "FAILED") {
+      return {
+        success: true,
+        refundId: response.refund.id,
+        status: response.refund.status || undefined,
+      };
+    }
+
+    return {
+      success: false,
+      error: `Refund ${response.refund?.status?.toLowerCase() || "creation failed"}`,
+    };
+  } catch (error: any) {
+    console.error("Square refund error:", error);
+    return {
+      success: false,
+      error: error.message || "Refund failed",
+    };
+  }
+}
+
+// All payments taken at our location in the window, following Square's pagination
+async function listPayments(beginTime: Date, endTime: Date): Promise<PaymentSummary[]> {
+  const page = await getSquareClient().payments.list({
+    beginTime: beginTime.toISOString(),
+    endTime: endTime.toISOString(),
+    locationId: (process.env.SQUARE_LOCATION_ID || "").trim(),
+    limit: 100,
+  });
+
+  const payments: PaymentSummary[] = [];
+  for await (const payment of page) {
+    if (!payment.id) continue;
+    payments.push({
+      id: payment.id,
+      status: payment.status || "UNKNOWN",
+      amount: Number(payment.totalMoney?.amount ?? payment.amountMoney?.amount ?? 0),
+      refundedAmount: Number(payment.refundedMoney?.amount ?? 0),
+      createdAt: payment.createdAt || "",
+      note: payment.note || "",
+    });
+  }
+  return payments;
+}
+
 export function isSquareConfigured(): boolean {
   return !!(process.env.SQUARE_ACCESS_TOKEN && process.env.SQUARE_APPLICATION_ID && process.env.SQUARE_LOCATION_ID);
 }
@@ -111,4 +220,17 @@ export function getSquareLocationId(): string {
   return (process.env.SQUARE_LOCATION_ID || "").trim();
 }
 
-export { squareClient };
+export function isSquareSandbox(): boolean {
+  return isSandboxMode;
+}
+
+export const squarePaymentProvider: PaymentProvider = {
+  name: "square",
+  isConfigured: isSquareConfigured,
+  createPayment,
+  refundPayment,
+  createCustomer,
+  saveCardOnFile,
+  disableCard,
+  listPayments,
+};
@@ -0,0 +1,340 @@
+import type { Express, Request } from "express";
+import { WebhooksHelper } from "square";
+import { storage } from "./storage";
+import { isAdmin } from "./memberAuth";
+import { paymentProvider } from "./paymentProvider";
+import { promoteFromWaitlist } from "./waitlist";
+import { toPence } from "./pricing";
+import { refundBooking } from "./refunds";
+
+const SITE_URL = process.env.SITE_URL || "https://milltownabc.co.uk";
+const RECONCILE_WINDOW_MS = 48 * 60 * 60 * 1000;
+const RECONCILE_SETTLE_MS = 10 * 60 * 1000; // Square's payment list is eventually consistent
+
+const APP_PAYMENT_NOTE = "Mill Town ABC - ";
+const FAILED_PAYMENT_STATUSES = ["FAILED", "CANCELED"];
+const FAILED_REFUND_STATUSES = ["FAILED", "REJECTED"];
+
+// Square posts snake_case JSON - only the fields we read are typed here
+interface SquareWebhookEvent {
+  event_id: string;
+  type: string;
+  data?: { object?: Record<string, any> };
+}
+
+function formatPence(pence: number): string {
+  return `£${(pence / 100).toFixed(2)}`;
+}
+
+// Square signs the exact notification URL it was configured with, so this must match the dashboard
+function getNotificationUrl(): string {
+  return process.env.SQUARE_WEBHOOK_URL || `${SITE_URL}/api/webhooks/square`;
+}
+
+async function verifySquareSignature(req: Request): Promise<boolean> {
+  const signatureKey = process.env.SQUARE_WEBHOOK_SIGNATURE_KEY;
+  const signatureHeader = req.get("x-square-hmacsha256-signature");
+  if (!signatureKey || !signatureHeader || !Buffer.isBuffer(req.rawBody)) {
+    return false;
+  }
+  return WebhooksHelper.verifySignature({
+    requestBody: req.rawBody.toString("utf8"),
+    signatureHeader,
+    signatureKey,
+    notificationUrl: getNotificationUrl(),
+  });
+}
+
+async function handlePaymentUpdated(payment: Record<string, any>) {
+  const paymentId: string | undefined = payment.id;
+  if (!paymentId) return;
+
+  const booking = await storage.getBookingBySquarePaymentId(paymentId);
+
+  // Card bookings wait as pending until Square completes a delayed payment
+  if (payment.status === "COMPLETED") {
+    if (booking?.status === "pending") {
+      await storage.updateBooking(booking.id, { status: "confirmed" });
+      console.log(`[Square] Payment ${paymentId} completed - booking ${booking.id} confirmed`);
+    }
+    // The booking went while the payment was processing, so the member would be paying for nothing
+    if (booking?.status === "cancelled" && !booking.refundStatus) {
+      const refund = await refundBooking(booking, { reason: "Payment completed after the booking was cancelled" });
+      console.log(`[Square] Payment ${paymentId} completed on cancelled booking ${booking.id} - refund ${refund.status}`);
+      if (refund.status !== "refunded") {
+        await storage.raisePaymentIssue({
+          squarePaymentId: paymentId,
+          bookingId: booking.id,
+          kind: "payment_failed",
+          detail: "Square completed the payment after the booking was cancelled, and it couldn't be refunded automatically.",
+        });
+      }
+    }
+    return;
+  }
+
+  if (!FAILED_PAYMENT_STATUSES.includes(payment.status)) return;
+
+  if (booking) {
+    if (booking.status !== "cancelled") {
+      await storage.cancelBooking(booking.id);
+      promoteFromWaitlist(booking.classId).catch(err => console.error("[Waitlist] Promotion failed:", err));
+    }
+    await storage.raisePaymentIssue({
+      squarePaymentId: paymentId,
+      bookingId: booking.id,
+      kind: "payment_failed",
+      detail: `Square marked the payment ${payment.status.toLowerCase()}, so the booking was cancelled.`,
+    });
+    return;
+  }
+
+  const record = await storage.getSquarePaymentRecord(paymentId);
+  if (record) {
+    await storage.raisePaymentIssue({
+      squarePaymentId: paymentId,
+      kind: "payment_failed",
+      detail: `Square marked a ${record.source.replace("_", " ")} payment of £${record.amount} ${payment.status.toLowerCase()}.`,
+    });
+  }
+}
+
+async function handleRefund(refund: Record<string, any>) {
+  const paymentId: string | undefined = refund.payment_id;
+  if (!refund.id || !paymentId) return;
+  const amount = Number(refund.amount_money?.amount ?? 0);
+
+  const booking = await storage.getBookingBySquarePaymentId(paymentId);
+  if (!booking) {
+    const record = await storage.getSquarePaymentRecord(paymentId);
+    if (record && !FAILED_REFUND_STATUSES.includes(refund.status)) {
+      await storage.raisePaymentIssue({
+        squarePaymentId: paymentId,
+        kind: "refund_mismatch",
+        detail: `${formatPence(amount)} was refunded in Square against a ${record.source.replace("_", " ")} payment. Check the member's account still matches.`,
+      });
+    }
+    return;
+  }
+
+  if (FAILED_REFUND_STATUSES.includes(refund.status)) {
+    if (booking.squareRefundId === refund.id) {
+      await storage.updateBooking(booking.id, { refundStatus: "failed" });
+    }
+    return;
+  }
+
+  // Refunds we issued ourselves are already recorded
+  if (booking.squareRefundId === refund.id) return;
+
+  // Refunded from the Square dashboard - add it to anything we'd already refunded
+  const alreadyRefunded = booking.refundStatus === "refunded" ? toPence(booking.refundAmount || "0") : 0;
+  await storage.updateBooking(booking.id, {
+    refundStatus: "refunded",
+    refundAmount: ((alreadyRefunded + amount) / 100).toFixed(2),
+    squareRefundId: refund.id,
+    refundedAt: new Date(),
+  });
+  console.log(`[Square] Recorded ${formatPence(amount)} refund ${refund.id} on booking ${booking.id}`);
+
+  if (booking.status !== "cancelled") {
+    await storage.raisePaymentIssue({
+      squarePaymentId: paymentId,
+      bookingId: booking.id,
+      kind: "refund_mismatch",
+      detail: `${formatPence(amount)} was refunded in Square but the booking is still live.`,
+    });
+  }
+}
+
+async function handleDispute(dispute: Record<string, any>) {
+  const paymentId: string | undefined = dispute.disputed_payment?.payment_id;
+  if (!paymentId) return;
+
+  const record = await storage.getSquarePaymentRecord(paymentId);
+  const amount = Number(dispute.amount_money?.amount ?? 0);
+  const reason = dispute.reason ? ` (${dispute.reason.toLowerCase().replace(/_/g, " ")})` : "";
+  await storage.raisePaymentIssue({
+    squarePaymentId: paymentId,
+    bookingId: record?.bookingId || null,
+    kind: "dispute",
+    detail: `Card dispute for ${formatPence(amount)}${reason} - now ${String(dispute.state || "open").toLowerCase().replace(/_/g, " ")}.`,
+  });
+}
+
+async function handleSquareEvent(event: SquareWebhookEvent) {
+  const object = event.data?.object || {};
+  switch (event.type) {
+    case "payment.updated":
+      return object.payment && handlePaymentUpdated(object.payment);
+    case "refund.created":
+    case "refund.updated":
+      return object.refund && handleRefund(object.refund);
+    case "dispute.created":
+    case "dispute.state.updated":
+      return object.dispute && handleDispute(object.dispute);
+    default:
+      return;
+  }
+}
+
+// Compares what Square took over the last two days with what we recorded, and raises
+// payment issues for anything that doesn't line up. Safe to re-run - open issues are updated in place.
+export async function reconcileSquarePayments(now = new Date()): Promise<number> {
+  if (!paymentProvider.isConfigured()) return 0;
+
+  const since = new Date(now.getTime() - RECONCILE_WINDOW_MS);
+  const settledBefore = new Date(now.getTime() - RECONCILE_SETTLE_MS);
+  const [squarePayments, records] = await Promise.all([
+    paymentProvider.listPayments(since, now),
+    storage.getSquarePaymentRecordsSince(since),
+  ]);
+  const recordsById = new Map(records.map(r => [r.squarePaymentId, r]));
+  let raised = 0;
+
+  for (const payment of squarePayments) {
+    const record = recordsById.get(payment.id) || await storage.getSquarePaymentRecord(payment.id);
+    recordsById.delete(payment.id);
+
+    if (!record) {
+      // Payments taken on the gym's card reader aren't ours to match - only flag ones the website made
+      if (payment.note.startsWith(APP_PAYMENT_NOTE) && !FAILED_PAYMENT_STATUSES.includes(payment.status)) {
+        await storage.raisePaymentIssue({
+          squarePaymentId: payment.id,
+          kind: "unknown_payment",
+          detail: `Square took ${formatPence(payment.amount)} but there's no booking, class pack or membership payment for it.`,
+        });
+        raised++;
+      }
+      continue;
+    }
+
+    const booking = record.bookingId ? await storage.getBooking(record.bookingId) : undefined;
+
+    if (FAILED_PAYMENT_STATUSES.includes(payment.status)) {
+      if (booking && booking.status !== "cancelled") {
+        await storage.raisePaymentIssue({
+          squarePaymentId: payment.id,
+          bookingId: booking.id,
+          kind: "payment_failed",
+          detail: `Square shows the payment as ${payment.status.toLowerCase()} but the booking is still live.`,
+        });
+        raised++;
+      }
+      continue;
+    }
+
+    if (payment.amount !== toPence(record.amount)) {
+      await storage.raisePaymentIssue({
+        squarePaymentId: payment.id,
+        bookingId: record.bookingId,
+        kind: "amount_mismatch",
+        detail: `Square took ${formatPence(payment.amount)} but we recorded £${record.amount}.`,
+      });
+      raised++;
+    }
+
+    if (booking) {
+      const refunded = booking.refundStatus === "refunded" ? toPence(booking.refundAmount || "0") : 0;
+      if (payment.refundedAmount !== refunded) {
+        await storage.raisePaymentIssue({
+          squarePaymentId: payment.id,
+          bookingId: booking.id,
+          kind: "refund_mismatch",
+          detail: `Square shows ${formatPence(payment.refundedAmount)} refunded but we recorded ${formatPence(refunded)}.`,
+        });
+        raised++;
+      }
+    }
+  }
+
+  // Whatever's left was recorded as paid but Square has no payment for it
+  for (const record of Array.from(recordsById.values())) {
+    if (record.createdAt && record.createdAt > settledBefore) continue;
+    await storage.raisePaymentIssue({
+      squarePaymentId: record.squarePaymentId,
+      bookingId: record.bookingId,
+      kind: "missing_payment",
+      detail: `We recorded a £${record.amount} ${record.source.replace("_", " ")} payment but Square has no matching payment.`,
+    });
+    raised++;
+  }
+
+  console.log(`[Square] Reconciled ${squarePayments.length} payment(s) - ${raised} issue(s) raised`);
+  return raised;
+}
+
+export function registerSquareWebhookRoutes(app: Express) {
+  // Square: payment, refund and dispute notifications
+  app.post("/api/webhooks/square", async (req, res) => {
+    try {
+      if (!(await verifySquareSignature(req))) {
+        console.warn("[Square] Rejected webhook with an invalid signature");
+        return res.status(401).json({ message: "Invalid signature" });
+      }
+
+      const event = req.body as SquareWebhookEvent;
+      if (!event?.event_id || !event.type) {
+        return res.status(400).json({ message: "Malformed event" });
+      }
+
+      // Square redelivers until it gets a 2xx, so each event is only ever applied once
+      const isNew = await storage.recordSquareWebhookEvent(event.event_id, event.type);
+      if (!isNew) {
+        return res.json({ received: true, duplicate: true });
+      }
+
+      try {
+        await handleSquareEvent(event);
+      } catch (error) {
+        // Forget the event so Square's retry gets another go at it
+        await storage.deleteSquareWebhookEvent(event.event_id);
+        throw error;
+      }
+
+      res.json({ received: true });
+    } catch (error) {
+      console.error("Error handling Square webhook:", error);
+      res.status(500).json({ message: "Failed to process webhook" });
+    }
+  });
+
+  // Admin: Payment issues raised by webhooks and reconciliation
+  app.get("/api/admin/payment-issues", isAdmin, async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : "open";
+      res.json(await storage.getPaymentIssues(status === "all" ? undefined : status));
+    } catch (error) {
+      console.error("Error fetching payment issues:", error);
+      res.status(500).json({ message: "Failed to fetch payment issues" });
+    }
+  });
+
+  // Admin: Mark a payment issue as dealt with
+  app.post("/api/admin/payment-issues/:id/resolve", isAdmin, async (req, res) => {
+    try {
+      const issue = await storage.resolvePaymentIssue(req.params.id);
+      if (!issue) {
+        return res.status(404).json({ message: "Payment issue not found" });
+      }
+      res.json(issue);
+    } catch (error) {
+      console.error("Error resolving payment issue:", error);
+      res.status(500).json({ message: "Failed to resolve payment issue" });
+    }
+  });
+
+  // Admin: Run reconciliation now instead of waiting for tonight
+  app.post("/api/admin/payment-issues/reconcile", isAdmin, async (_req, res) => {
+    try {
+      if (!paymentProvider.isConfigured()) {
+        return res.status(503).json({ message: "Payment processing is not configured" });
+      }
+      const raised = await reconcileSquarePayments();
+      res.json({ raised, message: raised > 0 ? `${raised} issue(s) found` : "Everything matches Square" });
+    } catch (error) {
+      console.error("Error reconciling payments:", error);
+      res.status(500).json({ message: "Failed to reconcile payments" });
+    }
+  });
+}
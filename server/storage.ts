@@ -1,15 +1,58 @@
 import { 
-  siteContent, blogPosts, mediaFiles, members, boxingClasses, bookings, classTemplates,
+  siteContent, blogPosts, mediaFiles, members, boxingClasses, bookings, classTemplates, waitlistEntries, kioskDevices,
+  creditPacks, creditLedger, membershipPlans, subscriptions, subscriptionPayments, squareWebhookEvents, paymentIssues,
+  promoCodes, promoRedemptions, giftVouchers, giftVoucherLedger, savedCards, cashSessions, closures, receipts, eligibilityOverrides,
+  consentDocuments, documentSignatures, bouts,
   type SiteContent, type InsertSiteContent,
   type BlogPost, type InsertBlogPost,
   type MediaFile, type InsertMediaFile,
   type Member, type InsertMember,
   type BoxingClass, type InsertBoxingClass,
   type Booking, type InsertBooking,
-  type ClassTemplate, type InsertClassTemplate
+  type ClassTemplate, type InsertClassTemplate,
+  type WaitlistEntry, type InsertWaitlistEntry,
+  type KioskDevice, type InsertKioskDevice,
+  type CreditPack, type InsertCreditPack,
+  type CreditLedgerEntry,
+  type MembershipPlan, type InsertMembershipPlan,
+  type Subscription, type InsertSubscription,
+  type SubscriptionPayment, type InsertSubscriptionPayment,
+  type PaymentIssue, type InsertPaymentIssue,
+  type PromoCode, type InsertPromoCode, type PromoRedemption,
+  type GiftVoucher, type InsertGiftVoucher, type GiftVoucherLedgerEntry,
+  type SavedCard, type InsertSavedCard,
+  type CashSession,
+  type Closure, type InsertClosure,
+  type Receipt, type InsertReceipt,
+  type EligibilityOverride, type InsertEligibilityOverride,
+  type ConsentDocument, type InsertConsentDocument,
+  type DocumentSignature, type InsertDocumentSignature,
+  type Bout, type InsertBout
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, gte, lte, sql, desc } from "drizzle-orm";
+import { clubToday, clubDateTime, getClubTimezone } from "./clubTime";
+import { eq, and, gte, lte, lt, gt, ne, or, isNull, sql, asc, desc, inArray, type SQL, type AnyColumn } from "drizzle-orm";
+
+// Either the top-level db or a transaction handle
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type CreateBookingResult =
+  | { success: true; booking: Booking }
+  | { success: false; reason: "not_found" | "class_full" | "already_booked" | "no_credit" | "promo_unavailable" | "voucher_unavailable" };
+
+export type ConfirmCashBookingResult =
+  | { success: true; booking: Booking; cashSession: CashSession }
+  | { success: false; reason: "not_found" | "not_pending" | "session_closed" };
+
+export interface CreateBookingOptions {
+  skipCapacityCheck?: boolean;
+  // Pay with one of the member's session credits - fails with no_credit if they have none left
+  useCredit?: boolean;
+  // Record a promo code redemption - fails with promo_unavailable if the code has hit a usage limit
+  promo?: { promoCodeId: string; originalPrice: string; discountAmount: string };
+  // Spend part of a gift voucher's balance - fails with voucher_unavailable if it's voided or short
+  giftVoucher?: { voucherId: string; amount: string };
+}
 
 export interface IStorage {
   getContent(key: string): Promise<SiteContent | undefined>;
@@ -36,24 +79,29 @@ export interface IStorage {
   createMember(data: InsertMember): Promise<Member>;
   updateMember(id: string, data: Partial<Member>): Promise<Member | undefined>;
   getAllMembers(): Promise<Member[]>;
+  getDependants(guardianId: string): Promise<Member[]>;
   deleteMember(id: string): Promise<boolean>;
 
   // Boxing class methods
   getAllClasses(): Promise<BoxingClass[]>;
   getUpcomingClasses(): Promise<BoxingClass[]>;
   getClass(id: string): Promise<BoxingClass | undefined>;
+  getClassesByDate(date: string): Promise<BoxingClass[]>;
   createClass(data: InsertBoxingClass): Promise<BoxingClass>;
   updateClass(id: string, data: Partial<InsertBoxingClass>): Promise<BoxingClass | undefined>;
   deleteClass(id: string): Promise<boolean>;
-  incrementBookedCount(id: string): Promise<void>;
-  decrementBookedCount(id: string): Promise<void>;
+  recalculateBookedCount(id: string): Promise<void>;
+  getActiveClassesBetween(from: string, to: string): Promise<BoxingClass[]>;
+  recalculateClassStartTimes(timeZone: string, fromDate: string): Promise<number>;
+  getClassesByTemplate(templateId: string, fromDate: string): Promise<BoxingClass[]>;
 
   // Booking methods
-  createBooking(data: InsertBooking): Promise<Booking>;
+  createBooking(data: InsertBooking, options?: CreateBookingOptions): Promise<CreateBookingResult>;
   getBookingsByMember(memberId: string): Promise<Booking[]>;
   getBookingsByClass(classId: string): Promise<Booking[]>;
   getBooking(id: string): Promise<Booking | undefined>;
   updateBooking(id: string, data: Partial<InsertBooking>): Promise<Booking | undefined>;
+  claimBookingRefund(id: string): Promise<Booking | undefined>;
   cancelBooking(id: string): Promise<boolean>;
   getAllBookings(): Promise<Booking[]>;
 
@@ -64,6 +112,193 @@ export interface IStorage {
   createClassTemplate(data: InsertClassTemplate): Promise<ClassTemplate>;
   updateClassTemplate(id: string, data: Partial<InsertClassTemplate>): Promise<ClassTemplate | undefined>;
   deleteClassTemplate(id: string): Promise<boolean>;
+
+  // Waitlist methods
+  createWaitlistEntry(data: InsertWaitlistEntry): Promise<WaitlistEntry>;
+  getWaitlistEntry(id: string): Promise<WaitlistEntry | undefined>;
+  getWaitlistByClass(classId: string): Promise<WaitlistEntry[]>;
+  getWaitlistByMember(memberId: string): Promise<WaitlistEntry[]>;
+  getActiveWaitlistEntry(classId: string, memberId: string): Promise<WaitlistEntry | undefined>;
+  getNextWaitingEntry(classId: string): Promise<WaitlistEntry | undefined>;
+  getExpiredWaitlistOffers(now: Date): Promise<WaitlistEntry[]>;
+  updateWaitlistEntry(id: string, data: Partial<InsertWaitlistEntry>): Promise<WaitlistEntry | undefined>;
+
+  getAllKioskDevices(): Promise<KioskDevice[]>;
+  getKioskDeviceByTokenHash(tokenHash: string): Promise<KioskDevice | undefined>;
+  createKioskDevice(data: InsertKioskDevice): Promise<KioskDevice>;
+  updateKioskDevice(id: string, data: Partial<InsertKioskDevice>): Promise<KioskDevice | undefined>;
+  deleteKioskDevice(id: string): Promise<boolean>;
+
+  // Session credit methods
+  getCreditPacksByMember(memberId: string): Promise<CreditPack[]>;
+  getCreditLedgerByMember(memberId: string): Promise<CreditLedgerEntry[]>;
+  getCreditBalance(memberId: string): Promise<number>;
+  addCreditPack(data: InsertCreditPack, note?: string): Promise<CreditPack>;
+  deductCredits(memberId: string, credits: number, note?: string): Promise<number>;
+
+  // Membership plan and subscription methods
+  getAllMembershipPlans(): Promise<MembershipPlan[]>;
+  getMembershipPlan(id: string): Promise<MembershipPlan | undefined>;
+  createMembershipPlan(data: InsertMembershipPlan): Promise<MembershipPlan>;
+  updateMembershipPlan(id: string, data: Partial<InsertMembershipPlan>): Promise<MembershipPlan | undefined>;
+  getAllSubscriptions(): Promise<Subscription[]>;
+  getSubscription(id: string): Promise<Subscription | undefined>;
+  getLiveSubscriptionByMember(memberId: string): Promise<Subscription | undefined>;
+  getSubscriptionsDueForBilling(now: Date): Promise<Subscription[]>;
+  getLapsedSubscriptions(now: Date): Promise<Subscription[]>;
+  createSubscription(data: InsertSubscription): Promise<Subscription>;
+  updateSubscription(id: string, data: Partial<InsertSubscription>): Promise<Subscription | undefined>;
+  createSubscriptionPayment(data: InsertSubscriptionPayment): Promise<SubscriptionPayment>;
+  getSubscriptionPayments(subscriptionId: string): Promise<SubscriptionPayment[]>;
+  getPaidSubscriptionPaymentsByMember(memberId: string): Promise<(SubscriptionPayment & { planName: string })[]>;
+  countSubscriptionBookings(memberId: string, since: Date): Promise<number>;
+
+  // Square reconciliation
+  recordSquareWebhookEvent(id: string, type: string): Promise<boolean>;
+  deleteSquareWebhookEvent(id: string): Promise<void>;
+  getBookingBySquarePaymentId(squarePaymentId: string): Promise<Booking | undefined>;
+  getSquarePaymentRecord(squarePaymentId: string): Promise<SquarePaymentRecord | undefined>;
+  getSquarePaymentRecordsSince(since: Date): Promise<SquarePaymentRecord[]>;
+  raisePaymentIssue(data: InsertPaymentIssue): Promise<PaymentIssue>;
+  getPaymentIssues(status?: string): Promise<PaymentIssue[]>;
+  resolvePaymentIssue(id: string): Promise<PaymentIssue | undefined>;
+
+  // Promo codes
+  getAllPromoCodes(): Promise<PromoCode[]>;
+  getPromoCode(id: string): Promise<PromoCode | undefined>;
+  getPromoCodeByCode(code: string): Promise<PromoCode | undefined>;
+  createPromoCode(data: InsertPromoCode): Promise<PromoCode>;
+  updatePromoCode(id: string, data: Partial<InsertPromoCode>): Promise<PromoCode | undefined>;
+  countPromoRedemptions(promoCodeId: string, memberId?: string): Promise<number>;
+  getPromoRedemptions(promoCodeId: string): Promise<PromoRedemption[]>;
+
+  createGiftVoucher(data: InsertGiftVoucher): Promise<GiftVoucher>;
+  getAllGiftVouchers(): Promise<GiftVoucher[]>;
+  getGiftVoucher(id: string): Promise<GiftVoucher | undefined>;
+  getGiftVoucherByCode(code: string): Promise<GiftVoucher | undefined>;
+  getGiftVouchersByPurchaser(memberId: string): Promise<GiftVoucher[]>;
+  voidGiftVoucher(id: string): Promise<GiftVoucher | undefined>;
+  getGiftVoucherLedger(voucherId: string): Promise<GiftVoucherLedgerEntry[]>;
+  getGiftVoucherLedgerByBooking(bookingId: string): Promise<GiftVoucherLedgerEntry[]>;
+
+  createSavedCard(data: InsertSavedCard): Promise<SavedCard>;
+  getSavedCardsByMember(memberId: string): Promise<SavedCard[]>;
+  getSavedCard(id: string): Promise<SavedCard | undefined>;
+  deleteSavedCard(id: string): Promise<boolean>;
+
+  confirmCashBooking(bookingId: string): Promise<ConfirmCashBookingResult>;
+  getCashSession(id: string): Promise<CashSession | undefined>;
+  getCashSessions(from?: string, to?: string): Promise<CashSession[]>;
+  getCashSessionBookings(id: string): Promise<Booking[]>;
+  getCashSessionExpected(id: string): Promise<string>;
+  closeCashSession(id: string, data: { countedAmount: string; collectedBy: string; closedByMemberId: string; notes?: string | null }): Promise<CashSession | undefined>;
+  reopenCashSession(id: string): Promise<CashSession | undefined>;
+
+  // Financial reporting
+  getIncomeSummary(from?: string, to?: string): Promise<IncomeSummary>;
+  getFinanceTransactions(from?: string, to?: string): Promise<FinanceTransaction[]>;
+
+  getAllClosures(): Promise<Closure[]>;
+  getClosuresBetween(from: string, to: string): Promise<Closure[]>;
+  createClosure(data: InsertClosure): Promise<Closure>;
+  deleteClosure(id: string): Promise<boolean>;
+
+  issueReceipt(data: InsertReceipt): Promise<Receipt>;
+  getReceiptsByMember(memberId: string): Promise<Receipt[]>;
+
+  getEligibilityOverride(classId: string, memberId: string): Promise<EligibilityOverride | undefined>;
+  getEligibilityOverridesByClass(classId: string): Promise<EligibilityOverride[]>;
+  getEligibilityOverridesByMember(memberId: string): Promise<EligibilityOverride[]>;
+  createEligibilityOverride(data: InsertEligibilityOverride): Promise<EligibilityOverride>;
+  deleteEligibilityOverride(id: string): Promise<boolean>;
+
+  getAllConsentDocuments(): Promise<ConsentDocument[]>;
+  getActiveConsentDocuments(): Promise<ConsentDocument[]>;
+  getConsentDocument(id: string): Promise<ConsentDocument | undefined>;
+  createConsentDocument(data: InsertConsentDocument): Promise<ConsentDocument>;
+  updateConsentDocument(id: string, data: Partial<InsertConsentDocument>): Promise<ConsentDocument | undefined>;
+  getSignaturesByMember(memberId: string): Promise<DocumentSignature[]>;
+  getCurrentDocumentSignatures(): Promise<DocumentSignature[]>;
+  createDocumentSignature(data: InsertDocumentSignature): Promise<DocumentSignature>;
+
+  getAllBouts(): Promise<Bout[]>;
+  getBoutsByMember(memberId: string): Promise<Bout[]>;
+  getBout(id: string): Promise<Bout | undefined>;
+  createBout(data: InsertBout): Promise<Bout>;
+  updateBout(id: string, data: Partial<InsertBout>): Promise<Bout | undefined>;
+  deleteBout(id: string): Promise<boolean>;
+  getPublicProfileMembers(): Promise<Member[]>;
+}
+
+// Anything we've charged through Square, whichever table recorded it
+export interface SquarePaymentRecord {
+  squarePaymentId: string;
+  source: "booking" | "credit_pack" | "subscription" | "gift_voucher";
+  amount: string;
+  bookingId: string | null;
+  createdAt: Date | null;
+}
+
+export interface IncomeLine {
+  count: number;
+  amount: string;
+}
+
+// Session income is dated by the class it paid for; pack, membership and voucher sales by the day they were bought
+export interface IncomeSummary {
+  card: IncomeLine;
+  cash: IncomeLine;
+  voucher: IncomeLine; // gift voucher balance spent on sessions - the money came in when the voucher was sold
+  free: IncomeLine; // amount is what the sessions would have cost - no money changes hands
+  refunded: IncomeLine;
+  packSales: IncomeLine;
+  membershipPayments: IncomeLine;
+  voucherSales: IncomeLine;
+}
+
+export interface FinanceTransaction {
+  id: string;
+  source: "booking" | "credit_pack" | "subscription" | "gift_voucher";
+  date: string;
+  description: string;
+  memberName: string | null;
+  paymentMethod: string | null;
+  status: string | null;
+  isFreeSession: boolean;
+  amount: string; // money received
+  voucherAmount: string;
+  refundAmount: string;
+  refundedAt: Date | null;
+}
+
+const countWhere = (condition: SQL) => sql<number>`count(*) filter (where ${condition})::int`;
+const sumWhere = (column: AnyColumn, condition: SQL) =>
+  sql<string>`coalesce(sum(${column}) filter (where ${condition}), 0)::numeric(10,2)::text`;
+
+// Money has changed hands for a booking. Cancelled card bookings count because the payment was taken -
+// any refund is reported separately. Cash no-shows never paid.
+const bookingMoneyReceived = sql`(${bookings.isFreeSession} = false AND ${bookings.price} > 0 AND (
+  ${bookings.status} IN ('confirmed', 'attended')
+  OR (${bookings.status} = 'no_show' AND ${bookings.paymentMethod} <> 'cash')
+  OR (${bookings.status} = 'cancelled' AND ${bookings.squarePaymentId} IS NOT NULL)))`;
+
+function classDateInRange(from?: string, to?: string) {
+  return and(
+    from ? gte(boxingClasses.date, from) : undefined,
+    to ? lte(boxingClasses.date, to) : undefined
+  );
+}
+
+// node-postgres writes plain timestamps in the server's local time
+const SERVER_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Payments count towards the day they were taken on the club's calendar
+function createdInRange(column: AnyColumn, from?: string, to?: string) {
+  const clubDate = sql`(${column} AT TIME ZONE ${SERVER_TIMEZONE} AT TIME ZONE ${getClubTimezone()})::date`;
+  return and(
+    from ? sql`${clubDate} >= ${from}` : undefined,
+    to ? sql`${clubDate} <= ${to}` : undefined
+  );
 }
 
 export class DatabaseStorage implements IStorage {
@@ -171,7 +406,7 @@ export class DatabaseStorage implements IStorage {
   async createMember(data: InsertMember): Promise<Member> {
     const [member] = await db.insert(members).values({
       ...data,
-      email: data.email.toLowerCase(),
+      email: data.email?.toLowerCase() ?? null,
     }).returning();
     return member;
   }
@@ -185,29 +420,66 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(members).orderBy(desc(members.createdAt));
   }
 
+  async getDependants(guardianId: string): Promise<Member[]> {
+    return db.select().from(members).where(eq(members.guardianId, guardianId)).orderBy(asc(members.name));
+  }
+
   async deleteMember(id: string): Promise<boolean> {
+    // Juniors can't log in on their own, so they go with their guardian's account
+    for (const dependant of await this.getDependants(id)) {
+      await this.deleteMember(dependant.id);
+    }
+
     // Get member name before deletion for financial record keeping
     const member = await this.getMemberById(id);
     const anonymizedName = member ? `Deleted Member (${member.name.split(' ')[0]?.charAt(0) || 'X'}***)` : "Deleted Member";
     
-    // Cancel all confirmed/pending bookings for this member and decrement class counts
-    const memberBookings = await this.getBookingsByMember(id);
-    for (const booking of memberBookings) {
-      if (booking.status === 'confirmed' || booking.status === 'pending' || booking.status === 'pending_cash') {
-        await this.decrementBookedCount(booking.classId);
+    // Cancel live bookings the usual way, so class counts resync and voucher money goes back on the voucher
+    for (const booking of await this.getBookingsByMember(id)) {
+      if (booking.status !== "cancelled") {
+        await this.cancelBooking(booking.id);
       }
     }
     
-    // Anonymize bookings and cancel them (for tax compliance - keep payment records)
+    // Anonymize bookings (for tax compliance - keep payment records)
     await db.update(bookings)
       .set({ 
         memberDeleted: true, 
         deletedMemberName: anonymizedName,
         memberId: null,
-        status: 'cancelled'  // Cancel all bookings when member is deleted
       })
       .where(eq(bookings.memberId, id));
     
+    // Waitlist places are personal, so drop them rather than anonymise
+    await db.delete(waitlistEntries).where(eq(waitlistEntries.memberId, id));
+
+    // Keep pack purchases for the accounts but detach them from the member
+    await db.update(creditLedger).set({ memberId: null }).where(eq(creditLedger.memberId, id));
+    await db.update(creditPacks).set({ memberId: null, creditsRemaining: 0 }).where(eq(creditPacks.memberId, id));
+
+    // Redemptions stay for promo reporting
+    await db.update(promoRedemptions).set({ memberId: null }).where(eq(promoRedemptions.memberId, id));
+
+    // Cash counts stay on the takings record without the admin who closed them
+    await db.update(cashSessions).set({ closedByMemberId: null }).where(eq(cashSessions.closedByMemberId, id));
+
+    // Receipts are kept for the accounts under the same anonymised name as the bookings
+    await db.update(receipts)
+      .set({ memberId: null, memberName: anonymizedName, memberEmail: null })
+      .where(eq(receipts.memberId, id));
+
+    // Saved cards are personal payment details, so they go with the account
+    await db.delete(savedCards).where(eq(savedCards.memberId, id));
+
+    // Vouchers belong to whoever holds the code, so they stay live without the buyer's account
+    await db.update(giftVouchers).set({ purchaserMemberId: null }).where(eq(giftVouchers.purchaserMemberId, id));
+    await db.update(giftVoucherLedger).set({ memberId: null }).where(eq(giftVoucherLedger.memberId, id));
+
+    // Stop billing straight away; payment history stays with the detached subscription
+    await db.update(subscriptions)
+      .set({ memberId: null, status: "cancelled", cancelledAt: new Date(), nextBillingAttemptAt: null })
+      .where(eq(subscriptions.memberId, id));
+
     // Now delete the member
     const result = await db.delete(members).where(eq(members.id, id)).returning();
     return result.length > 0;
@@ -218,61 +490,228 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(boxingClasses).orderBy(boxingClasses.date, boxingClasses.time);
   }
 
+  // Every active class from today on - how far ahead members see is up to the booking window settings
   async getUpcomingClasses(): Promise<BoxingClass[]> {
-    const today = new Date();
-    const todayStr = today.toISOString().split('T')[0];
-    const twoWeeksLater = new Date(today);
-    twoWeeksLater.setDate(twoWeeksLater.getDate() + 14);
-    const twoWeeksStr = twoWeeksLater.toISOString().split('T')[0];
-    
     return db.select().from(boxingClasses)
       .where(and(
-        gte(boxingClasses.date, todayStr),
-        lte(boxingClasses.date, twoWeeksStr),
+        gte(boxingClasses.date, clubToday()),
+        eq(boxingClasses.isActive, true)
+      ))
+      .orderBy(boxingClasses.date, boxingClasses.time);
+  }
+
+  async getActiveClassesBetween(from: string, to: string): Promise<BoxingClass[]> {
+    return db.select().from(boxingClasses)
+      .where(and(
+        gte(boxingClasses.date, from),
+        lte(boxingClasses.date, to),
         eq(boxingClasses.isActive, true)
       ))
       .orderBy(boxingClasses.date, boxingClasses.time);
   }
 
+  // Includes cancelled sessions
+  async getClassesByTemplate(templateId: string, fromDate: string): Promise<BoxingClass[]> {
+    return db.select().from(boxingClasses)
+      .where(and(eq(boxingClasses.templateId, templateId), gte(boxingClasses.date, fromDate)))
+      .orderBy(boxingClasses.date, boxingClasses.time);
+  }
+
   async getClass(id: string): Promise<BoxingClass | undefined> {
     const [boxingClass] = await db.select().from(boxingClasses).where(eq(boxingClasses.id, id));
     return boxingClass || undefined;
   }
 
+  async getClassesByDate(date: string): Promise<BoxingClass[]> {
+    return db.select().from(boxingClasses)
+      .where(and(eq(boxingClasses.date, date), eq(boxingClasses.isActive, true)))
+      .orderBy(boxingClasses.time);
+  }
+
   async createClass(data: InsertBoxingClass): Promise<BoxingClass> {
-    const [boxingClass] = await db.insert(boxingClasses).values(data).returning();
+    const [boxingClass] = await db.insert(boxingClasses)
+      .values({ ...data, startsAt: clubDateTime(data.date, data.time) })
+      .returning();
     return boxingClass;
   }
 
   async updateClass(id: string, data: Partial<InsertBoxingClass>): Promise<BoxingClass | undefined> {
-    const [boxingClass] = await db.update(boxingClasses).set(data).where(eq(boxingClasses.id, id)).returning();
+    let startsAt: Date | undefined;
+    if (data.date !== undefined || data.time !== undefined) {
+      const existing = await this.getClass(id);
+      if (!existing) return undefined;
+      startsAt = clubDateTime(data.date ?? existing.date, data.time ?? existing.time);
+    }
+    const [boxingClass] = await db.update(boxingClasses)
+      .set(startsAt ? { ...data, startsAt } : data)
+      .where(eq(boxingClasses.id, id))
+      .returning();
     return boxingClass || undefined;
   }
 
+  // After the club timezone changes, classes still to come start at the same wall-clock time on the new clock
+  async recalculateClassStartTimes(timeZone: string, fromDate: string): Promise<number> {
+    const updated = await db.update(boxingClasses)
+      .set({ startsAt: sql`(${boxingClasses.date} || ' ' || ${boxingClasses.time})::timestamp AT TIME ZONE ${timeZone}` })
+      .where(gte(boxingClasses.date, fromDate))
+      .returning({ id: boxingClasses.id });
+    return updated.length;
+  }
+
   async deleteClass(id: string): Promise<boolean> {
-    // First delete all bookings for this class to avoid foreign key constraint
+    // Give back credits and voucher balance spent on this class before its bookings disappear
+    const classBookings = await this.getBookingsByClass(id);
+    const voucherSpends = classBookings.length > 0
+      ? await db.select({ bookingId: giftVoucherLedger.bookingId }).from(giftVoucherLedger)
+          .where(inArray(giftVoucherLedger.bookingId, classBookings.map(b => b.id)))
+      : [];
+    const voucherBookingIds = new Set(voucherSpends.map(s => s.bookingId));
+    for (const booking of classBookings) {
+      if ((booking.paymentMethod === "credit" || voucherBookingIds.has(booking.id)) && booking.status !== "cancelled") {
+        await this.cancelBooking(booking.id);
+      }
+    }
+    await db.update(creditLedger)
+      .set({ bookingId: null })
+      .where(inArray(creditLedger.bookingId, db.select({ id: bookings.id }).from(bookings).where(eq(bookings.classId, id))));
+    await db.update(promoRedemptions)
+      .set({ bookingId: null })
+      .where(inArray(promoRedemptions.bookingId, db.select({ id: bookings.id }).from(bookings).where(eq(bookings.classId, id))));
+    await db.update(giftVoucherLedger)
+      .set({ bookingId: null })
+      .where(inArray(giftVoucherLedger.bookingId, db.select({ id: bookings.id }).from(bookings).where(eq(bookings.classId, id))));
+    await db.update(paymentIssues)
+      .set({ bookingId: null })
+      .where(inArray(paymentIssues.bookingId, db.select({ id: bookings.id }).from(bookings).where(eq(bookings.classId, id))));
+    // The cash session keeps its copy of the class details for the takings reports
+    await db.update(cashSessions).set({ classId: null }).where(eq(cashSessions.classId, id));
+
+    // First delete all bookings and waitlist entries for this class to avoid foreign key constraint
     await db.delete(bookings).where(eq(bookings.classId, id));
+    await db.delete(waitlistEntries).where(eq(waitlistEntries.classId, id));
     // Then delete the class itself
     const result = await db.delete(boxingClasses).where(eq(boxingClasses.id, id)).returning();
     return result.length > 0;
   }
 
-  async incrementBookedCount(id: string): Promise<void> {
-    await db.update(boxingClasses)
-      .set({ bookedCount: sql`${boxingClasses.bookedCount} + 1` })
-      .where(eq(boxingClasses.id, id));
-  }
-
-  async decrementBookedCount(id: string): Promise<void> {
-    await db.update(boxingClasses)
-      .set({ bookedCount: sql`GREATEST(${boxingClasses.bookedCount} - 1, 0)` })
+  // bookedCount is a cache of live bookings - always derive it from the bookings table
+  async recalculateBookedCount(id: string, executor: DbExecutor = db): Promise<void> {
+    await executor.update(boxingClasses)
+      .set({
+        bookedCount: sql`(SELECT count(*) FROM ${bookings} WHERE ${bookings.classId} = ${id} AND ${bookings.status} <> 'cancelled')`,
+      })
       .where(eq(boxingClasses.id, id));
   }
 
   // Booking methods
-  async createBooking(data: InsertBooking): Promise<Booking> {
-    const [booking] = await db.insert(bookings).values(data).returning();
-    return booking;
+  async createBooking(data: InsertBooking, options: CreateBookingOptions = {}): Promise<CreateBookingResult> {
+    try {
+      return await db.transaction(async (tx) => {
+        // Lock the class row so concurrent bookings for the same class are checked one at a time
+        const [boxingClass] = await tx.select().from(boxingClasses)
+          .where(eq(boxingClasses.id, data.classId))
+          .for("update");
+        if (!boxingClass) {
+          return { success: false, reason: "not_found" } as const;
+        }
+
+        if (boxingClass.capacity != null && !options.skipCapacityCheck) {
+          const [{ booked }] = await tx.select({ booked: sql<number>`count(*)::int` })
+            .from(bookings)
+            .where(and(eq(bookings.classId, data.classId), ne(bookings.status, 'cancelled')));
+
+          // Places held for other members' waitlist offers count as taken
+          const [{ held }] = await tx.select({ held: sql<number>`count(*)::int` })
+            .from(waitlistEntries)
+            .where(and(
+              eq(waitlistEntries.classId, data.classId),
+              eq(waitlistEntries.status, "offered"),
+              gt(waitlistEntries.offerExpiresAt, new Date()),
+              data.memberId ? ne(waitlistEntries.memberId, data.memberId) : undefined
+            ));
+
+          if (booked + held >= boxingClass.capacity) {
+            return { success: false, reason: "class_full" } as const;
+          }
+        }
+
+        if (options.promo) {
+          // Lock the code so two members can't both take its last use
+          const [promo] = await tx.select().from(promoCodes)
+            .where(eq(promoCodes.id, options.promo.promoCodeId))
+            .for("update");
+          if (!promo || !(await this.promoHasUsesLeft(promo, data.memberId ?? undefined, tx))) {
+            return { success: false, reason: "promo_unavailable" } as const;
+          }
+        }
+
+        if (options.giftVoucher) {
+          // Take the money off the voucher in one statement so it can't be overspent
+          const [spent] = await tx.update(giftVouchers)
+            .set({ balance: sql`${giftVouchers.balance} - ${options.giftVoucher.amount}` })
+            .where(and(
+              eq(giftVouchers.id, options.giftVoucher.voucherId),
+              eq(giftVouchers.status, "active"),
+              gte(giftVouchers.balance, options.giftVoucher.amount)
+            ))
+            .returning();
+          if (!spent) {
+            return { success: false, reason: "voucher_unavailable" } as const;
+          }
+        }
+
+        let creditPack: CreditPack | undefined;
+        if (options.useCredit) {
+          creditPack = data.memberId ? await this.lockUsableCreditPack(data.memberId, tx) : undefined;
+          if (!creditPack) {
+            return { success: false, reason: "no_credit" } as const;
+          }
+        }
+
+        const [booking] = await tx.insert(bookings).values(data).returning();
+        await this.recalculateBookedCount(data.classId, tx);
+
+        if (creditPack) {
+          await tx.update(creditPacks)
+            .set({ creditsRemaining: sql`${creditPacks.creditsRemaining} - 1` })
+            .where(eq(creditPacks.id, creditPack.id));
+          await tx.insert(creditLedger).values({
+            memberId: data.memberId,
+            packId: creditPack.id,
+            bookingId: booking.id,
+            change: -1,
+            reason: "booking",
+          });
+        }
+
+        if (options.promo) {
+          await tx.insert(promoRedemptions).values({
+            promoCodeId: options.promo.promoCodeId,
+            memberId: data.memberId,
+            bookingId: booking.id,
+            originalPrice: options.promo.originalPrice,
+            discountAmount: options.promo.discountAmount,
+          });
+        }
+
+        if (options.giftVoucher) {
+          await tx.insert(giftVoucherLedger).values({
+            voucherId: options.giftVoucher.voucherId,
+            memberId: data.memberId,
+            bookingId: booking.id,
+            change: `-${options.giftVoucher.amount}`,
+            reason: "booking",
+          });
+        }
+        return { success: true, booking } as const;
+      });
+    } catch (error: any) {
+      // unique_violation from bookings_member_class_live_idx
+      if (error?.code === "23505") {
+        return { success: false, reason: "already_booked" };
+      }
+      throw error;
+    }
   }
 
   async getBookingsByMember(memberId: string): Promise<Booking[]> {
@@ -293,12 +732,72 @@ export class DatabaseStorage implements IStorage {
     return booking || undefined;
   }
 
-  async cancelBooking(id: string): Promise<boolean> {
-    const result = await db.update(bookings)
-      .set({ status: 'cancelled' })
-      .where(eq(bookings.id, id))
+  // Marks a refund as in flight so two cancellations can't both refund the same payment.
+  // Failed refunds can be claimed again to retry.
+  async claimBookingRefund(id: string): Promise<Booking | undefined> {
+    const [booking] = await db.update(bookings)
+      .set({ refundStatus: "pending" })
+      .where(and(
+        eq(bookings.id, id),
+        or(isNull(bookings.refundStatus), eq(bookings.refundStatus, "failed"), eq(bookings.refundStatus, "not_eligible"))
+      ))
       .returning();
-    return result.length > 0;
+    return booking || undefined;
+  }
+
+  async cancelBooking(id: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(bookings).where(eq(bookings.id, id)).for("update");
+      if (!existing) return false;
+
+      await tx.update(bookings).set({ status: 'cancelled' }).where(eq(bookings.id, id));
+      await this.recalculateBookedCount(existing.classId, tx);
+
+      // Credit bookings get their credit back in the pack it came from
+      if (existing.paymentMethod === "credit" && existing.status !== "cancelled") {
+        const [debit] = await tx.select().from(creditLedger)
+          .where(and(eq(creditLedger.bookingId, id), eq(creditLedger.reason, "booking")));
+        if (debit?.packId) {
+          await tx.update(creditPacks)
+            .set({ creditsRemaining: sql`${creditPacks.creditsRemaining} + 1` })
+            .where(eq(creditPacks.id, debit.packId));
+          await tx.insert(creditLedger).values({
+            memberId: existing.memberId,
+            packId: debit.packId,
+            bookingId: id,
+            change: 1,
+            reason: "cancellation",
+          });
+        }
+      }
+
+      // A promo code used on the booking gets its use back
+      if (existing.status !== "cancelled") {
+        await tx.update(promoRedemptions)
+          .set({ cancelledAt: new Date() })
+          .where(and(eq(promoRedemptions.bookingId, id), isNull(promoRedemptions.cancelledAt)));
+      }
+
+      // Voucher money spent on the booking goes back on the voucher
+      if (existing.status !== "cancelled") {
+        const [spend] = await tx.select().from(giftVoucherLedger)
+          .where(and(eq(giftVoucherLedger.bookingId, id), eq(giftVoucherLedger.reason, "booking")));
+        if (spend) {
+          const amount = spend.change.replace(/^-/, "");
+          await tx.update(giftVouchers)
+            .set({ balance: sql`${giftVouchers.balance} + ${amount}` })
+            .where(eq(giftVouchers.id, spend.voucherId));
+          await tx.insert(giftVoucherLedger).values({
+            voucherId: spend.voucherId,
+            memberId: existing.memberId,
+            bookingId: id,
+            change: amount,
+            reason: "cancellation",
+          });
+        }
+      }
+      return true;
+    });
   }
 
   async getAllBookings(): Promise<Booking[]> {
@@ -335,6 +834,819 @@ export class DatabaseStorage implements IStorage {
     const result = await db.delete(classTemplates).where(eq(classTemplates.id, id)).returning();
     return result.length > 0;
   }
+
+  // Waitlist methods
+  async createWaitlistEntry(data: InsertWaitlistEntry): Promise<WaitlistEntry> {
+    const [entry] = await db.insert(waitlistEntries).values(data).returning();
+    return entry;
+  }
+
+  async getWaitlistEntry(id: string): Promise<WaitlistEntry | undefined> {
+    const [entry] = await db.select().from(waitlistEntries).where(eq(waitlistEntries.id, id));
+    return entry || undefined;
+  }
+
+  async getWaitlistByClass(classId: string): Promise<WaitlistEntry[]> {
+    return db.select().from(waitlistEntries)
+      .where(eq(waitlistEntries.classId, classId))
+      .orderBy(waitlistEntries.createdAt);
+  }
+
+  async getWaitlistByMember(memberId: string): Promise<WaitlistEntry[]> {
+    return db.select().from(waitlistEntries)
+      .where(eq(waitlistEntries.memberId, memberId))
+      .orderBy(desc(waitlistEntries.createdAt));
+  }
+
+  async getActiveWaitlistEntry(classId: string, memberId: string): Promise<WaitlistEntry | undefined> {
+    const [entry] = await db.select().from(waitlistEntries)
+      .where(and(
+        eq(waitlistEntries.classId, classId),
+        eq(waitlistEntries.memberId, memberId),
+        inArray(waitlistEntries.status, ["waiting", "offered"])
+      ));
+    return entry || undefined;
+  }
+
+  async getNextWaitingEntry(classId: string): Promise<WaitlistEntry | undefined> {
+    const [entry] = await db.select().from(waitlistEntries)
+      .where(and(eq(waitlistEntries.classId, classId), eq(waitlistEntries.status, "waiting")))
+      .orderBy(waitlistEntries.createdAt)
+      .limit(1);
+    return entry || undefined;
+  }
+
+  async getExpiredWaitlistOffers(now: Date): Promise<WaitlistEntry[]> {
+    return db.select().from(waitlistEntries)
+      .where(and(eq(waitlistEntries.status, "offered"), lt(waitlistEntries.offerExpiresAt, now)));
+  }
+
+  async updateWaitlistEntry(id: string, data: Partial<InsertWaitlistEntry>): Promise<WaitlistEntry | undefined> {
+    const [entry] = await db.update(waitlistEntries).set(data).where(eq(waitlistEntries.id, id)).returning();
+    return entry || undefined;
+  }
+
+  // Kiosk device methods
+  async getAllKioskDevices(): Promise<KioskDevice[]> {
+    return db.select().from(kioskDevices).orderBy(desc(kioskDevices.createdAt));
+  }
+
+  async getKioskDeviceByTokenHash(tokenHash: string): Promise<KioskDevice | undefined> {
+    const [device] = await db.select().from(kioskDevices).where(eq(kioskDevices.tokenHash, tokenHash));
+    return device || undefined;
+  }
+
+  async createKioskDevice(data: InsertKioskDevice): Promise<KioskDevice> {
+    const [device] = await db.insert(kioskDevices).values(data).returning();
+    return device;
+  }
+
+  async updateKioskDevice(id: string, data: Partial<InsertKioskDevice>): Promise<KioskDevice | undefined> {
+    const [device] = await db.update(kioskDevices).set(data).where(eq(kioskDevices.id, id)).returning();
+    return device || undefined;
+  }
+
+  async deleteKioskDevice(id: string): Promise<boolean> {
+    const result = await db.delete(kioskDevices).where(eq(kioskDevices.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Session credit methods
+  async getCreditPacksByMember(memberId: string): Promise<CreditPack[]> {
+    return db.select().from(creditPacks).where(eq(creditPacks.memberId, memberId)).orderBy(desc(creditPacks.createdAt));
+  }
+
+  async getCreditLedgerByMember(memberId: string): Promise<CreditLedgerEntry[]> {
+    return db.select().from(creditLedger).where(eq(creditLedger.memberId, memberId)).orderBy(desc(creditLedger.createdAt));
+  }
+
+  async getCreditBalance(memberId: string): Promise<number> {
+    const [{ balance }] = await db.select({ balance: sql<number>`coalesce(sum(${creditPacks.creditsRemaining}), 0)::int` })
+      .from(creditPacks)
+      .where(this.usableCreditPacks(memberId));
+    return balance;
+  }
+
+  async addCreditPack(data: InsertCreditPack, note?: string): Promise<CreditPack> {
+    return db.transaction(async (tx) => {
+      const [pack] = await tx.insert(creditPacks).values(data).returning();
+      await tx.insert(creditLedger).values({
+        memberId: pack.memberId,
+        packId: pack.id,
+        change: pack.creditsTotal,
+        reason: pack.source,
+        note: note || null,
+      });
+      return pack;
+    });
+  }
+
+  // Removes up to `credits` from the member's usable packs, soonest-expiring first. Returns how many were removed.
+  async deductCredits(memberId: string, credits: number, note?: string): Promise<number> {
+    return db.transaction(async (tx) => {
+      let deducted = 0;
+      while (deducted < credits) {
+        const pack = await this.lockUsableCreditPack(memberId, tx);
+        if (!pack) break;
+
+        const take = Math.min(pack.creditsRemaining, credits - deducted);
+        await tx.update(creditPacks)
+          .set({ creditsRemaining: pack.creditsRemaining - take })
+          .where(eq(creditPacks.id, pack.id));
+        await tx.insert(creditLedger).values({
+          memberId,
+          packId: pack.id,
+          change: -take,
+          reason: "adjustment",
+          note: note || null,
+        });
+        deducted += take;
+      }
+      return deducted;
+    });
+  }
+
+  // Membership plan and subscription methods
+  async getAllMembershipPlans(): Promise<MembershipPlan[]> {
+    return db.select().from(membershipPlans).orderBy(membershipPlans.price);
+  }
+
+  async getMembershipPlan(id: string): Promise<MembershipPlan | undefined> {
+    const [plan] = await db.select().from(membershipPlans).where(eq(membershipPlans.id, id));
+    return plan || undefined;
+  }
+
+  async createMembershipPlan(data: InsertMembershipPlan): Promise<MembershipPlan> {
+    const [plan] = await db.insert(membershipPlans).values(data).returning();
+    return plan;
+  }
+
+  async updateMembershipPlan(id: string, data: Partial<InsertMembershipPlan>): Promise<MembershipPlan | undefined> {
+    const [plan] = await db.update(membershipPlans).set(data).where(eq(membershipPlans.id, id)).returning();
+    return plan || undefined;
+  }
+
+  async getAllSubscriptions(): Promise<Subscription[]> {
+    return db.select().from(subscriptions).orderBy(desc(subscriptions.createdAt));
+  }
+
+  async getSubscription(id: string): Promise<Subscription | undefined> {
+    const [subscription] = await db.select().from(subscriptions).where(eq(subscriptions.id, id));
+    return subscription || undefined;
+  }
+
+  async getLiveSubscriptionByMember(memberId: string): Promise<Subscription | undefined> {
+    const [subscription] = await db.select().from(subscriptions)
+      .where(and(eq(subscriptions.memberId, memberId), ne(subscriptions.status, "cancelled")));
+    return subscription || undefined;
+  }
+
+  async getSubscriptionsDueForBilling(now: Date): Promise<Subscription[]> {
+    return db.select().from(subscriptions)
+      .where(and(
+        inArray(subscriptions.status, ["active", "past_due"]),
+        lte(subscriptions.nextBillingAttemptAt, now)
+      ));
+  }
+
+  async getLapsedSubscriptions(now: Date): Promise<Subscription[]> {
+    return db.select().from(subscriptions)
+      .where(and(eq(subscriptions.status, "past_due"), lt(subscriptions.graceEndsAt, now)));
+  }
+
+  async createSubscription(data: InsertSubscription): Promise<Subscription> {
+    const [subscription] = await db.insert(subscriptions).values(data).returning();
+    return subscription;
+  }
+
+  async updateSubscription(id: string, data: Partial<InsertSubscription>): Promise<Subscription | undefined> {
+    const [subscription] = await db.update(subscriptions).set(data).where(eq(subscriptions.id, id)).returning();
+    return subscription || undefined;
+  }
+
+  async createSubscriptionPayment(data: InsertSubscriptionPayment): Promise<SubscriptionPayment> {
+    const [payment] = await db.insert(subscriptionPayments).values(data).returning();
+    return payment;
+  }
+
+  async getSubscriptionPayments(subscriptionId: string): Promise<SubscriptionPayment[]> {
+    return db.select().from(subscriptionPayments)
+      .where(eq(subscriptionPayments.subscriptionId, subscriptionId))
+      .orderBy(desc(subscriptionPayments.createdAt));
+  }
+
+  async getPaidSubscriptionPaymentsByMember(memberId: string): Promise<(SubscriptionPayment & { planName: string })[]> {
+    const rows = await db.select({ payment: subscriptionPayments, planName: membershipPlans.name })
+      .from(subscriptionPayments)
+      .innerJoin(subscriptions, eq(subscriptionPayments.subscriptionId, subscriptions.id))
+      .innerJoin(membershipPlans, eq(subscriptions.planId, membershipPlans.id))
+      .where(and(eq(subscriptions.memberId, memberId), eq(subscriptionPayments.status, "paid")))
+      .orderBy(desc(subscriptionPayments.createdAt));
+    return rows.map(row => ({ ...row.payment, planName: row.planName }));
+  }
+
+  // Sessions taken on the plan since the period started - derived from bookings so cancellations free the slot
+  async countSubscriptionBookings(memberId: string, since: Date): Promise<number> {
+    const [{ used }] = await db.select({ used: sql<number>`count(*)::int` })
+      .from(bookings)
+      .where(and(
+        eq(bookings.memberId, memberId),
+        eq(bookings.paymentMethod, "subscription"),
+        ne(bookings.status, "cancelled"),
+        gte(bookings.bookedAt, since)
+      ));
+    return used;
+  }
+
+  // Returns false if the event was already recorded, so redelivered webhooks are skipped
+  async recordSquareWebhookEvent(id: string, type: string): Promise<boolean> {
+    const inserted = await db.insert(squareWebhookEvents).values({ id, type }).onConflictDoNothing().returning();
+    return inserted.length > 0;
+  }
+
+  async deleteSquareWebhookEvent(id: string): Promise<void> {
+    await db.delete(squareWebhookEvents).where(eq(squareWebhookEvents.id, id));
+  }
+
+  async getBookingBySquarePaymentId(squarePaymentId: string): Promise<Booking | undefined> {
+    const [booking] = await db.select().from(bookings).where(eq(bookings.squarePaymentId, squarePaymentId));
+    return booking || undefined;
+  }
+
+  async getSquarePaymentRecord(squarePaymentId: string): Promise<SquarePaymentRecord | undefined> {
+    const [booking] = await db.select().from(bookings).where(eq(bookings.squarePaymentId, squarePaymentId));
+    if (booking) {
+      return { squarePaymentId, source: "booking", amount: booking.price || "0.00", bookingId: booking.id, createdAt: booking.bookedAt };
+    }
+    const [pack] = await db.select().from(creditPacks).where(eq(creditPacks.squarePaymentId, squarePaymentId));
+    if (pack) {
+      return { squarePaymentId, source: "credit_pack", amount: pack.price || "0.00", bookingId: null, createdAt: pack.createdAt };
+    }
+    const [payment] = await db.select().from(subscriptionPayments).where(eq(subscriptionPayments.squarePaymentId, squarePaymentId));
+    if (payment) {
+      return { squarePaymentId, source: "subscription", amount: payment.amount, bookingId: null, createdAt: payment.createdAt };
+    }
+    const [voucher] = await db.select().from(giftVouchers).where(eq(giftVouchers.squarePaymentId, squarePaymentId));
+    if (voucher) {
+      return { squarePaymentId, source: "gift_voucher", amount: voucher.amount, bookingId: null, createdAt: voucher.createdAt };
+    }
+    return undefined;
+  }
+
+  async getSquarePaymentRecordsSince(since: Date): Promise<SquarePaymentRecord[]> {
+    const [bookingRows, packRows, paymentRows, voucherRows] = await Promise.all([
+      db.select().from(bookings).where(and(sql`${bookings.squarePaymentId} IS NOT NULL`, gte(bookings.bookedAt, since))),
+      db.select().from(creditPacks).where(and(sql`${creditPacks.squarePaymentId} IS NOT NULL`, gte(creditPacks.createdAt, since))),
+      db.select().from(subscriptionPayments).where(and(sql`${subscriptionPayments.squarePaymentId} IS NOT NULL`, gte(subscriptionPayments.createdAt, since))),
+      db.select().from(giftVouchers).where(and(sql`${giftVouchers.squarePaymentId} IS NOT NULL`, gte(giftVouchers.createdAt, since))),
+    ]);
+    return [
+      ...bookingRows.map(b => ({ squarePaymentId: b.squarePaymentId!, source: "booking" as const, amount: b.price || "0.00", bookingId: b.id, createdAt: b.bookedAt })),
+      ...packRows.map(p => ({ squarePaymentId: p.squarePaymentId!, source: "credit_pack" as const, amount: p.price || "0.00", bookingId: null, createdAt: p.createdAt })),
+      ...paymentRows.map(p => ({ squarePaymentId: p.squarePaymentId!, source: "subscription" as const, amount: p.amount, bookingId: null, createdAt: p.createdAt })),
+      ...voucherRows.map(v => ({ squarePaymentId: v.squarePaymentId!, source: "gift_voucher" as const, amount: v.amount, bookingId: null, createdAt: v.createdAt })),
+    ];
+  }
+
+  // An open issue for the same payment and kind is updated rather than duplicated
+  async raisePaymentIssue(data: InsertPaymentIssue): Promise<PaymentIssue> {
+    const [issue] = await db.insert(paymentIssues)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [paymentIssues.squarePaymentId, paymentIssues.kind],
+        targetWhere: sql`${paymentIssues.status} = 'open'`,
+        set: { detail: data.detail, bookingId: data.bookingId },
+      })
+      .returning();
+    return issue;
+  }
+
+  async getPaymentIssues(status?: string): Promise<PaymentIssue[]> {
+    return db.select().from(paymentIssues)
+      .where(status ? eq(paymentIssues.status, status) : undefined)
+      .orderBy(desc(paymentIssues.createdAt));
+  }
+
+  async resolvePaymentIssue(id: string): Promise<PaymentIssue | undefined> {
+    const [issue] = await db.update(paymentIssues)
+      .set({ status: "resolved", resolvedAt: new Date() })
+      .where(eq(paymentIssues.id, id))
+      .returning();
+    return issue || undefined;
+  }
+
+  async getAllPromoCodes(): Promise<PromoCode[]> {
+    return db.select().from(promoCodes).orderBy(desc(promoCodes.createdAt));
+  }
+
+  async getPromoCode(id: string): Promise<PromoCode | undefined> {
+    const [promo] = await db.select().from(promoCodes).where(eq(promoCodes.id, id));
+    return promo || undefined;
+  }
+
+  async getPromoCodeByCode(code: string): Promise<PromoCode | undefined> {
+    const [promo] = await db.select().from(promoCodes).where(eq(promoCodes.code, code.trim().toUpperCase()));
+    return promo || undefined;
+  }
+
+  async createPromoCode(data: InsertPromoCode): Promise<PromoCode> {
+    const [promo] = await db.insert(promoCodes).values({ ...data, code: data.code.trim().toUpperCase() }).returning();
+    return promo;
+  }
+
+  async updatePromoCode(id: string, data: Partial<InsertPromoCode>): Promise<PromoCode | undefined> {
+    const values = data.code ? { ...data, code: data.code.trim().toUpperCase() } : data;
+    const [promo] = await db.update(promoCodes).set(values).where(eq(promoCodes.id, id)).returning();
+    return promo || undefined;
+  }
+
+  // Redemptions on cancelled bookings don't count, so cancelling gives the use back. Deleting a booking's class
+  // doesn't - the redemption record stays and still counts.
+  async countPromoRedemptions(promoCodeId: string, memberId?: string, executor: DbExecutor = db): Promise<number> {
+    const [{ used }] = await executor.select({ used: sql<number>`count(*)::int` })
+      .from(promoRedemptions)
+      .where(and(
+        eq(promoRedemptions.promoCodeId, promoCodeId),
+        isNull(promoRedemptions.cancelledAt),
+        memberId ? eq(promoRedemptions.memberId, memberId) : undefined
+      ));
+    return used;
+  }
+
+  async getPromoRedemptions(promoCodeId: string): Promise<PromoRedemption[]> {
+    return db.select().from(promoRedemptions)
+      .where(eq(promoRedemptions.promoCodeId, promoCodeId))
+      .orderBy(desc(promoRedemptions.createdAt));
+  }
+
+  async createGiftVoucher(data: InsertGiftVoucher): Promise<GiftVoucher> {
+    const [voucher] = await db.insert(giftVouchers).values(data).returning();
+    return voucher;
+  }
+
+  async getAllGiftVouchers(): Promise<GiftVoucher[]> {
+    return db.select().from(giftVouchers).orderBy(desc(giftVouchers.createdAt));
+  }
+
+  async getGiftVoucher(id: string): Promise<GiftVoucher | undefined> {
+    const [voucher] = await db.select().from(giftVouchers).where(eq(giftVouchers.id, id));
+    return voucher || undefined;
+  }
+
+  async getGiftVoucherByCode(code: string): Promise<GiftVoucher | undefined> {
+    const [voucher] = await db.select().from(giftVouchers).where(eq(giftVouchers.code, code.trim().toUpperCase()));
+    return voucher || undefined;
+  }
+
+  async getGiftVouchersByPurchaser(memberId: string): Promise<GiftVoucher[]> {
+    return db.select().from(giftVouchers)
+      .where(eq(giftVouchers.purchaserMemberId, memberId))
+      .orderBy(desc(giftVouchers.createdAt));
+  }
+
+  // Voiding stops the code being used; the remaining balance isn't refunded automatically
+  async voidGiftVoucher(id: string): Promise<GiftVoucher | undefined> {
+    const [voucher] = await db.update(giftVouchers)
+      .set({ status: "voided", voidedAt: new Date() })
+      .where(eq(giftVouchers.id, id))
+      .returning();
+    return voucher || undefined;
+  }
+
+  async getGiftVoucherLedger(voucherId: string): Promise<GiftVoucherLedgerEntry[]> {
+    return db.select().from(giftVoucherLedger)
+      .where(eq(giftVoucherLedger.voucherId, voucherId))
+      .orderBy(desc(giftVoucherLedger.createdAt));
+  }
+
+  async getGiftVoucherLedgerByBooking(bookingId: string): Promise<GiftVoucherLedgerEntry[]> {
+    return db.select().from(giftVoucherLedger)
+      .where(eq(giftVoucherLedger.bookingId, bookingId))
+      .orderBy(asc(giftVoucherLedger.createdAt));
+  }
+
+  async createSavedCard(data: InsertSavedCard): Promise<SavedCard> {
+    const [card] = await db.insert(savedCards).values(data).returning();
+    return card;
+  }
+
+  async getSavedCardsByMember(memberId: string): Promise<SavedCard[]> {
+    return db.select().from(savedCards)
+      .where(eq(savedCards.memberId, memberId))
+      .orderBy(desc(savedCards.createdAt));
+  }
+
+  async getSavedCard(id: string): Promise<SavedCard | undefined> {
+    const [card] = await db.select().from(savedCards).where(eq(savedCards.id, id));
+    return card || undefined;
+  }
+
+  async deleteSavedCard(id: string): Promise<boolean> {
+    const result = await db.delete(savedCards).where(eq(savedCards.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Cash bookings are confirmed into their class's cash session, which is opened by the first one
+  async confirmCashBooking(bookingId: string): Promise<ConfirmCashBookingResult> {
+    return db.transaction(async (tx) => {
+      // Locked so a cancellation or a second confirm can't slip in between the check and the update
+      const [booking] = await tx.select().from(bookings).where(eq(bookings.id, bookingId)).for("update");
+      const [boxingClass] = booking
+        ? await tx.select().from(boxingClasses).where(eq(boxingClasses.id, booking.classId))
+        : [];
+      if (!booking || !boxingClass) {
+        return { success: false, reason: "not_found" } as const;
+      }
+      if (booking.status !== "pending_cash") {
+        return { success: false, reason: "not_pending" } as const;
+      }
+
+      await tx.insert(cashSessions)
+        .values({ classId: boxingClass.id, classTitle: boxingClass.title, classDate: boxingClass.date, classTime: boxingClass.time })
+        .onConflictDoNothing({ target: cashSessions.classId });
+      const [cashSession] = await tx.select().from(cashSessions)
+        .where(eq(cashSessions.classId, boxingClass.id))
+        .for("update");
+      if (cashSession.status !== "open") {
+        return { success: false, reason: "session_closed" } as const;
+      }
+
+      const [confirmed] = await tx.update(bookings)
+        .set({ status: booking.checkedInAt ? "attended" : "confirmed", cashSessionId: cashSession.id })
+        .where(eq(bookings.id, bookingId))
+        .returning();
+      return { success: true, booking: confirmed, cashSession } as const;
+    });
+  }
+
+  async getCashSession(id: string): Promise<CashSession | undefined> {
+    const [cashSession] = await db.select().from(cashSessions).where(eq(cashSessions.id, id));
+    return cashSession || undefined;
+  }
+
+  async getCashSessions(from?: string, to?: string): Promise<CashSession[]> {
+    return db.select().from(cashSessions)
+      .where(and(
+        from ? gte(cashSessions.classDate, from) : undefined,
+        to ? lte(cashSessions.classDate, to) : undefined
+      ))
+      .orderBy(desc(cashSessions.classDate), desc(cashSessions.classTime));
+  }
+
+  async getCashSessionBookings(id: string): Promise<Booking[]> {
+    return db.select().from(bookings)
+      .where(eq(bookings.cashSessionId, id))
+      .orderBy(asc(bookings.bookedAt));
+  }
+
+  // What should be in the tin: every linked booking that hasn't since been cancelled
+  async getCashSessionExpected(id: string, executor: DbExecutor = db): Promise<string> {
+    const [{ total }] = await executor.select({ total: sql<string>`coalesce(sum(${bookings.price}), 0)::numeric(10,2)::text` })
+      .from(bookings)
+      .where(and(eq(bookings.cashSessionId, id), ne(bookings.status, "cancelled")));
+    return total;
+  }
+
+  // Closing fixes the expected total, so later cancellations don't move a count that's already been done
+  async closeCashSession(id: string, data: { countedAmount: string; collectedBy: string; closedByMemberId: string; notes?: string | null }): Promise<CashSession | undefined> {
+    return db.transaction(async (tx) => {
+      const [cashSession] = await tx.select().from(cashSessions).where(eq(cashSessions.id, id)).for("update");
+      if (!cashSession || cashSession.status !== "open") return undefined;
+
+      const [closed] = await tx.update(cashSessions)
+        .set({
+          ...data,
+          status: "closed",
+          expectedAmount: await this.getCashSessionExpected(id, tx),
+          closedAt: new Date(),
+        })
+        .where(eq(cashSessions.id, id))
+        .returning();
+      return closed;
+    });
+  }
+
+  async reopenCashSession(id: string): Promise<CashSession | undefined> {
+    const [cashSession] = await db.update(cashSessions)
+      .set({ status: "open", expectedAmount: null, closedAt: null })
+      .where(and(eq(cashSessions.id, id), eq(cashSessions.status, "closed")))
+      .returning();
+    return cashSession || undefined;
+  }
+
+  async getIncomeSummary(from?: string, to?: string): Promise<IncomeSummary> {
+    const isCard = sql`${bookingMoneyReceived} AND ${bookings.paymentMethod} <> 'cash'`;
+    const isCash = sql`${bookingMoneyReceived} AND ${bookings.paymentMethod} = 'cash'`;
+    const isFree = sql`${bookings.isFreeSession} = true AND ${bookings.status} IN ('confirmed', 'attended', 'no_show')`;
+    const isRefunded = sql`${bookings.refundStatus} = 'refunded'`;
+
+    const [[sessions], [vouchers], [packs], [memberships], [voucherSales]] = await Promise.all([
+      db.select({
+        cardCount: countWhere(isCard),
+        cardAmount: sumWhere(bookings.price, isCard),
+        cashCount: countWhere(isCash),
+        cashAmount: sumWhere(bookings.price, isCash),
+        freeCount: countWhere(isFree),
+        freeAmount: sumWhere(boxingClasses.price, isFree),
+        refundedCount: countWhere(isRefunded),
+        refundedAmount: sumWhere(bookings.refundAmount, isRefunded),
+      })
+        .from(bookings)
+        .innerJoin(boxingClasses, eq(bookings.classId, boxingClasses.id))
+        .where(classDateInRange(from, to)),
+      // Spends are negative and cancellations give the balance back, so the net spend is minus the sum
+      db.select({
+        count: sql<number>`count(distinct ${bookings.id}) filter (where ${bookings.status} <> 'cancelled')::int`,
+        amount: sql<string>`(-coalesce(sum(${giftVoucherLedger.change}), 0))::numeric(10,2)::text`,
+      })
+        .from(giftVoucherLedger)
+        .innerJoin(bookings, eq(giftVoucherLedger.bookingId, bookings.id))
+        .innerJoin(boxingClasses, eq(bookings.classId, boxingClasses.id))
+        .where(classDateInRange(from, to)),
+      db.select({ count: sql<number>`count(*)::int`, amount: sumWhere(creditPacks.price, sql`true`) })
+        .from(creditPacks)
+        .where(and(eq(creditPacks.source, "purchase"), createdInRange(creditPacks.createdAt, from, to))),
+      db.select({ count: sql<number>`count(*)::int`, amount: sumWhere(subscriptionPayments.amount, sql`true`) })
+        .from(subscriptionPayments)
+        .where(and(eq(subscriptionPayments.status, "paid"), createdInRange(subscriptionPayments.createdAt, from, to))),
+      db.select({ count: sql<number>`count(*)::int`, amount: sumWhere(giftVouchers.amount, sql`true`) })
+        .from(giftVouchers)
+        .where(createdInRange(giftVouchers.createdAt, from, to)),
+    ]);
+
+    return {
+      card: { count: sessions.cardCount, amount: sessions.cardAmount },
+      cash: { count: sessions.cashCount, amount: sessions.cashAmount },
+      voucher: vouchers,
+      free: { count: sessions.freeCount, amount: sessions.freeAmount },
+      refunded: { count: sessions.refundedCount, amount: sessions.refundedAmount },
+      packSales: packs,
+      membershipPayments: memberships,
+      voucherSales,
+    };
+  }
+
+  // One row per booking or sale that moved money (or was a free session), newest first
+  async getFinanceTransactions(from?: string, to?: string): Promise<FinanceTransaction[]> {
+    const voucherSpent = sql<string>`(-coalesce((SELECT sum(${giftVoucherLedger.change}) FROM ${giftVoucherLedger} WHERE ${giftVoucherLedger.bookingId} = ${bookings.id}), 0))::numeric(10,2)::text`;
+    const purchaseDate = (column: AnyColumn) => sql<string>`to_char(${column}, 'YYYY-MM-DD')`;
+
+    const [bookingRows, packRows, paymentRows, voucherRows] = await Promise.all([
+      db.select({
+        id: bookings.id,
+        date: boxingClasses.date,
+        classTitle: boxingClasses.title,
+        memberName: sql<string | null>`coalesce(${members.name}, ${bookings.deletedMemberName})`,
+        paymentMethod: bookings.paymentMethod,
+        status: bookings.status,
+        isFreeSession: bookings.isFreeSession,
+        amount: sql<string>`(CASE WHEN ${bookingMoneyReceived} THEN ${bookings.price} ELSE 0 END)::numeric(10,2)::text`,
+        voucherAmount: voucherSpent,
+        refundAmount: sql<string>`(CASE WHEN ${bookings.refundStatus} = 'refunded' THEN ${bookings.refundAmount} ELSE 0 END)::numeric(10,2)::text`,
+        refundedAt: bookings.refundedAt,
+      })
+        .from(bookings)
+        .innerJoin(boxingClasses, eq(bookings.classId, boxingClasses.id))
+        .leftJoin(members, eq(bookings.memberId, members.id))
+        .where(and(
+          classDateInRange(from, to),
+          sql`${bookings.status} NOT IN ('pending', 'pending_cash')`
+        )),
+      db.select({ pack: creditPacks, memberName: members.name, date: purchaseDate(creditPacks.createdAt) })
+        .from(creditPacks)
+        .leftJoin(members, eq(creditPacks.memberId, members.id))
+        .where(and(eq(creditPacks.source, "purchase"), createdInRange(creditPacks.createdAt, from, to))),
+      db.select({ payment: subscriptionPayments, planName: membershipPlans.name, memberName: members.name, date: purchaseDate(subscriptionPayments.createdAt) })
+        .from(subscriptionPayments)
+        .innerJoin(subscriptions, eq(subscriptionPayments.subscriptionId, subscriptions.id))
+        .innerJoin(membershipPlans, eq(subscriptions.planId, membershipPlans.id))
+        .leftJoin(members, eq(subscriptions.memberId, members.id))
+        .where(and(eq(subscriptionPayments.status, "paid"), createdInRange(subscriptionPayments.createdAt, from, to))),
+      db.select({ voucher: giftVouchers, date: purchaseDate(giftVouchers.createdAt) })
+        .from(giftVouchers)
+        .where(createdInRange(giftVouchers.createdAt, from, to)),
+    ]);
+
+    const sale = { isFreeSession: false, paymentMethod: "card", status: "paid", voucherAmount: "0.00", refundAmount: "0.00", refundedAt: null };
+    const transactions: FinanceTransaction[] = [
+      ...bookingRows
+        .filter(b => b.isFreeSession ? b.status !== "cancelled" : parseFloat(b.amount) > 0 || parseFloat(b.voucherAmount) > 0 || parseFloat(b.refundAmount) > 0)
+        .map(({ classTitle, isFreeSession, ...b }) => ({
+          ...b,
+          source: "booking" as const,
+          description: `Boxing class: ${classTitle}`,
+          isFreeSession: !!isFreeSession,
+        })),
+      ...packRows.map(({ pack, memberName, date }) => ({
+        ...sale,
+        id: pack.id, source: "credit_pack" as const, date, memberName,
+        description: `Class pack: ${pack.name}`, amount: pack.price || "0.00",
+      })),
+      ...paymentRows.map(({ payment, planName, memberName, date }) => ({
+        ...sale,
+        id: payment.id, source: "subscription" as const, date, memberName,
+        description: `Membership: ${planName}`, amount: payment.amount,
+      })),
+      ...voucherRows.map(({ voucher, date }) => ({
+        ...sale,
+        id: voucher.id, source: "gift_voucher" as const, date, memberName: voucher.purchaserName,
+        description: `Gift voucher ${voucher.code}`, amount: voucher.amount,
+      })),
+    ];
+    return transactions.sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  private async promoHasUsesLeft(promo: PromoCode, memberId: string | undefined, executor: DbExecutor): Promise<boolean> {
+    if (promo.maxRedemptions != null && await this.countPromoRedemptions(promo.id, undefined, executor) >= promo.maxRedemptions) {
+      return false;
+    }
+    if (memberId && promo.maxPerMember != null && await this.countPromoRedemptions(promo.id, memberId, executor) >= promo.maxPerMember) {
+      return false;
+    }
+    return true;
+  }
+
+  private usableCreditPacks(memberId: string) {
+    return and(
+      eq(creditPacks.memberId, memberId),
+      gt(creditPacks.creditsRemaining, 0),
+      or(isNull(creditPacks.expiresAt), gt(creditPacks.expiresAt, new Date()))
+    );
+  }
+
+  // Credits are spent from the pack that expires soonest, so members lose as few as possible
+  private async lockUsableCreditPack(memberId: string, executor: DbExecutor): Promise<CreditPack | undefined> {
+    const [pack] = await executor.select().from(creditPacks)
+      .where(this.usableCreditPacks(memberId))
+      .orderBy(sql`${creditPacks.expiresAt} asc nulls last`, asc(creditPacks.createdAt))
+      .limit(1)
+      .for("update");
+    return pack || undefined;
+  }
+
+  async getAllClosures(): Promise<Closure[]> {
+    return db.select().from(closures).orderBy(desc(closures.startDate));
+  }
+
+  // Closures that overlap the range at all
+  async getClosuresBetween(from: string, to: string): Promise<Closure[]> {
+    return db.select().from(closures)
+      .where(and(lte(closures.startDate, to), gte(closures.endDate, from)))
+      .orderBy(asc(closures.startDate));
+  }
+
+  async createClosure(data: InsertClosure): Promise<Closure> {
+    const [closure] = await db.insert(closures).values(data).returning();
+    return closure;
+  }
+
+  async deleteClosure(id: string): Promise<boolean> {
+    const result = await db.delete(closures).where(eq(closures.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // The advisory lock serialises issuing so numbers never skip or repeat.
+  // Asking again for the same booking or payment returns the receipt it already has.
+  async issueReceipt(data: InsertReceipt): Promise<Receipt> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext('receipts'))`);
+      const [existing] = await tx.select().from(receipts)
+        .where(and(eq(receipts.kind, data.kind), eq(receipts.sourceId, data.sourceId)));
+      if (existing) return existing;
+
+      const [{ next }] = await tx.select({ next: sql<number>`coalesce(max(${receipts.receiptNumber}), 0)::int + 1` })
+        .from(receipts);
+      const [receipt] = await tx.insert(receipts).values({ ...data, receiptNumber: next }).returning();
+      return receipt;
+    });
+  }
+
+  async getReceiptsByMember(memberId: string): Promise<Receipt[]> {
+    return db.select().from(receipts)
+      .where(eq(receipts.memberId, memberId))
+      .orderBy(desc(receipts.receiptNumber));
+  }
+
+  async getEligibilityOverride(classId: string, memberId: string): Promise<EligibilityOverride | undefined> {
+    const [override] = await db.select().from(eligibilityOverrides)
+      .where(and(eq(eligibilityOverrides.classId, classId), eq(eligibilityOverrides.memberId, memberId)));
+    return override;
+  }
+
+  async getEligibilityOverridesByClass(classId: string): Promise<EligibilityOverride[]> {
+    return db.select().from(eligibilityOverrides)
+      .where(eq(eligibilityOverrides.classId, classId))
+      .orderBy(asc(eligibilityOverrides.createdAt));
+  }
+
+  async getEligibilityOverridesByMember(memberId: string): Promise<EligibilityOverride[]> {
+    return db.select().from(eligibilityOverrides).where(eq(eligibilityOverrides.memberId, memberId));
+  }
+
+  // Allowing the same member twice keeps the first override
+  async createEligibilityOverride(data: InsertEligibilityOverride): Promise<EligibilityOverride> {
+    const [created] = await db.insert(eligibilityOverrides).values(data).onConflictDoNothing().returning();
+    return created ?? (await this.getEligibilityOverride(data.classId, data.memberId))!;
+  }
+
+  async deleteEligibilityOverride(id: string): Promise<boolean> {
+    const result = await db.delete(eligibilityOverrides).where(eq(eligibilityOverrides.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getAllConsentDocuments(): Promise<ConsentDocument[]> {
+    return db.select().from(consentDocuments).orderBy(asc(consentDocuments.createdAt));
+  }
+
+  async getActiveConsentDocuments(): Promise<ConsentDocument[]> {
+    return db.select().from(consentDocuments)
+      .where(eq(consentDocuments.isActive, true))
+      .orderBy(asc(consentDocuments.createdAt));
+  }
+
+  async getConsentDocument(id: string): Promise<ConsentDocument | undefined> {
+    const [document] = await db.select().from(consentDocuments).where(eq(consentDocuments.id, id));
+    return document;
+  }
+
+  async createConsentDocument(data: InsertConsentDocument): Promise<ConsentDocument> {
+    const [document] = await db.insert(consentDocuments).values(data).returning();
+    return document;
+  }
+
+  async updateConsentDocument(id: string, data: Partial<InsertConsentDocument>): Promise<ConsentDocument | undefined> {
+    const [document] = await db.update(consentDocuments)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(consentDocuments.id, id))
+      .returning();
+    return document;
+  }
+
+  async getSignaturesByMember(memberId: string): Promise<DocumentSignature[]> {
+    return db.select().from(documentSignatures)
+      .where(eq(documentSignatures.memberId, memberId))
+      .orderBy(desc(documentSignatures.signedAt));
+  }
+
+  // Signatures on the version of each active form that's in force now - older ones don't count
+  async getCurrentDocumentSignatures(): Promise<DocumentSignature[]> {
+    const rows = await db.select({ signature: documentSignatures }).from(documentSignatures)
+      .innerJoin(consentDocuments, and(
+        eq(documentSignatures.documentId, consentDocuments.id),
+        eq(documentSignatures.version, consentDocuments.version),
+      ))
+      .where(eq(consentDocuments.isActive, true));
+    return rows.map(row => row.signature);
+  }
+
+  // Signing the same version twice keeps the first signature
+  async createDocumentSignature(data: InsertDocumentSignature): Promise<DocumentSignature> {
+    const [created] = await db.insert(documentSignatures).values(data).onConflictDoNothing().returning();
+    if (created) return created;
+    const [existing] = await db.select().from(documentSignatures).where(and(
+      eq(documentSignatures.documentId, data.documentId),
+      eq(documentSignatures.memberId, data.memberId),
+      eq(documentSignatures.version, data.version),
+    ));
+    return existing;
+  }
+
+  async getAllBouts(): Promise<Bout[]> {
+    return db.select().from(bouts).orderBy(desc(bouts.boutDate));
+  }
+
+  // Most recent first, as a record is read
+  async getBoutsByMember(memberId: string): Promise<Bout[]> {
+    return db.select().from(bouts)
+      .where(eq(bouts.memberId, memberId))
+      .orderBy(desc(bouts.boutDate), desc(bouts.createdAt));
+  }
+
+  async getBout(id: string): Promise<Bout | undefined> {
+    const [bout] = await db.select().from(bouts).where(eq(bouts.id, id));
+    return bout;
+  }
+
+  async createBout(data: InsertBout): Promise<Bout> {
+    const [bout] = await db.insert(bouts).values(data).returning();
+    return bout;
+  }
+
+  async updateBout(id: string, data: Partial<InsertBout>): Promise<Bout | undefined> {
+    const [bout] = await db.update(bouts).set(data).where(eq(bouts.id, id)).returning();
+    return bout;
+  }
+
+  async deleteBout(id: string): Promise<boolean> {
+    const result = await db.delete(bouts).where(eq(bouts.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getPublicProfileMembers(): Promise<Member[]> {
+    return db.select().from(members)
+      .where(eq(members.publicProfile, true))
+      .orderBy(asc(members.name));
+  }
 }
 
 export const storage = new DatabaseStorage();
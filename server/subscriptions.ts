@@ -0,0 +1,445 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { addMonths, addWeeks, format } from "date-fns";
+import { storage } from "./storage";
+import { isAdmin, isMemberAuthenticated } from "./memberAuth";
+import { paymentProvider } from "./paymentProvider";
+import { sendSubscriptionPaymentFailedEmail, sendSubscriptionSuspendedEmail } from "./email";
+import { getMemberContact } from "./guardians";
+import { toPence } from "./pricing";
+import { ensureSquareCustomer } from "./savedCards";
+import type { Member, MembershipPlan, Subscription } from "@shared/schema";
+
+const SITE_URL = process.env.SITE_URL || "https://milltownabc.co.uk";
+const GRACE_PERIOD_MS = 7 * 24 * 60 * 60 * 1000; // members keep training for a week after a failed renewal
+const RETRY_INTERVAL_MS = 24 * 60 * 60 * 1000; // failed renewals are retried daily during the grace period
+
+function addInterval(date: Date, interval: string): Date {
+  return interval === "week" ? addWeeks(date, 1) : addMonths(date, 1);
+}
+
+// Whether a member's plan lets them book right now without paying
+export async function getSubscriptionCover(memberId: string) {
+  const subscription = await storage.getLiveSubscriptionByMember(memberId);
+  if (!subscription) return null;
+
+  const plan = await storage.getMembershipPlan(subscription.planId);
+  if (!plan) return null;
+
+  const now = new Date();
+  const inGoodStanding = subscription.status === "active"
+    || (subscription.status === "past_due" && !!subscription.graceEndsAt && subscription.graceEndsAt > now);
+  const sessionsUsed = await storage.countSubscriptionBookings(memberId, subscription.currentPeriodStart);
+  const sessionsLeft = plan.includedSessions == null ? null : Math.max(0, plan.includedSessions - sessionsUsed);
+
+  return {
+    subscription,
+    plan,
+    sessionsUsed,
+    sessionsLeft,
+    covers: inGoodStanding && (sessionsLeft === null || sessionsLeft > 0),
+  };
+}
+
+// Charge the saved card for the period starting at periodStart, recording the attempt either way
+async function chargeSubscription(
+  subscription: Subscription,
+  plan: MembershipPlan,
+  member: Member,
+  periodStart: Date
+): Promise<{ success: boolean; periodStart: Date; periodEnd: Date; error?: string }> {
+  const periodEnd = addInterval(periodStart, plan.interval);
+  if (!member.squareCustomerId || !subscription.squareCardId) {
+    return { success: false, periodStart, periodEnd, error: "No card on file" };
+  }
+
+  const result = await paymentProvider.createPayment({
+    sourceId: subscription.squareCardId,
+    customerId: member.squareCustomerId,
+    amount: toPence(plan.price),
+    currency: "GBP",
+    note: `Mill Town ABC - ${plan.name} membership`,
+  });
+
+  await storage.createSubscriptionPayment({
+    subscriptionId: subscription.id,
+    amount: plan.price,
+    status: result.success ? "paid" : "failed",
+    squarePaymentId: result.paymentId || null,
+    error: result.success ? null : result.error || "Payment failed",
+    periodStart,
+    periodEnd,
+  });
+
+  return { success: result.success, periodStart, periodEnd, error: result.error };
+}
+
+async function handleFailedRenewal(subscription: Subscription, plan: MembershipPlan, member: Member): Promise<void> {
+  const now = new Date();
+  const graceEndsAt = subscription.graceEndsAt || new Date(now.getTime() + GRACE_PERIOD_MS);
+  await storage.updateSubscription(subscription.id, {
+    status: "past_due",
+    failedAttempts: (subscription.failedAttempts || 0) + 1,
+    graceEndsAt,
+    nextBillingAttemptAt: new Date(now.getTime() + RETRY_INTERVAL_MS),
+  });
+
+  // Only email on the first failure - the daily retries are silent
+  const contact = await getMemberContact(member);
+  if (subscription.status === "active" && contact) {
+    sendSubscriptionPaymentFailedEmail({
+      memberName: contact.memberName,
+      memberEmail: contact.memberEmail,
+      planName: plan.name,
+      amount: plan.price,
+      graceEndsOn: format(graceEndsAt, "EEEE d MMMM"),
+      manageUrl: `${SITE_URL}/dashboard`,
+    }).catch(err => console.error("[Subscriptions] Failed to send payment failed email:", err));
+  }
+}
+
+export async function renewSubscriptions(): Promise<number> {
+  try {
+    const now = new Date();
+    let renewedCount = 0;
+
+    for (const subscription of await storage.getSubscriptionsDueForBilling(now)) {
+      const member = subscription.memberId ? await storage.getMemberById(subscription.memberId) : undefined;
+      const plan = await storage.getMembershipPlan(subscription.planId);
+
+      if (subscription.cancelAtPeriodEnd || !member || !plan) {
+        await storage.updateSubscription(subscription.id, { status: "cancelled", cancelledAt: now, nextBillingAttemptAt: null });
+        console.log(`[Subscriptions] Ended subscription ${subscription.id}`);
+        continue;
+      }
+
+      // Late payments keep the original billing date rather than restarting the cycle
+      const result = await chargeSubscription(subscription, plan, member, subscription.currentPeriodEnd);
+      if (result.success) {
+        await storage.updateSubscription(subscription.id, {
+          status: "active",
+          currentPeriodStart: result.periodStart,
+          currentPeriodEnd: result.periodEnd,
+          nextBillingAttemptAt: result.periodEnd,
+          failedAttempts: 0,
+          graceEndsAt: null,
+        });
+        renewedCount++;
+        console.log(`[Subscriptions] Renewed subscription ${subscription.id} until ${result.periodEnd.toISOString()}`);
+      } else {
+        console.error(`[Subscriptions] Renewal failed for subscription ${subscription.id}:`, result.error);
+        await handleFailedRenewal(subscription, plan, member);
+      }
+    }
+
+    for (const subscription of await storage.getLapsedSubscriptions(now)) {
+      await storage.updateSubscription(subscription.id, { status: "suspended", nextBillingAttemptAt: null });
+      console.log(`[Subscriptions] Suspended subscription ${subscription.id} after grace period`);
+
+      const member = subscription.memberId ? await storage.getMemberById(subscription.memberId) : undefined;
+      const plan = await storage.getMembershipPlan(subscription.planId);
+      const contact = member ? await getMemberContact(member) : null;
+      if (contact && plan) {
+        sendSubscriptionSuspendedEmail({
+          memberName: contact.memberName,
+          memberEmail: contact.memberEmail,
+          planName: plan.name,
+          manageUrl: `${SITE_URL}/dashboard`,
+        }).catch(err => console.error("[Subscriptions] Failed to send suspended email:", err));
+      }
+    }
+
+    return renewedCount;
+  } catch (error) {
+    console.error("[Subscriptions] Error renewing subscriptions:", error);
+    return 0;
+  }
+}
+
+const planSchema = z.object({
+  name: z.string().min(1, "Plan name is required").max(100),
+  description: z.string().max(1000).nullable().optional(),
+  price: z.string().regex(/^\d+(\.\d{1,2})?$/, "Enter a price like 40.00"),
+  interval: z.enum(["month", "week"]),
+  includedSessions: z.number().int().min(1).max(100).nullable(),
+  isActive: z.boolean().optional(),
+});
+
+export function registerSubscriptionRoutes(app: Express) {
+  // Public: plans members can sign up to
+  app.get("/api/membership-plans", async (_req, res) => {
+    try {
+      const plans = await storage.getAllMembershipPlans();
+      res.json(plans.filter(p => p.isActive));
+    } catch (error) {
+      console.error("Error fetching membership plans:", error);
+      res.status(500).json({ message: "Failed to fetch membership plans" });
+    }
+  });
+
+  // Member: current plan, sessions used this period and recent payments
+  app.get("/api/members/me/subscription", isMemberAuthenticated, async (req, res) => {
+    try {
+      const cover = await getSubscriptionCover(req.session.memberId!);
+      if (!cover) {
+        return res.json(null);
+      }
+      const payments = await storage.getSubscriptionPayments(cover.subscription.id);
+      res.json({
+        ...cover,
+        subscription: { ...cover.subscription, squareCardId: undefined },
+        payments: payments.slice(0, 6),
+      });
+    } catch (error) {
+      console.error("Error fetching subscription:", error);
+      res.status(500).json({ message: "Failed to fetch membership" });
+    }
+  });
+
+  // Member: sign up to a plan - the card is saved to their Square customer and charged for the first period
+  app.post("/api/members/me/subscription", isMemberAuthenticated, async (req, res) => {
+    try {
+      const { planId, paymentToken, verificationToken } = req.body;
+      const member = await storage.getMemberById(req.session.memberId!);
+      if (!member) {
+        return res.status(401).json({ message: "Member not found" });
+      }
+
+      const plan = await storage.getMembershipPlan(planId);
+      if (!plan || !plan.isActive) {
+        return res.status(404).json({ message: "That membership plan is no longer available" });
+      }
+      if (await storage.getLiveSubscriptionByMember(member.id)) {
+        return res.status(400).json({ message: "You already have a membership. Update your card to restart it." });
+      }
+      if (!paymentToken) {
+        return res.status(400).json({ message: "Payment required. Please complete the payment form." });
+      }
+      if (!paymentProvider.isConfigured()) {
+        return res.status(503).json({ message: "Payment processing not configured. Please contact the club." });
+      }
+
+      const customerId = await ensureSquareCustomer(member);
+      if (!customerId) {
+        return res.status(502).json({ message: "We couldn't set up your payment account. Please try again." });
+      }
+      const card = await paymentProvider.saveCardOnFile(customerId, paymentToken, verificationToken || undefined);
+      if (!card.success || !card.cardId) {
+        return res.status(400).json({ message: "Your card couldn't be saved. Please check the details and try again." });
+      }
+
+      const periodStart = new Date();
+      const periodEnd = addInterval(periodStart, plan.interval);
+      console.log(`[Payment] Processing membership payment of ${toPence(plan.price)}p for member ${member.id}`);
+      const payment = await paymentProvider.createPayment({
+        sourceId: card.cardId,
+        customerId,
+        verificationToken: verificationToken || undefined,
+        amount: toPence(plan.price),
+        currency: "GBP",
+        note: `Mill Town ABC - ${plan.name} membership`,
+      });
+      if (!payment.success) {
+        console.error(`[Payment] Failed:`, payment.error);
+        return res.status(400).json({ message: "Payment failed. Please check your card details and try again." });
+      }
+
+      let subscription;
+      try {
+        subscription = await storage.createSubscription({
+          memberId: member.id,
+          planId: plan.id,
+          status: "active",
+          squareCardId: card.cardId,
+          cardBrand: card.cardBrand || null,
+          cardLast4: card.last4 || null,
+          currentPeriodStart: periodStart,
+          currentPeriodEnd: periodEnd,
+          nextBillingAttemptAt: periodEnd,
+        });
+        await storage.createSubscriptionPayment({
+          subscriptionId: subscription.id,
+          amount: plan.price,
+          status: "paid",
+          squarePaymentId: payment.paymentId || null,
+          periodStart,
+          periodEnd,
+        });
+      } catch (error: any) {
+        // The card was charged but the membership wasn't set up - hand the money straight back
+        const refund = payment.paymentId
+          ? await paymentProvider.refundPayment({ paymentId: payment.paymentId, amount: toPence(plan.price), reason: "Membership could not be started" })
+          : { success: false, error: "No payment ID" };
+        if (!refund.success) {
+          console.error(`[Payment] Could not refund ${payment.paymentId} after membership setup failed for member ${member.id}:`, refund.error);
+        }
+        const charged = refund.success ? "You haven't been charged." : "Please contact the club and we'll refund your payment.";
+        if (error?.code === "23505") {
+          return res.status(400).json({ message: `You already have a membership. ${charged}` });
+        }
+        console.error("Error starting subscription:", error);
+        return res.status(500).json({ message: `Failed to start membership. ${charged}` });
+      }
+
+      res.status(201).json({ subscription, message: `Welcome to ${plan.name}! Your membership is active.` });
+    } catch (error: any) {
+      if (error?.code === "23505") {
+        return res.status(400).json({ message: "You already have a membership." });
+      }
+      console.error("Error starting subscription:", error);
+      res.status(500).json({ message: "Failed to start membership" });
+    }
+  });
+
+  // Member: replace the saved card - overdue or suspended plans are charged straight away
+  app.put("/api/members/me/subscription/card", isMemberAuthenticated, async (req, res) => {
+    try {
+      const { paymentToken, verificationToken } = req.body;
+      const member = await storage.getMemberById(req.session.memberId!);
+      const subscription = member ? await storage.getLiveSubscriptionByMember(member.id) : undefined;
+      if (!member || !subscription) {
+        return res.status(404).json({ message: "No membership found" });
+      }
+      if (!paymentToken) {
+        return res.status(400).json({ message: "Please enter your new card details." });
+      }
+
+      const customerId = await ensureSquareCustomer(member);
+      const card = customerId ? await paymentProvider.saveCardOnFile(customerId, paymentToken, verificationToken || undefined) : null;
+      if (!card?.success || !card.cardId) {
+        return res.status(400).json({ message: "Your card couldn't be saved. Please check the details and try again." });
+      }
+
+      let updated = await storage.updateSubscription(subscription.id, {
+        squareCardId: card.cardId,
+        cardBrand: card.cardBrand || null,
+        cardLast4: card.last4 || null,
+      });
+
+      if (updated && (updated.status === "past_due" || updated.status === "suspended")) {
+        const plan = await storage.getMembershipPlan(updated.planId);
+        // A suspended plan starts a fresh period; an overdue one catches up from its billing date
+        const periodStart = updated.status === "suspended" ? new Date() : updated.currentPeriodEnd;
+        const result = plan ? await chargeSubscription(updated, plan, { ...member, squareCustomerId: customerId }, periodStart) : null;
+        if (!result?.success) {
+          return res.status(400).json({ message: "Your card was saved but the payment didn't go through. Please try another card." });
+        }
+        updated = await storage.updateSubscription(updated.id, {
+          status: "active",
+          currentPeriodStart: result.periodStart,
+          currentPeriodEnd: result.periodEnd,
+          nextBillingAttemptAt: result.periodEnd,
+          failedAttempts: 0,
+          graceEndsAt: null,
+        });
+      }
+
+      res.json({ subscription: updated, message: "Card updated." });
+    } catch (error) {
+      console.error("Error updating subscription card:", error);
+      res.status(500).json({ message: "Failed to update card" });
+    }
+  });
+
+  // Member: cancel at the end of the paid period (or straight away if suspended), or undo that
+  app.post("/api/members/me/subscription/cancel", isMemberAuthenticated, async (req, res) => {
+    try {
+      const subscription = await storage.getLiveSubscriptionByMember(req.session.memberId!);
+      if (!subscription) {
+        return res.status(404).json({ message: "No membership found" });
+      }
+
+      const updated = subscription.status === "suspended"
+        ? await storage.updateSubscription(subscription.id, { status: "cancelled", cancelledAt: new Date() })
+        : await storage.updateSubscription(subscription.id, { cancelAtPeriodEnd: req.body.resume !== true });
+      res.json({ subscription: updated });
+    } catch (error) {
+      console.error("Error cancelling subscription:", error);
+      res.status(500).json({ message: "Failed to cancel membership" });
+    }
+  });
+
+  // Admin: List membership plans
+  app.get("/api/admin/membership-plans", isAdmin, async (_req, res) => {
+    try {
+      res.json(await storage.getAllMembershipPlans());
+    } catch (error) {
+      console.error("Error fetching membership plans:", error);
+      res.status(500).json({ message: "Failed to fetch membership plans" });
+    }
+  });
+
+  // Admin: Create a membership plan
+  app.post("/api/admin/membership-plans", isAdmin, async (req, res) => {
+    try {
+      const parsed = planSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid plan" });
+      }
+      res.status(201).json(await storage.createMembershipPlan(parsed.data));
+    } catch (error) {
+      console.error("Error creating membership plan:", error);
+      res.status(500).json({ message: "Failed to create membership plan" });
+    }
+  });
+
+  // Admin: Update a membership plan - price changes apply from each member's next renewal
+  app.put("/api/admin/membership-plans/:id", isAdmin, async (req, res) => {
+    try {
+      const parsed = planSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid plan" });
+      }
+      const plan = await storage.updateMembershipPlan(req.params.id, parsed.data);
+      if (!plan) {
+        return res.status(404).json({ message: "Plan not found" });
+      }
+      res.json(plan);
+    } catch (error) {
+      console.error("Error updating membership plan:", error);
+      res.status(500).json({ message: "Failed to update membership plan" });
+    }
+  });
+
+  // Admin: Every subscription with its member and plan
+  app.get("/api/admin/subscriptions", isAdmin, async (_req, res) => {
+    try {
+      const [allSubscriptions, plans, members] = await Promise.all([
+        storage.getAllSubscriptions(),
+        storage.getAllMembershipPlans(),
+        storage.getAllMembers(),
+      ]);
+      res.json(allSubscriptions.map(subscription => {
+        const member = members.find(m => m.id === subscription.memberId);
+        return {
+          ...subscription,
+          squareCardId: undefined,
+          planName: plans.find(p => p.id === subscription.planId)?.name || "Unknown plan",
+          memberName: member?.name || "Deleted member",
+          memberEmail: member?.email || null,
+        };
+      }));
+    } catch (error) {
+      console.error("Error fetching subscriptions:", error);
+      res.status(500).json({ message: "Failed to fetch subscriptions" });
+    }
+  });
+
+  // Admin: Cancel a subscription immediately
+  app.post("/api/admin/subscriptions/:id/cancel", isAdmin, async (req, res) => {
+    try {
+      const subscription = await storage.updateSubscription(req.params.id, {
+        status: "cancelled",
+        cancelledAt: new Date(),
+        nextBillingAttemptAt: null,
+      });
+      if (!subscription) {
+        return res.status(404).json({ message: "Subscription not found" });
+      }
+      res.json(subscription);
+    } catch (error) {
+      console.error("Error cancelling subscription:", error);
+      res.status(500).json({ message: "Failed to cancel subscription" });
+    }
+  });
+}
@@ -0,0 +1,107 @@
+import { storage } from "./storage";
+import { sendWaitlistOfferEmail } from "./email";
+import { getMemberContact } from "./guardians";
+import type { BoxingClass, WaitlistEntry } from "@shared/schema";
+import { format, parseISO } from "date-fns";
+import { getClassStart } from "./clubTime";
+
+const SITE_URL = process.env.SITE_URL || "https://milltownabc.co.uk";
+const CLAIM_WINDOW_MS = 12 * 60 * 60 * 1000; // 12 hours to book (and pay) once offered
+
+function isLiveOffer(entry: WaitlistEntry, now: Date): boolean {
+  return entry.status === "offered" && !!entry.offerExpiresAt && new Date(entry.offerExpiresAt) > now;
+}
+
+// Places a member can book, counting places held for other people's waitlist offers as taken.
+// Returns null when the class has no capacity limit.
+export async function getPlacesLeft(boxingClass: BoxingClass, memberId?: string): Promise<number | null> {
+  if (boxingClass.capacity == null) return null;
+
+  const now = new Date();
+  const waitlist = await storage.getWaitlistByClass(boxingClass.id);
+  const heldForOthers = waitlist.filter(e => isLiveOffer(e, now) && e.memberId !== memberId).length;
+
+  return boxingClass.capacity - (boxingClass.bookedCount || 0) - heldForOthers;
+}
+
+// Offer freed places to the next people on the waitlist, in the order they joined
+export async function promoteFromWaitlist(classId: string): Promise<number> {
+  const now = new Date();
+  let promoted = 0;
+
+  // Re-read the class every pass so bookedCount reflects bookings made meanwhile
+  while (true) {
+    const boxingClass = await storage.getClass(classId);
+    if (!boxingClass || !boxingClass.isActive) break;
+
+    const classStart = getClassStart(boxingClass);
+    if (classStart <= now) break;
+
+    const placesLeft = await getPlacesLeft(boxingClass);
+    if (placesLeft === null || placesLeft <= 0) break;
+
+    const next = await storage.getNextWaitingEntry(classId);
+    if (!next) break;
+
+    const member = await storage.getMemberById(next.memberId);
+    if (!member) {
+      await storage.updateWaitlistEntry(next.id, { status: "cancelled" });
+      continue;
+    }
+
+    // Never hold a place past the start of the class
+    const offerExpiresAt = new Date(Math.min(now.getTime() + CLAIM_WINDOW_MS, classStart.getTime()));
+    await storage.updateWaitlistEntry(next.id, {
+      status: "offered",
+      offeredAt: now,
+      offerExpiresAt,
+    });
+    promoted++;
+    console.log(`[Waitlist] Offered place in class ${classId} to member ${member.id} until ${offerExpiresAt.toISOString()}`);
+
+    const contact = await getMemberContact(member);
+    if (contact) {
+      sendWaitlistOfferEmail({
+        ...contact,
+        sessionTitle: boxingClass.title,
+        sessionDate: format(parseISO(boxingClass.date), "EEEE, MMMM d, yyyy"),
+        sessionTime: boxingClass.time,
+        claimBy: format(offerExpiresAt, "EEEE d MMMM 'at' HH:mm"),
+        bookingUrl: `${SITE_URL}/sessions`,
+      }).catch(err => console.error("[Email] Failed to send waitlist offer email:", err));
+    }
+  }
+
+  return promoted;
+}
+
+// Expire unclaimed offers and pass the place on to whoever is next
+export async function expireWaitlistOffers(): Promise<number> {
+  try {
+    const expired = await storage.getExpiredWaitlistOffers(new Date());
+    const classIds = new Set<string>();
+
+    for (const entry of expired) {
+      await storage.updateWaitlistEntry(entry.id, { status: "expired" });
+      classIds.add(entry.classId);
+      console.log(`[Waitlist] Offer ${entry.id} expired unclaimed`);
+    }
+
+    for (const classId of Array.from(classIds)) {
+      await promoteFromWaitlist(classId);
+    }
+
+    return expired.length;
+  } catch (error) {
+    console.error("[Waitlist] Error expiring offers:", error);
+    return 0;
+  }
+}
+
+// Mark a member's waitlist place as used once they have booked the class
+export async function claimWaitlistEntry(classId: string, memberId: string): Promise<void> {
+  const entry = await storage.getActiveWaitlistEntry(classId, memberId);
+  if (entry) {
+    await storage.updateWaitlistEntry(entry.id, { status: "claimed" });
+  }
+}
@@ -0,0 +1,83 @@
+// Class dates and times are the club's wall clock ("2027-03-28", "18:45"). These helpers turn them into
+// real instants and back for a given IANA timezone, so nothing depends on where the server happens to run.
+
+export const DEFAULT_CLUB_TIMEZONE = "Europe/London";
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function wallClock(instant: Date, timeZone: string): WallClock {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parseInt(parts.find(p => p.type === type)?.value || "0", 10);
+  return { year: part("year"), month: part("month"), day: part("day"), hour: part("hour"), minute: part("minute"), second: part("second") };
+}
+
+// How far the zone's clocks are ahead of UTC at that instant
+function utcOffsetMs(instant: Date, timeZone: string): number {
+  const clock = wallClock(instant, timeZone);
+  const asUtc = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// The club's calendar date (yyyy-MM-dd) at an instant
+export function zonedDate(instant: Date, timeZone: string): string {
+  const clock = wallClock(instant, timeZone);
+  return `${clock.year}-${pad(clock.month)}-${pad(clock.day)}`;
+}
+
+// The club's wall-clock time (HH:mm) at an instant
+export function zonedTime(instant: Date, timeZone: string): string {
+  const clock = wallClock(instant, timeZone);
+  return `${pad(clock.hour)}:${pad(clock.minute)}`;
+}
+
+// The instant a wall-clock date and time ("HH:mm" or "HH:mm:ss") happen in the zone.
+// A time the clocks skip when they go forward lands an hour later; one they repeat going back takes the second.
+export function zonedDateTime(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute, second = 0] = time.split(":").map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  const firstGuess = asUtc - utcOffsetMs(new Date(asUtc), timeZone);
+  const offset = utcOffsetMs(new Date(firstGuess), timeZone);
+  return new Date(asUtc - offset);
+}
+
+// Calendar arithmetic on yyyy-MM-dd dates - no timezone involved, so it can't slip a day
+export function addDaysToDate(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`;
+}
+
+// 0 = Sunday, matching classTemplates.dayOfWeek
+export function dayOfWeekOfDate(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
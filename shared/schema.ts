@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, jsonb, boolean, integer, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, jsonb, boolean, integer, decimal, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,12 +9,13 @@ export * from "./models/auth";
 export const members = pgTable("members", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: varchar("name", { length: 255 }).notNull(),
-  email: varchar("email", { length: 255 }).notNull().unique(),
+  // Juniors managed by a guardian have no email or password of their own - they can't log in
+  email: varchar("email", { length: 255 }).unique(),
   phone: varchar("phone", { length: 20 }).unique(),
   age: integer("age"),
   emergencyContactName: varchar("emergency_contact_name", { length: 255 }),
   emergencyContactPhone: varchar("emergency_contact_phone", { length: 20 }),
-  passwordHash: varchar("password_hash", { length: 255 }).notNull(),
+  passwordHash: varchar("password_hash", { length: 255 }),
   experienceLevel: varchar("experience_level", { length: 50 }).default("beginner"),
   isAdmin: boolean("is_admin").default(false),
   hasUsedFreeSession: boolean("has_used_free_session").default(false),
@@ -23,6 +24,22 @@ export const members = pgTable("members", {
   emailVerificationToken: varchar("email_verification_token", { length: 255 }),
   passwordResetToken: varchar("password_reset_token", { length: 255 }),
   passwordResetExpires: timestamp("password_reset_expires"),
+  // Concession pricing for students etc. - juniors qualify automatically by age
+  hasConcession: boolean("has_concession").default(false),
+  // Holds a current England Boxing competition card - set by a coach
+  isCarded: boolean("is_carded").default(false),
+  // Competitive boxer profile - dates are yyyy-MM-dd on the club's calendar
+  englandBoxingNumber: varchar("england_boxing_number", { length: 50 }),
+  medicalExpiresOn: varchar("medical_expires_on", { length: 10 }),
+  lastCompetedOn: varchar("last_competed_on", { length: 10 }),
+  // The expiry date the 30-day reminder went out for, so a renewed medical gets its own reminder
+  medicalReminderSentFor: varchar("medical_reminder_sent_for", { length: 10 }),
+  // Opted in (by the boxer, or a junior's guardian) to a public fight record page
+  publicProfile: boolean("public_profile").default(false),
+  // Set on a junior's profile: the member who books for them and gets their emails
+  guardianId: varchar("guardian_id").references((): AnyPgColumn => members.id, { onDelete: "set null" }),
+  // When the guardian consented to the junior training
+  guardianConsentAt: timestamp("guardian_consent_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -34,7 +51,17 @@ export const classTemplates = pgTable("class_templates", {
   title: varchar("title", { length: 255 }).notNull(),
   classType: varchar("class_type", { length: 100 }).notNull(),
   duration: integer("duration").default(60),
+  capacity: integer("capacity").default(12),
+  // Null prices fall back to the class type default in the pricing settings
+  price: decimal("price", { precision: 10, scale: 2 }),
+  concessionPrice: decimal("concession_price", { precision: 10, scale: 2 }),
   description: text("description"),
+  // Who the class is for - copied to its sessions. Null or false means no restriction
+  minAge: integer("min_age"),
+  maxAge: integer("max_age"),
+  minExperienceLevel: varchar("min_experience_level", { length: 50 }),
+  requiresCarded: boolean("requires_carded").default(false),
+  requiresMedical: boolean("requires_medical").default(false),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -45,13 +72,26 @@ export const boxingClasses = pgTable("boxing_classes", {
   title: varchar("title", { length: 255 }).notNull(),
   description: text("description"),
   classType: varchar("class_type", { length: 100 }).notNull(),
+  // The weekly template this session was generated from - null for one-off classes
+  templateId: varchar("template_id").references(() => classTemplates.id, { onDelete: "set null" }),
   date: varchar("date", { length: 10 }).notNull(),
   time: varchar("time", { length: 10 }).notNull(),
+  // date + time on the club's clock, as an instant - kept in step by storage
+  startsAt: timestamp("starts_at", { withTimezone: true }),
   duration: integer("duration").default(60),
   capacity: integer("capacity").default(12),
   bookedCount: integer("booked_count").default(0),
-  price: decimal("price", { precision: 10, scale: 2 }).default("15.00"),
+  price: decimal("price", { precision: 10, scale: 2 }).default("5.00"),
+  concessionPrice: decimal("concession_price", { precision: 10, scale: 2 }),
+  // Who the class is for - null or false means no restriction
+  minAge: integer("min_age"),
+  maxAge: integer("max_age"),
+  minExperienceLevel: varchar("min_experience_level", { length: 50 }),
+  requiresCarded: boolean("requires_carded").default(false),
+  requiresMedical: boolean("requires_medical").default(false),
   isActive: boolean("is_active").default(true),
+  // An admin took this session out of its series - the generator mustn't put it back
+  removedFromSeries: boolean("removed_from_series").default(false),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -66,15 +106,354 @@ export const bookings = pgTable("bookings", {
   isFreeSession: boolean("is_free_session").default(false),
   price: decimal("price", { precision: 10, scale: 2 }).default("5.00"),
   bookedAt: timestamp("booked_at").defaultNow(),
+  checkedInAt: timestamp("checked_in_at"),
+  // Card refunds on cancellation: pending -> refunded | failed, or not_eligible under the refund policy
+  refundStatus: varchar("refund_status", { length: 20 }),
+  refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }),
+  squareRefundId: varchar("square_refund_id", { length: 255 }),
+  refundedAt: timestamp("refunded_at"),
+  // Set when a cash booking is confirmed, so the money can be matched against the count
+  cashSessionId: varchar("cash_session_id").references(() => cashSessions.id),
   // For preserving financial records when member deletes account
   memberDeleted: boolean("member_deleted").default(false),
   deletedMemberName: varchar("deleted_member_name", { length: 100 }),
+}, (table) => [
+  // A member can only hold one live (non-cancelled) booking per class
+  uniqueIndex("bookings_member_class_live_idx")
+    .on(table.memberId, table.classId)
+    .where(sql`${table.status} <> 'cancelled'`),
+]);
+
+// Waitlist for full classes - entries move waiting -> offered -> claimed/expired
+export const waitlistEntries = pgTable("waitlist_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  classId: varchar("class_id").notNull().references(() => boxingClasses.id),
+  memberId: varchar("member_id").notNull().references(() => members.id),
+  status: varchar("status", { length: 20 }).default("waiting"),
+  offeredAt: timestamp("offered_at"),
+  offerExpiresAt: timestamp("offer_expires_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  // A member can only be waiting on (or holding an offer for) a class once
+  uniqueIndex("waitlist_entries_class_member_live_idx")
+    .on(table.classId, table.memberId)
+    .where(sql`${table.status} IN ('waiting', 'offered')`),
+]);
+
+// Door tablets - they authenticate with a device token, never an admin session
+export const kioskDevices = pgTable("kiosk_devices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 100 }).notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  isActive: boolean("is_active").default(true),
+  lastSeenAt: timestamp("last_seen_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Prepaid session credits - each row is a pack bought by or granted to a member
+export const creditPacks = pgTable("credit_packs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  memberId: varchar("member_id").references(() => members.id),
+  source: varchar("source", { length: 20 }).notNull(), // purchase | grant
+  name: varchar("name", { length: 100 }).notNull(),
+  creditsTotal: integer("credits_total").notNull(),
+  creditsRemaining: integer("credits_remaining").notNull(),
+  price: decimal("price", { precision: 10, scale: 2 }).default("0.00"),
+  squarePaymentId: varchar("square_payment_id", { length: 255 }),
+  expiresAt: timestamp("expires_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Every change to a member's credits, so the balance can always be explained
+export const creditLedger = pgTable("credit_ledger", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  memberId: varchar("member_id").references(() => members.id),
+  packId: varchar("pack_id").references(() => creditPacks.id),
+  bookingId: varchar("booking_id").references(() => bookings.id),
+  change: integer("change").notNull(),
+  reason: varchar("reason", { length: 20 }).notNull(), // purchase | grant | adjustment | booking | cancellation
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Monthly (or weekly) membership plans - null includedSessions means unlimited training
+export const membershipPlans = pgTable("membership_plans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description"),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  interval: varchar("interval", { length: 10 }).notNull().default("month"), // month | week
+  includedSessions: integer("included_sessions"),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A member's plan, billed from our scheduler against the card saved on their Square customer.
+// Status: active -> past_due (renewal failed, still in grace) -> suspended, or cancelled
+export const subscriptions = pgTable("subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  memberId: varchar("member_id").references(() => members.id),
+  planId: varchar("plan_id").notNull().references(() => membershipPlans.id),
+  status: varchar("status", { length: 20 }).notNull().default("active"),
+  squareCardId: varchar("square_card_id", { length: 255 }),
+  cardBrand: varchar("card_brand", { length: 50 }),
+  cardLast4: varchar("card_last4", { length: 4 }),
+  currentPeriodStart: timestamp("current_period_start").notNull(),
+  currentPeriodEnd: timestamp("current_period_end").notNull(),
+  nextBillingAttemptAt: timestamp("next_billing_attempt_at"),
+  failedAttempts: integer("failed_attempts").default(0),
+  graceEndsAt: timestamp("grace_ends_at"),
+  cancelAtPeriodEnd: boolean("cancel_at_period_end").default(false),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  // One live plan per member - suspended plans are reactivated rather than replaced
+  uniqueIndex("subscriptions_member_live_idx")
+    .on(table.memberId)
+    .where(sql`${table.status} <> 'cancelled'`),
+]);
+
+// Every charge attempt against a subscription, successful or not
+export const subscriptionPayments = pgTable("subscription_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  subscriptionId: varchar("subscription_id").notNull().references(() => subscriptions.id),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull(), // paid | failed
+  squarePaymentId: varchar("square_payment_id", { length: 255 }),
+  error: text("error"),
+  periodStart: timestamp("period_start"),
+  periodEnd: timestamp("period_end"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Square webhook deliveries we've handled - keyed by Square's event_id so redeliveries are ignored
+export const squareWebhookEvents = pgTable("square_webhook_events", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  type: varchar("type", { length: 100 }).notNull(),
+  receivedAt: timestamp("received_at").defaultNow(),
+});
+
+// Payments that need an admin to look at them, raised by webhooks and the nightly reconciliation
+export const paymentIssues = pgTable("payment_issues", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  squarePaymentId: varchar("square_payment_id", { length: 255 }).notNull(),
+  bookingId: varchar("booking_id").references(() => bookings.id),
+  kind: varchar("kind", { length: 30 }).notNull(), // unknown_payment | missing_payment | amount_mismatch | payment_failed | refund_mismatch | dispute
+  detail: text("detail").notNull(),
+  status: varchar("status", { length: 20 }).default("open"), // open | resolved
+  createdAt: timestamp("created_at").defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
+}, (table) => [
+  // Re-running reconciliation updates an open issue instead of raising it twice
+  uniqueIndex("payment_issues_open_idx")
+    .on(table.squarePaymentId, table.kind)
+    .where(sql`${table.status} = 'open'`),
+]);
+
+// Discount codes for promotions - percent or fixed amount off the member's class price
+export const promoCodes = pgTable("promo_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: varchar("code", { length: 40 }).notNull().unique(), // stored upper-case
+  description: text("description"),
+  discountType: varchar("discount_type", { length: 10 }).notNull(), // percent | fixed
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull(),
+  classTypes: jsonb("class_types").$type<string[]>(), // null = any class type
+  validFrom: timestamp("valid_from"),
+  validUntil: timestamp("valid_until"),
+  maxRedemptions: integer("max_redemptions"), // null = unlimited
+  maxPerMember: integer("max_per_member").default(1), // null = unlimited
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One row per booking a code was used on - cancelled bookings stop counting towards the limits
+export const promoRedemptions = pgTable("promo_redemptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  promoCodeId: varchar("promo_code_id").notNull().references(() => promoCodes.id),
+  memberId: varchar("member_id").references(() => members.id),
+  bookingId: varchar("booking_id").references(() => bookings.id),
+  originalPrice: decimal("original_price", { precision: 10, scale: 2 }).notNull(),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull(),
+  // Set when the booking is cancelled, which gives the use back - kept here so it outlives the booking
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Prepaid gift vouchers - the balance is spent against class prices until it runs out
+export const giftVouchers = pgTable("gift_vouchers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: varchar("code", { length: 20 }).notNull().unique(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  balance: decimal("balance", { precision: 10, scale: 2 }).notNull(),
+  purchaserMemberId: varchar("purchaser_member_id").references(() => members.id),
+  purchaserName: varchar("purchaser_name", { length: 255 }).notNull(),
+  recipientName: varchar("recipient_name", { length: 255 }).notNull(),
+  recipientEmail: varchar("recipient_email", { length: 255 }).notNull(),
+  message: text("message"),
+  squarePaymentId: varchar("square_payment_id", { length: 255 }),
+  status: varchar("status", { length: 20 }).default("active"), // active | voided
+  voidedAt: timestamp("voided_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Every change to a voucher's balance: spent on a booking (negative) or given back on cancellation (positive)
+export const giftVoucherLedger = pgTable("gift_voucher_ledger", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  voucherId: varchar("voucher_id").notNull().references(() => giftVouchers.id),
+  memberId: varchar("member_id").references(() => members.id),
+  bookingId: varchar("booking_id").references(() => bookings.id),
+  change: decimal("change", { precision: 10, scale: 2 }).notNull(),
+  reason: varchar("reason", { length: 30 }).notNull(), // booking | cancellation
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Cards members chose to keep on their Square customer for quicker booking
+export const savedCards = pgTable("saved_cards", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  memberId: varchar("member_id").notNull().references(() => members.id),
+  squareCardId: varchar("square_card_id", { length: 255 }).notNull().unique(),
+  cardBrand: varchar("card_brand", { length: 30 }),
+  last4: varchar("last4", { length: 4 }),
+  expMonth: integer("exp_month"),
+  expYear: integer("exp_year"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Cash taken at one class. Confirmed cash bookings are linked to it, then the tin is counted and the session closed.
+// The class details are copied in so takings reports survive the class being deleted.
+export const cashSessions = pgTable("cash_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  classId: varchar("class_id").unique().references(() => boxingClasses.id),
+  classTitle: varchar("class_title", { length: 255 }).notNull(),
+  classDate: varchar("class_date", { length: 10 }).notNull(),
+  classTime: varchar("class_time", { length: 10 }).notNull(),
+  status: varchar("status", { length: 20 }).default("open"), // open | closed
+  expectedAmount: decimal("expected_amount", { precision: 10, scale: 2 }), // fixed from the linked bookings at close
+  countedAmount: decimal("counted_amount", { precision: 10, scale: 2 }),
+  collectedBy: varchar("collected_by", { length: 255 }), // the coach who took the money
+  closedByMemberId: varchar("closed_by_member_id").references(() => members.id),
+  notes: text("notes"),
+  openedAt: timestamp("opened_at").defaultNow(),
+  closedAt: timestamp("closed_at"),
+});
+
+// Days the club is shut - bank holidays, community centre closures. The class generator skips them.
+export const closures = pgTable("closures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  startDate: varchar("start_date", { length: 10 }).notNull(), // yyyy-MM-dd, inclusive
+  endDate: varchar("end_date", { length: 10 }).notNull(),
+  reason: varchar("reason", { length: 255 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Receipts for bookings and payments. Numbers run on from the last one issued with no gaps, for the club's records.
+// Everything printed is copied in when it's issued, so a receipt reads the same however the booking changes later.
+export const receipts = pgTable("receipts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  receiptNumber: integer("receipt_number").notNull().unique(),
+  kind: varchar("kind", { length: 20 }).notNull(), // booking | credit_pack | subscription | gift_voucher
+  sourceId: varchar("source_id").notNull(), // the booking, pack, subscription payment or voucher it's for
+  memberId: varchar("member_id").references(() => members.id),
+  memberName: varchar("member_name", { length: 255 }).notNull(),
+  memberEmail: varchar("member_email", { length: 255 }),
+  description: text("description").notNull(),
+  classDate: varchar("class_date", { length: 10 }),
+  classTime: varchar("class_time", { length: 10 }),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  paymentMethod: varchar("payment_method", { length: 30 }).notNull(),
+  paymentReference: varchar("payment_reference", { length: 255 }),
+  paidAt: timestamp("paid_at"),
+  issuedAt: timestamp("issued_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("receipts_source_idx").on(table.kind, table.sourceId),
+]);
+
+// A coach letting one member book one class they don't meet the rules for
+export const eligibilityOverrides = pgTable("eligibility_overrides", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  classId: varchar("class_id").notNull().references(() => boxingClasses.id, { onDelete: "cascade" }),
+  memberId: varchar("member_id").notNull().references(() => members.id, { onDelete: "cascade" }),
+  grantedBy: varchar("granted_by").references(() => members.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("eligibility_overrides_class_member_idx").on(table.classId, table.memberId),
+]);
+
+// Forms members sign before they train - health questionnaire (PAR-Q), photography consent, parental consent.
+// Changing what a form says bumps its version, and everyone it applies to has to sign it again.
+export const consentDocuments = pgTable("consent_documents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: varchar("title", { length: 255 }).notNull(),
+  body: text("body").notNull(),
+  questions: jsonb("questions").$type<string[]>().notNull().default([]), // yes/no questions - a "yes" is flagged to coaches
+  appliesTo: varchar("applies_to", { length: 20 }).notNull().default("everyone"), // everyone | juniors | adults
+  allowDecline: boolean("allow_decline").default(false), // members can say no (e.g. to photos) and still train
+  version: integer("version").notNull().default(1),
+  isActive: boolean("is_active").default(true),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One member's typed signature on one version of a form. Guardians sign for their juniors.
+export const documentSignatures = pgTable("document_signatures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => consentDocuments.id),
+  memberId: varchar("member_id").notNull().references(() => members.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  agreed: boolean("agreed").notNull().default(true),
+  answers: jsonb("answers").$type<boolean[]>(), // in the order of the document's questions
+  signatureName: varchar("signature_name", { length: 255 }).notNull(),
+  signedBy: varchar("signed_by").references(() => members.id, { onDelete: "set null" }),
+  signedAt: timestamp("signed_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("document_signatures_document_member_version_idx").on(table.documentId, table.memberId, table.version),
+]);
+
+// One competitive bout on a boxer's record - entered by coaches after each show
+export const bouts = pgTable("bouts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  memberId: varchar("member_id").notNull().references(() => members.id, { onDelete: "cascade" }),
+  boutDate: varchar("bout_date", { length: 10 }).notNull(), // yyyy-MM-dd
+  opponentName: varchar("opponent_name", { length: 255 }).notNull(),
+  opponentClub: varchar("opponent_club", { length: 255 }),
+  showName: varchar("show_name", { length: 255 }),
+  weightClass: varchar("weight_class", { length: 50 }),
+  result: varchar("result", { length: 10 }).notNull(), // win | loss | draw
+  method: varchar("method", { length: 20 }).notNull(), // see boutMethods
+  notes: text("notes"), // coaches only - never shown on the public profile
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const insertMemberSchema = createInsertSchema(members).omit({ id: true, createdAt: true, squareCustomerId: true, emailVerificationToken: true, emailVerified: true });
-export const insertBoxingClassSchema = createInsertSchema(boxingClasses).omit({ id: true, createdAt: true, bookedCount: true });
+export const insertBoxingClassSchema = createInsertSchema(boxingClasses).omit({ id: true, createdAt: true, bookedCount: true, startsAt: true });
 export const insertBookingSchema = createInsertSchema(bookings).omit({ id: true, bookedAt: true });
 export const insertClassTemplateSchema = createInsertSchema(classTemplates).omit({ id: true, createdAt: true });
+export const insertWaitlistEntrySchema = createInsertSchema(waitlistEntries).omit({ id: true, createdAt: true });
+export const insertKioskDeviceSchema = createInsertSchema(kioskDevices).omit({ id: true, createdAt: true });
+export const insertCreditPackSchema = createInsertSchema(creditPacks).omit({ id: true, createdAt: true });
+export const insertCreditLedgerSchema = createInsertSchema(creditLedger).omit({ id: true, createdAt: true });
+export const insertMembershipPlanSchema = createInsertSchema(membershipPlans).omit({ id: true, createdAt: true });
+export const insertSubscriptionSchema = createInsertSchema(subscriptions).omit({ id: true, createdAt: true });
+export const insertSubscriptionPaymentSchema = createInsertSchema(subscriptionPayments).omit({ id: true, createdAt: true });
+export const insertPaymentIssueSchema = createInsertSchema(paymentIssues).omit({ id: true, createdAt: true });
+export const insertPromoCodeSchema = createInsertSchema(promoCodes, {
+  classTypes: z.array(z.string()).nullable().optional(),
+}).omit({ id: true, createdAt: true });
+export const insertPromoRedemptionSchema = createInsertSchema(promoRedemptions).omit({ id: true, createdAt: true });
+export const insertGiftVoucherSchema = createInsertSchema(giftVouchers).omit({ id: true, createdAt: true, status: true, voidedAt: true });
+export const insertGiftVoucherLedgerSchema = createInsertSchema(giftVoucherLedger).omit({ id: true, createdAt: true });
+export const insertSavedCardSchema = createInsertSchema(savedCards).omit({ id: true, createdAt: true });
+export const insertCashSessionSchema = createInsertSchema(cashSessions).omit({ id: true, openedAt: true });
+export const insertClosureSchema = createInsertSchema(closures).omit({ id: true, createdAt: true });
+export const insertReceiptSchema = createInsertSchema(receipts).omit({ id: true, receiptNumber: true, issuedAt: true });
+export const insertEligibilityOverrideSchema = createInsertSchema(eligibilityOverrides).omit({ id: true, createdAt: true });
+export const insertConsentDocumentSchema = createInsertSchema(consentDocuments, {
+  questions: z.array(z.string()).optional(),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertDocumentSignatureSchema = createInsertSchema(documentSignatures, {
+  answers: z.array(z.boolean()).nullable().optional(),
+}).omit({ id: true, signedAt: true });
+export const insertBoutSchema = createInsertSchema(bouts).omit({ id: true, createdAt: true });
 
 export type InsertMember = z.infer<typeof insertMemberSchema>;
 export type Member = typeof members.$inferSelect;
@@ -82,8 +461,115 @@ export type InsertBoxingClass = z.infer<typeof insertBoxingClassSchema>;
 export type BoxingClass = typeof boxingClasses.$inferSelect;
 export type InsertBooking = z.infer<typeof insertBookingSchema>;
 export type Booking = typeof bookings.$inferSelect;
+
+export const experienceLevels = ["beginner", "intermediate", "advanced"] as const;
+export type ExperienceLevel = typeof experienceLevels[number];
+
+// An edit made from one generated session can stay on it, carry on to every session after it, or change the whole series
+export const seriesScopes = ["occurrence", "future", "series"] as const;
+export type SeriesScope = typeof seriesScopes[number];
+
+// Booking lifecycle: pending / pending_cash -> confirmed -> attended | no_show, or cancelled
+export const bookingStatuses = ["pending", "pending_cash", "confirmed", "attended", "no_show", "cancelled"] as const;
+export type BookingStatus = typeof bookingStatuses[number];
+
+// Whether the club has been paid for a booking (free sessions included).
+// Cash is taken on arrival, so a cash booking that ends as a no-show was never paid.
+export function isPaidBooking(booking: { status: string | null; paymentMethod?: string | null }): boolean {
+  if (booking.status === "confirmed" || booking.status === "attended") return true;
+  return booking.status === "no_show" && booking.paymentMethod !== "cash";
+}
 export type InsertClassTemplate = z.infer<typeof insertClassTemplateSchema>;
 export type ClassTemplate = typeof classTemplates.$inferSelect;
+export type InsertWaitlistEntry = z.infer<typeof insertWaitlistEntrySchema>;
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+export type InsertKioskDevice = z.infer<typeof insertKioskDeviceSchema>;
+export type KioskDevice = typeof kioskDevices.$inferSelect;
+export type InsertCreditPack = z.infer<typeof insertCreditPackSchema>;
+export type CreditPack = typeof creditPacks.$inferSelect;
+export type InsertCreditLedgerEntry = z.infer<typeof insertCreditLedgerSchema>;
+export type CreditLedgerEntry = typeof creditLedger.$inferSelect;
+export type InsertMembershipPlan = z.infer<typeof insertMembershipPlanSchema>;
+export type MembershipPlan = typeof membershipPlans.$inferSelect;
+export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
+export type Subscription = typeof subscriptions.$inferSelect;
+export type InsertSubscriptionPayment = z.infer<typeof insertSubscriptionPaymentSchema>;
+export type SubscriptionPayment = typeof subscriptionPayments.$inferSelect;
+export type InsertPaymentIssue = z.infer<typeof insertPaymentIssueSchema>;
+export type PaymentIssue = typeof paymentIssues.$inferSelect;
+export type InsertPromoCode = z.infer<typeof insertPromoCodeSchema>;
+export type PromoCode = typeof promoCodes.$inferSelect;
+export type InsertPromoRedemption = z.infer<typeof insertPromoRedemptionSchema>;
+export type PromoRedemption = typeof promoRedemptions.$inferSelect;
+export type InsertGiftVoucher = z.infer<typeof insertGiftVoucherSchema>;
+export type GiftVoucher = typeof giftVouchers.$inferSelect;
+export type InsertGiftVoucherLedgerEntry = z.infer<typeof insertGiftVoucherLedgerSchema>;
+export type GiftVoucherLedgerEntry = typeof giftVoucherLedger.$inferSelect;
+export type InsertSavedCard = z.infer<typeof insertSavedCardSchema>;
+export type SavedCard = typeof savedCards.$inferSelect;
+export type InsertCashSession = z.infer<typeof insertCashSessionSchema>;
+export type CashSession = typeof cashSessions.$inferSelect;
+export type InsertClosure = z.infer<typeof insertClosureSchema>;
+export type Closure = typeof closures.$inferSelect;
+export type InsertReceipt = z.infer<typeof insertReceiptSchema>;
+export type Receipt = typeof receipts.$inferSelect;
+export type InsertEligibilityOverride = z.infer<typeof insertEligibilityOverrideSchema>;
+export type EligibilityOverride = typeof eligibilityOverrides.$inferSelect;
+export type InsertConsentDocument = z.infer<typeof insertConsentDocumentSchema>;
+export type ConsentDocument = typeof consentDocuments.$inferSelect;
+export type InsertDocumentSignature = z.infer<typeof insertDocumentSignatureSchema>;
+export type DocumentSignature = typeof documentSignatures.$inferSelect;
+export type InsertBout = z.infer<typeof insertBoutSchema>;
+export type Bout = typeof bouts.$inferSelect;
+
+export const documentAudiences = ["everyone", "juniors", "adults"] as const;
+export type DocumentAudience = typeof documentAudiences[number];
+
+// Juniors are anyone on a guardian's account or under 18
+export function documentAppliesTo(document: Pick<ConsentDocument, "appliesTo">, member: Pick<Member, "age" | "guardianId">): boolean {
+  if (document.appliesTo === "everyone") return true;
+  const isJunior = !!member.guardianId || (member.age != null && member.age < 18);
+  return document.appliesTo === "juniors" ? isJunior : !isJunior;
+}
+
+export const boutResults = ["win", "loss", "draw"] as const;
+export type BoutResult = typeof boutResults[number];
+
+// How a bout was decided - amateur bouts mostly go to points
+export const boutMethods = ["points", "rsc", "ko", "walkover", "disqualification", "retired"] as const;
+export type BoutMethod = typeof boutMethods[number];
+
+export const boutMethodLabels: Record<BoutMethod, string> = {
+  points: "Points",
+  rsc: "RSC (referee stopped contest)",
+  ko: "KO",
+  walkover: "Walkover",
+  disqualification: "Disqualification",
+  retired: "Retired",
+};
+
+export interface FightRecord {
+  bouts: number;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+export function summariseRecord(bouts: Pick<Bout, "result">[]): FightRecord {
+  return {
+    bouts: bouts.length,
+    wins: bouts.filter(b => b.result === "win").length,
+    losses: bouts.filter(b => b.result === "loss").length,
+    draws: bouts.filter(b => b.result === "draw").length,
+  };
+}
+
+export const receiptKinds = ["booking", "credit_pack", "subscription", "gift_voucher"] as const;
+export type ReceiptKind = typeof receiptKinds[number];
+
+export function formatReceiptNumber(receiptNumber: number): string {
+  return `MTA-${String(receiptNumber).padStart(6, "0")}`;
+}
 
 export const siteContent = pgTable("site_content", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -159,6 +645,8 @@ export const siteSettingsSchema = z.object({
   phone: z.string().optional(),
   email: z.string().optional(),
   address: z.string().optional(),
+  // IANA name - class times are on this clock
+  timezone: z.string().optional(),
   socialLinks: z.object({
     facebook: z.string().optional(),
     twitter: z.string().optional(),
@@ -173,3 +661,131 @@ export const siteSettingsSchema = z.object({
 });
 
 export type SiteSettings = z.infer<typeof siteSettingsSchema>;
+
+const priceString = z.string().regex(/^\d+(\.\d{1,2})?$/, "Enter a price like 5.00");
+
+// A class pack members can buy up front - credits are used instead of paying per session
+export const classPackOfferSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1, "Pack name is required").max(100),
+  credits: z.number().int().min(1).max(100),
+  price: priceString,
+  validDays: z.number().int().min(1).max(730).nullable(),
+});
+
+export type ClassPackOffer = z.infer<typeof classPackOfferSchema>;
+
+// Stored in site_content under the "pricing" key
+export const pricingSettingsSchema = z.object({
+  defaultPrice: priceString,
+  defaultConcessionPrice: priceString.nullable(),
+  juniorMaxAge: z.number().int().min(0).max(25),
+  classTypes: z.record(z.object({
+    price: priceString,
+    concessionPrice: priceString.nullable(),
+  })),
+  packs: z.array(classPackOfferSchema).default([]),
+});
+
+export type PricingSettings = z.infer<typeof pricingSettingsSchema>;
+
+export const defaultPricingSettings: PricingSettings = {
+  defaultPrice: "5.00",
+  defaultConcessionPrice: null,
+  juniorMaxAge: 17,
+  classTypes: {},
+  packs: [],
+};
+
+const windowDays = z.number().int().min(0).max(365);
+
+// Stored in site_content under the "booking-window" key. Sessions are generated and shown `horizonDays` ahead,
+// and members can book from the start of the day `bookingOpensDays` before the session.
+export const bookingWindowSettingsSchema = z.object({
+  horizonDays: windowDays.min(1, "Show at least one day of sessions"),
+  bookingOpensDays: windowDays,
+  // Class types that differ from the club default - a missing value falls back to it
+  classTypes: z.record(z.object({
+    horizonDays: windowDays.min(1, "Show at least one day of sessions").optional(),
+    bookingOpensDays: windowDays.optional(),
+  })).default({}),
+});
+
+export type BookingWindowSettings = z.infer<typeof bookingWindowSettingsSchema>;
+
+export const defaultBookingWindowSettings: BookingWindowSettings = {
+  horizonDays: 14,
+  bookingOpensDays: 14,
+  classTypes: {},
+};
+
+// The price a member pays for a class, before any free-session or discount rules
+export function resolveClassPrice(
+  boxingClass: { price: string | null; concessionPrice?: string | null },
+  isConcession: boolean
+): string {
+  if (isConcession && boxingClass.concessionPrice) return boxingClass.concessionPrice;
+  return boxingClass.price || defaultPricingSettings.defaultPrice;
+}
+
+export type EligibilityRules = Pick<BoxingClass, "minAge" | "maxAge" | "minExperienceLevel" | "requiresCarded" | "requiresMedical">;
+
+const experienceLevelLabels: Record<ExperienceLevel, string> = {
+  beginner: "Beginner",
+  intermediate: "Intermediate",
+  advanced: "Advanced",
+};
+
+function experienceRank(level: string | null | undefined): number {
+  return experienceLevels.indexOf((level || "beginner") as ExperienceLevel);
+}
+
+// Who a class is for, in a few words - shown to everyone on the timetable
+export function describeEligibility(rules: EligibilityRules): string[] {
+  const labels: string[] = [];
+  if (rules.minAge != null && rules.maxAge != null) labels.push(`Ages ${rules.minAge}-${rules.maxAge}`);
+  else if (rules.minAge != null) labels.push(`Ages ${rules.minAge}+`);
+  else if (rules.maxAge != null) labels.push(`Ages ${rules.maxAge} and under`);
+  if (rules.minExperienceLevel && experienceRank(rules.minExperienceLevel) > 0) {
+    labels.push(`${experienceLevelLabels[rules.minExperienceLevel as ExperienceLevel] ?? rules.minExperienceLevel} and up`);
+  }
+  if (rules.requiresCarded) labels.push("Carded boxers");
+  if (rules.requiresMedical) labels.push("In-date medical");
+  return labels;
+}
+
+// England Boxing medicals are valid up to and including their expiry date
+export function hasValidMedical(member: Pick<Member, "medicalExpiresOn">, onDate: string): boolean {
+  return !!member.medicalExpiresOn && member.medicalExpiresOn >= onDate;
+}
+
+// Why a member can't book a class on the given date, one reason per rule they don't meet. Empty when they can.
+export function getEligibilityIssues(
+  rules: EligibilityRules,
+  member: Pick<Member, "age" | "experienceLevel" | "isCarded" | "medicalExpiresOn">,
+  onDate: string
+): string[] {
+  const issues: string[] = [];
+  if (rules.minAge != null || rules.maxAge != null) {
+    if (member.age == null) issues.push("Your age isn't on your profile - ask a coach to add it");
+    else if (rules.minAge != null && member.age < rules.minAge) issues.push(`This class is for ages ${rules.minAge} and over`);
+    else if (rules.maxAge != null && member.age > rules.maxAge) issues.push(`This class is for ages ${rules.maxAge} and under`);
+  }
+  if (rules.minExperienceLevel && experienceRank(member.experienceLevel) < experienceRank(rules.minExperienceLevel)) {
+    const label = experienceLevelLabels[rules.minExperienceLevel as ExperienceLevel] ?? rules.minExperienceLevel;
+    issues.push(`This class needs ${label.toLowerCase()} experience or above`);
+  }
+  if (rules.requiresCarded && !member.isCarded) issues.push("This class is for carded boxers only");
+  if (rules.requiresMedical && !hasValidMedical(member, onDate)) {
+    issues.push(member.medicalExpiresOn
+      ? "Your England Boxing medical will have expired by this class - ask a coach to update it"
+      : "This class needs an in-date England Boxing medical - ask a coach to add yours");
+  }
+  return issues;
+}
+
+// Cards are valid to the end of their expiry month
+export function isCardExpired(card: { expMonth: number | null; expYear: number | null }, now = new Date()): boolean {
+  if (!card.expMonth || !card.expYear) return false;
+  return new Date(card.expYear, card.expMonth, 1) <= now;
+}